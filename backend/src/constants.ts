@@ -3,7 +3,7 @@
 
 export const SYNAPSE_COSTS = {
     // Rate: ongoing cost per byte per epoch
-    // Placeholder values - should be updated with actual testnet values from Synapse contracts
+    // Placeholder values, only used until PricingService has read the live prices
     BYTES_RATE: 100n,
     
     // Lockup: upfront deposit per byte (returned when storage ends)
@@ -13,34 +13,197 @@ export const SYNAPSE_COSTS = {
     EPOCH_DURATION_SECONDS: 30,
     EPOCHS_PER_DAY: 2880n,
     SECONDS_PER_DAY: 86400,
+
+    // Synapse locks up this many days of rate when a piece is added
+    LOCKUP_DAYS: 30n,
+
+    TIB: 1n << 40n,
 };
 
+/**
+ * Prices uploads are charged at, per TiB so the live Synapse prices keep their precision
+ */
+export interface StoragePrices {
+    // USDFC wei per TiB per epoch
+    ratePerTiBPerEpoch: bigint;
+    // USDFC wei per TiB, paid once upfront
+    lockupPerTiB: bigint;
+}
+
+// Used until the live prices have been read
+export const PLACEHOLDER_STORAGE_PRICES: StoragePrices = {
+    ratePerTiBPerEpoch: SYNAPSE_COSTS.BYTES_RATE * SYNAPSE_COSTS.TIB,
+    lockupPerTiB: SYNAPSE_COSTS.BYTES_LOCKUP * SYNAPSE_COSTS.TIB,
+};
+
+/**
+ * Per-TiB amount for fileSizeBytes, rounded up to whole wei
+ */
+function perTiB(fileSizeBytes: number, amountPerTiB: bigint): bigint {
+    return (BigInt(fileSizeBytes) * amountPerTiB + SYNAPSE_COSTS.TIB - 1n) / SYNAPSE_COSTS.TIB;
+}
+
 /**
  * Calculate storage cost using Synapse formula
  * 
  * Formula from Synapse SDK:
- * totalCost = (fileSize × bytesRate × durationEpochs) + (fileSize × bytesLockup)
+ * totalCost = (fileSize × ratePerTiB × durationEpochs) / TiB + (fileSize × lockupPerTiB) / TiB
  * 
  * Where:
  * - fileSize: size of the file in bytes
- * - bytesRate: ongoing cost per byte per epoch
+ * - ratePerTiB: ongoing cost per TiB per epoch
  * - durationEpochs: storage duration in epochs (durationDays × EPOCHS_PER_DAY)
- * - bytesLockup: upfront deposit per byte
+ * - lockupPerTiB: upfront deposit per TiB
+ * 
+ * Each term is rounded up to whole wei.
  * 
  * @param fileSizeBytes File size in bytes
  * @param durationDays Storage duration in days
+ * @param prices Current prices, see PricingService
  * @returns Total cost in USDFC wei
  */
-export function calculateStorageCost(fileSizeBytes: number, durationDays: number): bigint {
+export function calculateStorageCost(fileSizeBytes: number, durationDays: number, prices: StoragePrices): bigint {
     const durationEpochs = BigInt(durationDays) * SYNAPSE_COSTS.EPOCHS_PER_DAY;
-    const fileSize = BigInt(fileSizeBytes);
     
     // Rate cost: ongoing cost over the storage period
-    const rateCost = fileSize * SYNAPSE_COSTS.BYTES_RATE * durationEpochs;
+    const rateCost = perTiB(fileSizeBytes, prices.ratePerTiBPerEpoch * durationEpochs);
     
     // Lockup cost: upfront deposit (returned when storage ends)
-    const lockupCost = fileSize * SYNAPSE_COSTS.BYTES_LOCKUP;
+    const lockupCost = calculateLockupCost(fileSizeBytes, prices);
     
     return rateCost + lockupCost;
 }
 
+/**
+ * Upfront deposit for a file, paid once when it is first stored
+ *
+ * @param fileSizeBytes File size in bytes
+ * @param prices Current prices, see PricingService
+ * @returns Lockup in USDFC wei
+ */
+export function calculateLockupCost(fileSizeBytes: number, prices: StoragePrices): bigint {
+    return perTiB(fileSizeBytes, prices.lockupPerTiB);
+}
+
+/**
+ * Cost of adding days to a file that is already stored.
+ * The lockup was paid with the original upload, so only the rate is charged.
+ *
+ * @param fileSizeBytes File size in bytes
+ * @param additionalDays Days added to the storage period
+ * @param prices Current prices, see PricingService
+ * @returns Cost in USDFC wei
+ */
+export function calculateExtensionCost(fileSizeBytes: number, additionalDays: number, prices: StoragePrices): bigint {
+    return calculateStorageCost(fileSizeBytes, additionalDays, prices) - calculateLockupCost(fileSizeBytes, prices);
+}
+
+/**
+ * Size of the Filecoin piece a file is stored as. Every 127 bytes gain 2 bits of
+ * Fr32 padding and the result is rounded up to a power of two (at least 128 bytes).
+ * Storage is priced on the file size; the padding is reported in quotes only.
+ *
+ * @param fileSizeBytes File size in bytes
+ * @returns Padded piece size in bytes
+ */
+export function calculatePieceSize(fileSizeBytes: number): number {
+    const fr32Size = Math.ceil((fileSizeBytes * 128) / 127);
+    let pieceSize = 128;
+    while (pieceSize < fr32Size) {
+        pieceSize *= 2;
+    }
+    return pieceSize;
+}
+
+/**
+ * How uploads of content that is already stored are charged, set with DEDUP_PRICING:
+ * - full: the same as a new upload
+ * - rate_only: the storage rate for the requested days, without lockup
+ * - free: nothing
+ */
+export const DEDUP_PRICING_POLICIES = ['full', 'rate_only', 'free'] as const;
+export type DedupPricing = typeof DEDUP_PRICING_POLICIES[number];
+
+/**
+ * Cost of a deduplicated upload under the given policy
+ *
+ * @returns Total cost and the part of it paid as lockup, in USDFC wei
+ */
+export function calculateDedupCost(
+    policy: DedupPricing,
+    fileSizeBytes: number,
+    durationDays: number,
+    prices: StoragePrices
+): { cost: bigint; lockup: bigint } {
+    switch (policy) {
+        case 'full':
+            return { cost: calculateStorageCost(fileSizeBytes, durationDays, prices), lockup: calculateLockupCost(fileSizeBytes, prices) };
+        case 'rate_only':
+            return { cost: calculateExtensionCost(fileSizeBytes, durationDays, prices), lockup: 0n };
+        case 'free':
+            return { cost: 0n, lockup: 0n };
+    }
+}
+
+// OnlySwaps router on Filecoin, where bridge deposits to the backend wallet are fulfilled
+// Source: https://docs.dcipher.network/networks/onlyswaps
+export const ONLYSWAPS_FILECOIN = {
+    CHAIN_ID: 314,
+    ROUTER_ADDRESS: '0x6f9f1c10B2a9f1d5a4cFb55f87aa419ad5b25470',
+    RPC_URL: 'https://api.node.glif.io/rpc/v1',
+    // The only token deposits are credited for
+    USDFC_ADDRESS: '0x80B98d3aa09ffff255c3ba4A241111Ff1262F045',
+};
+
+// OnlySwaps routers on the chains bridge deposits are sent from, where the sender
+// of each request is read. RPC URLs are overridable with BRIDGE_SOURCE_RPC_URLS.
+export const ONLYSWAPS_SOURCE_CHAINS: Record<number, { ROUTER_ADDRESS: string; RPC_URL: string }> = {
+    1: { ROUTER_ADDRESS: '0x8F224903363E1DD8B66b9f83DE37f48E5d10f33C', RPC_URL: 'https://ethereum-rpc.publicnode.com' },
+    10: { ROUTER_ADDRESS: '0x8F224903363E1DD8B66b9f83DE37f48E5d10f33C', RPC_URL: 'https://mainnet.optimism.io' },
+    56: { ROUTER_ADDRESS: '0x8F224903363E1DD8B66b9f83DE37f48E5d10f33C', RPC_URL: 'https://bsc-dataseed.bnbchain.org' },
+    8453: { ROUTER_ADDRESS: '0x4cB630aAEA9e152db83A846f4509d83053F21078', RPC_URL: 'https://mainnet.base.org' },
+    42161: { ROUTER_ADDRESS: '0x8F224903363E1DD8B66b9f83DE37f48E5d10f33C', RPC_URL: 'https://arb1.arbitrum.io/rpc' },
+    43114: { ROUTER_ADDRESS: '0x4cB630aAEA9e152db83A846f4509d83053F21078', RPC_URL: 'https://api.avax.network/ext/bc/C/rpc' },
+    59144: { ROUTER_ADDRESS: '0x8F224903363E1DD8B66b9f83DE37f48E5d10f33C', RPC_URL: 'https://rpc.linea.build' },
+    534352: { ROUTER_ADDRESS: '0x8F224903363E1DD8B66b9f83DE37f48E5d10f33C', RPC_URL: 'https://rpc.scroll.io' },
+    // Testnets
+    43113: { ROUTER_ADDRESS: '0xC69DD549B037215BA1Ea9866FFa59603862bf986', RPC_URL: 'https://api.avax-test.network/ext/bc/C/rpc' },
+    84532: { ROUTER_ADDRESS: '0xC69DD549B037215BA1Ea9866FFa59603862bf986', RPC_URL: 'https://sepolia.base.org' },
+};
+
+// Upload size limits, overridable with MAX_UPLOAD_BYTES and MAX_USER_PENDING_BYTES
+export const UPLOAD_LIMITS = {
+    // Largest piece Synapse accepts in a single upload
+    MAX_FILE_BYTES: 200 * 1024 * 1024,
+
+    // Bytes a single user may have queued or in flight at once
+    MAX_USER_PENDING_BYTES: 1024 * 1024 * 1024,
+
+    // Files accepted in one batch upload request
+    MAX_BATCH_FILES: 500,
+
+    // Upload requests a single user may be sending at once
+    MAX_CONCURRENT_UPLOADS: 4,
+
+    // Bytes a single user may queue for storage per UTC day
+    DAILY_UPLOAD_BYTES: 10 * 1024 * 1024 * 1024,
+
+    // Bytes a single user may have stored at once
+    MAX_STORED_BYTES: 100 * 1024 * 1024 * 1024,
+};
+
+// Live pricing, overridable with PRICING_REFRESH_MINUTES and PRICING_MARGIN_BPS
+export const PRICING = {
+    REFRESH_MINUTES: 60,
+
+    // Operator margin on the Synapse storage rate, in basis points (100 = 1%)
+    MARGIN_BPS: 0,
+};
+
+// Local retrieval cache, overridable with RETRIEVAL_CACHE_DIR and RETRIEVAL_CACHE_MAX_BYTES
+export const RETRIEVAL_CACHE = {
+    DIR: './cache',
+
+    // Disk space kept for cached pieces; 0 disables the cache
+    MAX_BYTES: 5 * 1024 * 1024 * 1024,
+};
@@ -1,14 +1,23 @@
 import sqlite3 from 'sqlite3';
+import { AsyncLocalStorage } from 'async_hooks';
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import { SYNAPSE_COSTS } from '../constants.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+export type UserFileStatus = 'active' | 'expiring_soon' | 'expired' | 'deleted';
+
+// private: owner and allowed readers; unlisted: anyone with the CommP; public: also listed
+export type FileVisibility = 'private' | 'public' | 'unlisted';
+
 export interface UserFile {
     id: string;
+    // The uploader; org_id owns the file when it is set
     user_address: string;
+    org_id: string | null;
     file_name: string;
     file_size: number;
     file_hash: string;
@@ -16,7 +25,37 @@ export interface UserFile {
     provider_id: string | null;
     storage_duration_days: number;
     storage_cost: string;
+    // Part of storage_cost paid as lockup; deduplicated uploads may not pay one
+    lockup_cost: string;
     uploaded_at: number | null;
+    // End of the paid storage period; null until the file is stored
+    expires_at: number | null;
+    status: UserFileStatus;
+    // UnixFS root CID when the file is a directory packed as a CAR
+    root_cid: string | null;
+    // JSON EncryptionEnvelope when the client encrypted the file; file_hash is of the ciphertext
+    encryption: string | null;
+    visibility: FileVisibility;
+}
+
+export interface FileReader {
+    file_id: string;
+    reader_address: string;
+    created_at: number;
+}
+
+export type DirectoryEntryKind = 'file' | 'directory';
+
+export interface DirectoryEntry {
+    file_id: string;
+    path: string;
+    parent: string | null;
+    kind: DirectoryEntryKind;
+    cid: string;
+    size: number;
+    file_hash: string | null;
+    // JSON [offset, length][] of a file's content within the CAR
+    ranges: string | null;
 }
 
 export interface UserCredit {
@@ -26,30 +65,479 @@ export interface UserCredit {
     updated_at: number;
 }
 
+export type CreditTransactionType = 'deposit' | 'deduct' | 'refund';
+
 export interface CreditTransaction {
     id: string;
     user_address: string;
-    type: 'deposit' | 'deduct';
+    type: CreditTransactionType;
     amount: string;
     file_id: string | null;
     bridge_request_id: string | null;
     description: string;
+    // Member behind the transaction on an organization account; null on personal accounts
+    member_address: string | null;
+    created_at: number;
+}
+
+export interface AuthNonce {
+    nonce: string;
+    created_at: number;
+    expires_at: number;
+    used_at: number | null;
+}
+
+export interface AuthSession {
+    token_hash: string;
+    user_address: string;
+    created_at: number;
+    expires_at: number;
+}
+
+export interface ApiKey {
+    id: string;
+    key_hash: string;
+    key_prefix: string;
+    user_address: string;
+    name: string;
+    // JSON array of scopes
+    scopes: string;
+    expires_at: number | null;
+    last_used_at: number | null;
+    revoked_at: number | null;
+    created_at: number;
+}
+
+export type CreditHoldStatus = 'held' | 'captured' | 'released';
+
+export interface CreditHold {
+    id: string;
+    user_address: string;
+    file_id: string | null;
+    amount: string;
+    // Settled parts of the hold; a hold stays held until they add up to amount
+    captured_amount: string;
+    released_amount: string;
+    status: CreditHoldStatus;
+    description: string;
+    member_address: string | null;
+    created_at: number;
+    updated_at: number;
+}
+
+export type UploadJobStatus = 'queued' | 'hashing' | 'uploading' | 'stored' | 'failed';
+
+export interface UploadJob {
+    file_id: string;
+    user_address: string;
+    hold_id: string;
+    // Part of a batch hold this job settles; null when the job owns the whole hold
+    hold_share: string | null;
+    spool_path: string;
+    status: UploadJobStatus;
+    attempts: number;
+    next_attempt_at: number;
+    error: string | null;
+    created_at: number;
+    updated_at: number;
+}
+
+export type ResumableUploadStatus = 'receiving' | 'finalizing' | 'queued';
+
+export interface ResumableUpload {
+    id: string;
+    user_address: string;
+    file_name: string;
+    upload_length: number;
+    upload_offset: number;
+    storage_duration_days: number;
+    storage_cost: string | null;
+    quote_id: string | null;
+    org_id: string | null;
+    temp_path: string;
+    status: ResumableUploadStatus;
+    expires_at: number;
+    created_at: number;
+    updated_at: number;
+}
+
+export interface RetrievalCacheEntry {
+    commp: string;
+    file_hash: string;
+    size: number;
+    last_accessed_at: number;
+    created_at: number;
+}
+
+export type StoredObjectStatus = 'active' | 'deleting' | 'deleted';
+
+export interface StoredObject {
+    commp: string;
+    file_hash: string;
+    file_size: number;
+    provider_id: string | null;
+    ref_count: number;
+    status: StoredObjectStatus;
+    created_at: number;
+    updated_at: number;
+}
+
+export interface StorageQuote {
+    id: string;
+    user_address: string;
+    file_size: number;
+    storage_duration_days: number;
+    piece_size: number;
+    rate_cost: string;
+    lockup_cost: string;
+    total_cost: string;
+    signature: string;
+    file_id: string | null;
+    expires_at: number;
+    created_at: number;
+}
+
+export interface ShareLink {
+    id: string;
+    token_hash: string;
+    file_id: string;
+    user_address: string;
+    expires_at: number;
+    // Null for unlimited downloads
+    max_downloads: number | null;
+    download_count: number;
+    revoked_at: number | null;
+    created_at: number;
+}
+
+export interface Organization {
+    id: string;
+    name: string;
+    created_by: string;
+    created_at: number;
+}
+
+export type OrganizationRole = 'owner' | 'admin' | 'uploader' | 'viewer';
+
+export interface OrganizationMember {
+    org_id: string;
+    member_address: string;
+    role: OrganizationRole;
+    // USDFC wei the member may spend from the pool per UTC month; null for no limit
+    spending_limit: string | null;
+    created_at: number;
+    updated_at: number;
+}
+
+export interface WebhookSubscription {
+    id: string;
+    user_address: string;
+    url: string;
+    // HMAC key deliveries are signed with; kept in clear because signing needs it
+    secret: string;
+    // JSON array of event types
+    events: string;
+    description: string | null;
+    created_at: number;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+    id: string;
+    subscription_id: string;
+    user_address: string;
+    // Shared by the deliveries of one event to several subscriptions
+    event_id: string;
+    event: string;
+    // Exact request body, so retries and replays send the same bytes
+    payload: string;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    next_attempt_at: number;
+    // HTTP status of the last attempt; null if no response arrived
+    response_status: number | null;
+    error: string | null;
+    created_at: number;
+    updated_at: number;
+    delivered_at: number | null;
+}
+
+export interface WebhookDeliveryQuery {
+    status?: WebhookDeliveryStatus;
+    order: SortOrder;
+    limit: number;
+    after?: PageCursor;
+}
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Position after the last row of a page: its sort key and id (the tiebreaker)
+ */
+export interface PageCursor {
+    value: string | number;
+    id: string;
+}
+
+export interface Page<T> {
+    rows: T[];
+    // Null on the last page
+    next: PageCursor | null;
+}
+
+export type UserFileSort = 'uploaded_at' | 'file_name' | 'file_size' | 'expires_at';
+
+export interface UserFileQuery {
+    namePrefix?: string;
+    minSize?: number;
+    maxSize?: number;
+    uploadedAfter?: number;
+    uploadedBefore?: number;
+    visibility?: FileVisibility;
+    sort: UserFileSort;
+    order: SortOrder;
+    limit: number;
+    after?: PageCursor;
+}
+
+export type CreditTransactionSort = 'created_at' | 'amount';
+
+export interface CreditTransactionQuery {
+    type?: CreditTransactionType;
+    memberAddress?: string;
+    createdAfter?: number;
+    createdBefore?: number;
+    sort: CreditTransactionSort;
+    order: SortOrder;
+    limit: number;
+    after?: PageCursor;
+}
+
+// Files still uploading have no uploaded_at/expires_at and sort as 0
+const USER_FILE_SORT_KEYS: Record<UserFileSort, string> = {
+    uploaded_at: 'COALESCE(uploaded_at, 0)',
+    file_name: 'file_name',
+    file_size: 'file_size',
+    expires_at: 'COALESCE(expires_at, 0)',
+};
+
+// Amounts are wei strings; zero-padding them makes text order numeric order
+const CREDIT_TRANSACTION_SORT_KEYS: Record<CreditTransactionSort, string> = {
+    created_at: 'created_at',
+    amount: `substr('${'0'.repeat(80)}' || amount, -80)`,
+};
+
+/**
+ * Escape LIKE wildcards so a user-supplied prefix matches literally (with ESCAPE '\')
+ */
+function escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+export type BridgeDepositStatus = 'pending' | 'verified' | 'credited' | 'rejected';
+
+export interface BridgeDeposit {
+    bridge_request_id: string;
+    user_address: string;
+    claimed_amount: string;
+    verified_amount: string | null;
+    status: BridgeDepositStatus;
+    failure_reason: string | null;
+    // Set when the claim did not match what the bridge delivered
+    discrepancy: string | null;
     created_at: number;
+    updated_at: number;
 }
 
+/**
+ * Columns added after a table was first released. CREATE TABLE IF NOT EXISTS leaves
+ * existing tables alone, so these are added to older databases on startup.
+ */
+const COLUMN_MIGRATIONS: { table: string; column: string; definition: string; backfill?: string }[] = [
+    {
+        table: 'user_files',
+        column: 'expires_at',
+        definition: 'INTEGER',
+        backfill: 'UPDATE user_files SET expires_at = uploaded_at + storage_duration_days * 86400000 WHERE uploaded_at IS NOT NULL',
+    },
+    { table: 'user_files', column: 'status', definition: "TEXT NOT NULL DEFAULT 'active'" },
+    {
+        table: 'user_files',
+        column: 'lockup_cost',
+        definition: "TEXT NOT NULL DEFAULT '0'",
+        backfill: `UPDATE user_files SET lockup_cost = CAST(file_size * ${SYNAPSE_COSTS.BYTES_LOCKUP} AS TEXT)`,
+    },
+    { table: 'resumable_uploads', column: 'quote_id', definition: 'TEXT' },
+    { table: 'credit_holds', column: 'captured_amount', definition: "TEXT NOT NULL DEFAULT '0'" },
+    { table: 'credit_holds', column: 'released_amount', definition: "TEXT NOT NULL DEFAULT '0'" },
+    { table: 'upload_jobs', column: 'hold_share', definition: 'TEXT' },
+    { table: 'user_files', column: 'root_cid', definition: 'TEXT' },
+    { table: 'user_files', column: 'encryption', definition: 'TEXT' },
+    { table: 'user_files', column: 'visibility', definition: "TEXT NOT NULL DEFAULT 'private'" },
+    { table: 'user_files', column: 'org_id', definition: 'TEXT' },
+    { table: 'credit_transactions', column: 'member_address', definition: 'TEXT' },
+    { table: 'credit_holds', column: 'member_address', definition: 'TEXT' },
+    { table: 'resumable_uploads', column: 'org_id', definition: 'TEXT' },
+    { table: 'bridge_deposits', column: 'discrepancy', definition: 'TEXT' },
+];
+
+/**
+ * The parts of the sqlite3 connection the Database methods use
+ */
+type Connection = Pick<sqlite3.Database, 'run' | 'get' | 'all' | 'exec' | 'close'>;
+
 export class Database {
-    private db: sqlite3.Database;
+    private db: Connection;
+    private transactionQueue: Promise<unknown> = Promise.resolve();
+    // The transaction holding the connection and when it ends; statements from outside it wait
+    private activeTransaction: { token: object; done: Promise<unknown> } | null = null;
+    private transactionScope = new AsyncLocalStorage<object>();
 
     constructor(dbPath: string) {
-        this.db = new sqlite3.Database(dbPath);
+        const connection = new sqlite3.Database(dbPath);
+        const gated = (method: (...args: any[]) => unknown) => (...args: unknown[]) => {
+            this.whenConnectionFree(() => method.apply(connection, args));
+            return connection;
+        };
+        this.db = {
+            run: gated(connection.run),
+            get: gated(connection.get),
+            all: gated(connection.all),
+            exec: gated(connection.exec),
+            close: gated(connection.close),
+        } as Connection;
         this.db.run('PRAGMA foreign_keys = ON');
     }
 
     async initialize(): Promise<void> {
         const schema = readFileSync(join(__dirname, 'schema.sql'), 'utf-8');
 
+        // Before the schema, so its indexes can refer to added columns
+        await this.migrate();
+        await this.exec(schema);
+    }
+
+    private async migrate(): Promise<void> {
+        for (const migration of COLUMN_MIGRATIONS) {
+            const columns = await new Promise<{ name: string }[]>((resolve, reject) => {
+                this.db.all(`PRAGMA table_info(${migration.table})`, (err, rows: { name: string }[]) => {
+                    if (err) reject(err);
+                    else resolve(rows || []);
+                });
+            });
+
+            // Missing tables are created with the column by the schema
+            if (columns.length === 0 || columns.some((column) => column.name === migration.column)) {
+                continue;
+            }
+
+            await this.exec(`ALTER TABLE ${migration.table} ADD COLUMN ${migration.column} ${migration.definition}`);
+            if (migration.backfill) {
+                await this.exec(migration.backfill);
+            }
+            console.log(`Added column ${migration.table}.${migration.column}`);
+        }
+    }
+
+    /**
+     * Keyset pagination: rows ordered by sortKey then id, starting after query.after.
+     * One extra row is read to tell whether another page follows.
+     */
+    private async queryPage<T extends { id: string }>(
+        table: string,
+        conditions: string[],
+        params: (string | number)[],
+        sortKey: string,
+        query: { order: SortOrder; limit: number; after?: PageCursor }
+    ): Promise<Page<T>> {
+        const where = [...conditions];
+        const values = [...params];
+        if (query.after) {
+            where.push(`(${sortKey}, id) ${query.order === 'asc' ? '>' : '<'} (?, ?)`);
+            values.push(query.after.value, query.after.id);
+        }
+        values.push(query.limit + 1);
+
+        const rows = await new Promise<(T & { sort_key: string | number })[]>((resolve, reject) => {
+            this.db.all(
+                `SELECT *, ${sortKey} AS sort_key FROM ${table} WHERE ${where.join(' AND ')} ORDER BY sort_key ${query.order}, id ${query.order} LIMIT ?`,
+                values,
+                (err, rows: (T & { sort_key: string | number })[]) => {
+                    if (err) reject(err);
+                    else resolve(rows || []);
+                }
+            );
+        });
+
+        const page = rows.slice(0, query.limit);
+        const last = page[page.length - 1];
+        return {
+            rows: page.map(({ sort_key, ...row }) => row as unknown as T),
+            next: rows.length > query.limit ? { value: last.sort_key, id: last.id } : null,
+        };
+    }
+
+    /**
+     * Run fn inside BEGIN IMMEDIATE ... COMMIT, rolling back if it throws.
+     *
+     * Transactions are queued so only one runs at a time on the shared connection,
+     * and statements issued from outside the running transaction wait until it ends,
+     * so a rollback can't undo another request's writes. Calls made inside fn join
+     * the transaction it is already in.
+     */
+    async transaction<T>(fn: () => Promise<T>): Promise<T> {
+        if (this.inActiveTransaction()) {
+            return fn();
+        }
+
+        const run = (): Promise<T> => {
+            const token = {};
+            const done = this.transactionScope.run(token, async (): Promise<T> => {
+                await this.exec('BEGIN IMMEDIATE');
+                try {
+                    const result = await fn();
+                    await this.exec('COMMIT');
+                    return result;
+                } catch (error) {
+                    await this.exec('ROLLBACK').catch((rollbackError) => {
+                        console.error('Failed to roll back transaction:', rollbackError);
+                    });
+                    throw error;
+                }
+            });
+            this.activeTransaction = { token, done };
+            return done.finally(() => {
+                this.activeTransaction = null;
+            });
+        };
+
+        const result = this.transactionQueue.then(run, run);
+        this.transactionQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    private inActiveTransaction(): boolean {
+        return this.activeTransaction !== null && this.transactionScope.getStore() === this.activeTransaction.token;
+    }
+
+    /**
+     * Issue a statement now, or once the running transaction has ended when the
+     * statement doesn't belong to it
+     */
+    private whenConnectionFree(issue: () => void): void {
+        const active = this.activeTransaction;
+        if (!active || this.inActiveTransaction()) {
+            issue();
+            return;
+        }
+        const retry = () => this.whenConnectionFree(issue);
+        active.done.then(retry, retry);
+    }
+
+    private exec(sql: string): Promise<void> {
         return new Promise((resolve, reject) => {
-            this.db.exec(schema, (err) => {
+            this.db.exec(sql, (err) => {
                 if (err) reject(err);
                 else resolve();
             });
@@ -57,11 +545,11 @@ export class Database {
     }
 
     // User File Operations (credit-based)
-    async createUserFile(file: Omit<UserFile, 'uploaded_at'>): Promise<void> {
+    async createUserFile(file: Omit<UserFile, 'uploaded_at' | 'expires_at' | 'status'>): Promise<void> {
         return new Promise((resolve, reject) => {
             this.db.run(
-                'INSERT INTO user_files (id, user_address, file_name, file_size, file_hash, commp, provider_id, storage_duration_days, storage_cost, uploaded_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-                [file.id, file.user_address, file.file_name, file.file_size, file.file_hash, file.commp, file.provider_id, file.storage_duration_days, file.storage_cost, null],
+                'INSERT INTO user_files (id, user_address, org_id, file_name, file_size, file_hash, commp, provider_id, storage_duration_days, storage_cost, lockup_cost, root_cid, encryption, visibility, uploaded_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+                [file.id, file.user_address, file.org_id, file.file_name, file.file_size, file.file_hash, file.commp, file.provider_id, file.storage_duration_days, file.storage_cost, file.lockup_cost, file.root_cid, file.encryption, file.visibility, null],
                 (err) => {
                     if (err) reject(err);
                     else resolve();
@@ -83,10 +571,14 @@ export class Database {
         });
     }
 
-    async updateUserFile(id: string, updates: Partial<Pick<UserFile, 'commp' | 'provider_id' | 'uploaded_at'>>): Promise<void> {
+    async updateUserFile(id: string, updates: Partial<Pick<UserFile, 'file_hash' | 'commp' | 'provider_id' | 'uploaded_at' | 'storage_duration_days' | 'storage_cost' | 'lockup_cost' | 'expires_at' | 'status'>>): Promise<void> {
         const fields: string[] = [];
         const values: any[] = [];
 
+        if (updates.file_hash !== undefined) {
+            fields.push('file_hash = ?');
+            values.push(updates.file_hash);
+        }
         if (updates.commp !== undefined) {
             fields.push('commp = ?');
             values.push(updates.commp);
@@ -99,6 +591,26 @@ export class Database {
             fields.push('uploaded_at = ?');
             values.push(updates.uploaded_at);
         }
+        if (updates.storage_duration_days !== undefined) {
+            fields.push('storage_duration_days = ?');
+            values.push(updates.storage_duration_days);
+        }
+        if (updates.storage_cost !== undefined) {
+            fields.push('storage_cost = ?');
+            values.push(updates.storage_cost);
+        }
+        if (updates.lockup_cost !== undefined) {
+            fields.push('lockup_cost = ?');
+            values.push(updates.lockup_cost);
+        }
+        if (updates.expires_at !== undefined) {
+            fields.push('expires_at = ?');
+            values.push(updates.expires_at);
+        }
+        if (updates.status !== undefined) {
+            fields.push('status = ?');
+            values.push(updates.status);
+        }
 
         if (fields.length === 0) {
             return Promise.resolve();
@@ -118,52 +630,160 @@ export class Database {
         });
     }
 
-    async getUserFiles(userAddress: string): Promise<UserFile[]> {
+    async deleteUserFile(id: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'DELETE FROM user_files WHERE id = ?',
+                [id],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    /**
+     * One page of a user's personal files, deleted ones excluded. Name prefixes match case-insensitively.
+     */
+    async getUserFiles(userAddress: string, query: UserFileQuery): Promise<Page<UserFile>> {
+        return this.queryFiles(['user_address = ?', 'org_id IS NULL'], [userAddress], query);
+    }
+
+    /**
+     * One page of an organization's files, whoever uploaded them
+     */
+    async getOrganizationFiles(orgId: string, query: UserFileQuery): Promise<Page<UserFile>> {
+        return this.queryFiles(['org_id = ?'], [orgId], query);
+    }
+
+    private async queryFiles(owner: string[], ownerParams: string[], query: UserFileQuery): Promise<Page<UserFile>> {
+        const conditions = [...owner, "status != 'deleted'"];
+        const params: (string | number)[] = [...ownerParams];
+
+        if (query.namePrefix) {
+            conditions.push("file_name LIKE ? ESCAPE '\\'");
+            params.push(`${escapeLike(query.namePrefix)}%`);
+        }
+        if (query.minSize !== undefined) {
+            conditions.push('file_size >= ?');
+            params.push(query.minSize);
+        }
+        if (query.maxSize !== undefined) {
+            conditions.push('file_size <= ?');
+            params.push(query.maxSize);
+        }
+        if (query.uploadedAfter !== undefined) {
+            conditions.push('uploaded_at >= ?');
+            params.push(query.uploadedAfter);
+        }
+        if (query.uploadedBefore !== undefined) {
+            conditions.push('uploaded_at < ?');
+            params.push(query.uploadedBefore);
+        }
+        if (query.visibility) {
+            conditions.push('visibility = ?');
+            params.push(query.visibility);
+        }
+
+        return this.queryPage<UserFile>('user_files', conditions, params, USER_FILE_SORT_KEYS[query.sort], query);
+    }
+
+    /**
+     * Every file stored in a piece; deduplicated uploads by several users share one.
+     * The file stored longest comes first.
+     */
+    async getFilesByCommp(commp: string): Promise<UserFile[]> {
         return new Promise((resolve, reject) => {
             this.db.all(
-                'SELECT * FROM user_files WHERE user_address = ? ORDER BY uploaded_at DESC',
-                [userAddress],
+                "SELECT * FROM user_files WHERE commp = ? AND status != 'deleted' ORDER BY expires_at DESC",
+                [commp],
                 (err, rows: UserFile[]) => {
                     if (err) reject(err);
-                    else resolve(rows || []);
+                    else resolve(rows);
                 }
             );
         });
     }
 
-    async getFileByCommp(commp: string): Promise<UserFile | null> {
+    /**
+     * Change who can read a file; false if it has been deleted
+     */
+    async setUserFileVisibility(id: string, visibility: FileVisibility): Promise<boolean> {
         return new Promise((resolve, reject) => {
-            this.db.get(
-                'SELECT * FROM user_files WHERE commp = ?',
-                [commp],
-                (err, row: UserFile | undefined) => {
+            this.db.run(
+                "UPDATE user_files SET visibility = ? WHERE id = ? AND status != 'deleted'",
+                [visibility, id],
+                function (err) {
                     if (err) reject(err);
-                    else resolve(row || null);
+                    else resolve(this.changes === 1);
                 }
             );
         });
     }
 
-    // User Credit Operations
-    async getUserCredit(userAddress: string): Promise<UserCredit | null> {
+    /**
+     * Mark a file deleted; false if it already was
+     */
+    async markUserFileDeleted(id: string): Promise<boolean> {
         return new Promise((resolve, reject) => {
-            this.db.get(
-                'SELECT * FROM user_credits WHERE user_address = ?',
-                [userAddress],
-                (err, row: UserCredit | undefined) => {
+            this.db.run(
+                "UPDATE user_files SET status = 'deleted' WHERE id = ? AND status != 'deleted'",
+                [id],
+                function (err) {
                     if (err) reject(err);
-                    else resolve(row || null);
+                    else resolve(this.changes === 1);
                 }
             );
         });
     }
 
-    async createUserCredit(credit: Omit<UserCredit, 'created_at' | 'updated_at'>): Promise<void> {
-        const now = Date.now();
+    /**
+     * Move active files whose storage ends before expiringBefore (but after now) to expiring_soon;
+     * returns the files moved
+     */
+    async markFilesExpiringSoon(now: number, expiringBefore: number): Promise<UserFile[]> {
+        return this.transaction(async () => {
+            const files = await new Promise<UserFile[]>((resolve, reject) => {
+                this.db.all(
+                    `SELECT * FROM user_files WHERE status = 'active' AND expires_at > ? AND expires_at <= ?`,
+                    [now, expiringBefore],
+                    (err, rows: UserFile[]) => {
+                        if (err) reject(err);
+                        else resolve(rows);
+                    }
+                );
+            });
+
+            for (const file of files) {
+                await this.updateUserFile(file.id, { status: 'expiring_soon' });
+            }
+            return files.map((file) => ({ ...file, status: 'expiring_soon' as const }));
+        });
+    }
+
+    /**
+     * Files whose storage period has ended but are not marked expired yet
+     */
+    async getFilesPastExpiry(now: number): Promise<UserFile[]> {
+        return new Promise((resolve, reject) => {
+            this.db.all(
+                `SELECT * FROM user_files WHERE status IN ('active', 'expiring_soon') AND expires_at <= ?`,
+                [now],
+                (err, rows: UserFile[]) => {
+                    if (err) reject(err);
+                    else resolve(rows || []);
+                }
+            );
+        });
+    }
+
+    // Directory Entry Operations
+    async createDirectoryEntry(entry: DirectoryEntry): Promise<void> {
         return new Promise((resolve, reject) => {
             this.db.run(
-                'INSERT INTO user_credits (user_address, balance, created_at, updated_at) VALUES (?, ?, ?, ?)',
-                [credit.user_address, credit.balance, now, now],
+                'INSERT INTO directory_entries (file_id, path, parent, kind, cid, size, file_hash, ranges) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+                [entry.file_id, entry.path, entry.parent, entry.kind, entry.cid, entry.size, entry.file_hash, entry.ranges],
                 (err) => {
                     if (err) reject(err);
                     else resolve();
@@ -172,12 +792,37 @@ export class Database {
         });
     }
 
-    async updateUserCreditBalance(userAddress: string, newBalance: string): Promise<void> {
-        const now = Date.now();
+    async getDirectoryEntry(fileId: string, path: string): Promise<DirectoryEntry | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM directory_entries WHERE file_id = ? AND path = ?',
+                [fileId, path],
+                (err, row: DirectoryEntry | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    async getDirectoryChildren(fileId: string, parent: string): Promise<DirectoryEntry[]> {
+        return new Promise((resolve, reject) => {
+            this.db.all(
+                'SELECT * FROM directory_entries WHERE file_id = ? AND parent = ? ORDER BY path',
+                [fileId, parent],
+                (err, rows: DirectoryEntry[]) => {
+                    if (err) reject(err);
+                    else resolve(rows || []);
+                }
+            );
+        });
+    }
+
+    async deleteDirectoryEntries(fileId: string): Promise<void> {
         return new Promise((resolve, reject) => {
             this.db.run(
-                'UPDATE user_credits SET balance = ?, updated_at = ? WHERE user_address = ?',
-                [newBalance, now, userAddress],
+                'DELETE FROM directory_entries WHERE file_id = ?',
+                [fileId],
                 (err) => {
                     if (err) reject(err);
                     else resolve();
@@ -186,13 +831,19 @@ export class Database {
         });
     }
 
-    // Credit Transaction Operations
-    async createCreditTransaction(tx: Omit<CreditTransaction, 'created_at'>): Promise<void> {
+    // Stored Object Operations
+
+    /**
+     * Record a file referencing a stored piece, creating the object on first use
+     */
+    async addStoredObjectReference(object: Pick<StoredObject, 'commp' | 'file_hash' | 'file_size' | 'provider_id'>): Promise<void> {
         const now = Date.now();
         return new Promise((resolve, reject) => {
             this.db.run(
-                'INSERT INTO credit_transactions (id, user_address, type, amount, file_id, bridge_request_id, description, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-                [tx.id, tx.user_address, tx.type, tx.amount, tx.file_id, tx.bridge_request_id, tx.description, now],
+                `INSERT INTO stored_objects (commp, file_hash, file_size, provider_id, ref_count, status, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, 1, 'active', ?, ?)
+                 ON CONFLICT(commp) DO UPDATE SET ref_count = ref_count + 1, status = 'active', updated_at = excluded.updated_at`,
+                [object.commp, object.file_hash, object.file_size, object.provider_id, now, now],
                 (err) => {
                     if (err) reject(err);
                     else resolve();
@@ -201,20 +852,1384 @@ export class Database {
         });
     }
 
-    async getCreditTransactions(userAddress: string, limit?: number): Promise<CreditTransaction[]> {
-        const query = limit
-            ? 'SELECT * FROM credit_transactions WHERE user_address = ? ORDER BY created_at DESC LIMIT ?'
-            : 'SELECT * FROM credit_transactions WHERE user_address = ? ORDER BY created_at DESC';
-
-        const params = limit ? [userAddress, limit] : [userAddress];
-
+    async getStoredObject(commp: string): Promise<StoredObject | null> {
         return new Promise((resolve, reject) => {
-            this.db.all(
-                query,
-                params,
-                (err, rows: CreditTransaction[]) => {
+            this.db.get(
+                'SELECT * FROM stored_objects WHERE commp = ?',
+                [commp],
+                (err, row: StoredObject | undefined) => {
                     if (err) reject(err);
-                    else resolve(rows || []);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    /**
+     * A piece with this content that is stored and still referenced, if any
+     */
+    async getActiveStoredObjectByHash(fileHash: string, fileSize: number): Promise<StoredObject | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                `SELECT * FROM stored_objects
+                 WHERE file_hash = ? AND file_size = ? AND status = 'active' AND ref_count > 0
+                 ORDER BY created_at ASC LIMIT 1`,
+                [fileHash, fileSize],
+                (err, row: StoredObject | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    /**
+     * Add a reference to a piece that has not been deleted; false if it has
+     */
+    async retainStoredObject(commp: string): Promise<boolean> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                "UPDATE stored_objects SET ref_count = ref_count + 1, updated_at = ? WHERE commp = ? AND status = 'active'",
+                [Date.now(), commp],
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes === 1);
+                }
+            );
+        });
+    }
+
+    async releaseStoredObject(commp: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'UPDATE stored_objects SET ref_count = MAX(ref_count - 1, 0), updated_at = ? WHERE commp = ?',
+                [Date.now(), commp],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async transitionStoredObject(commp: string, from: StoredObjectStatus, to: StoredObjectStatus): Promise<boolean> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'UPDATE stored_objects SET status = ?, updated_at = ? WHERE commp = ? AND status = ?',
+                [to, Date.now(), commp, from],
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes === 1);
+                }
+            );
+        });
+    }
+
+    /**
+     * Files other than excludeFileId that still point at a piece, including expired ones
+     * (which can be renewed)
+     */
+    async countFilesSharingCommp(commp: string, excludeFileId: string): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                "SELECT COUNT(*) AS count FROM user_files WHERE commp = ? AND id != ? AND status != 'deleted'",
+                [commp, excludeFileId],
+                (err, row: { count: number }) => {
+                    if (err) reject(err);
+                    else resolve(row.count);
+                }
+            );
+        });
+    }
+
+    // Storage Quote Operations
+    async createStorageQuote(quote: Omit<StorageQuote, 'file_id' | 'created_at'>): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'INSERT INTO storage_quotes (id, user_address, file_size, storage_duration_days, piece_size, rate_cost, lockup_cost, total_cost, signature, file_id, expires_at, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+                [quote.id, quote.user_address, quote.file_size, quote.storage_duration_days, quote.piece_size, quote.rate_cost, quote.lockup_cost, quote.total_cost, quote.signature, null, quote.expires_at, Date.now()],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async getStorageQuote(id: string): Promise<StorageQuote | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM storage_quotes WHERE id = ?',
+                [id],
+                (err, row: StorageQuote | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    /**
+     * Attach a quote to the upload paying with it; false if it was already redeemed or has expired
+     */
+    async redeemStorageQuote(id: string, fileId: string, now: number = Date.now()): Promise<boolean> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'UPDATE storage_quotes SET file_id = ? WHERE id = ? AND file_id IS NULL AND expires_at > ?',
+                [fileId, id, now],
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes === 1);
+                }
+            );
+        });
+    }
+
+    /**
+     * Make a redeemed quote available again, e.g. when the upload could not be paid for
+     */
+    async releaseStorageQuote(id: string, fileId: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'UPDATE storage_quotes SET file_id = NULL WHERE id = ? AND file_id = ?',
+                [id, fileId],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    /**
+     * Remove quotes that expired without being redeemed
+     */
+    async deleteExpiredStorageQuotes(now: number = Date.now()): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'DELETE FROM storage_quotes WHERE expires_at <= ? AND file_id IS NULL',
+                [now],
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes);
+                }
+            );
+        });
+    }
+
+    // Share Link Operations
+    async createShareLink(link: Omit<ShareLink, 'download_count' | 'revoked_at' | 'created_at'>): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'INSERT INTO share_links (id, token_hash, file_id, user_address, expires_at, max_downloads, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+                [link.id, link.token_hash, link.file_id, link.user_address, link.expires_at, link.max_downloads, Date.now()],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async getShareLink(id: string): Promise<ShareLink | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM share_links WHERE id = ?',
+                [id],
+                (err, row: ShareLink | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    async getShareLinkByTokenHash(tokenHash: string): Promise<ShareLink | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM share_links WHERE token_hash = ?',
+                [tokenHash],
+                (err, row: ShareLink | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    async getShareLinksForFile(fileId: string): Promise<ShareLink[]> {
+        return new Promise((resolve, reject) => {
+            this.db.all(
+                'SELECT * FROM share_links WHERE file_id = ? ORDER BY created_at DESC',
+                [fileId],
+                (err, rows: ShareLink[]) => {
+                    if (err) reject(err);
+                    else resolve(rows);
+                }
+            );
+        });
+    }
+
+    /**
+     * Count a download against a link; false if it is revoked, expired or used up
+     */
+    async claimShareLinkDownload(id: string, now: number = Date.now()): Promise<boolean> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                `UPDATE share_links SET download_count = download_count + 1
+                 WHERE id = ? AND revoked_at IS NULL AND expires_at > ?
+                 AND (max_downloads IS NULL OR download_count < max_downloads)`,
+                [id, now],
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes === 1);
+                }
+            );
+        });
+    }
+
+    /**
+     * Revoke a link; false if it was already revoked
+     */
+    async revokeShareLink(id: string, now: number = Date.now()): Promise<boolean> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'UPDATE share_links SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL',
+                [now, id],
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes === 1);
+                }
+            );
+        });
+    }
+
+    // File Reader Operations
+    /**
+     * Allow an address to read a private file; false if it already could
+     */
+    async addFileReader(fileId: string, readerAddress: string): Promise<boolean> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'INSERT OR IGNORE INTO file_readers (file_id, reader_address, created_at) VALUES (?, ?, ?)',
+                [fileId, readerAddress, Date.now()],
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes === 1);
+                }
+            );
+        });
+    }
+
+    /**
+     * False if the address was not on the file's allow-list
+     */
+    async removeFileReader(fileId: string, readerAddress: string): Promise<boolean> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'DELETE FROM file_readers WHERE file_id = ? AND reader_address = ?',
+                [fileId, readerAddress],
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes === 1);
+                }
+            );
+        });
+    }
+
+    async getFileReaders(fileId: string): Promise<FileReader[]> {
+        return new Promise((resolve, reject) => {
+            this.db.all(
+                'SELECT * FROM file_readers WHERE file_id = ? ORDER BY created_at',
+                [fileId],
+                (err, rows: FileReader[]) => {
+                    if (err) reject(err);
+                    else resolve(rows);
+                }
+            );
+        });
+    }
+
+    async isFileReader(fileId: string, readerAddress: string): Promise<boolean> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT 1 FROM file_readers WHERE file_id = ? AND reader_address = ?',
+                [fileId, readerAddress],
+                (err, row) => {
+                    if (err) reject(err);
+                    else resolve(row !== undefined);
+                }
+            );
+        });
+    }
+
+    // User Credit Operations
+    async getUserCredit(userAddress: string): Promise<UserCredit | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM user_credits WHERE user_address = ?',
+                [userAddress],
+                (err, row: UserCredit | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    async createUserCredit(credit: Omit<UserCredit, 'created_at' | 'updated_at'>): Promise<void> {
+        const now = Date.now();
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'INSERT INTO user_credits (user_address, balance, created_at, updated_at) VALUES (?, ?, ?, ?)',
+                [credit.user_address, credit.balance, now, now],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async updateUserCreditBalance(userAddress: string, newBalance: string): Promise<void> {
+        const now = Date.now();
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'UPDATE user_credits SET balance = ?, updated_at = ? WHERE user_address = ?',
+                [newBalance, now, userAddress],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    // Credit Transaction Operations
+    async createCreditTransaction(tx: Omit<CreditTransaction, 'created_at'>): Promise<void> {
+        const now = Date.now();
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'INSERT INTO credit_transactions (id, user_address, type, amount, file_id, bridge_request_id, description, member_address, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+                [tx.id, tx.user_address, tx.type, tx.amount, tx.file_id, tx.bridge_request_id, tx.description, tx.member_address, now],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async getCreditTransactions(userAddress: string, query: CreditTransactionQuery): Promise<Page<CreditTransaction>> {
+        const conditions = ['user_address = ?'];
+        const params: (string | number)[] = [userAddress];
+
+        if (query.type) {
+            conditions.push('type = ?');
+            params.push(query.type);
+        }
+        if (query.memberAddress) {
+            conditions.push('member_address = ?');
+            params.push(query.memberAddress);
+        }
+        if (query.createdAfter !== undefined) {
+            conditions.push('created_at >= ?');
+            params.push(query.createdAfter);
+        }
+        if (query.createdBefore !== undefined) {
+            conditions.push('created_at < ?');
+            params.push(query.createdBefore);
+        }
+
+        return this.queryPage<CreditTransaction>('credit_transactions', conditions, params, CREDIT_TRANSACTION_SORT_KEYS[query.sort], query);
+    }
+
+    /**
+     * Amounts a member has had deducted from an account since a point in time
+     */
+    async getMemberDeductions(userAddress: string, memberAddress: string, since: number): Promise<string[]> {
+        return new Promise((resolve, reject) => {
+            this.db.all(
+                "SELECT amount FROM credit_transactions WHERE user_address = ? AND member_address = ? AND type = 'deduct' AND created_at >= ?",
+                [userAddress, memberAddress, since],
+                (err, rows: { amount: string }[]) => {
+                    if (err) reject(err);
+                    else resolve((rows || []).map((row) => row.amount));
+                }
+            );
+        });
+    }
+
+    // Credit Hold Operations
+    async createCreditHold(hold: Pick<CreditHold, 'id' | 'user_address' | 'file_id' | 'amount' | 'description' | 'member_address'>): Promise<void> {
+        const now = Date.now();
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'INSERT INTO credit_holds (id, user_address, file_id, amount, status, description, member_address, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+                [hold.id, hold.user_address, hold.file_id, hold.amount, 'held', hold.description, hold.member_address, now, now],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async getCreditHold(id: string): Promise<CreditHold | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM credit_holds WHERE id = ?',
+                [id],
+                (err, row: CreditHold | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    async getCreditHoldsByStatus(status: CreditHoldStatus): Promise<CreditHold[]> {
+        return new Promise((resolve, reject) => {
+            this.db.all(
+                'SELECT * FROM credit_holds WHERE status = ? ORDER BY created_at ASC',
+                [status],
+                (err, rows: CreditHold[]) => {
+                    if (err) reject(err);
+                    else resolve(rows || []);
+                }
+            );
+        });
+    }
+
+    async getActiveCreditHolds(userAddress: string): Promise<CreditHold[]> {
+        return new Promise((resolve, reject) => {
+            this.db.all(
+                "SELECT * FROM credit_holds WHERE user_address = ? AND status = 'held'",
+                [userAddress],
+                (err, rows: CreditHold[]) => {
+                    if (err) reject(err);
+                    else resolve(rows || []);
+                }
+            );
+        });
+    }
+
+    /**
+     * Record the settled parts of a hold and its resulting status.
+     * Resolves false when the hold was no longer held.
+     */
+    async settleCreditHold(id: string, capturedAmount: string, releasedAmount: string, status: CreditHoldStatus): Promise<boolean> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                "UPDATE credit_holds SET captured_amount = ?, released_amount = ?, status = ?, updated_at = ? WHERE id = ? AND status = 'held'",
+                [capturedAmount, releasedAmount, status, Date.now(), id],
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes === 1);
+                }
+            );
+        });
+    }
+
+    // Upload Job Operations
+    async createUploadJob(job: Pick<UploadJob, 'file_id' | 'user_address' | 'hold_id' | 'hold_share' | 'spool_path'>): Promise<void> {
+        const now = Date.now();
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'INSERT INTO upload_jobs (file_id, user_address, hold_id, hold_share, spool_path, status, attempts, next_attempt_at, error, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+                [job.file_id, job.user_address, job.hold_id, job.hold_share, job.spool_path, 'queued', 0, now, null, now, now],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async getUploadJob(fileId: string): Promise<UploadJob | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM upload_jobs WHERE file_id = ?',
+                [fileId],
+                (err, row: UploadJob | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    async getUploadJobsByStatus(statuses: UploadJobStatus[]): Promise<UploadJob[]> {
+        const placeholders = statuses.map(() => '?').join(', ');
+        return new Promise((resolve, reject) => {
+            this.db.all(
+                `SELECT * FROM upload_jobs WHERE status IN (${placeholders}) ORDER BY created_at ASC`,
+                statuses,
+                (err, rows: UploadJob[]) => {
+                    if (err) reject(err);
+                    else resolve(rows || []);
+                }
+            );
+        });
+    }
+
+    /**
+     * Total size of a user's uploads that are queued, in progress or still being received
+     */
+    async getPendingUploadBytes(userAddress: string): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                `SELECT
+                    (SELECT COALESCE(SUM(f.file_size), 0)
+                     FROM upload_jobs j JOIN user_files f ON f.id = j.file_id
+                     WHERE j.user_address = ? AND j.status IN ('queued', 'hashing', 'uploading'))
+                  + (SELECT COALESCE(SUM(upload_length), 0)
+                     FROM resumable_uploads
+                     WHERE user_address = ? AND status IN ('receiving', 'finalizing')) AS total`,
+                [userAddress, userAddress],
+                (err, row: { total: number } | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row?.total ?? 0);
+                }
+            );
+        });
+    }
+
+    /**
+     * Claim the oldest queued job that is due, moving it to 'hashing' and
+     * counting the attempt. Resolves null when nothing is due.
+     */
+    async claimNextUploadJob(): Promise<UploadJob | null> {
+        return this.transaction(async () => {
+            const job = await new Promise<UploadJob | undefined>((resolve, reject) => {
+                this.db.get(
+                    "SELECT * FROM upload_jobs WHERE status = 'queued' AND next_attempt_at <= ? ORDER BY next_attempt_at ASC LIMIT 1",
+                    [Date.now()],
+                    (err, row: UploadJob | undefined) => {
+                        if (err) reject(err);
+                        else resolve(row);
+                    }
+                );
+            });
+
+            if (!job) {
+                return null;
+            }
+
+            await this.updateUploadJob(job.file_id, { status: 'hashing', attempts: job.attempts + 1 });
+            return { ...job, status: 'hashing' as const, attempts: job.attempts + 1 };
+        });
+    }
+
+    async updateUploadJob(fileId: string, updates: Partial<Pick<UploadJob, 'status' | 'attempts' | 'next_attempt_at' | 'error'>>): Promise<void> {
+        const fields = ['updated_at = ?'];
+        const values: any[] = [Date.now()];
+
+        if (updates.status !== undefined) {
+            fields.push('status = ?');
+            values.push(updates.status);
+        }
+        if (updates.attempts !== undefined) {
+            fields.push('attempts = ?');
+            values.push(updates.attempts);
+        }
+        if (updates.next_attempt_at !== undefined) {
+            fields.push('next_attempt_at = ?');
+            values.push(updates.next_attempt_at);
+        }
+        if (updates.error !== undefined) {
+            fields.push('error = ?');
+            values.push(updates.error);
+        }
+
+        values.push(fileId);
+
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                `UPDATE upload_jobs SET ${fields.join(', ')} WHERE file_id = ?`,
+                values,
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    // Bridge Deposit Operations
+    async createResumableUpload(upload: Omit<ResumableUpload, 'upload_offset' | 'storage_cost' | 'status' | 'created_at' | 'updated_at'>): Promise<void> {
+        const now = Date.now();
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'INSERT INTO resumable_uploads (id, user_address, file_name, upload_length, upload_offset, storage_duration_days, storage_cost, quote_id, org_id, temp_path, status, expires_at, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+                [upload.id, upload.user_address, upload.file_name, upload.upload_length, 0, upload.storage_duration_days, null, upload.quote_id, upload.org_id, upload.temp_path, 'receiving', upload.expires_at, now, now],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async getResumableUpload(id: string): Promise<ResumableUpload | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM resumable_uploads WHERE id = ?',
+                [id],
+                (err, row: ResumableUpload | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    async getResumableUploadsByStatus(status: ResumableUploadStatus): Promise<ResumableUpload[]> {
+        return new Promise((resolve, reject) => {
+            this.db.all(
+                'SELECT * FROM resumable_uploads WHERE status = ?',
+                [status],
+                (err, rows: ResumableUpload[]) => {
+                    if (err) reject(err);
+                    else resolve(rows || []);
+                }
+            );
+        });
+    }
+
+    async getExpiredResumableUploads(now: number): Promise<ResumableUpload[]> {
+        return new Promise((resolve, reject) => {
+            this.db.all(
+                "SELECT * FROM resumable_uploads WHERE expires_at < ? AND status != 'finalizing'",
+                [now],
+                (err, rows: ResumableUpload[]) => {
+                    if (err) reject(err);
+                    else resolve(rows || []);
+                }
+            );
+        });
+    }
+
+    async updateResumableUpload(id: string, updates: Partial<Pick<ResumableUpload, 'upload_offset' | 'storage_cost' | 'expires_at'>>): Promise<void> {
+        const fields = ['updated_at = ?'];
+        const values: any[] = [Date.now()];
+
+        if (updates.upload_offset !== undefined) {
+            fields.push('upload_offset = ?');
+            values.push(updates.upload_offset);
+        }
+        if (updates.storage_cost !== undefined) {
+            fields.push('storage_cost = ?');
+            values.push(updates.storage_cost);
+        }
+        if (updates.expires_at !== undefined) {
+            fields.push('expires_at = ?');
+            values.push(updates.expires_at);
+        }
+
+        values.push(id);
+
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                `UPDATE resumable_uploads SET ${fields.join(', ')} WHERE id = ?`,
+                values,
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    /**
+     * Move a resumable upload between statuses; returns false if it was not in `from`
+     */
+    async transitionResumableUpload(id: string, from: ResumableUploadStatus, to: ResumableUploadStatus): Promise<boolean> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'UPDATE resumable_uploads SET status = ?, updated_at = ? WHERE id = ? AND status = ?',
+                [to, Date.now(), id, from],
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes === 1);
+                }
+            );
+        });
+    }
+
+    async deleteResumableUpload(id: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'DELETE FROM resumable_uploads WHERE id = ?',
+                [id],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async upsertRetrievalCacheEntry(entry: Pick<RetrievalCacheEntry, 'commp' | 'file_hash' | 'size'>): Promise<void> {
+        const now = Date.now();
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                `INSERT INTO retrieval_cache (commp, file_hash, size, last_accessed_at, created_at) VALUES (?, ?, ?, ?, ?)
+                 ON CONFLICT(commp) DO UPDATE SET file_hash = excluded.file_hash, size = excluded.size, last_accessed_at = excluded.last_accessed_at`,
+                [entry.commp, entry.file_hash, entry.size, now, now],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async getRetrievalCacheEntry(commp: string): Promise<RetrievalCacheEntry | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM retrieval_cache WHERE commp = ?',
+                [commp],
+                (err, row: RetrievalCacheEntry | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    /**
+     * All cache entries, least recently accessed first
+     */
+    async getRetrievalCacheEntries(): Promise<RetrievalCacheEntry[]> {
+        return new Promise((resolve, reject) => {
+            this.db.all(
+                'SELECT * FROM retrieval_cache ORDER BY last_accessed_at ASC',
+                [],
+                (err, rows: RetrievalCacheEntry[]) => {
+                    if (err) reject(err);
+                    else resolve(rows || []);
+                }
+            );
+        });
+    }
+
+    async getRetrievalCacheUsage(): Promise<{ entries: number; bytes: number }> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT COUNT(*) AS entries, COALESCE(SUM(size), 0) AS bytes FROM retrieval_cache',
+                [],
+                (err, row: { entries: number; bytes: number } | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row ?? { entries: 0, bytes: 0 });
+                }
+            );
+        });
+    }
+
+    async touchRetrievalCacheEntry(commp: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'UPDATE retrieval_cache SET last_accessed_at = ? WHERE commp = ?',
+                [Date.now(), commp],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async deleteRetrievalCacheEntry(commp: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'DELETE FROM retrieval_cache WHERE commp = ?',
+                [commp],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async createBridgeDeposit(deposit: Pick<BridgeDeposit, 'bridge_request_id' | 'user_address' | 'claimed_amount'>): Promise<void> {
+        const now = Date.now();
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'INSERT INTO bridge_deposits (bridge_request_id, user_address, claimed_amount, verified_amount, status, failure_reason, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+                [deposit.bridge_request_id, deposit.user_address, deposit.claimed_amount, null, 'pending', null, now, now],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async getBridgeDeposit(bridgeRequestId: string): Promise<BridgeDeposit | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM bridge_deposits WHERE bridge_request_id = ?',
+                [bridgeRequestId],
+                (err, row: BridgeDeposit | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    /**
+     * Move a deposit from one status to the next. Resolves false when the deposit
+     * was no longer in the expected status (e.g. a concurrent request got there first).
+     */
+    async transitionBridgeDeposit(
+        bridgeRequestId: string,
+        from: BridgeDepositStatus,
+        to: BridgeDepositStatus,
+        updates: Partial<Pick<BridgeDeposit, 'verified_amount' | 'failure_reason' | 'discrepancy'>> = {}
+    ): Promise<boolean> {
+        const fields = ['status = ?', 'updated_at = ?'];
+        const values: any[] = [to, Date.now()];
+
+        if (updates.verified_amount !== undefined) {
+            fields.push('verified_amount = ?');
+            values.push(updates.verified_amount);
+        }
+        if (updates.failure_reason !== undefined) {
+            fields.push('failure_reason = ?');
+            values.push(updates.failure_reason);
+        }
+        if (updates.discrepancy !== undefined) {
+            fields.push('discrepancy = ?');
+            values.push(updates.discrepancy);
+        }
+
+        values.push(bridgeRequestId, from);
+
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                `UPDATE bridge_deposits SET ${fields.join(', ')} WHERE bridge_request_id = ? AND status = ?`,
+                values,
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes === 1);
+                }
+            );
+        });
+    }
+
+    // Auth Operations
+    async createAuthNonce(nonce: string, expiresAt: number): Promise<void> {
+        const now = Date.now();
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'INSERT INTO auth_nonces (nonce, created_at, expires_at, used_at) VALUES (?, ?, ?, ?)',
+                [nonce, now, expiresAt, null],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    /**
+     * Mark a nonce as used. Resolves true only if the nonce existed, had not
+     * been used yet and had not expired, so each nonce can be redeemed once.
+     */
+    async consumeAuthNonce(nonce: string): Promise<boolean> {
+        const now = Date.now();
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'UPDATE auth_nonces SET used_at = ? WHERE nonce = ? AND used_at IS NULL AND expires_at > ?',
+                [now, nonce, now],
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes === 1);
+                }
+            );
+        });
+    }
+
+    async createAuthSession(session: Omit<AuthSession, 'created_at'>): Promise<void> {
+        const now = Date.now();
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'INSERT INTO auth_sessions (token_hash, user_address, created_at, expires_at) VALUES (?, ?, ?, ?)',
+                [session.token_hash, session.user_address, now, session.expires_at],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async getAuthSession(tokenHash: string): Promise<AuthSession | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM auth_sessions WHERE token_hash = ? AND expires_at > ?',
+                [tokenHash, Date.now()],
+                (err, row: AuthSession | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    async deleteAuthSession(tokenHash: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'DELETE FROM auth_sessions WHERE token_hash = ?',
+                [tokenHash],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async deleteExpiredAuthRecords(): Promise<void> {
+        const now = Date.now();
+        return new Promise((resolve, reject) => {
+            this.db.exec(
+                `DELETE FROM auth_nonces WHERE expires_at <= ${now}; DELETE FROM auth_sessions WHERE expires_at <= ${now};`,
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    // API Key Operations
+    async createApiKey(key: Omit<ApiKey, 'last_used_at' | 'revoked_at' | 'created_at'>): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'INSERT INTO api_keys (id, key_hash, key_prefix, user_address, name, scopes, expires_at, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+                [key.id, key.key_hash, key.key_prefix, key.user_address, key.name, key.scopes, key.expires_at, Date.now()],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async getApiKey(id: string): Promise<ApiKey | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM api_keys WHERE id = ?',
+                [id],
+                (err, row: ApiKey | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM api_keys WHERE key_hash = ?',
+                [keyHash],
+                (err, row: ApiKey | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    async getApiKeysForUser(userAddress: string): Promise<ApiKey[]> {
+        return new Promise((resolve, reject) => {
+            this.db.all(
+                'SELECT * FROM api_keys WHERE user_address = ? ORDER BY created_at DESC',
+                [userAddress],
+                (err, rows: ApiKey[]) => {
+                    if (err) reject(err);
+                    else resolve(rows);
+                }
+            );
+        });
+    }
+
+    async touchApiKey(id: string, now: number = Date.now()): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'UPDATE api_keys SET last_used_at = ? WHERE id = ?',
+                [now, id],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    /**
+     * False if the key was already revoked
+     */
+    async revokeApiKey(id: string, now: number = Date.now()): Promise<boolean> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL',
+                [now, id],
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes === 1);
+                }
+            );
+        });
+    }
+
+    // Organization Operations
+    async createOrganization(org: Omit<Organization, 'created_at'>): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'INSERT INTO organizations (id, name, created_by, created_at) VALUES (?, ?, ?, ?)',
+                [org.id, org.name, org.created_by, Date.now()],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async getOrganization(id: string): Promise<Organization | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM organizations WHERE id = ?',
+                [id],
+                (err, row: Organization | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    /**
+     * Organizations an address belongs to, with its role in each, oldest first
+     */
+    async getOrganizationsForMember(memberAddress: string): Promise<(Organization & Pick<OrganizationMember, 'role' | 'spending_limit'>)[]> {
+        return new Promise((resolve, reject) => {
+            this.db.all(
+                'SELECT o.*, m.role, m.spending_limit FROM organizations o JOIN organization_members m ON m.org_id = o.id WHERE m.member_address = ? ORDER BY o.created_at ASC',
+                [memberAddress],
+                (err, rows: (Organization & Pick<OrganizationMember, 'role' | 'spending_limit'>)[]) => {
+                    if (err) reject(err);
+                    else resolve(rows || []);
+                }
+            );
+        });
+    }
+
+    async getOrganizationMember(orgId: string, memberAddress: string): Promise<OrganizationMember | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM organization_members WHERE org_id = ? AND member_address = ?',
+                [orgId, memberAddress],
+                (err, row: OrganizationMember | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    async getOrganizationMembers(orgId: string): Promise<OrganizationMember[]> {
+        return new Promise((resolve, reject) => {
+            this.db.all(
+                'SELECT * FROM organization_members WHERE org_id = ? ORDER BY created_at ASC',
+                [orgId],
+                (err, rows: OrganizationMember[]) => {
+                    if (err) reject(err);
+                    else resolve(rows || []);
+                }
+            );
+        });
+    }
+
+    /**
+     * Add a member, or change the role and spending limit of an existing one
+     */
+    async upsertOrganizationMember(member: Omit<OrganizationMember, 'created_at' | 'updated_at'>): Promise<void> {
+        const now = Date.now();
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                `INSERT INTO organization_members (org_id, member_address, role, spending_limit, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+                 ON CONFLICT(org_id, member_address) DO UPDATE SET role = excluded.role, spending_limit = excluded.spending_limit, updated_at = excluded.updated_at`,
+                [member.org_id, member.member_address, member.role, member.spending_limit, now, now],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async deleteOrganizationMember(orgId: string, memberAddress: string): Promise<boolean> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'DELETE FROM organization_members WHERE org_id = ? AND member_address = ?',
+                [orgId, memberAddress],
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes === 1);
+                }
+            );
+        });
+    }
+
+    // Webhook Operations
+    async createWebhookSubscription(subscription: Omit<WebhookSubscription, 'created_at'>): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'INSERT INTO webhook_subscriptions (id, user_address, url, secret, events, description, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+                [subscription.id, subscription.user_address, subscription.url, subscription.secret, subscription.events, subscription.description, Date.now()],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async getWebhookSubscription(id: string): Promise<WebhookSubscription | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM webhook_subscriptions WHERE id = ?',
+                [id],
+                (err, row: WebhookSubscription | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    async getWebhookSubscriptionsForUser(userAddress: string): Promise<WebhookSubscription[]> {
+        return new Promise((resolve, reject) => {
+            this.db.all(
+                'SELECT * FROM webhook_subscriptions WHERE user_address = ? ORDER BY created_at',
+                [userAddress],
+                (err, rows: WebhookSubscription[]) => {
+                    if (err) reject(err);
+                    else resolve(rows);
+                }
+            );
+        });
+    }
+
+    /**
+     * Remove a subscription; deliveries still pending for it are failed
+     */
+    async deleteWebhookSubscription(id: string): Promise<void> {
+        const now = Date.now();
+        await this.transaction(async () => {
+            await new Promise<void>((resolve, reject) => {
+                this.db.run(
+                    "UPDATE webhook_deliveries SET status = 'failed', error = 'Subscription was deleted', updated_at = ? WHERE subscription_id = ? AND status = 'pending'",
+                    [now, id],
+                    (err) => {
+                        if (err) reject(err);
+                        else resolve();
+                    }
+                );
+            });
+            await new Promise<void>((resolve, reject) => {
+                this.db.run(
+                    'DELETE FROM webhook_subscriptions WHERE id = ?',
+                    [id],
+                    (err) => {
+                        if (err) reject(err);
+                        else resolve();
+                    }
+                );
+            });
+        });
+    }
+
+    async createWebhookDelivery(delivery: Pick<WebhookDelivery, 'id' | 'subscription_id' | 'user_address' | 'event_id' | 'event' | 'payload'>): Promise<void> {
+        const now = Date.now();
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                `INSERT INTO webhook_deliveries (id, subscription_id, user_address, event_id, event, payload, status, attempts, next_attempt_at, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?, 'pending', 0, ?, ?, ?)`,
+                [delivery.id, delivery.subscription_id, delivery.user_address, delivery.event_id, delivery.event, delivery.payload, now, now, now],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    async getWebhookDelivery(id: string): Promise<WebhookDelivery | null> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT * FROM webhook_deliveries WHERE id = ?',
+                [id],
+                (err, row: WebhookDelivery | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row || null);
+                }
+            );
+        });
+    }
+
+    /**
+     * Pending deliveries whose next attempt is due, oldest first
+     */
+    async getDueWebhookDeliveries(now: number, limit: number): Promise<WebhookDelivery[]> {
+        return new Promise((resolve, reject) => {
+            this.db.all(
+                "SELECT * FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at ASC LIMIT ?",
+                [now, limit],
+                (err, rows: WebhookDelivery[]) => {
+                    if (err) reject(err);
+                    else resolve(rows);
+                }
+            );
+        });
+    }
+
+    /**
+     * One page of a subscription's delivery log, by creation time
+     */
+    async getWebhookDeliveries(subscriptionId: string, query: WebhookDeliveryQuery): Promise<Page<WebhookDelivery>> {
+        const conditions = ['subscription_id = ?'];
+        const params: (string | number)[] = [subscriptionId];
+
+        if (query.status) {
+            conditions.push('status = ?');
+            params.push(query.status);
+        }
+
+        return this.queryPage<WebhookDelivery>('webhook_deliveries', conditions, params, 'created_at', query);
+    }
+
+    async updateWebhookDelivery(
+        id: string,
+        updates: Partial<Pick<WebhookDelivery, 'status' | 'attempts' | 'next_attempt_at' | 'response_status' | 'error' | 'delivered_at'>>
+    ): Promise<void> {
+        const fields = ['updated_at = ?'];
+        const values: any[] = [Date.now()];
+
+        for (const [column, value] of Object.entries(updates)) {
+            if (value !== undefined) {
+                fields.push(`${column} = ?`);
+                values.push(value);
+            }
+        }
+
+        values.push(id);
+
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                `UPDATE webhook_deliveries SET ${fields.join(', ')} WHERE id = ?`,
+                values,
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    /**
+     * Queue a failed delivery again with a fresh set of attempts; false if it has not failed
+     */
+    async requeueWebhookDelivery(id: string, now: number = Date.now()): Promise<boolean> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                "UPDATE webhook_deliveries SET status = 'pending', attempts = 0, next_attempt_at = ?, error = NULL, updated_at = ? WHERE id = ? AND status = 'failed'",
+                [now, now, id],
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes === 1);
+                }
+            );
+        });
+    }
+
+    /**
+     * Drop finished deliveries created before the given time; returns how many were removed
+     */
+    async deleteWebhookDeliveriesBefore(before: number): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                "DELETE FROM webhook_deliveries WHERE status != 'pending' AND created_at < ?",
+                [before],
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes);
+                }
+            );
+        });
+    }
+
+    /**
+     * Bytes of the user's files that are stored or still being uploaded
+     */
+    async getStoredBytes(userAddress: string): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                "SELECT COALESCE(SUM(file_size), 0) AS total FROM user_files WHERE user_address = ? AND status IN ('active', 'expiring_soon')",
+                [userAddress],
+                (err, row: { total: number } | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row?.total ?? 0);
+                }
+            );
+        });
+    }
+
+    async getUploadUsage(userAddress: string, day: string): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.db.get(
+                'SELECT bytes FROM upload_usage WHERE user_address = ? AND day = ?',
+                [userAddress, day],
+                (err, row: { bytes: number } | undefined) => {
+                    if (err) reject(err);
+                    else resolve(row?.bytes ?? 0);
+                }
+            );
+        });
+    }
+
+    async addUploadUsage(userAddress: string, day: string, bytes: number): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                `INSERT INTO upload_usage (user_address, day, bytes) VALUES (?, ?, ?)
+                 ON CONFLICT(user_address, day) DO UPDATE SET bytes = bytes + excluded.bytes`,
+                [userAddress, day, bytes],
+                (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                }
+            );
+        });
+    }
+
+    /**
+     * Drop usage of days before the given one; returns how many rows were removed
+     */
+    async deleteUploadUsageBefore(day: string): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.db.run(
+                'DELETE FROM upload_usage WHERE day < ?',
+                [day],
+                function (err) {
+                    if (err) reject(err);
+                    else resolve(this.changes);
                 }
             );
         });
@@ -1,4 +1,6 @@
 -- User credit balances (never expire)
+-- Organization pools use the account 'org:<organization id>' in place of an address,
+-- here and in credit_transactions and credit_holds
 CREATE TABLE IF NOT EXISTS user_credits (
     user_address TEXT PRIMARY KEY,
     balance TEXT NOT NULL,  -- USDFC in wei (bigint as string)
@@ -10,22 +12,25 @@ CREATE TABLE IF NOT EXISTS user_credits (
 CREATE TABLE IF NOT EXISTS credit_transactions (
     id TEXT PRIMARY KEY,
     user_address TEXT NOT NULL,
-    type TEXT NOT NULL,  -- 'deposit' or 'deduct'
+    type TEXT NOT NULL,  -- 'deposit', 'deduct' or 'refund'
     amount TEXT NOT NULL,  -- USDFC in wei (bigint as string)
     file_id TEXT,  -- Foreign key to user_files (nullable)
     bridge_request_id TEXT,  -- OnlySwaps bridge ID (nullable)
     description TEXT NOT NULL,
+    member_address TEXT,  -- Member who spent, funded or was refunded, on organization accounts
     created_at INTEGER NOT NULL
 );
 
 CREATE INDEX IF NOT EXISTS idx_credit_transactions_user ON credit_transactions(user_address);
+CREATE INDEX IF NOT EXISTS idx_credit_transactions_member ON credit_transactions(user_address, member_address, created_at);
 CREATE INDEX IF NOT EXISTS idx_credit_transactions_created ON credit_transactions(created_at DESC);
 
 -- Track files uploaded to Filecoin
 -- Credit-based: users fund account, then credits are deducted per upload
 CREATE TABLE IF NOT EXISTS user_files (
     id TEXT PRIMARY KEY,
-    user_address TEXT NOT NULL,
+    user_address TEXT NOT NULL,  -- the uploader
+    org_id TEXT,  -- organization that owns and paid for the file; NULL for personal files
     file_name TEXT NOT NULL,
     file_size INTEGER NOT NULL,
     file_hash TEXT NOT NULL,
@@ -33,10 +38,290 @@ CREATE TABLE IF NOT EXISTS user_files (
     provider_id TEXT,
     storage_duration_days INTEGER NOT NULL,
     storage_cost TEXT NOT NULL,  -- USDFC in wei (bigint as string)
-    uploaded_at INTEGER
+    lockup_cost TEXT NOT NULL DEFAULT '0',  -- Part of storage_cost paid as lockup, refunded on deletion
+    root_cid TEXT,  -- UnixFS root of a directory upload (the piece is its CAR); NULL for plain files
+    encryption TEXT,  -- Client-side encryption envelope (JSON); NULL when the file was stored as plaintext
+    visibility TEXT NOT NULL DEFAULT 'private',  -- 'private' (owner and file_readers), 'unlisted' or 'public'
+    uploaded_at INTEGER,
+    expires_at INTEGER,  -- uploaded_at + storage_duration_days, set once stored
+    status TEXT NOT NULL DEFAULT 'active'  -- 'active', 'expiring_soon', 'expired' or 'deleted'
 );
 
 -- Create indexes for better query performance
 CREATE INDEX IF NOT EXISTS idx_user_files_address ON user_files(user_address);
+CREATE INDEX IF NOT EXISTS idx_user_files_org ON user_files(org_id);
 CREATE INDEX IF NOT EXISTS idx_user_files_commp ON user_files(commp);
+CREATE INDEX IF NOT EXISTS idx_user_files_expiry ON user_files(status, expires_at);
+
+-- Paths inside directory uploads, for listing them and downloading single files
+CREATE TABLE IF NOT EXISTS directory_entries (
+    file_id TEXT NOT NULL,
+    path TEXT NOT NULL,  -- relative to the root, which has path ''
+    parent TEXT,  -- path of the containing directory; NULL for the root
+    kind TEXT NOT NULL,  -- 'file' or 'directory'
+    cid TEXT NOT NULL,
+    size INTEGER NOT NULL,  -- bytes of content; for directories, of everything below them
+    file_hash TEXT,  -- SHA-256 of a file's content
+    ranges TEXT,  -- JSON [offset, length] pairs locating a file's content in the CAR
+    PRIMARY KEY (file_id, path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_directory_entries_parent ON directory_entries(file_id, parent);
+
+
+-- Sign-In-With-Ethereum nonces (single use)
+CREATE TABLE IF NOT EXISTS auth_nonces (
+    nonce TEXT PRIMARY KEY,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    used_at INTEGER
+);
+
+-- Authenticated wallet sessions
+CREATE TABLE IF NOT EXISTS auth_sessions (
+    token_hash TEXT PRIMARY KEY,  -- SHA-256 of the bearer token (raw token is never stored)
+    user_address TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_address ON auth_sessions(user_address);
+
+-- Scoped keys for server-to-server access on behalf of a wallet
+CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    key_hash TEXT NOT NULL UNIQUE,  -- SHA-256 of the key (raw key is never stored)
+    key_prefix TEXT NOT NULL,  -- start of the key, to tell keys apart in lists
+    user_address TEXT NOT NULL,
+    name TEXT NOT NULL,
+    scopes TEXT NOT NULL,  -- JSON array of 'upload', 'read' and 'fund'
+    expires_at INTEGER,  -- NULL for keys that don't expire
+    last_used_at INTEGER,
+    revoked_at INTEGER,
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_address ON api_keys(user_address);
+
+-- Bridge deposits claimed through /api/fund-credits
+-- Each bridge request can be credited once: pending -> verified -> credited (or rejected)
+CREATE TABLE IF NOT EXISTS bridge_deposits (
+    bridge_request_id TEXT PRIMARY KEY,
+    user_address TEXT NOT NULL,
+    claimed_amount TEXT NOT NULL,  -- USDFC in wei as posted by the client
+    verified_amount TEXT,  -- amountOut from the on-chain fulfillment receipt
+    status TEXT NOT NULL,  -- 'pending', 'verified', 'credited' or 'rejected'
+    failure_reason TEXT,
+    discrepancy TEXT,  -- why verified_amount differs from claimed_amount (nullable)
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_bridge_deposits_user ON bridge_deposits(user_address);
+
+-- Credit reservations for in-flight uploads
+-- The amount leaves user_credits.balance when the hold is placed, is logged as a
+-- deduction on capture, and is returned to the balance on release
+CREATE TABLE IF NOT EXISTS credit_holds (
+    id TEXT PRIMARY KEY,
+    user_address TEXT NOT NULL,
+    file_id TEXT,
+    amount TEXT NOT NULL,  -- USDFC in wei (bigint as string)
+    captured_amount TEXT NOT NULL DEFAULT '0',  -- parts already charged (batch holds settle per file)
+    released_amount TEXT NOT NULL DEFAULT '0',  -- parts already returned to the balance
+    status TEXT NOT NULL,  -- 'held', 'captured' or 'released'
+    description TEXT NOT NULL,
+    member_address TEXT,  -- Member who placed the hold, on organization accounts
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_holds_user ON credit_holds(user_address);
+CREATE INDEX IF NOT EXISTS idx_credit_holds_status ON credit_holds(status);
+
+-- Background upload jobs (one per user_files row)
+-- queued -> hashing -> uploading -> stored, or failed once retries are exhausted
+CREATE TABLE IF NOT EXISTS upload_jobs (
+    file_id TEXT PRIMARY KEY,
+    user_address TEXT NOT NULL,
+    hold_id TEXT NOT NULL,  -- credit hold captured on success, released on failure
+    hold_share TEXT,  -- this job's part of a batch hold; NULL when it owns the whole hold
+    spool_path TEXT NOT NULL,  -- file contents waiting to be uploaded
+    status TEXT NOT NULL,  -- 'queued', 'hashing', 'uploading', 'stored' or 'failed'
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at INTEGER NOT NULL,
+    error TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_jobs_status ON upload_jobs(status, next_attempt_at);
+
+-- Resumable (tus) uploads being received in chunks
+-- receiving -> finalizing -> queued; the row id becomes the user_files id
+CREATE TABLE IF NOT EXISTS resumable_uploads (
+    id TEXT PRIMARY KEY,
+    user_address TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    upload_length INTEGER NOT NULL,  -- total size declared by the client
+    upload_offset INTEGER NOT NULL DEFAULT 0,  -- bytes received so far
+    storage_duration_days INTEGER NOT NULL,
+    storage_cost TEXT,  -- set once the upload is queued
+    quote_id TEXT,  -- storage_quotes price redeemed at creation (nullable)
+    org_id TEXT,  -- organization paying for the upload (nullable)
+    temp_path TEXT NOT NULL,
+    status TEXT NOT NULL,  -- 'receiving', 'finalizing' or 'queued'
+    expires_at INTEGER NOT NULL,  -- abandoned uploads are removed after this
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_resumable_uploads_expires ON resumable_uploads(expires_at);
+
+-- Local copies of pieces served instead of retrieving from Filecoin
+-- Least recently accessed entries are evicted first once the cache is over capacity
+CREATE TABLE IF NOT EXISTS retrieval_cache (
+    commp TEXT PRIMARY KEY,
+    file_hash TEXT NOT NULL,  -- SHA256 the cached bytes were verified against
+    size INTEGER NOT NULL,
+    last_accessed_at INTEGER NOT NULL,
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_retrieval_cache_lru ON retrieval_cache(last_accessed_at);
+
+-- Pieces stored on Filecoin, shared by every user_files row with the same content
+-- ref_count counts active and expiring_soon files; the piece is deleted when the last one is
+CREATE TABLE IF NOT EXISTS stored_objects (
+    commp TEXT PRIMARY KEY,
+    file_hash TEXT NOT NULL,
+    file_size INTEGER NOT NULL,
+    provider_id TEXT,
+    ref_count INTEGER NOT NULL,
+    status TEXT NOT NULL,  -- 'active', 'deleting' or 'deleted'
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_stored_objects_hash ON stored_objects(file_hash, status);
+
+-- Objects for files stored before deduplication; a no-op once every object exists
+INSERT OR IGNORE INTO stored_objects (commp, file_hash, file_size, provider_id, ref_count, status, created_at, updated_at)
+SELECT
+    commp,
+    MIN(file_hash),
+    MAX(file_size),
+    MIN(provider_id),
+    SUM(status IN ('active', 'expiring_soon')),
+    CASE WHEN SUM(status != 'deleted') > 0 THEN 'active' ELSE 'deleted' END,
+    COALESCE(MIN(uploaded_at), 0),
+    COALESCE(MAX(uploaded_at), 0)
+FROM user_files
+WHERE commp IS NOT NULL
+GROUP BY commp;
+
+-- Prices issued by POST /api/quote, honored by the upload that redeems them
+-- Each quote can be redeemed once (file_id is set), and only before expires_at
+CREATE TABLE IF NOT EXISTS storage_quotes (
+    id TEXT PRIMARY KEY,
+    user_address TEXT NOT NULL,
+    file_size INTEGER NOT NULL,
+    storage_duration_days INTEGER NOT NULL,
+    piece_size INTEGER NOT NULL,  -- file_size after Filecoin piece padding
+    rate_cost TEXT NOT NULL,  -- USDFC in wei (bigint as string)
+    lockup_cost TEXT NOT NULL,  -- USDFC in wei (bigint as string)
+    total_cost TEXT NOT NULL,  -- USDFC in wei (bigint as string)
+    signature TEXT NOT NULL,  -- backend wallet signature over the quote terms
+    file_id TEXT,  -- upload that redeemed the quote (nullable)
+    expires_at INTEGER NOT NULL,
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_quotes_expires ON storage_quotes(expires_at);
+
+-- Links that let anyone holding the token download one file, until they expire,
+-- run out of downloads or are revoked
+CREATE TABLE IF NOT EXISTS share_links (
+    id TEXT PRIMARY KEY,
+    token_hash TEXT NOT NULL UNIQUE,  -- SHA-256 of the token; the token itself is only returned once
+    file_id TEXT NOT NULL,
+    user_address TEXT NOT NULL,  -- owner who created the link
+    expires_at INTEGER NOT NULL,
+    max_downloads INTEGER,  -- NULL for unlimited
+    download_count INTEGER NOT NULL DEFAULT 0,
+    revoked_at INTEGER,
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_file ON share_links(file_id);
+
+-- Addresses besides the owner that may download a private file
+CREATE TABLE IF NOT EXISTS file_readers (
+    file_id TEXT NOT NULL,
+    reader_address TEXT NOT NULL,  -- lowercased
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (file_id, reader_address)
+);
+
+-- Outbound webhook endpoints registered by users
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+    id TEXT PRIMARY KEY,
+    user_address TEXT NOT NULL,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,  -- HMAC key for signing deliveries (needed in clear to sign)
+    events TEXT NOT NULL,  -- JSON array of subscribed event types
+    description TEXT,
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_user ON webhook_subscriptions(user_address);
+
+-- Delivery log: one row per event per subscription, retried with backoff
+-- pending -> delivered, or failed once attempts run out (failed rows can be replayed)
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id TEXT PRIMARY KEY,
+    subscription_id TEXT NOT NULL,
+    user_address TEXT NOT NULL,
+    event_id TEXT NOT NULL,  -- same for every subscription notified of one event
+    event TEXT NOT NULL,
+    payload TEXT NOT NULL,  -- JSON body sent on every attempt
+    status TEXT NOT NULL,  -- 'pending', 'delivered' or 'failed'
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at INTEGER NOT NULL,
+    response_status INTEGER,  -- HTTP status of the last attempt
+    error TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    delivered_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at);
+
+-- Bytes each user has queued for storage per UTC day, for the daily upload quota
+CREATE TABLE IF NOT EXISTS upload_usage (
+    user_address TEXT NOT NULL,
+    day TEXT NOT NULL,  -- YYYY-MM-DD
+    bytes INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (user_address, day)
+);
+
+-- Teams of wallets sharing one credit pool (the account 'org:<id>') and owning files together
+CREATE TABLE IF NOT EXISTS organizations (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+    org_id TEXT NOT NULL,
+    member_address TEXT NOT NULL,
+    role TEXT NOT NULL,  -- 'owner', 'admin', 'uploader' or 'viewer'
+    spending_limit TEXT,  -- USDFC wei the member may spend from the pool per UTC month; NULL for no limit
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (org_id, member_address)
+);
 
+CREATE INDEX IF NOT EXISTS idx_organization_members_address ON organization_members(member_address);
@@ -0,0 +1,152 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { ApiKeyIdentity, ApiKeyScope, AuthService } from '../services/auth.js';
+
+declare global {
+    namespace Express {
+        interface Request {
+            // Lowercased wallet address of the authenticated caller
+            userAddress?: string;
+            // Set when the caller authenticated with an API key rather than a session
+            apiKey?: ApiKeyIdentity;
+        }
+    }
+}
+
+export function getBearerToken(req: Request): string | null {
+    const header = req.headers.authorization;
+    if (!header || !header.startsWith('Bearer ')) {
+        return null;
+    }
+    return header.slice('Bearer '.length).trim() || null;
+}
+
+export function getApiKeyHeader(req: Request): string | null {
+    const header = req.headers['x-api-key'];
+    return typeof header === 'string' && header.trim() ? header.trim() : null;
+}
+
+type Caller =
+    | { address: string; apiKey?: ApiKeyIdentity }
+    | { status: number; error: string };
+
+/**
+ * Resolve the session token, or failing that the X-API-Key header, to the caller.
+ * API keys are only accepted when the route names a scope the key holds.
+ * Null when the request carries neither.
+ */
+async function resolveCaller(authService: AuthService, req: Request, scope?: ApiKeyScope): Promise<Caller | null> {
+    const token = getBearerToken(req);
+    const key = getApiKeyHeader(req);
+    if (!token && !key) {
+        return null;
+    }
+
+    if (token) {
+        const address = await authService.getSessionAddress(token);
+        if (address) {
+            return { address };
+        }
+        if (!key) {
+            return { status: 401, error: 'Session is invalid or has expired' };
+        }
+    }
+
+    const identity = await authService.getApiKeyIdentity(key!);
+    if (!identity) {
+        return { status: 401, error: 'API key is invalid, revoked or expired' };
+    }
+    if (!scope) {
+        return { status: 403, error: 'This route requires a signed-in session' };
+    }
+    if (!identity.scopes.includes(scope)) {
+        return { status: 403, error: `API key lacks the ${scope} scope` };
+    }
+    return { address: identity.userAddress, apiKey: identity };
+}
+
+/**
+ * Reject requests without a valid session, or an API key with the given scope, and
+ * attach the caller's address to req.userAddress. Without a scope only sessions are accepted.
+ */
+export function requireAuth(authService: AuthService, scope?: ApiKeyScope): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const caller = await resolveCaller(authService, req, scope);
+            if (!caller) {
+                return res.status(401).json({ error: 'Authentication required' });
+            }
+            if ('error' in caller) {
+                return res.status(caller.status).json({ error: caller.error });
+            }
+
+            req.userAddress = caller.address;
+            req.apiKey = caller.apiKey;
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+/**
+ * Attach the caller's address when the request carries credentials, for routes that
+ * also serve anonymous callers. Credentials that are sent but invalid are still rejected.
+ */
+export function optionalAuth(authService: AuthService, scope?: ApiKeyScope): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const caller = await resolveCaller(authService, req, scope);
+            if (!caller) {
+                return next();
+            }
+            if ('error' in caller) {
+                return res.status(caller.status).json({ error: caller.error });
+            }
+
+            req.userAddress = caller.address;
+            req.apiKey = caller.apiKey;
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+/**
+ * Ensure the address a route acts on belongs to the authenticated caller.
+ * Must run after requireAuth. A missing address defaults to the session address.
+ */
+export function requireAddressMatch(getAddress: (req: Request) => string | undefined): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const requested = getAddress(req);
+
+        if (requested && requested.toLowerCase() !== req.userAddress) {
+            return res.status(403).json({ error: 'Session address does not match requested address' });
+        }
+
+        next();
+    };
+}
+
+/**
+ * Guard operator-only routes with the shared X-Admin-Token secret.
+ * Without a configured token the routes are disabled.
+ */
+export function requireAdminToken(adminToken: string | undefined): RequestHandler {
+    // Compare digests so the check takes the same time whatever the token length
+    const expected = adminToken ? createHash('sha256').update(adminToken).digest() : null;
+
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (!expected) {
+            return res.status(404).json({ error: 'Admin API is not enabled' });
+        }
+
+        const provided = req.headers['x-admin-token'];
+        if (typeof provided !== 'string' || !timingSafeEqual(createHash('sha256').update(provided).digest(), expected)) {
+            return res.status(401).json({ error: 'Admin token required' });
+        }
+
+        next();
+    };
+}
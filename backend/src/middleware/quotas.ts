@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AuthService } from '../services/auth.js';
+import { QuotaExceededError, QuotaService } from '../services/quotas.js';
+import { getApiKeyHeader, getBearerToken } from './auth.js';
+
+/**
+ * Answer a rejected request with its status and, when waiting helps, Retry-After
+ */
+export function sendQuotaError(res: Response, error: QuotaExceededError) {
+    if (error.retryAfterSeconds !== undefined) {
+        res.setHeader('Retry-After', error.retryAfterSeconds.toString());
+    }
+    return res.status(error.status).json({
+        error: error.message,
+        retryAfter: error.retryAfterSeconds ?? null,
+    });
+}
+
+/**
+ * The window a request counts against: its session address, its API key, or the
+ * client IP when it carries neither (or only invalid credentials)
+ */
+async function rateLimitKey(authService: AuthService, req: Request): Promise<string> {
+    const token = getBearerToken(req);
+    const address = token ? await authService.getSessionAddress(token) : null;
+    if (address) {
+        return `address:${address}`;
+    }
+
+    const key = getApiKeyHeader(req);
+    const identity = key ? await authService.getApiKeyIdentity(key) : null;
+    return identity ? `apikey:${identity.id}` : `ip:${req.ip}`;
+}
+
+/**
+ * Limit requests per minute, counted per session address, per API key, or per
+ * client IP. Sets X-RateLimit-Limit and X-RateLimit-Remaining.
+ */
+export function rateLimit(authService: AuthService, quotaService: QuotaService): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        if (!quotaService.rateLimitEnabled) {
+            return next();
+        }
+
+        try {
+            const state = quotaService.consumeRequest(await rateLimitKey(authService, req));
+
+            res.setHeader('X-RateLimit-Limit', state.limit.toString());
+            res.setHeader('X-RateLimit-Remaining', state.remaining.toString());
+            next();
+        } catch (error) {
+            if (error instanceof QuotaExceededError) {
+                res.setHeader('X-RateLimit-Remaining', '0');
+                return sendQuotaError(res, error);
+            }
+            next(error);
+        }
+    };
+}
+
+/**
+ * Hold one of the user's parallel upload slots until the response is done, and turn
+ * the upload away before its body is read when the daily or stored quota is used up.
+ * Must run after requireAuth.
+ */
+export function limitUploads(quotaService: QuotaService): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        let release: (() => void) | null = null;
+        try {
+            release = quotaService.acquireUploadSlot(req.userAddress!);
+            res.on('close', release);
+
+            // The exact size is checked once the body is in; here at least one more byte has to fit
+            await quotaService.check(req.userAddress!, 1);
+            next();
+        } catch (error) {
+            release?.();
+            if (error instanceof QuotaExceededError) {
+                return sendQuotaError(res, error);
+            }
+            next(error);
+        }
+    };
+}
@@ -0,0 +1,201 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import multer, { StorageEngine } from 'multer';
+import { createHash, randomUUID } from 'crypto';
+import { createWriteStream } from 'fs';
+import { rm } from 'fs/promises';
+import { join } from 'path';
+import { Database } from '../db/database.js';
+
+declare global {
+    namespace Express {
+        namespace Multer {
+            interface File {
+                // SHA-256 of the spooled bytes, computed while streaming
+                hash?: string;
+            }
+        }
+    }
+}
+
+export interface UploadMiddlewareOptions {
+    incomingDir: string;
+    maxFileBytes: number;
+    maxUserPendingBytes: number;
+    maxBatchFiles: number;
+}
+
+export interface UploadMiddleware {
+    // A single multipart `file` field
+    file: RequestHandler;
+    // Up to maxBatchFiles multipart `files` fields
+    files: RequestHandler;
+}
+
+export class UploadTooLargeError extends Error {
+    constructor(message: string, public readonly maxBytes: number) {
+        super(message);
+        this.name = 'UploadTooLargeError';
+    }
+}
+
+/**
+ * Bytes of earlier files in the same batch request, which are not queued yet
+ */
+function spooledBytes(req: Request): number {
+    const files = Array.isArray(req.files) ? req.files : [];
+    return files.reduce((sum, file) => sum + (file?.size ?? 0), 0);
+}
+
+/**
+ * Multer storage engine that streams the file to disk and hashes it on the way,
+ * so uploads never sit in memory. Stops reading once the user's pending-bytes
+ * allowance is used up.
+ */
+class SpoolStorage implements StorageEngine {
+    // Bytes currently being received per user, so parallel requests share one allowance
+    private inflight = new Map<string, number>();
+
+    constructor(
+        private db: Database,
+        private incomingDir: string,
+        private maxUserPendingBytes: number
+    ) { }
+
+    _handleFile(req: Request, file: Express.Multer.File, cb: (error?: any, info?: Partial<Express.Multer.File>) => void): void {
+        this.spool(req, file).then((info) => cb(null, info), (error) => cb(error));
+    }
+
+    _removeFile(_req: Request, file: Express.Multer.File, cb: (error: Error | null) => void): void {
+        rm(file.path, { force: true }).then(() => cb(null), cb);
+    }
+
+    private async spool(req: Request, file: Express.Multer.File): Promise<Partial<Express.Multer.File>> {
+        const userAddress = req.userAddress!;
+        const pendingBytes = await this.db.getPendingUploadBytes(userAddress);
+        const allowance = this.maxUserPendingBytes - pendingBytes - (this.inflight.get(userAddress) ?? 0) - spooledBytes(req);
+
+        const path = join(this.incomingDir, randomUUID());
+        const hash = createHash('sha256');
+        const out = createWriteStream(path);
+        let size = 0;
+
+        return new Promise((resolve, reject) => {
+            let settled = false;
+
+            const finish = (error: Error | null) => {
+                if (settled) return;
+                settled = true;
+
+                req.off('close', onClose);
+                this.inflight.set(userAddress, (this.inflight.get(userAddress) ?? 0) - size);
+                if (this.inflight.get(userAddress)! <= 0) {
+                    this.inflight.delete(userAddress);
+                }
+
+                if (error) {
+                    file.stream.unpipe(out);
+                    file.stream.resume();
+                    out.destroy();
+                    rm(path, { force: true }).finally(() => reject(error));
+                    return;
+                }
+
+                resolve({ path, size, hash: hash.digest('hex') });
+            };
+
+            const onClose = () => {
+                if (!req.complete) {
+                    finish(new Error('Upload aborted by client'));
+                }
+            };
+
+            file.stream.on('data', (chunk: Buffer) => {
+                if (settled) return;
+                size += chunk.length;
+                this.inflight.set(userAddress, (this.inflight.get(userAddress) ?? 0) + chunk.length);
+
+                if (size > allowance) {
+                    finish(new UploadTooLargeError(
+                        `Upload exceeds your pending upload allowance of ${this.maxUserPendingBytes} bytes`,
+                        Math.max(allowance, 0)
+                    ));
+                    return;
+                }
+                hash.update(chunk);
+            });
+
+            out.on('error', finish);
+            out.on('finish', () => finish(null));
+            req.on('close', onClose);
+
+            file.stream.pipe(out);
+        });
+    }
+}
+
+/**
+ * Accept a single multipart `file` field, or a batch of `files` fields, spooled to incomingDir.
+ * Both share one pending-bytes allowance per user.
+ * Responds 413 when a file is over maxFileBytes, a batch has more than maxBatchFiles files
+ * or the user's pending allowance is used up.
+ * Temporary files are removed once the response closes unless the handler moved them.
+ */
+export function createUploadMiddleware(db: Database, options: UploadMiddlewareOptions): UploadMiddleware {
+    const storage = new SpoolStorage(db, options.incomingDir, options.maxUserPendingBytes);
+    return {
+        file: wrapUpload(multer({ storage, limits: { fileSize: options.maxFileBytes, files: 1 } }).single('file'), options, 1),
+        files: wrapUpload(
+            multer({ storage, limits: { fileSize: options.maxFileBytes, files: options.maxBatchFiles } }).array('files'),
+            options,
+            options.maxBatchFiles
+        ),
+    };
+}
+
+function wrapUpload(upload: RequestHandler, options: UploadMiddlewareOptions, maxFiles: number): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+        res.on('close', () => {
+            const files = req.file ? [req.file] : Array.isArray(req.files) ? req.files : [];
+            for (const file of files) {
+                if (!file?.path) {
+                    continue;
+                }
+                rm(file.path, { force: true }).catch((error) => {
+                    console.error(`Failed to remove temporary upload ${file.path}:`, error);
+                });
+            }
+        });
+
+        upload(req, res, (error?: any) => {
+            if (error && req.socket.destroyed) {
+                console.warn(`Upload from ${req.userAddress} aborted by client`);
+                return;
+            }
+            if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+                return res.status(413).json({
+                    error: 'File too large',
+                    message: `Uploads are limited to ${options.maxFileBytes} bytes`,
+                    maxBytes: options.maxFileBytes,
+                });
+            }
+            if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_COUNT') {
+                return res.status(413).json({
+                    error: 'Too many files',
+                    message: `Requests are limited to ${maxFiles} file(s)`,
+                    maxFiles,
+                });
+            }
+            if (error instanceof UploadTooLargeError) {
+                return res.status(413).json({
+                    error: 'Upload allowance exceeded',
+                    message: error.message,
+                    maxBytes: error.maxBytes,
+                });
+            }
+            if (error instanceof multer.MulterError) {
+                return res.status(400).json({ error: 'Invalid upload', message: error.message });
+            }
+            next(error);
+        });
+    };
+}
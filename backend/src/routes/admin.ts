@@ -0,0 +1,47 @@
+import { Router, Request, Response } from 'express';
+import { RetrievalCache } from '../services/retrieval-cache.js';
+import { requireAdminToken } from '../middleware/auth.js';
+
+/**
+ * Operator maintenance routes, authenticated with the X-Admin-Token header
+ */
+export function createAdminRouter(adminToken: string | undefined, retrievalCache: RetrievalCache): Router {
+    const router = Router();
+    router.use('/admin', requireAdminToken(adminToken));
+
+    // DELETE /api/admin/cache - Purge the whole retrieval cache
+    router.delete('/admin/cache', async (req: Request, res: Response) => {
+        try {
+            const purged = await retrievalCache.purge();
+            res.json({ purged });
+        } catch (error) {
+            console.error('Error purging retrieval cache:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to purge retrieval cache',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // DELETE /api/admin/cache/:commp - Drop a single piece from the retrieval cache
+    router.delete('/admin/cache/:commp', async (req: Request, res: Response) => {
+        try {
+            await retrievalCache.evict(req.params.commp);
+            res.status(204).end();
+        } catch (error) {
+            console.error('Error evicting retrieval cache entry:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to evict retrieval cache entry',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    return router;
+}
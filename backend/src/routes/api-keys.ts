@@ -0,0 +1,95 @@
+import { Router, Request, Response } from 'express';
+import { ApiKey } from '../db/database.js';
+import { AuthService, ApiKeyError } from '../services/auth.js';
+import { requireAuth } from '../middleware/auth.js';
+
+/**
+ * A key as the routes return it; the key itself is only included on creation
+ */
+function formatApiKey(apiKey: ApiKey) {
+    return {
+        id: apiKey.id,
+        name: apiKey.name,
+        prefix: apiKey.key_prefix,
+        scopes: JSON.parse(apiKey.scopes) as string[],
+        createdAt: apiKey.created_at,
+        expiresAt: apiKey.expires_at,
+        lastUsedAt: apiKey.last_used_at,
+        revokedAt: apiKey.revoked_at,
+    };
+}
+
+/**
+ * API keys of the session's address. Managing keys needs a session; keys can't
+ * issue or revoke keys themselves.
+ */
+export function createApiKeyRouter(authService: AuthService): Router {
+    const router = Router();
+    router.use('/api-keys', requireAuth(authService));
+
+    // POST /api/api-keys - Issue a key; the key is only returned here
+    // Expects: name, scopes (array of upload, read, fund), expiresInDays (optional)
+    router.post('/api-keys', async (req: Request, res: Response) => {
+        try {
+            const { apiKey, key } = await authService.createApiKey(req.userAddress!, {
+                name: req.body.name,
+                scopes: req.body.scopes,
+                expiresInDays: req.body.expiresInDays,
+            });
+            res.status(201).json({ ...formatApiKey(apiKey), key });
+        } catch (error) {
+            if (error instanceof ApiKeyError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error creating API key:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to create API key',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // GET /api/api-keys - List the session's keys, including revoked ones
+    router.get('/api-keys', async (req: Request, res: Response) => {
+        try {
+            const apiKeys = await authService.listApiKeys(req.userAddress!);
+            res.json({ apiKeys: apiKeys.map(formatApiKey) });
+        } catch (error) {
+            console.error('Error listing API keys:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to list API keys',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // DELETE /api/api-keys/:id - Revoke a key; requests using it are rejected from then on
+    router.delete('/api-keys/:id', async (req: Request, res: Response) => {
+        try {
+            const apiKey = await authService.revokeApiKey(req.userAddress!, req.params.id);
+            res.json(formatApiKey(apiKey));
+        } catch (error) {
+            if (error instanceof ApiKeyError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error revoking API key:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to revoke API key',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    return router;
+}
@@ -0,0 +1,78 @@
+import { Router, Request, Response } from 'express';
+import { AuthService, AuthError } from '../services/auth.js';
+import { getBearerToken } from '../middleware/auth.js';
+
+export function createAuthRouter(authService: AuthService): Router {
+    const router = Router();
+
+    // GET /api/auth/nonce - Issue a single-use nonce for a sign-in message
+    router.get('/auth/nonce', async (req: Request, res: Response) => {
+        try {
+            const { nonce, expiresAt } = await authService.createNonce();
+            res.json({ nonce, expiresAt });
+        } catch (error) {
+            console.error('Error creating auth nonce:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to create nonce',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // POST /api/auth/verify - Verify a signed EIP-4361 message and issue a session token
+    // Expects: message, signature
+    router.post('/auth/verify', async (req: Request, res: Response) => {
+        try {
+            const { message, signature } = req.body;
+
+            if (!message || !signature) {
+                return res.status(400).json({ error: 'Missing required fields: message, signature' });
+            }
+
+            const session = await authService.verify(message, signature, req.get('host'));
+
+            res.json({
+                token: session.token,
+                address: session.address,
+                expiresAt: session.expiresAt,
+            });
+        } catch (error) {
+            if (error instanceof AuthError) {
+                return res.status(401).json({ error: 'Authentication failed', message: error.message });
+            }
+            console.error('Error verifying sign-in:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to verify sign-in',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // POST /api/auth/logout - Revoke the current session token
+    router.post('/auth/logout', async (req: Request, res: Response) => {
+        try {
+            const token = getBearerToken(req);
+            if (token) {
+                await authService.revokeSession(token);
+            }
+            res.json({ success: true });
+        } catch (error) {
+            console.error('Error revoking session:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to log out',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    return router;
+}
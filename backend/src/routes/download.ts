@@ -0,0 +1,178 @@
+import { Request, Response } from 'express';
+import { createHash } from 'crypto';
+import { pipeline } from 'stream/promises';
+import { Database, UserFile } from '../db/database.js';
+import { SynapseService } from '../services/synapse.js';
+import { RetrievalCache } from '../services/retrieval-cache.js';
+import { contentSpan, extractRanges, normalizeDirectoryPath } from '../services/unixfs.js';
+
+/**
+ * Whether an If-None-Match header matches the given strong ETag
+ */
+function etagMatches(ifNoneMatch: string | undefined, etag: string): boolean {
+    if (!ifNoneMatch) {
+        return false;
+    }
+    return ifNoneMatch.split(',').some((candidate) => {
+        const tag = candidate.trim().replace(/^W\//, '');
+        return tag === '*' || tag === etag;
+    });
+}
+
+/**
+ * Pass data through while hashing it. The last chunk is held back until the hash
+ * is confirmed, so a corrupt download ends short of Content-Length instead of
+ * looking complete.
+ */
+function verifySha256(expectedHash: string, onMismatch?: () => Promise<void>) {
+    return async function* (source: AsyncIterable<Buffer>): AsyncGenerator<Buffer> {
+        const hash = createHash('sha256');
+        let pending: Buffer | null = null;
+
+        for await (const chunk of source) {
+            hash.update(chunk);
+            if (pending) {
+                yield pending;
+            }
+            pending = chunk;
+        }
+
+        if (hash.digest('hex') !== expectedHash) {
+            await onMismatch?.();
+            throw new Error('Downloaded data does not match the stored file hash');
+        }
+        if (pending) {
+            yield pending;
+        }
+    };
+}
+
+/**
+ * Streams a stored file (or one path of a directory upload) to the client
+ */
+export type FileSender = (req: Request, res: Response, file: UserFile, path?: string) => Promise<void>;
+
+/**
+ * The download logic shared by every route that serves stored files; routes only
+ * decide which file the request may read.
+ * Supports Range (single byte range) and conditional requests via an ETag of the file hash.
+ * Served from the local retrieval cache when possible; full misses fill it on the way out.
+ */
+export function createFileSender(db: Database, synapseService: SynapseService, retrievalCache: RetrievalCache): FileSender {
+    return async (req, res, file, path) => {
+        const commp = file.commp!;
+
+        // Checked directly rather than via status, which is only updated periodically
+        if (file.expires_at !== null && file.expires_at <= Date.now()) {
+            res.status(410).json({
+                error: 'File storage has expired',
+                message: `Storage for ${file.file_name} ended on ${new Date(file.expires_at).toISOString()}`,
+                expiresAt: file.expires_at,
+            });
+            return;
+        }
+
+        // A single file out of a directory upload's CAR
+        if (path !== undefined) {
+            if (!file.root_cid) {
+                res.status(400).json({ error: 'File is not a directory upload' });
+                return;
+            }
+            const entry = await db.getDirectoryEntry(file.id, normalizeDirectoryPath(path));
+            if (!entry) {
+                res.status(404).json({ error: 'Path not found' });
+                return;
+            }
+            if (entry.kind !== 'file') {
+                res.status(400).json({ error: 'Path is a directory', message: `List it with GET /api/files/${entry.file_id}/entries` });
+                return;
+            }
+
+            const etag = `"${entry.file_hash}"`;
+            res.setHeader('ETag', etag);
+            if (etagMatches(req.headers['if-none-match'], etag)) {
+                res.status(304).end();
+                return;
+            }
+
+            const ranges = JSON.parse(entry.ranges!) as [number, number][];
+            const span = contentSpan(ranges);
+            res.setHeader('Content-Type', 'application/octet-stream');
+            res.setHeader('Content-Disposition', `attachment; filename="${entry.path.split('/').pop()}"`);
+            res.setHeader('Content-Length', entry.size);
+            if (req.method === 'HEAD' || !span) {
+                res.end();
+                return;
+            }
+
+            const cachedStream = await retrievalCache.open(commp, file.file_hash, span);
+            const stream = cachedStream ?? await synapseService.openDownloadStream(commp, span);
+            await pipeline(stream, extractRanges(ranges, span.start), verifySha256(entry.file_hash!), res);
+            if (!cachedStream) {
+                retrievalCache.fillInBackground(commp, file.file_hash, () => synapseService.openDownloadStream(commp));
+            }
+            return;
+        }
+
+        const etag = `"${file.file_hash}"`;
+        res.setHeader('Accept-Ranges', 'bytes');
+        // The body is ciphertext; clients decrypt it with the key the envelope wraps
+        if (file.encryption) {
+            res.setHeader('X-Encryption-Envelope', Buffer.from(file.encryption).toString('base64url'));
+        }
+        res.setHeader('ETag', etag);
+
+        if (etagMatches(req.headers['if-none-match'], etag)) {
+            res.status(304).end();
+            return;
+        }
+
+        // A stale If-Range means the client's partial copy is outdated; send the whole file
+        const ifRange = req.headers['if-range'];
+        const ranges = !ifRange || ifRange === etag ? req.range(file.file_size, { combine: true }) : undefined;
+
+        if (ranges === -1) {
+            res.setHeader('Content-Range', `bytes */${file.file_size}`);
+            res.status(416).json({ error: 'Range not satisfiable' });
+            return;
+        }
+
+        // Malformed and multi-range requests are answered with the full file
+        const range = Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1 ? ranges[0] : undefined;
+
+        let stream = null;
+        let cached = false;
+        if (req.method !== 'HEAD') {
+            stream = await retrievalCache.open(commp, file.file_hash, range);
+            cached = stream !== null;
+            stream ??= await synapseService.openDownloadStream(commp, range);
+        }
+
+        res.setHeader('Content-Type', 'application/octet-stream');
+        res.setHeader('Content-Disposition', `attachment; filename="${file.file_name}"`);
+        if (range) {
+            res.status(206);
+            res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${file.file_size}`);
+            res.setHeader('Content-Length', range.end - range.start + 1);
+        } else {
+            res.setHeader('Content-Length', file.file_size);
+        }
+
+        if (!stream) {
+            res.end();
+            return;
+        }
+
+        // Partial responses can't be checked against the whole-file hash
+        if (range) {
+            await pipeline(stream, res);
+            if (!cached) {
+                retrievalCache.fillInBackground(commp, file.file_hash, () => synapseService.openDownloadStream(commp));
+            }
+        } else if (cached) {
+            await pipeline(stream, verifySha256(file.file_hash, () => retrievalCache.evict(commp)), res);
+        } else {
+            await pipeline(stream, verifySha256(file.file_hash), retrievalCache.writeThrough(commp, file.file_hash), res);
+        }
+    };
+}
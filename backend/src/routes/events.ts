@@ -0,0 +1,72 @@
+import { Router, Request, Response } from 'express';
+import { AuthService } from '../services/auth.js';
+import { TooManyListenersError, UserEvent, UserEventHub } from '../services/events.js';
+import { getApiKeyHeader, getBearerToken, requireAuth } from '../middleware/auth.js';
+
+// Comment lines keep proxies from closing idle streams; the session or API key is re-checked with each
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// How long EventSource-style clients wait before reconnecting
+const RECONNECT_DELAY_MS = 5000;
+
+function writeEvent(res: Response, event: UserEvent): void {
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+}
+
+/**
+ * Server-Sent Events stream of the session's upload, bridge and balance progress
+ */
+export function createEventRouter(authService: AuthService, eventHub: UserEventHub): Router {
+    const router = Router();
+
+    // GET /api/events - Stream live events for the session's address (text/event-stream)
+    router.get('/events', requireAuth(authService, 'read'), (req: Request, res: Response) => {
+        const userAddress = req.userAddress!;
+        const apiKey = req.apiKey ? getApiKeyHeader(req)! : null;
+        const token = apiKey ? null : getBearerToken(req)!;
+        const currentAddress = async () => apiKey
+            ? (await authService.getApiKeyIdentity(apiKey))?.userAddress ?? null
+            : authService.getSessionAddress(token!);
+
+        let unsubscribe: () => void;
+        try {
+            unsubscribe = eventHub.subscribe(userAddress, (event) => writeEvent(res, event));
+        } catch (error) {
+            if (error instanceof TooManyListenersError) {
+                return res.status(429).json({ error: error.message });
+            }
+            throw error;
+        }
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+            // Stops nginx from buffering the stream
+            'X-Accel-Buffering': 'no',
+        });
+        res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+        res.write(`event: ready\ndata: ${JSON.stringify({ address: userAddress })}\n\n`);
+
+        const heartbeat = setInterval(() => {
+            currentAddress().then((address) => {
+                if (address !== userAddress) {
+                    // Signed out, revoked or expired; the client has to sign in again
+                    res.write(`event: session_expired\ndata: {}\n\n`);
+                    res.end();
+                    return;
+                }
+                res.write(': keep-alive\n\n');
+            }).catch((error) => {
+                console.error(`Failed to re-check session of event stream for ${userAddress}:`, error);
+            });
+        }, HEARTBEAT_INTERVAL_MS);
+
+        res.on('close', () => {
+            clearInterval(heartbeat);
+            unsubscribe();
+        });
+    });
+
+    return router;
+}
@@ -0,0 +1,162 @@
+import { Router, Request, Response } from 'express';
+import { CreditTransactionSort, Organization, OrganizationMember } from '../db/database.js';
+import { AuthService } from '../services/auth.js';
+import { OrganizationService, OrganizationError } from '../services/organizations.js';
+import { QueryParamError, encodeCursor, optionalEnumParam, optionalIntParam, optionalStringParam, parseListParams } from './pagination.js';
+import { formatCreditTransaction } from './storage.js';
+import { requireAuth } from '../middleware/auth.js';
+
+function formatOrganization(org: Organization) {
+    return {
+        id: org.id,
+        name: org.name,
+        createdBy: org.created_by,
+        createdAt: org.created_at,
+    };
+}
+
+function formatMember(member: OrganizationMember & { spentThisMonth?: bigint }) {
+    return {
+        address: member.member_address,
+        role: member.role,
+        spendingLimit: member.spending_limit,
+        spentThisMonth: member.spentThisMonth?.toString(),
+        addedAt: member.created_at,
+    };
+}
+
+function sendOrganizationError(res: Response, error: unknown, action: string) {
+    if (error instanceof OrganizationError) {
+        return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof QueryParamError) {
+        return res.status(400).json({ error: error.message });
+    }
+
+    console.error(`Error ${action}:`, error);
+    if (error instanceof Error) {
+        console.error('Stack:', error.stack);
+    }
+    res.status(500).json({
+        error: `Failed to ${action}`,
+        message: error instanceof Error ? error.message : 'Unknown error'
+    });
+}
+
+/**
+ * Organizations the session's address belongs to: their members, pooled credits and
+ * spending. Reading accepts API keys with the read scope; changes need a session.
+ * Organization files are listed by GET /api/files?orgId= and uploaded with orgId.
+ */
+export function createOrganizationRouter(authService: AuthService, organizationService: OrganizationService): Router {
+    const router = Router();
+    const authenticate = requireAuth(authService);
+    const authenticateRead = requireAuth(authService, 'read');
+
+    // POST /api/orgs - Create an organization; the caller becomes its owner
+    // Expects: name
+    router.post('/orgs', authenticate, async (req: Request, res: Response) => {
+        try {
+            const org = await organizationService.create(req.userAddress!, req.body.name);
+            res.status(201).json({ ...formatOrganization(org), role: 'owner', spendingLimit: null });
+        } catch (error) {
+            sendOrganizationError(res, error, 'create organization');
+        }
+    });
+
+    // GET /api/orgs - Organizations the caller belongs to, with their role in each
+    router.get('/orgs', authenticateRead, async (req: Request, res: Response) => {
+        try {
+            const orgs = await organizationService.listForMember(req.userAddress!);
+            res.json({
+                organizations: orgs.map((org) => ({
+                    ...formatOrganization(org),
+                    role: org.role,
+                    spendingLimit: org.spending_limit,
+                })),
+            });
+        } catch (error) {
+            sendOrganizationError(res, error, 'list organizations');
+        }
+    });
+
+    // GET /api/orgs/:id - An organization with its pooled balance and the caller's role and spending
+    router.get('/orgs/:id', authenticateRead, async (req: Request, res: Response) => {
+        try {
+            const overview = await organizationService.getOverview(req.params.id, req.userAddress!);
+            res.json({
+                ...formatOrganization(overview.organization),
+                role: overview.member.role,
+                spendingLimit: overview.member.spending_limit,
+                spentThisMonth: overview.spentThisMonth.toString(),
+                balance: overview.balance.toString(),
+                heldBalance: overview.heldBalance.toString(),
+            });
+        } catch (error) {
+            sendOrganizationError(res, error, 'fetch organization');
+        }
+    });
+
+    // GET /api/orgs/:id/members - Members with their roles, limits and spending this month
+    router.get('/orgs/:id/members', authenticateRead, async (req: Request, res: Response) => {
+        try {
+            const members = await organizationService.listMembers(req.params.id, req.userAddress!);
+            res.json({ members: members.map(formatMember) });
+        } catch (error) {
+            sendOrganizationError(res, error, 'list organization members');
+        }
+    });
+
+    // PUT /api/orgs/:id/members/:address - Add a member or change their role or spending limit (owners and admins)
+    // Expects: role (owner|admin|uploader|viewer; required for new members),
+    //          spendingLimit (optional: USDFC wei per UTC month, null for no limit)
+    router.put('/orgs/:id/members/:address', authenticate, async (req: Request, res: Response) => {
+        try {
+            const member = await organizationService.setMember(req.params.id, req.userAddress!, req.params.address, {
+                role: req.body.role,
+                spendingLimit: req.body.spendingLimit,
+            });
+            res.json(formatMember(member));
+        } catch (error) {
+            sendOrganizationError(res, error, 'update organization member');
+        }
+    });
+
+    // DELETE /api/orgs/:id/members/:address - Remove a member, or leave the organization
+    router.delete('/orgs/:id/members/:address', authenticate, async (req: Request, res: Response) => {
+        try {
+            await organizationService.removeMember(req.params.id, req.userAddress!, req.params.address);
+            res.status(204).end();
+        } catch (error) {
+            sendOrganizationError(res, error, 'remove organization member');
+        }
+    });
+
+    // GET /api/orgs/:id/credits/history - The pool's credit transactions and who made them, a page at a time
+    // Query: limit, cursor, type (deposit|deduct|refund), member, createdAfter, createdBefore,
+    //        sort (createdAt|amount), order (asc|desc)
+    router.get('/orgs/:id/credits/history', authenticateRead, async (req: Request, res: Response) => {
+        try {
+            const params = parseListParams<CreditTransactionSort>(req, {
+                createdAt: 'created_at',
+                amount: 'amount',
+            });
+            const page = await organizationService.getCreditHistory(req.params.id, req.userAddress!, {
+                ...params,
+                type: optionalEnumParam(req, 'type', ['deposit', 'deduct', 'refund'] as const),
+                memberAddress: optionalStringParam(req, 'member')?.toLowerCase(),
+                createdAfter: optionalIntParam(req, 'createdAfter'),
+                createdBefore: optionalIntParam(req, 'createdBefore'),
+            });
+
+            res.json({
+                transactions: page.rows.map(formatCreditTransaction),
+                nextCursor: encodeCursor(params.sort, params.order, page.next),
+            });
+        } catch (error) {
+            sendOrganizationError(res, error, 'fetch organization credit history');
+        }
+    });
+
+    return router;
+}
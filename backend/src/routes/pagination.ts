@@ -0,0 +1,124 @@
+import { Request } from 'express';
+import { PageCursor, SortOrder } from '../db/database.js';
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 200;
+
+/**
+ * A query parameter the list routes can't use; answered with 400
+ */
+export class QueryParamError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'QueryParamError';
+    }
+}
+
+export interface ListParams<S extends string> {
+    sort: S;
+    order: SortOrder;
+    limit: number;
+    after?: PageCursor;
+}
+
+interface CursorPayload extends PageCursor {
+    sort: string;
+    order: SortOrder;
+}
+
+/**
+ * Cursors are opaque to clients. They record the sort they were issued for, so a
+ * cursor can't be replayed against a different ordering.
+ */
+export function encodeCursor(sort: string, order: SortOrder, cursor: PageCursor | null): string | null {
+    if (!cursor) {
+        return null;
+    }
+    const payload: CursorPayload = { sort, order, value: cursor.value, id: cursor.id };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(raw: string, sort: string, order: SortOrder): PageCursor {
+    let payload: Partial<CursorPayload>;
+    try {
+        payload = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    } catch {
+        throw new QueryParamError('cursor is invalid');
+    }
+    if (
+        !payload ||
+        typeof payload.id !== 'string' ||
+        (typeof payload.value !== 'string' && typeof payload.value !== 'number')
+    ) {
+        throw new QueryParamError('cursor is invalid');
+    }
+    if (payload.sort !== sort || payload.order !== order) {
+        throw new QueryParamError('cursor was issued for a different sort or order');
+    }
+    return { value: payload.value, id: payload.id };
+}
+
+function queryString(req: Request, name: string): string | undefined {
+    const value = req.query[name];
+    if (value === undefined || value === '') {
+        return undefined;
+    }
+    if (typeof value !== 'string') {
+        throw new QueryParamError(`${name} must be given once`);
+    }
+    return value;
+}
+
+/**
+ * A non-negative integer query parameter (sizes, millisecond timestamps)
+ */
+export function optionalIntParam(req: Request, name: string): number | undefined {
+    const raw = queryString(req, name);
+    if (raw === undefined) {
+        return undefined;
+    }
+    const value = Number(raw);
+    if (!Number.isSafeInteger(value) || value < 0) {
+        throw new QueryParamError(`${name} must be a non-negative integer`);
+    }
+    return value;
+}
+
+export function optionalEnumParam<T extends string>(req: Request, name: string, allowed: readonly T[]): T | undefined {
+    const raw = queryString(req, name);
+    if (raw === undefined) {
+        return undefined;
+    }
+    if (!(allowed as readonly string[]).includes(raw)) {
+        throw new QueryParamError(`${name} must be one of: ${allowed.join(', ')}`);
+    }
+    return raw as T;
+}
+
+export function optionalStringParam(req: Request, name: string): string | undefined {
+    return queryString(req, name);
+}
+
+/**
+ * Read limit, cursor, sort and order. sorts maps the API's sort names to the
+ * database's; the first entry is the default. Lists are newest/largest first by default.
+ */
+export function parseListParams<S extends string>(req: Request, sorts: Record<string, S>): ListParams<S> {
+    const sortNames = Object.keys(sorts);
+    const sortName = optionalEnumParam(req, 'sort', sortNames) ?? sortNames[0];
+    const order = optionalEnumParam<SortOrder>(req, 'order', ['asc', 'desc']) ?? 'desc';
+
+    const limit = optionalIntParam(req, 'limit') ?? DEFAULT_PAGE_LIMIT;
+    if (limit < 1 || limit > MAX_PAGE_LIMIT) {
+        throw new QueryParamError(`limit must be between 1 and ${MAX_PAGE_LIMIT}`);
+    }
+
+    const sort = sorts[sortName];
+    const rawCursor = queryString(req, 'cursor');
+    return {
+        sort,
+        order,
+        limit,
+        after: rawCursor === undefined ? undefined : decodeCursor(rawCursor, sort, order),
+    };
+}
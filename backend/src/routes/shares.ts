@@ -0,0 +1,84 @@
+import { Router, Request, Response } from 'express';
+import { Database, ShareLink } from '../db/database.js';
+import { SynapseService } from '../services/synapse.js';
+import { RetrievalCache } from '../services/retrieval-cache.js';
+import { ShareService, ShareLinkError } from '../services/shares.js';
+import { DirectoryPackError } from '../services/unixfs.js';
+import { createFileSender } from './download.js';
+
+/**
+ * A share link as the management routes return it; the token is never included
+ */
+export function formatShareLink(link: ShareLink, now: number = Date.now()) {
+    let status: 'active' | 'revoked' | 'expired' | 'exhausted' = 'active';
+    if (link.revoked_at !== null) {
+        status = 'revoked';
+    } else if (link.expires_at <= now) {
+        status = 'expired';
+    } else if (link.max_downloads !== null && link.download_count >= link.max_downloads) {
+        status = 'exhausted';
+    }
+
+    return {
+        id: link.id,
+        fileId: link.file_id,
+        status,
+        expiresAt: link.expires_at,
+        maxDownloads: link.max_downloads,
+        downloadCount: link.download_count,
+        revokedAt: link.revoked_at,
+        createdAt: link.created_at,
+    };
+}
+
+/**
+ * Public downloads through share links. Mounted at the root so links stay short.
+ */
+export function createShareRouter(
+    db: Database,
+    synapseService: SynapseService,
+    retrievalCache: RetrievalCache,
+    shareService: ShareService
+): Router {
+    const router = Router();
+    const sendFile = createFileSender(db, synapseService, retrievalCache);
+
+    // GET /s/:token - Download a shared file without signing in; each complete download uses up one download
+    // Query: path - a file inside a shared directory upload
+    router.get('/s/:token', async (req: Request, res: Response) => {
+        try {
+            const { link, file } = await shareService.redeem(req.params.token);
+            // Only a full 200 body that was sent to the end counts; HEAD, 304, ranges and aborted downloads don't
+            res.on('finish', () => {
+                if (req.method === 'GET' && res.statusCode === 200) {
+                    shareService.recordDownload(link).catch((error) => {
+                        console.error(`Failed to count download for share link ${link.id}:`, error);
+                    });
+                }
+            });
+            await sendFile(req, res, file, typeof req.query.path === 'string' ? req.query.path : undefined);
+        } catch (error) {
+            if (res.headersSent) {
+                // Mid-stream failure or client disconnect; the truncated body tells the client
+                console.warn(`Shared download interrupted: ${error instanceof Error ? error.message : error}`);
+                res.destroy();
+                return;
+            }
+
+            if (error instanceof ShareLinkError || error instanceof DirectoryPackError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error downloading shared file:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to download file',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    return router;
+}
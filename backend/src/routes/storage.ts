@@ -1,92 +1,337 @@
 import { Router, Request, Response } from 'express';
-import multer from 'multer';
+import { join } from 'path';
+import { rm } from 'fs/promises';
 import { v4 as uuidv4 } from 'uuid';
-import { Database } from '../db/database.js';
+import { Database, FileReader, FileVisibility, StorageQuote, UserFile, UserFileQuery, UserFileSort, CreditTransaction, CreditTransactionSort } from '../db/database.js';
 import { SynapseService } from '../services/synapse.js';
-import { UploadService } from '../services/upload.js';
+import { UploadQueue } from '../services/upload-queue.js';
 import { CreditService } from '../services/credits.js';
+import { AuthService } from '../services/auth.js';
+import { DepositService } from '../services/deposits.js';
+import { RetrievalCache } from '../services/retrieval-cache.js';
+import { FileService, FileOperationError, parseVisibility } from '../services/files.js';
+import { QuoteService, QuoteError } from '../services/quotes.js';
+import { PricingService } from '../services/pricing.js';
+import { ShareService, ShareLinkError } from '../services/shares.js';
+import { parseEncryptionEnvelope, EncryptionEnvelopeError } from '../services/encryption.js';
+import { DirectoryPackError, normalizeDirectoryPath, packDirectory } from '../services/unixfs.js';
+import { QuotaExceededError, QuotaService, UploadReservation } from '../services/quotas.js';
+import { OrganizationError, OrganizationService, organizationAccount } from '../services/organizations.js';
+import { SYNAPSE_COSTS } from '../constants.js';
+import {
+    QueryParamError,
+    encodeCursor,
+    optionalEnumParam,
+    optionalIntParam,
+    optionalStringParam,
+    parseListParams,
+} from './pagination.js';
+import { createFileSender } from './download.js';
+import { formatShareLink } from './shares.js';
+import { requireAuth, requireAddressMatch, optionalAuth } from '../middleware/auth.js';
+import { createUploadMiddleware, UploadMiddlewareOptions } from '../middleware/upload.js';
+import { limitUploads, sendQuotaError } from '../middleware/quotas.js';
 
-// Use memory storage (no disk writes)
-const upload = multer({ storage: multer.memoryStorage() });
+/**
+ * A file as the file routes return it
+ */
+function formatUserFile(f: UserFile) {
+    return {
+        id: f.id,
+        fileName: f.file_name,
+        fileSize: f.file_size,
+        fileHash: f.file_hash,
+        commp: f.commp,
+        providerId: f.provider_id,
+        storageDurationDays: f.storage_duration_days,
+        storageCost: f.storage_cost,
+        uploadedAt: f.uploaded_at,
+        expiresAt: f.expires_at,
+        status: f.status,
+        visibility: f.visibility,
+        rootCid: f.root_cid,
+        encryption: f.encryption ? JSON.parse(f.encryption) : null,
+        orgId: f.org_id,
+        uploadedBy: f.user_address,
+    };
+}
+
+/**
+ * A credit transaction as the history routes return it
+ */
+export function formatCreditTransaction(tx: CreditTransaction) {
+    return {
+        id: tx.id,
+        type: tx.type,
+        amount: tx.amount,
+        fileId: tx.file_id,
+        bridgeRequestId: tx.bridge_request_id,
+        description: tx.description,
+        memberAddress: tx.member_address,
+        createdAt: tx.created_at,
+    };
+}
+
+/**
+ * Answer a credit hold or charge that could not be made: 403 when it would take an
+ * organization member over their spending limit, 402 when the balance is too low
+ */
+export function sendHoldFailure(
+    res: Response,
+    failure: { currentBalance?: bigint; requiredAmount?: bigint; spendingLimit?: bigint; spent?: bigint }
+) {
+    // Nothing to reserve, e.g. an empty file
+    if (failure.requiredAmount !== undefined && failure.requiredAmount <= 0n) {
+        return res.status(400).json({ error: 'Upload has no storage cost', message: 'Empty files cannot be stored' });
+    }
+    if (failure.spendingLimit !== undefined) {
+        const spent = failure.spent ?? 0n;
+        const left = failure.spendingLimit > spent ? failure.spendingLimit - spent : 0n;
+        return res.status(403).json({
+            error: 'Spending limit exceeded',
+            spendingLimit: failure.spendingLimit.toString(),
+            spent: spent.toString(),
+            requiredAmount: failure.requiredAmount?.toString(),
+            message: `Need ${failure.requiredAmount} wei, but only ${left} wei of your monthly spending limit is left`,
+        });
+    }
+    return res.status(402).json({
+        error: 'Insufficient credits',
+        currentBalance: failure.currentBalance?.toString(),
+        requiredAmount: failure.requiredAmount?.toString(),
+        message: `Need ${failure.requiredAmount} wei, but only have ${failure.currentBalance} wei`,
+    });
+}
+
+function formatFileReader(reader: FileReader) {
+    return { address: reader.reader_address, addedAt: reader.created_at };
+}
+
+/**
+ * Paging, filters and sort of a file listing
+ */
+function parseFileListQuery(req: Request): UserFileQuery {
+    const params = parseListParams<UserFileSort>(req, {
+        uploadedAt: 'uploaded_at',
+        fileName: 'file_name',
+        fileSize: 'file_size',
+        expiresAt: 'expires_at',
+    });
+    return {
+        ...params,
+        namePrefix: optionalStringParam(req, 'namePrefix'),
+        minSize: optionalIntParam(req, 'minSize'),
+        maxSize: optionalIntParam(req, 'maxSize'),
+        uploadedAfter: optionalIntParam(req, 'uploadedAfter'),
+        uploadedBefore: optionalIntParam(req, 'uploadedBefore'),
+        visibility: optionalEnumParam(req, 'visibility', ['private', 'public', 'unlisted'] as const),
+    };
+}
+
+/**
+ * Visibility sent with an upload; private when omitted
+ */
+function uploadVisibility(value: unknown): FileVisibility {
+    return value === undefined || value === '' ? 'private' : parseVisibility(value);
+}
 
 export function createStorageRouter(
     db: Database,
-    synapseService: SynapseService
+    synapseService: SynapseService,
+    authService: AuthService,
+    depositService: DepositService,
+    uploadQueue: UploadQueue,
+    retrievalCache: RetrievalCache,
+    quoteService: QuoteService,
+    pricingService: PricingService,
+    shareService: ShareService,
+    creditService: CreditService,
+    quotaService: QuotaService,
+    organizationService: OrganizationService,
+    uploadOptions: UploadMiddlewareOptions
 ): Router {
     const router = Router();
-    const uploadService = new UploadService(db, synapseService);
-    const creditService = new CreditService(db);
+    const fileService = new FileService(db, creditService, synapseService, retrievalCache, pricingService, organizationService);
+    const upload = createUploadMiddleware(db, uploadOptions);
+    const sendFile = createFileSender(db, synapseService, retrievalCache);
+    // Sessions only; the routes below that name a scope also accept API keys holding it
+    const authenticate = requireAuth(authService);
+    const authenticateUpload = requireAuth(authService, 'upload');
+    const authenticateRead = requireAuth(authService, 'read');
+    const authenticateFund = requireAuth(authService, 'fund');
+    const uploadLimits = limitUploads(quotaService);
+    const ownsAddressParam = requireAddressMatch((req) => req.params.userAddress);
+
+    // GET /api/pricing - Prices uploads are currently charged at
+    router.get('/pricing', (req: Request, res: Response) => {
+        const prices = pricingService.prices;
+        res.json({
+            ratePerTiBPerEpoch: prices.ratePerTiBPerEpoch.toString(),
+            lockupPerTiB: prices.lockupPerTiB.toString(),
+            synapseRatePerTiBPerEpoch: prices.synapseRatePerTiBPerEpoch.toString(),
+            cdnSurchargePerTiBPerEpoch: prices.cdnSurchargePerTiBPerEpoch.toString(),
+            marginBps: prices.marginBps,
+            epochsPerDay: Number(SYNAPSE_COSTS.EPOCHS_PER_DAY),
+            epochDurationSeconds: SYNAPSE_COSTS.EPOCH_DURATION_SECONDS,
+            source: prices.source,
+            updatedAt: prices.updatedAt,
+        });
+    });
+
+    // POST /api/quote - Signed, time-limited price for storing a file
+    // Expects: fileSize, storageDurationDays
+    router.post('/quote', authenticateUpload, async (req: Request, res: Response) => {
+        try {
+            const fileSize = Number(req.body.fileSize);
+            const storageDurationDays = Number(req.body.storageDurationDays);
+
+            if (!Number.isInteger(fileSize) || fileSize <= 0) {
+                return res.status(400).json({ error: 'fileSize must be a positive integer' });
+            }
+            if (fileSize > uploadOptions.maxFileBytes) {
+                return res.status(413).json({ error: `Uploads are limited to ${uploadOptions.maxFileBytes} bytes` });
+            }
+            if (!Number.isInteger(storageDurationDays) || storageDurationDays <= 0) {
+                return res.status(400).json({ error: 'storageDurationDays must be a positive integer' });
+            }
+
+            const quote = await quoteService.createQuote(req.userAddress!, { fileSize, storageDurationDays });
+
+            res.status(201).json({
+                quoteId: quote.id,
+                fileSize: quote.file_size,
+                storageDurationDays: quote.storage_duration_days,
+                breakdown: {
+                    rateCost: quote.rate_cost,
+                    lockupCost: quote.lockup_cost,
+                    pieceSize: quote.piece_size,
+                    paddingBytes: quote.piece_size - quote.file_size,
+                },
+                totalCost: quote.total_cost,
+                expiresAt: quote.expires_at,
+                signature: quote.signature,
+                signer: quoteService.signerAddress,
+            });
+        } catch (error) {
+            console.error('Error creating quote:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to create quote',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
 
     // POST /api/initiate-storage - Initiate file upload
-    // Expects: file, userAddress, storageDurationDays
-    router.post('/initiate-storage', upload.single('file'), async (req: Request, res: Response) => {
+    // Expects: file, storageDurationDays and/or quoteId, userAddress (optional, must match session),
+    //          encryption (optional JSON envelope when the file is client-side encrypted),
+    //          visibility (optional: private, public or unlisted; default private),
+    //          orgId (optional: the organization pays from its pool and owns the file)
+    router.post('/initiate-storage', authenticateUpload, uploadLimits, upload.file, requireAddressMatch((req) => req.body.userAddress), async (req: Request, res: Response) => {
+        let reservation: UploadReservation | null = null;
+        // Released unless the upload is queued, so the user can retry with the same quote
+        let quote: StorageQuote | null = null;
+        let queued = false;
         try {
             if (!req.file) {
                 return res.status(400).json({ error: 'No file provided' });
             }
 
-            const { userAddress, storageDurationDays } = req.body;
-
-            if (!userAddress) {
-                return res.status(400).json({ error: 'userAddress is required' });
-            }
+            const { quoteId } = req.body;
+            // Optional with a quote, which fixes the duration
+            const storageDurationDays = req.body.storageDurationDays ? Number(req.body.storageDurationDays) : undefined;
 
-            if (!storageDurationDays) {
+            if (storageDurationDays === undefined && !quoteId) {
                 return res.status(400).json({ error: 'storageDurationDays is required' });
             }
+            if (storageDurationDays !== undefined && (!Number.isInteger(storageDurationDays) || storageDurationDays <= 0)) {
+                return res.status(400).json({ error: 'storageDurationDays must be a positive integer' });
+            }
 
-            // Normalize address
-            const normalizedAddress = userAddress.toLowerCase();
+            // Session address is already normalized
+            const normalizedAddress = req.userAddress!;
 
             // Generate unique file ID
             const fileId = uuidv4();
             const fileName = req.file.originalname || 'unnamed';
 
             console.log(`Received upload request: fileId=${fileId}, user=${normalizedAddress}, fileName=${fileName}`);
-            console.log(`Storage duration: ${storageDurationDays} days`);
 
-            // Calculate storage cost
-            const fileSize = req.file.buffer.length;
-            const durationDays = parseInt(storageDurationDays);
-            const cost = creditService.calculateCost(fileSize, durationDays);
+            // A quote fixes the price; without one the current price applies
+            const fileSize = req.file.size;
+            const encryption = req.body.encryption ? parseEncryptionEnvelope(String(req.body.encryption), fileSize) : undefined;
+            const visibility = uploadVisibility(req.body.visibility);
+            const payer = await organizationService.payer(normalizedAddress, req.body.orgId || undefined);
+            reservation = await quotaService.reserve(normalizedAddress, fileSize);
+            if (quoteId) {
+                quote = await quoteService.redeem(String(quoteId), normalizedAddress, fileId, {
+                    fileSize,
+                    storageDurationDays,
+                });
+            }
+            const durationDays = quote ? quote.storage_duration_days : storageDurationDays!;
+            const price = quote
+                ? { totalCost: BigInt(quote.total_cost), lockupCost: BigInt(quote.lockup_cost) }
+                : pricingService.price(fileSize, durationDays);
+            const cost = price.totalCost;
 
-            console.log(`Calculated storage cost: ${cost} USDFC wei for ${fileSize} bytes over ${durationDays} days`);
+            console.log(`Storage duration: ${durationDays} days`);
+            console.log(`${quote ? `Quoted (${quote.id})` : 'Calculated'} storage cost: ${cost} USDFC wei for ${fileSize} bytes over ${durationDays} days`);
 
-            // Check and deduct credits
-            const deduction = await creditService.deductCredits(
-                normalizedAddress,
+            // Reserve credits; captured on success, released if the upload fails
+            const hold = await creditService.placeHold(
+                payer.account,
                 cost,
                 fileId,
-                fileName,
-                durationDays
+                `Storage cost for ${fileName} (${durationDays} days)`,
+                payer.spender
             );
 
-            if (!deduction.success) {
-                return res.status(402).json({
-                    error: 'Insufficient credits',
-                    currentBalance: deduction.currentBalance?.toString(),
-                    requiredAmount: deduction.requiredAmount?.toString(),
-                    message: `Need ${deduction.requiredAmount} wei, but only have ${deduction.currentBalance} wei`,
-                });
+            if (!hold.success) {
+                return sendHoldFailure(res, hold);
             }
 
-            // Process upload
-            await uploadService.initiateUpload({
-                fileBuffer: req.file.buffer,
+            // Queue upload; the worker stores it on Filecoin in the background
+            await uploadQueue.enqueue({
+                tempPath: req.file.path,
+                fileSize,
+                fileHash: req.file.hash!,
                 fileName,
                 userAddress: normalizedAddress,
                 fileId,
                 storageDurationDays: durationDays,
                 storageCost: cost.toString(),
+                lockupCost: price.lockupCost.toString(),
+                holdId: hold.holdId!,
+                encryption,
+                visibility,
+                orgId: payer.orgId,
             });
+            queued = true;
+            await quotaService.commit(reservation);
 
-            res.json({
+            res.status(202).json({
                 fileId,
-                status: 'completed',
-                message: 'File uploaded successfully',
+                status: 'queued',
+                message: 'File queued for upload',
                 storageCost: cost.toString(),
             });
         } catch (error) {
+            if (error instanceof QuotaExceededError) {
+                return sendQuotaError(res, error);
+            }
+            if (error instanceof QuoteError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+            if (error instanceof EncryptionEnvelopeError) {
+                return res.status(400).json({ error: error.message });
+            }
+            if (error instanceof FileOperationError || error instanceof OrganizationError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
             console.error('Error initiating storage:', error);
             if (error instanceof Error) {
                 console.error('Stack:', error.stack);
@@ -95,31 +340,347 @@ export function createStorageRouter(
                 error: 'Failed to initiate storage',
                 message: error instanceof Error ? error.message : 'Unknown error'
             });
+        } finally {
+            if (reservation) {
+                quotaService.release(reservation);
+            }
+            if (quote && !queued) {
+                await quoteService.release(quote).catch((error) => {
+                    console.error(`Failed to release quote ${quote!.id}:`, error);
+                });
+            }
+        }
+    });
+
+    // POST /api/initiate-storage/batch - Queue many files under one credit hold
+    // Expects: files (repeated), storageDurationDays, userAddress (optional, must match session),
+    //          visibility (optional, applies to every file; default private), orgId (optional)
+    router.post('/initiate-storage/batch', authenticateUpload, uploadLimits, upload.files, requireAddressMatch((req) => req.body.userAddress), async (req: Request, res: Response) => {
+        let reservation: UploadReservation | null = null;
+        try {
+            const files = Array.isArray(req.files) ? req.files : [];
+            if (files.length === 0) {
+                return res.status(400).json({ error: 'No files provided' });
+            }
+
+            const storageDurationDays = Number(req.body.storageDurationDays);
+            if (!Number.isInteger(storageDurationDays) || storageDurationDays <= 0) {
+                return res.status(400).json({ error: 'storageDurationDays must be a positive integer' });
+            }
+            const visibility = uploadVisibility(req.body.visibility);
+
+            // Session address is already normalized
+            const normalizedAddress = req.userAddress!;
+            const payer = await organizationService.payer(normalizedAddress, req.body.orgId || undefined);
+
+            // Priced together at the current prices; each file keeps its own share
+            const items = files.map((file) => ({
+                file,
+                fileId: uuidv4(),
+                fileName: file.originalname || 'unnamed',
+                price: pricingService.price(file.size, storageDurationDays),
+            }));
+            const totalCost = items.reduce((sum, item) => sum + item.price.totalCost, 0n);
+
+            console.log(`Received batch upload request: ${items.length} files, user=${normalizedAddress}, cost=${totalCost} USDFC wei over ${storageDurationDays} days`);
+
+            reservation = await quotaService.reserve(normalizedAddress, files.reduce((sum, file) => sum + file.size, 0));
+
+            // One hold for the batch; each file captures or releases its share
+            const hold = await creditService.placeHold(
+                payer.account,
+                totalCost,
+                null,
+                `Storage cost for ${items.length} files (${storageDurationDays} days)`,
+                payer.spender
+            );
+
+            if (!hold.success) {
+                return sendHoldFailure(res, hold);
+            }
+
+            // A file that can't be queued gets its share back; the rest of the batch goes ahead
+            const results = [];
+            let queuedCost = 0n;
+            let queuedBytes = 0;
+            // Shares captured or released by their own job or failed enqueue
+            let settledCost = 0n;
+            try {
+                for (const { file, fileId, fileName, price } of items) {
+                    settledCost += price.totalCost;
+                    try {
+                        await uploadQueue.enqueue({
+                            tempPath: file.path,
+                            fileSize: file.size,
+                            fileHash: file.hash!,
+                            fileName,
+                            userAddress: normalizedAddress,
+                            fileId,
+                            storageDurationDays,
+                            storageCost: price.totalCost.toString(),
+                            lockupCost: price.lockupCost.toString(),
+                            holdId: hold.holdId!,
+                            holdShare: price.totalCost.toString(),
+                            visibility,
+                            orgId: payer.orgId,
+                        });
+                        queuedCost += price.totalCost;
+                        queuedBytes += file.size;
+                        results.push({ fileName, fileId, status: 'queued', storageCost: price.totalCost.toString() });
+                    } catch (error) {
+                        console.error(`Failed to queue batch file ${fileName}:`, error);
+                        results.push({
+                            fileName,
+                            fileId: null,
+                            status: 'failed',
+                            error: error instanceof Error ? error.message : 'Unknown error',
+                        });
+                    }
+                }
+            } finally {
+                // Files never reached, e.g. after an unexpected error, must not keep their share held
+                if (settledCost < totalCost) {
+                    await creditService.releaseHold(hold.holdId!, 'Batch upload interrupted', totalCost - settledCost);
+                }
+            }
+
+            await quotaService.commit(reservation, queuedBytes);
+
+            const queued = results.filter((result) => result.status === 'queued').length;
+            res.status(202).json({
+                queued,
+                failed: results.length - queued,
+                storageCost: queuedCost.toString(),
+                files: results,
+            });
+        } catch (error) {
+            if (error instanceof QuotaExceededError) {
+                return sendQuotaError(res, error);
+            }
+            if (error instanceof FileOperationError || error instanceof OrganizationError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error initiating batch storage:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to initiate batch storage',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        } finally {
+            if (reservation) {
+                quotaService.release(reservation);
+            }
+        }
+    });
+
+    // POST /api/initiate-storage/directory - Pack a directory tree into a UnixFS CAR and store it as one piece
+    // Expects: files (repeated), paths (JSON array of each file's relative path), storageDurationDays,
+    //          directoryName (optional), userAddress (optional, must match session),
+    //          visibility (optional; default private), orgId (optional)
+    router.post('/initiate-storage/directory', authenticateUpload, uploadLimits, upload.files, requireAddressMatch((req) => req.body.userAddress), async (req: Request, res: Response) => {
+        const carPath = join(uploadOptions.incomingDir, `${uuidv4()}.car`);
+        let reservation: UploadReservation | null = null;
+        try {
+            const files = Array.isArray(req.files) ? req.files : [];
+            if (files.length === 0) {
+                return res.status(400).json({ error: 'No files provided' });
+            }
+
+            let paths: unknown;
+            try {
+                paths = JSON.parse(req.body.paths ?? '');
+            } catch {
+                paths = null;
+            }
+            if (!Array.isArray(paths) || paths.length !== files.length || !paths.every((path) => typeof path === 'string')) {
+                return res.status(400).json({ error: 'paths must be a JSON array with one path per file' });
+            }
+
+            const storageDurationDays = Number(req.body.storageDurationDays);
+            if (!Number.isInteger(storageDurationDays) || storageDurationDays <= 0) {
+                return res.status(400).json({ error: 'storageDurationDays must be a positive integer' });
+            }
+            const visibility = uploadVisibility(req.body.visibility);
+
+            // Session address is already normalized
+            const normalizedAddress = req.userAddress!;
+            const payer = await organizationService.payer(normalizedAddress, req.body.orgId || undefined);
+            const fileId = uuidv4();
+            const fileName = String(req.body.directoryName || 'directory');
+
+            const packed = await packDirectory(
+                files.map((file, i) => ({ path: paths[i] as string, sourcePath: file.path })),
+                carPath
+            );
+            if (packed.carSize > uploadOptions.maxFileBytes) {
+                return res.status(413).json({
+                    error: 'File too large',
+                    message: `The packed directory is ${packed.carSize} bytes; uploads are limited to ${uploadOptions.maxFileBytes} bytes`,
+                    maxBytes: uploadOptions.maxFileBytes,
+                });
+            }
+
+            console.log(`Packed directory ${fileName} for ${normalizedAddress}: ${files.length} files, ${packed.carSize} bytes, root ${packed.rootCid}`);
+
+            reservation = await quotaService.reserve(normalizedAddress, packed.carSize);
+            const price = pricingService.price(packed.carSize, storageDurationDays);
+            const hold = await creditService.placeHold(
+                payer.account,
+                price.totalCost,
+                fileId,
+                `Storage cost for ${fileName} (${storageDurationDays} days)`,
+                payer.spender
+            );
+
+            if (!hold.success) {
+                return sendHoldFailure(res, hold);
+            }
+
+            await uploadQueue.enqueue({
+                tempPath: carPath,
+                fileSize: packed.carSize,
+                fileHash: packed.carHash,
+                fileName,
+                userAddress: normalizedAddress,
+                fileId,
+                storageDurationDays,
+                storageCost: price.totalCost.toString(),
+                lockupCost: price.lockupCost.toString(),
+                holdId: hold.holdId!,
+                directory: packed,
+                visibility,
+                orgId: payer.orgId,
+            });
+            await quotaService.commit(reservation);
+
+            res.status(202).json({
+                fileId,
+                status: 'queued',
+                message: 'Directory queued for upload',
+                storageCost: price.totalCost.toString(),
+                rootCid: packed.rootCid,
+                carSize: packed.carSize,
+                fileCount: files.length,
+            });
+        } catch (error) {
+            if (error instanceof QuotaExceededError) {
+                return sendQuotaError(res, error);
+            }
+            if (error instanceof DirectoryPackError || error instanceof FileOperationError || error instanceof OrganizationError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error initiating directory storage:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to initiate directory storage',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        } finally {
+            if (reservation) {
+                quotaService.release(reservation);
+            }
+            // Moved into the spool once queued
+            await rm(carPath, { force: true });
+        }
+    });
+
+    // GET /api/uploads/:fileId - Upload job status
+    router.get('/uploads/:fileId', authenticateRead, async (req: Request, res: Response) => {
+        try {
+            // Organization members who may read a file may follow its upload
+            const file = await fileService.get(req.params.fileId, req.userAddress!, 'read');
+            const job = await db.getUploadJob(file.id);
+            if (!job) {
+                return res.status(404).json({ error: 'Upload not found' });
+            }
+
+            res.json({
+                fileId: job.file_id,
+                status: job.status,
+                fileName: file.file_name,
+                fileSize: file.file_size,
+                commp: file.commp,
+                attempts: job.attempts,
+                error: job.error,
+                createdAt: job.created_at,
+                updatedAt: job.updated_at,
+            });
+        } catch (error) {
+            if (error instanceof FileOperationError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error fetching upload status:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to fetch upload status',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // GET /api/files - List the caller's personal files, or an organization's files, a page at a time
+    // Query: orgId (optional; any member may list), and the filters of GET /api/files/:userAddress
+    router.get('/files', authenticateRead, async (req: Request, res: Response) => {
+        try {
+            const orgId = optionalStringParam(req, 'orgId');
+            const query = parseFileListQuery(req);
+            if (orgId) {
+                await organizationService.authorize(orgId, req.userAddress!, 'read');
+            }
+            const page = orgId
+                ? await db.getOrganizationFiles(orgId, query)
+                : await db.getUserFiles(req.userAddress!, query);
+
+            res.json({
+                files: page.rows.map(formatUserFile),
+                nextCursor: encodeCursor(query.sort, query.order, page.next),
+            });
+        } catch (error) {
+            if (error instanceof QueryParamError) {
+                return res.status(400).json({ error: error.message });
+            }
+            if (error instanceof OrganizationError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+            console.error('Error fetching files:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to fetch files',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
         }
     });
 
-    // GET /api/files/:userAddress - List user files
-    router.get('/files/:userAddress', async (req: Request, res: Response) => {
+    // GET /api/files/:userAddress - List user files, a page at a time; organization files are listed by GET /api/files
+    // Query: limit, cursor, namePrefix, minSize, maxSize, uploadedAfter, uploadedBefore, visibility,
+    //        sort (uploadedAt|fileName|fileSize|expiresAt), order (asc|desc)
+    router.get('/files/:userAddress', authenticateRead, ownsAddressParam, async (req: Request, res: Response) => {
         try {
             const { userAddress } = req.params;
             const normalizedAddress = userAddress.toLowerCase();
 
-            const files = await db.getUserFiles(normalizedAddress);
+            const query = parseFileListQuery(req);
+            const page = await db.getUserFiles(normalizedAddress, query);
 
             res.json({
-                files: files.map(f => ({
-                    id: f.id,
-                    fileName: f.file_name,
-                    fileSize: f.file_size,
-                    fileHash: f.file_hash,
-                    commp: f.commp,
-                    providerId: f.provider_id,
-                    storageDurationDays: f.storage_duration_days,
-                    storageCost: f.storage_cost,
-                    uploadedAt: f.uploaded_at,
-                })),
+                files: page.rows.map(formatUserFile),
+                nextCursor: encodeCursor(query.sort, query.order, page.next),
             });
         } catch (error) {
+            if (error instanceof QueryParamError) {
+                return res.status(400).json({ error: error.message });
+            }
             console.error('Error fetching user files:', error);
             if (error instanceof Error) {
                 console.error('Stack:', error.stack);
@@ -131,29 +692,349 @@ export function createStorageRouter(
         }
     });
 
-    // GET /api/download/:commp - Download file by CommP
-    router.get('/download/:commp', async (req: Request, res: Response) => {
+    // GET /api/public/files/:userAddress - List an address's public files; no session needed
+    // Query: limit, cursor, namePrefix, sort (uploadedAt|fileName|fileSize|expiresAt), order (asc|desc)
+    router.get('/public/files/:userAddress', async (req: Request, res: Response) => {
         try {
-            const { commp } = req.params;
+            const params = parseListParams<UserFileSort>(req, {
+                uploadedAt: 'uploaded_at',
+                fileName: 'file_name',
+                fileSize: 'file_size',
+                expiresAt: 'expires_at',
+            });
+            const page = await db.getUserFiles(req.params.userAddress.toLowerCase(), {
+                ...params,
+                namePrefix: optionalStringParam(req, 'namePrefix'),
+                visibility: 'public',
+            });
 
-            console.log(`Download requested for CommP: ${commp}`);
+            res.json({
+                files: page.rows.map(formatUserFile),
+                nextCursor: encodeCursor(params.sort, params.order, page.next),
+            });
+        } catch (error) {
+            if (error instanceof QueryParamError) {
+                return res.status(400).json({ error: error.message });
+            }
+            console.error('Error fetching public files:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to fetch public files',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
 
-            // Get file metadata
-            const file = await db.getFileByCommp(commp);
-            if (!file) {
-                return res.status(404).json({ error: 'File not found' });
+    // GET /api/files/:id/entries - List a directory inside a directory upload
+    // Query: path (default: the root)
+    router.get('/files/:id/entries', authenticateRead, async (req: Request, res: Response) => {
+        try {
+            const file = await fileService.get(req.params.id, req.userAddress!, 'read');
+            if (!file.root_cid) {
+                return res.status(400).json({ error: 'File is not a directory upload' });
+            }
+
+            const rawPath = typeof req.query.path === 'string' ? req.query.path.replace(/\/+$/, '') : '';
+            const path = rawPath ? normalizeDirectoryPath(rawPath) : '';
+            const entry = await db.getDirectoryEntry(file.id, path);
+            if (!entry) {
+                return res.status(404).json({ error: 'Path not found' });
+            }
+            if (entry.kind !== 'directory') {
+                return res.status(400).json({ error: 'Path is not a directory' });
+            }
+
+            const children = await db.getDirectoryChildren(file.id, path);
+            res.json({
+                fileId: file.id,
+                rootCid: file.root_cid,
+                path,
+                cid: entry.cid,
+                entries: children.map((child) => ({
+                    name: child.path.slice(path ? path.length + 1 : 0),
+                    path: child.path,
+                    kind: child.kind,
+                    cid: child.cid,
+                    size: child.size,
+                })),
+            });
+        } catch (error) {
+            if (error instanceof FileOperationError || error instanceof DirectoryPackError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error listing directory:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to list directory',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // POST /api/files/:id/shares - Create a download link for a file; the token is only returned here
+    // Expects: expiresInHours (optional), maxDownloads (optional, default unlimited)
+    router.post('/files/:id/shares', authenticate, async (req: Request, res: Response) => {
+        try {
+            const { expiresInHours, maxDownloads } = req.body ?? {};
+            if (expiresInHours !== undefined && (typeof expiresInHours !== 'number' || !(expiresInHours > 0))) {
+                return res.status(400).json({ error: 'expiresInHours must be a positive number' });
+            }
+            if (maxDownloads !== undefined && maxDownloads !== null && typeof maxDownloads !== 'number') {
+                return res.status(400).json({ error: 'maxDownloads must be a positive integer' });
+            }
+
+            const file = await fileService.get(req.params.id, req.userAddress!);
+            const { link, token } = await shareService.create(file, {
+                ttlMs: expiresInHours === undefined ? undefined : Math.round(expiresInHours * 60 * 60 * 1000),
+                maxDownloads: maxDownloads ?? undefined,
+            });
+
+            res.status(201).json({
+                ...formatShareLink(link),
+                token,
+                url: shareService.url(token, `${req.protocol}://${req.get('host')}`),
+            });
+        } catch (error) {
+            if (error instanceof FileOperationError || error instanceof ShareLinkError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error creating share link:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to create share link',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // GET /api/files/:id/shares - List a file's share links, newest first
+    router.get('/files/:id/shares', authenticate, async (req: Request, res: Response) => {
+        try {
+            const file = await fileService.get(req.params.id, req.userAddress!);
+            const links = await shareService.list(file);
+            res.json({ shares: links.map((link) => formatShareLink(link)) });
+        } catch (error) {
+            if (error instanceof FileOperationError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error listing share links:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to list share links',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // DELETE /api/files/:id/shares/:shareId - Revoke a share link
+    router.delete('/files/:id/shares/:shareId', authenticate, async (req: Request, res: Response) => {
+        try {
+            const file = await fileService.get(req.params.id, req.userAddress!);
+            const link = await shareService.revoke(file, req.params.shareId);
+            res.json(formatShareLink(link));
+        } catch (error) {
+            if (error instanceof FileOperationError || error instanceof ShareLinkError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error revoking share link:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to revoke share link',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // PUT /api/files/:id/visibility - Make a file private, unlisted or public
+    // Expects: visibility
+    router.put('/files/:id/visibility', authenticate, async (req: Request, res: Response) => {
+        try {
+            const visibility = parseVisibility(req.body.visibility);
+            const file = await fileService.setVisibility(req.params.id, req.userAddress!, visibility);
+            res.json(formatUserFile(file));
+        } catch (error) {
+            if (error instanceof FileOperationError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error changing file visibility:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to change file visibility',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // GET /api/files/:id/readers - Addresses allowed to download a private file
+    router.get('/files/:id/readers', authenticate, async (req: Request, res: Response) => {
+        try {
+            const readers = await fileService.listReaders(req.params.id, req.userAddress!);
+            res.json({ readers: readers.map(formatFileReader) });
+        } catch (error) {
+            if (error instanceof FileOperationError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error listing file readers:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to list file readers',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // PUT /api/files/:id/readers/:address - Allow an address to download a private file
+    router.put('/files/:id/readers/:address', authenticate, async (req: Request, res: Response) => {
+        try {
+            const readers = await fileService.addReader(req.params.id, req.userAddress!, req.params.address);
+            res.json({ readers: readers.map(formatFileReader) });
+        } catch (error) {
+            if (error instanceof FileOperationError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error adding file reader:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to add file reader',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // DELETE /api/files/:id/readers/:address - Take an address off a file's allow-list
+    router.delete('/files/:id/readers/:address', authenticate, async (req: Request, res: Response) => {
+        try {
+            const readers = await fileService.removeReader(req.params.id, req.userAddress!, req.params.address);
+            res.json({ readers: readers.map(formatFileReader) });
+        } catch (error) {
+            if (error instanceof FileOperationError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error removing file reader:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to remove file reader',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // POST /api/files/:id/extend - Pay for more storage days on a stored file
+    // Expects: additionalDays
+    router.post('/files/:id/extend', authenticate, async (req: Request, res: Response) => {
+        try {
+            const additionalDays = Number(req.body.additionalDays);
+            if (!Number.isInteger(additionalDays) || additionalDays <= 0) {
+                return res.status(400).json({ error: 'additionalDays must be a positive integer' });
+            }
+
+            const result = await fileService.extendStorage(req.params.id, req.userAddress!, additionalDays);
+
+            if (result.status !== 'extended') {
+                return sendHoldFailure(res, result);
+            }
+
+            res.json({
+                fileId: result.file.id,
+                additionalDays,
+                cost: result.cost.toString(),
+                storageDurationDays: result.file.storage_duration_days,
+                expiresAt: result.file.expires_at,
+                newBalance: result.newBalance.toString(),
+            });
+        } catch (error) {
+            if (error instanceof FileOperationError || error instanceof OrganizationError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error extending storage:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to extend storage',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // DELETE /api/files/:id - Delete a stored file and refund unused storage plus lockup
+    router.delete('/files/:id', authenticate, async (req: Request, res: Response) => {
+        try {
+            const result = await fileService.deleteFile(req.params.id, req.userAddress!);
+
+            res.json({
+                fileId: req.params.id,
+                status: 'deleted',
+                refund: result.refund.toString(),
+                newBalance: result.newBalance.toString(),
+                transactionHash: result.transactionHash,
+            });
+        } catch (error) {
+            if (error instanceof FileOperationError) {
+                return res.status(error.status).json({ error: error.message });
             }
 
-            // Download from Filecoin
-            const fileBuffer = await synapseService.downloadFile(commp);
+            console.error('Error deleting file:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to delete file',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // GET /api/download/:commp - Stream file by CommP (see createFileSender for Range, ETag and caching)
+    // Private files need a session of the owner or an allowed reader; others are served to anyone
+    // Query: path - a file inside a directory upload, instead of the whole CAR
+    router.get('/download/:commp', optionalAuth(authService, 'read'), async (req: Request, res: Response) => {
+        try {
+            const { commp } = req.params;
 
-            // Set appropriate headers
-            res.setHeader('Content-Type', 'application/octet-stream');
-            res.setHeader('Content-Disposition', `attachment; filename="${file.file_name}"`);
-            res.setHeader('Content-Length', fileBuffer.length);
+            console.log(`Download requested for CommP: ${commp}`);
 
-            res.send(fileBuffer);
+            const file = await fileService.getReadable(commp, req.userAddress);
+            await sendFile(req, res, file, typeof req.query.path === 'string' ? req.query.path : undefined);
         } catch (error) {
+            if (res.headersSent) {
+                // Mid-stream failure or client disconnect; the truncated body tells the client
+                console.warn(`Download of ${req.params.commp} interrupted: ${error instanceof Error ? error.message : error}`);
+                res.destroy();
+                return;
+            }
+
+            if (error instanceof DirectoryPackError || error instanceof FileOperationError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
             console.error('Error downloading file:', error);
             if (error instanceof Error) {
                 console.error('Stack:', error.stack);
@@ -182,6 +1063,7 @@ export function createStorageRouter(
                     allowance: allowance.toString(),
                     diagnostics: synapseService.getDiagnostics(),
                 },
+                cache: await retrievalCache.getStats(),
             });
         } catch (error) {
             console.error(`[${new Date().toISOString()}] Error fetching status:`, error);
@@ -200,34 +1082,77 @@ export function createStorageRouter(
         }
     });
 
-    // POST /api/fund-credits - Fund user's credit account
-    router.post('/fund-credits', async (req: Request, res: Response) => {
+    // POST /api/fund-credits - Fund user's credit account from a verified bridge deposit
+    // Expects: amount, bridgeRequestId, userAddress (optional, must match session),
+    //          orgId (optional: credit the organization's pool instead)
+    router.post('/fund-credits', authenticateFund, requireAddressMatch((req) => req.body.userAddress), async (req: Request, res: Response) => {
         try {
-            const { userAddress, amount, bridgeRequestId } = req.body;
+            const { amount, bridgeRequestId } = req.body;
 
             // Validate inputs
-            if (!userAddress || !amount || !bridgeRequestId) {
-                return res.status(400).json({ error: 'Missing required fields: userAddress, amount, bridgeRequestId' });
+            if (!amount || !bridgeRequestId) {
+                return res.status(400).json({ error: 'Missing required fields: amount, bridgeRequestId' });
             }
 
-            const normalizedAddress = userAddress.toLowerCase();
+            if (!/^0x[0-9a-fA-F]{64}$/.test(bridgeRequestId)) {
+                return res.status(400).json({ error: 'bridgeRequestId must be a 32-byte hex string' });
+            }
 
-            console.log(`Funding credits for ${normalizedAddress}: ${amount} USDFC wei via bridge ${bridgeRequestId}`);
+            let claimedAmount: bigint;
+            try {
+                claimedAmount = BigInt(amount);
+            } catch {
+                return res.status(400).json({ error: 'amount must be an integer amount of USDFC wei' });
+            }
 
-            await creditService.addCredits(
-                normalizedAddress,
-                BigInt(amount),
-                bridgeRequestId
-            );
+            const normalizedAddress = req.userAddress!;
+            const normalizedRequestId = bridgeRequestId.toLowerCase();
+            const orgId = req.body.orgId ? String(req.body.orgId) : null;
+            if (orgId) {
+                await organizationService.authorize(orgId, normalizedAddress, 'fund');
+            }
+            const account = orgId ? organizationAccount(orgId) : normalizedAddress;
+
+            console.log(`Funding credits for ${account}: ${amount} USDFC wei via bridge ${normalizedRequestId}`);
 
-            const newBalance = await creditService.getBalance(normalizedAddress);
+            const result = await depositService.claimDeposit(normalizedAddress, normalizedRequestId, claimedAmount, orgId ? account : undefined);
+
+            switch (result.status) {
+                case 'pending':
+                    return res.status(202).json({
+                        success: false,
+                        status: 'pending',
+                        message: result.reason,
+                    });
+                case 'duplicate':
+                    return res.status(409).json({
+                        error: 'Bridge request already used',
+                        message: result.reason,
+                    });
+                case 'rejected':
+                    return res.status(400).json({
+                        error: 'Bridge deposit rejected',
+                        message: result.reason,
+                    });
+                case 'forbidden':
+                    return res.status(403).json({
+                        error: 'Bridge deposit belongs to another address',
+                        message: result.reason,
+                    });
+            }
+
+            const newBalance = await creditService.getBalance(account);
 
             res.json({
                 success: true,
+                status: 'credited',
                 newBalance: newBalance.toString(),
-                amountAdded: amount,
+                amountAdded: result.amount.toString(),
             });
         } catch (error) {
+            if (error instanceof OrganizationError) {
+                return res.status(error.status).json({ error: error.message });
+            }
             console.error('Error funding credits:', error);
             if (error instanceof Error) {
                 console.error('Stack:', error.stack);
@@ -240,14 +1165,18 @@ export function createStorageRouter(
     });
 
     // GET /api/credits/:userAddress - Get user's credit balance
-    router.get('/credits/:userAddress', async (req: Request, res: Response) => {
+    router.get('/credits/:userAddress', authenticateRead, ownsAddressParam, async (req: Request, res: Response) => {
         try {
             const normalizedAddress = req.params.userAddress.toLowerCase();
-            const balance = await creditService.getBalance(normalizedAddress);
+            const [balance, heldBalance] = await Promise.all([
+                creditService.getBalance(normalizedAddress),
+                creditService.getHeldAmount(normalizedAddress),
+            ]);
 
             res.json({
                 address: normalizedAddress,
                 balance: balance.toString(),
+                heldBalance: heldBalance.toString(),
             });
         } catch (error) {
             console.error('Error fetching credit balance:', error);
@@ -261,27 +1190,31 @@ export function createStorageRouter(
         }
     });
 
-    // GET /api/credits/history/:userAddress - Get user's credit transaction history
-    router.get('/credits/history/:userAddress', async (req: Request, res: Response) => {
+    // GET /api/credits/history/:userAddress - Get user's credit transaction history, a page at a time
+    // Query: limit, cursor, type (deposit|deduct|refund), createdAfter, createdBefore,
+    //        sort (createdAt|amount), order (asc|desc)
+    router.get('/credits/history/:userAddress', authenticateRead, ownsAddressParam, async (req: Request, res: Response) => {
         try {
             const normalizedAddress = req.params.userAddress.toLowerCase();
-            const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
-
-            const transactions = await db.getCreditTransactions(normalizedAddress, limit);
-
-            // Transform database rows (snake_case) to API format (camelCase)
-            const transformedTransactions = transactions.map((tx) => ({
-                id: tx.id,
-                type: tx.type,
-                amount: tx.amount,
-                fileId: tx.file_id,
-                bridgeRequestId: tx.bridge_request_id,
-                description: tx.description,
-                createdAt: tx.created_at, // Map created_at to createdAt
-            }));
+            const params = parseListParams<CreditTransactionSort>(req, {
+                createdAt: 'created_at',
+                amount: 'amount',
+            });
+            const page = await db.getCreditTransactions(normalizedAddress, {
+                ...params,
+                type: optionalEnumParam(req, 'type', ['deposit', 'deduct', 'refund'] as const),
+                createdAfter: optionalIntParam(req, 'createdAfter'),
+                createdBefore: optionalIntParam(req, 'createdBefore'),
+            });
 
-            res.json({ transactions: transformedTransactions });
+            res.json({
+                transactions: page.rows.map(formatCreditTransaction),
+                nextCursor: encodeCursor(params.sort, params.order, page.next),
+            });
         } catch (error) {
+            if (error instanceof QueryParamError) {
+                return res.status(400).json({ error: error.message });
+            }
             console.error('Error fetching credit history:', error);
             if (error instanceof Error) {
                 console.error('Stack:', error.stack);
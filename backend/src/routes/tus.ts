@@ -0,0 +1,220 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { AuthService } from '../services/auth.js';
+import { ResumableUploadService, ResumableUploadError } from '../services/resumable.js';
+import { QuotaExceededError, QuotaService } from '../services/quotas.js';
+import { OrganizationError, OrganizationService } from '../services/organizations.js';
+import { ResumableUpload } from '../db/database.js';
+import { requireAuth } from '../middleware/auth.js';
+import { limitUploads, sendQuotaError } from '../middleware/quotas.js';
+import { sendHoldFailure } from './storage.js';
+
+const TUS_VERSION = '1.0.0';
+const TUS_EXTENSIONS = 'creation,termination,expiration';
+const EXPOSED_HEADERS = [
+    'Location',
+    'Upload-Offset',
+    'Upload-Length',
+    'Upload-Expires',
+    'Upload-Storage-Cost',
+    'Tus-Resumable',
+    'Tus-Version',
+    'Tus-Extension',
+    'Tus-Max-Size',
+].join(', ');
+
+/**
+ * Parse the tus Upload-Metadata header: comma-separated `key base64value` pairs
+ */
+function parseUploadMetadata(header: string | undefined): Record<string, string> {
+    const metadata: Record<string, string> = {};
+    if (!header) {
+        return metadata;
+    }
+
+    for (const pair of header.split(',')) {
+        const [key, value] = pair.trim().split(' ');
+        if (key) {
+            metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+        }
+    }
+    return metadata;
+}
+
+function parseNonNegativeInt(header: string | undefined): number | null {
+    if (!header || !/^\d+$/.test(header)) {
+        return null;
+    }
+    return Number(header);
+}
+
+function setUploadHeaders(res: Response, upload: ResumableUpload, offset: number) {
+    res.setHeader('Upload-Offset', offset.toString());
+    res.setHeader('Upload-Length', upload.upload_length.toString());
+    res.setHeader('Upload-Expires', new Date(upload.expires_at).toUTCString());
+    res.setHeader('Cache-Control', 'no-store');
+}
+
+function sendError(res: Response, error: unknown, action: string) {
+    if (error instanceof ResumableUploadError || error instanceof OrganizationError) {
+        return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof QuotaExceededError) {
+        return sendQuotaError(res, error);
+    }
+
+    console.error(`Failed to ${action}:`, error);
+    if (error instanceof Error) {
+        console.error('Stack:', error.stack);
+    }
+    res.status(500).json({
+        error: `Failed to ${action}`,
+        message: error instanceof Error ? error.message : 'Unknown error'
+    });
+}
+
+/**
+ * Resumable uploads following the tus 1.0.0 protocol (core, creation, termination, expiration)
+ * https://tus.io/protocols/resumable-upload
+ */
+export function createTusRouter(
+    authService: AuthService,
+    resumableService: ResumableUploadService,
+    quotaService: QuotaService,
+    organizationService: OrganizationService
+): Router {
+    const router = Router();
+    const authenticate = requireAuth(authService, 'upload');
+    const uploadLimits = limitUploads(quotaService);
+
+    router.use('/tus', (req: Request, res: Response, next: NextFunction) => {
+        res.setHeader('Tus-Resumable', TUS_VERSION);
+        res.setHeader('Access-Control-Expose-Headers', EXPOSED_HEADERS);
+
+        if (req.method !== 'OPTIONS' && req.headers['tus-resumable'] !== TUS_VERSION) {
+            res.setHeader('Tus-Version', TUS_VERSION);
+            return res.status(412).json({ error: `Tus-Resumable ${TUS_VERSION} is required` });
+        }
+        next();
+    });
+
+    // OPTIONS /api/tus - Server capabilities
+    router.options('/tus', (req: Request, res: Response) => {
+        res.setHeader('Tus-Version', TUS_VERSION);
+        res.setHeader('Tus-Extension', TUS_EXTENSIONS);
+        res.setHeader('Tus-Max-Size', resumableService.maxFileBytes.toString());
+        res.status(204).end();
+    });
+
+    // POST /api/tus - Create an upload
+    // Expects Upload-Length and Upload-Metadata with filename and storageDurationDays and/or quoteId,
+    // and orgId to have an organization pay for and own the file
+    router.post('/tus', authenticate, async (req: Request, res: Response) => {
+        try {
+            const uploadLength = parseNonNegativeInt(req.headers['upload-length'] as string | undefined);
+            if (uploadLength === null) {
+                return res.status(400).json({ error: 'Upload-Length is required' });
+            }
+
+            const metadata = parseUploadMetadata(req.headers['upload-metadata'] as string | undefined);
+            const quoteId = metadata.quoteId || undefined;
+            const storageDurationDays = metadata.storageDurationDays ? Number(metadata.storageDurationDays) : undefined;
+            if (storageDurationDays === undefined && !quoteId) {
+                return res.status(400).json({ error: 'storageDurationDays metadata is required' });
+            }
+            if (storageDurationDays !== undefined && (!Number.isInteger(storageDurationDays) || storageDurationDays <= 0)) {
+                return res.status(400).json({ error: 'storageDurationDays must be a positive integer' });
+            }
+            const orgId = metadata.orgId || undefined;
+            await organizationService.payer(req.userAddress!, orgId);
+
+            const upload = await resumableService.create(req.userAddress!, {
+                fileName: metadata.filename || 'unnamed',
+                uploadLength,
+                storageDurationDays,
+                quoteId,
+                orgId,
+            });
+
+            res.setHeader('Location', `${req.baseUrl}/tus/${upload.id}`);
+            res.setHeader('Upload-Expires', new Date(upload.expires_at).toUTCString());
+            res.status(201).end();
+        } catch (error) {
+            sendError(res, error, 'create resumable upload');
+        }
+    });
+
+    // HEAD /api/tus/:id - Current offset of an upload
+    router.head('/tus/:id', authenticate, async (req: Request, res: Response) => {
+        try {
+            const upload = await resumableService.get(req.params.id, req.userAddress!);
+            setUploadHeaders(res, upload, upload.upload_offset);
+            if (upload.storage_cost) {
+                res.setHeader('Upload-Storage-Cost', upload.storage_cost);
+            }
+            res.status(200).end();
+        } catch (error) {
+            // HEAD responses carry no body
+            res.status(error instanceof ResumableUploadError ? error.status : 500).end();
+        }
+    });
+
+    // PATCH /api/tus/:id - Append a chunk; the final chunk queues the file for storage
+    router.patch('/tus/:id', authenticate, uploadLimits, async (req: Request, res: Response) => {
+        try {
+            if (req.headers['content-type'] !== 'application/offset+octet-stream') {
+                return res.status(415).json({ error: 'Content-Type must be application/offset+octet-stream' });
+            }
+
+            const offset = parseNonNegativeInt(req.headers['upload-offset'] as string | undefined);
+            if (offset === null) {
+                return res.status(400).json({ error: 'Upload-Offset is required' });
+            }
+
+            let upload = await resumableService.get(req.params.id, req.userAddress!);
+
+            // Completing an already queued upload again is a no-op
+            let newOffset = upload.upload_offset;
+            if (upload.status === 'receiving') {
+                newOffset = await resumableService.appendChunk(upload, offset, req);
+                upload = await resumableService.get(upload.id, req.userAddress!);
+            } else if (offset !== upload.upload_length) {
+                throw new ResumableUploadError('Upload is already complete', 409);
+            }
+
+            if (newOffset === upload.upload_length) {
+                // The member's role and spending limit may have changed since the upload was created
+                const payer = await organizationService.payer(upload.user_address, upload.org_id);
+                const result = await resumableService.finalize(upload, payer);
+
+                if (result.status !== 'queued') {
+                    setUploadHeaders(res, upload, newOffset);
+                    return sendHoldFailure(res, result);
+                }
+
+                res.setHeader('Upload-Storage-Cost', result.storageCost);
+            }
+
+            setUploadHeaders(res, upload, newOffset);
+            res.status(204).end();
+        } catch (error) {
+            if (req.destroyed) {
+                console.warn(`Resumable upload ${req.params.id} interrupted by client`);
+                return;
+            }
+            sendError(res, error, 'upload chunk');
+        }
+    });
+
+    // DELETE /api/tus/:id - Abandon an upload
+    router.delete('/tus/:id', authenticate, async (req: Request, res: Response) => {
+        try {
+            const upload = await resumableService.get(req.params.id, req.userAddress!);
+            await resumableService.terminate(upload);
+            res.status(204).end();
+        } catch (error) {
+            sendError(res, error, 'terminate resumable upload');
+        }
+    });
+
+    return router;
+}
@@ -0,0 +1,31 @@
+import { Router, Request, Response } from 'express';
+import { AuthService } from '../services/auth.js';
+import { QuotaService } from '../services/quotas.js';
+import { requireAuth } from '../middleware/auth.js';
+
+/**
+ * The session's request rate, upload and storage quota usage
+ */
+export function createUsageRouter(authService: AuthService, quotaService: QuotaService): Router {
+    const router = Router();
+
+    // GET /api/usage - Limits and current usage; a null limit means unlimited
+    router.get('/usage', requireAuth(authService, 'read'), async (req: Request, res: Response) => {
+        try {
+            // API keys have their own request window
+            const rateLimitKey = req.apiKey ? `apikey:${req.apiKey.id}` : `address:${req.userAddress}`;
+            res.json(await quotaService.getUsage(req.userAddress!, rateLimitKey));
+        } catch (error) {
+            console.error('Error reading usage:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to read usage',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    return router;
+}
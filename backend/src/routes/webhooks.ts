@@ -0,0 +1,163 @@
+import { Router, Request, Response } from 'express';
+import { WebhookDelivery, WebhookSubscription } from '../db/database.js';
+import { AuthService } from '../services/auth.js';
+import { WebhookService, WebhookError } from '../services/webhooks.js';
+import { QueryParamError, encodeCursor, optionalEnumParam, parseListParams } from './pagination.js';
+import { requireAuth } from '../middleware/auth.js';
+
+/**
+ * A subscription as the routes return it; the secret is only included on creation
+ */
+function formatWebhook(subscription: WebhookSubscription) {
+    return {
+        id: subscription.id,
+        url: subscription.url,
+        events: JSON.parse(subscription.events) as string[],
+        description: subscription.description,
+        createdAt: subscription.created_at,
+    };
+}
+
+function formatDelivery(delivery: WebhookDelivery) {
+    return {
+        id: delivery.id,
+        eventId: delivery.event_id,
+        event: delivery.event,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        nextAttemptAt: delivery.status === 'pending' ? delivery.next_attempt_at : null,
+        responseStatus: delivery.response_status,
+        error: delivery.error,
+        payload: JSON.parse(delivery.payload),
+        createdAt: delivery.created_at,
+        deliveredAt: delivery.delivered_at,
+    };
+}
+
+/**
+ * Webhook subscriptions and their delivery logs, scoped to the session's address
+ */
+export function createWebhookRouter(authService: AuthService, webhookService: WebhookService): Router {
+    const router = Router();
+    router.use('/webhooks', requireAuth(authService));
+
+    // POST /api/webhooks - Register an endpoint; the signing secret is only returned here
+    // Expects: url, events (array of event types), description (optional)
+    router.post('/webhooks', async (req: Request, res: Response) => {
+        try {
+            const { subscription, secret } = await webhookService.subscribe(req.userAddress!, {
+                url: String(req.body.url ?? ''),
+                events: req.body.events,
+                description: req.body.description,
+            });
+            res.status(201).json({ ...formatWebhook(subscription), secret });
+        } catch (error) {
+            if (error instanceof WebhookError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error registering webhook:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to register webhook',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // GET /api/webhooks - List the session's webhooks
+    router.get('/webhooks', async (req: Request, res: Response) => {
+        try {
+            const subscriptions = await webhookService.list(req.userAddress!);
+            res.json({ webhooks: subscriptions.map(formatWebhook) });
+        } catch (error) {
+            console.error('Error listing webhooks:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to list webhooks',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // DELETE /api/webhooks/:id - Remove a webhook; its pending deliveries are failed
+    router.delete('/webhooks/:id', async (req: Request, res: Response) => {
+        try {
+            await webhookService.unsubscribe(req.userAddress!, req.params.id);
+            res.status(204).end();
+        } catch (error) {
+            if (error instanceof WebhookError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error deleting webhook:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to delete webhook',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // GET /api/webhooks/:id/deliveries - Delivery log of a webhook, newest first
+    // Query: limit, cursor, status (pending|delivered|failed), order (asc|desc)
+    router.get('/webhooks/:id/deliveries', async (req: Request, res: Response) => {
+        try {
+            const params = parseListParams(req, { createdAt: 'created_at' });
+            const page = await webhookService.listDeliveries(req.userAddress!, req.params.id, {
+                ...params,
+                status: optionalEnumParam(req, 'status', ['pending', 'delivered', 'failed'] as const),
+            });
+
+            res.json({
+                deliveries: page.rows.map(formatDelivery),
+                nextCursor: encodeCursor(params.sort, params.order, page.next),
+            });
+        } catch (error) {
+            if (error instanceof WebhookError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+            if (error instanceof QueryParamError) {
+                return res.status(400).json({ error: error.message });
+            }
+
+            console.error('Error listing webhook deliveries:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to list webhook deliveries',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    // POST /api/webhooks/:id/deliveries/:deliveryId/replay - Send a failed delivery again
+    router.post('/webhooks/:id/deliveries/:deliveryId/replay', async (req: Request, res: Response) => {
+        try {
+            const delivery = await webhookService.replay(req.userAddress!, req.params.id, req.params.deliveryId);
+            res.status(202).json(formatDelivery(delivery));
+        } catch (error) {
+            if (error instanceof WebhookError) {
+                return res.status(error.status).json({ error: error.message });
+            }
+
+            console.error('Error replaying webhook delivery:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            res.status(500).json({
+                error: 'Failed to replay webhook delivery',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    return router;
+}
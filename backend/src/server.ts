@@ -1,9 +1,37 @@
 import express from 'express';
+import { mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { Database } from './db/database.js';
 import { SynapseService } from './services/synapse.js';
+import { AuthService } from './services/auth.js';
+import { CreditService } from './services/credits.js';
+import { DepositService } from './services/deposits.js';
+import { UploadService } from './services/upload.js';
+import { UploadQueue } from './services/upload-queue.js';
+import { ResumableUploadService } from './services/resumable.js';
+import { RetrievalCache } from './services/retrieval-cache.js';
+import { StorageExpiryScheduler } from './services/expiry.js';
+import { QuoteService } from './services/quotes.js';
+import { PricingService } from './services/pricing.js';
+import { ShareService } from './services/shares.js';
+import { WebhookService } from './services/webhooks.js';
+import { UserEventHub } from './services/events.js';
+import { QuotaService } from './services/quotas.js';
+import { OrganizationService } from './services/organizations.js';
+import { DEDUP_PRICING_POLICIES, DedupPricing, ONLYSWAPS_FILECOIN, ONLYSWAPS_SOURCE_CHAINS, PRICING, RETRIEVAL_CACHE, UPLOAD_LIMITS } from './constants.js';
 import { createStorageRouter } from './routes/storage.js';
+import { createAuthRouter } from './routes/auth.js';
+import { createTusRouter } from './routes/tus.js';
+import { createAdminRouter } from './routes/admin.js';
+import { createShareRouter } from './routes/shares.js';
+import { createWebhookRouter } from './routes/webhooks.js';
+import { createEventRouter } from './routes/events.js';
+import { createUsageRouter } from './routes/usage.js';
+import { createApiKeyRouter } from './routes/api-keys.js';
+import { createOrganizationRouter } from './routes/organizations.js';
+import { rateLimit } from './middleware/quotas.js';
 
 // Load environment variables
 dotenv.config();
@@ -32,8 +60,55 @@ process.on('unhandledRejection', (reason: any, promise: Promise<any>) => {
 
 const PORT = process.env.PORT || 3001;
 const DATABASE_PATH = process.env.DATABASE_PATH || './storage.db';
+const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads';
+const UPLOAD_CONCURRENCY = parseInt(process.env.UPLOAD_CONCURRENCY || '1');
+const UPLOAD_MAX_ATTEMPTS = parseInt(process.env.UPLOAD_MAX_ATTEMPTS || '3');
+const UPLOAD_INCOMING_DIR = join(UPLOAD_DIR, 'incoming');
+const UPLOAD_RESUMABLE_DIR = join(UPLOAD_DIR, 'resumable');
+const RESUMABLE_UPLOAD_EXPIRY_HOURS = parseInt(process.env.RESUMABLE_UPLOAD_EXPIRY_HOURS || '24');
+const MAX_UPLOAD_BYTES = parseInt(process.env.MAX_UPLOAD_BYTES || String(UPLOAD_LIMITS.MAX_FILE_BYTES));
+const MAX_USER_PENDING_BYTES = parseInt(process.env.MAX_USER_PENDING_BYTES || String(UPLOAD_LIMITS.MAX_USER_PENDING_BYTES));
+const MAX_BATCH_FILES = parseInt(process.env.MAX_BATCH_FILES || String(UPLOAD_LIMITS.MAX_BATCH_FILES));
+const MAX_CONCURRENT_UPLOADS = parseInt(process.env.MAX_CONCURRENT_UPLOADS || String(UPLOAD_LIMITS.MAX_CONCURRENT_UPLOADS));
+const DAILY_UPLOAD_BYTES = parseInt(process.env.DAILY_UPLOAD_BYTES || String(UPLOAD_LIMITS.DAILY_UPLOAD_BYTES));
+const MAX_STORED_BYTES = parseInt(process.env.MAX_STORED_BYTES || String(UPLOAD_LIMITS.MAX_STORED_BYTES));
+const RATE_LIMIT_REQUESTS_PER_MINUTE = parseInt(process.env.RATE_LIMIT_REQUESTS_PER_MINUTE || '300');
+const DEDUP_PRICING = (process.env.DEDUP_PRICING || 'rate_only') as DedupPricing;
+const RETRIEVAL_CACHE_DIR = process.env.RETRIEVAL_CACHE_DIR || RETRIEVAL_CACHE.DIR;
+const RETRIEVAL_CACHE_MAX_BYTES = parseInt(process.env.RETRIEVAL_CACHE_MAX_BYTES || String(RETRIEVAL_CACHE.MAX_BYTES));
+const PRICING_REFRESH_MINUTES = parseInt(process.env.PRICING_REFRESH_MINUTES || String(PRICING.REFRESH_MINUTES));
+const PRICING_MARGIN_BPS = parseInt(process.env.PRICING_MARGIN_BPS || String(PRICING.MARGIN_BPS));
+const QUOTE_TTL_MINUTES = parseInt(process.env.QUOTE_TTL_MINUTES || '15');
+const SHARE_LINK_DEFAULT_TTL_HOURS = parseInt(process.env.SHARE_LINK_DEFAULT_TTL_HOURS || '168');
+const SHARE_LINK_MAX_TTL_HOURS = parseInt(process.env.SHARE_LINK_MAX_TTL_HOURS || '720');
+const SHARE_LINK_BASE_URL = process.env.SHARE_LINK_BASE_URL;
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8');
+const WEBHOOK_RETRY_BASE_SECONDS = parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS || '30');
+const WEBHOOK_TIMEOUT_SECONDS = parseInt(process.env.WEBHOOK_TIMEOUT_SECONDS || '10');
+const WEBHOOK_LOW_BALANCE_THRESHOLD = BigInt(process.env.WEBHOOK_LOW_BALANCE_THRESHOLD || '1000000000000000000');
+const WEBHOOK_DELIVERY_RETENTION_DAYS = parseInt(process.env.WEBHOOK_DELIVERY_RETENTION_DAYS || '30');
+const WEBHOOK_ALLOWED_PRIVATE_HOSTS = (process.env.WEBHOOK_ALLOWED_PRIVATE_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+const STORAGE_EXPIRY_CHECK_MINUTES = parseInt(process.env.STORAGE_EXPIRY_CHECK_MINUTES || '60');
+const STORAGE_EXPIRING_SOON_DAYS = parseInt(process.env.STORAGE_EXPIRING_SOON_DAYS || '7');
+const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN;
 const FILECOIN_PRIVATE_KEY = process.env.FILECOIN_PRIVATE_KEY;
 const BACKEND_FILECOIN_ADDRESS = process.env.BACKEND_FILECOIN_ADDRESS;
+const AUTH_DOMAIN = process.env.AUTH_DOMAIN;
+const SESSION_TTL_HOURS = parseInt(process.env.SESSION_TTL_HOURS || '24');
+const BRIDGE_RPC_URL = process.env.BRIDGE_RPC_URL || ONLYSWAPS_FILECOIN.RPC_URL;
+const BRIDGE_ROUTER_ADDRESS = process.env.BRIDGE_ROUTER_ADDRESS || ONLYSWAPS_FILECOIN.ROUTER_ADDRESS;
+const BRIDGE_CHAIN_ID = parseInt(process.env.BRIDGE_CHAIN_ID || String(ONLYSWAPS_FILECOIN.CHAIN_ID));
+const BRIDGE_TOKEN_ADDRESS = process.env.BRIDGE_TOKEN_ADDRESS || ONLYSWAPS_FILECOIN.USDFC_ADDRESS;
+// Comma-separated chainId=url pairs, e.g. 84532=https://sepolia.base.org
+const BRIDGE_SOURCE_RPC_URLS = Object.fromEntries(
+    (process.env.BRIDGE_SOURCE_RPC_URLS || '')
+        .split(',')
+        .filter((pair) => pair.includes('='))
+        .map((pair) => [parseInt(pair.slice(0, pair.indexOf('='))), pair.slice(pair.indexOf('=') + 1).trim()])
+) as Record<number, string>;
 
 if (!FILECOIN_PRIVATE_KEY) {
     console.error('Error: FILECOIN_PRIVATE_KEY environment variable is required');
@@ -45,6 +120,22 @@ if (!BACKEND_FILECOIN_ADDRESS) {
     process.exit(1);
 }
 
+// Behind a proxy the request host can't be trusted to be the site users sign in to
+if (!AUTH_DOMAIN && process.env.NODE_ENV === 'production') {
+    console.error('Error: AUTH_DOMAIN environment variable is required in production');
+    process.exit(1);
+}
+
+if (!DEDUP_PRICING_POLICIES.includes(DEDUP_PRICING)) {
+    console.error(`Error: DEDUP_PRICING must be one of ${DEDUP_PRICING_POLICIES.join(', ')}`);
+    process.exit(1);
+}
+
+if (Number.isNaN(PRICING_MARGIN_BPS) || PRICING_MARGIN_BPS < 0) {
+    console.error('Error: PRICING_MARGIN_BPS must be a non-negative number of basis points');
+    process.exit(1);
+}
+
 // TypeScript now knows these are defined
 const privateKey: string = FILECOIN_PRIVATE_KEY;
 const backendAddress: string = BACKEND_FILECOIN_ADDRESS;
@@ -52,6 +143,11 @@ const backendAddress: string = BACKEND_FILECOIN_ADDRESS;
 // Store server instance and cleanup function for proper shutdown
 let serverInstance: any = null;
 let dbInstance: Database | null = null;
+let uploadQueueInstance: UploadQueue | null = null;
+let resumableServiceInstance: ResumableUploadService | null = null;
+let expirySchedulerInstance: StorageExpiryScheduler | null = null;
+let pricingServiceInstance: PricingService | null = null;
+let webhookServiceInstance: WebhookService | null = null;
 let isShuttingDown = false;
 
 async function cleanup() {
@@ -73,6 +169,13 @@ async function cleanup() {
         console.error('Error closing server:', error);
     }
 
+    // Jobs still running are requeued on next startup
+    uploadQueueInstance?.stop();
+    resumableServiceInstance?.stop();
+    expirySchedulerInstance?.stop();
+    pricingServiceInstance?.stop();
+    webhookServiceInstance?.stop();
+
     try {
         if (dbInstance) {
             await dbInstance.close();
@@ -88,7 +191,7 @@ async function startServer() {
         const app = express();
 
         // Middleware
-        app.use(cors());
+        app.use(cors({ exposedHeaders: ['X-Encryption-Envelope', 'Retry-After', 'X-RateLimit-Limit', 'X-RateLimit-Remaining'] }));
         app.use(express.json());
 
         // Initialize database
@@ -120,8 +223,143 @@ async function startServer() {
             }
         }
 
-        // Mount storage routes
-        app.use('/api', createStorageRouter(db, synapseService));
+        // Wallet sign-in sessions
+        const authService = new AuthService(db, {
+            domain: AUTH_DOMAIN,
+            sessionTtlMs: SESSION_TTL_HOURS * 60 * 60 * 1000,
+        });
+        await authService.pruneExpired();
+
+        // Background upload worker; resume jobs interrupted by the last shutdown
+        mkdirSync(UPLOAD_DIR, { recursive: true });
+        // Partially received uploads from the last run can't be resumed
+        rmSync(UPLOAD_INCOMING_DIR, { recursive: true, force: true });
+        mkdirSync(UPLOAD_INCOMING_DIR, { recursive: true });
+        mkdirSync(UPLOAD_RESUMABLE_DIR, { recursive: true });
+
+        // Signed event notifications, retried from the delivery log
+        const webhookService = new WebhookService(db, {
+            maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+            retryBaseDelayMs: WEBHOOK_RETRY_BASE_SECONDS * 1000,
+            timeoutMs: WEBHOOK_TIMEOUT_SECONDS * 1000,
+            lowBalanceThreshold: WEBHOOK_LOW_BALANCE_THRESHOLD,
+            allowedPrivateHosts: WEBHOOK_ALLOWED_PRIVATE_HOSTS,
+        });
+        await webhookService.pruneDeliveries(Date.now() - WEBHOOK_DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+        webhookServiceInstance = webhookService;
+        webhookService.start();
+
+        // Live progress for the event streams of signed-in users
+        const eventHub = new UserEventHub();
+
+        const creditService = new CreditService(db, webhookService, eventHub);
+
+        // Local copies of stored pieces; filled by finished uploads and first downloads
+        const retrievalCache = new RetrievalCache(db, {
+            dir: RETRIEVAL_CACHE_DIR,
+            maxBytes: RETRIEVAL_CACHE_MAX_BYTES,
+        });
+        await retrievalCache.initialize();
+
+        // Live storage prices; placeholders are used until Synapse answers
+        const pricingService = new PricingService(synapseService, {
+            refreshIntervalMs: PRICING_REFRESH_MINUTES * 60 * 1000,
+            marginBps: PRICING_MARGIN_BPS,
+        });
+        try {
+            await pricingService.refresh();
+        } catch (error) {
+            console.error('Warning: Failed to read storage prices from Synapse, using placeholder prices:', error);
+        }
+        pricingServiceInstance = pricingService;
+        pricingService.start();
+
+        // Signed prices honored by the upload that redeems them
+        const quoteService = new QuoteService(db, pricingService, privateKey, {
+            ttlMs: QUOTE_TTL_MINUTES * 60 * 1000,
+        });
+        await quoteService.pruneExpired();
+
+        const uploadService = new UploadService(db, synapseService, creditService, retrievalCache, pricingService, UPLOAD_DIR, DEDUP_PRICING, webhookService, eventHub);
+        const uploadQueue = new UploadQueue(db, uploadService, creditService, {
+            concurrency: UPLOAD_CONCURRENCY,
+            maxAttempts: UPLOAD_MAX_ATTEMPTS,
+        });
+        // Per-user request rate, parallel upload and storage quotas
+        const quotaService = new QuotaService(db, {
+            requestsPerMinute: RATE_LIMIT_REQUESTS_PER_MINUTE,
+            maxConcurrentUploads: MAX_CONCURRENT_UPLOADS,
+            dailyUploadBytes: DAILY_UPLOAD_BYTES,
+            maxStoredBytes: MAX_STORED_BYTES,
+        });
+        await quotaService.pruneUsage();
+
+        const resumableService = new ResumableUploadService(db, uploadService, creditService, uploadQueue, quoteService, pricingService, {
+            dir: UPLOAD_RESUMABLE_DIR,
+            maxFileBytes: MAX_UPLOAD_BYTES,
+            maxUserPendingBytes: MAX_USER_PENDING_BYTES,
+            expiryMs: RESUMABLE_UPLOAD_EXPIRY_HOURS * 60 * 60 * 1000,
+        }, quotaService);
+        await resumableService.recoverInterrupted();
+        await resumableService.pruneExpired();
+        const recovered = await uploadService.recoverInterruptedUploads();
+        if (recovered > 0) {
+            console.log(`Requeued ${recovered} interrupted upload job(s)`);
+        }
+        uploadQueueInstance = uploadQueue;
+        uploadQueue.start();
+        resumableServiceInstance = resumableService;
+        resumableService.start();
+
+        // Track files through their paid storage period
+        const expiryScheduler = new StorageExpiryScheduler(db, retrievalCache, {
+            intervalMs: STORAGE_EXPIRY_CHECK_MINUTES * 60 * 1000,
+            expiringSoonMs: STORAGE_EXPIRING_SOON_DAYS * 24 * 60 * 60 * 1000,
+        }, webhookService);
+        await expiryScheduler.runOnce();
+        expirySchedulerInstance = expiryScheduler;
+        expiryScheduler.start();
+
+        // On-chain verification of OnlySwaps deposits to the backend wallet
+        const depositService = new DepositService(db, creditService, {
+            backendAddress,
+            routerAddress: BRIDGE_ROUTER_ADDRESS,
+            rpcUrl: BRIDGE_RPC_URL,
+            chainId: BRIDGE_CHAIN_ID,
+            tokenAddress: BRIDGE_TOKEN_ADDRESS,
+            sourceChains: Object.fromEntries(Object.entries(ONLYSWAPS_SOURCE_CHAINS).map(([chainId, chain]) => [chainId, {
+                routerAddress: chain.ROUTER_ADDRESS,
+                rpcUrl: BRIDGE_SOURCE_RPC_URLS[Number(chainId)] || chain.RPC_URL,
+            }])),
+        }, eventHub);
+
+        // Time- and download-limited links to single files
+        const shareService = new ShareService(db, {
+            defaultTtlMs: SHARE_LINK_DEFAULT_TTL_HOURS * 60 * 60 * 1000,
+            maxTtlMs: SHARE_LINK_MAX_TTL_HOURS * 60 * 60 * 1000,
+            baseUrl: SHARE_LINK_BASE_URL,
+        });
+
+        // Shared credit pools and file ownership for teams of wallets
+        const organizationService = new OrganizationService(db, creditService);
+
+        // Mount routes
+        app.use('/api', rateLimit(authService, quotaService));
+        app.use('/api', createAuthRouter(authService));
+        app.use('/api', createApiKeyRouter(authService));
+        app.use('/api', createTusRouter(authService, resumableService, quotaService, organizationService));
+        app.use('/api', createAdminRouter(ADMIN_API_TOKEN, retrievalCache));
+        app.use('/api', createWebhookRouter(authService, webhookService));
+        app.use('/api', createEventRouter(authService, eventHub));
+        app.use('/api', createUsageRouter(authService, quotaService));
+        app.use('/api', createOrganizationRouter(authService, organizationService));
+        app.use('/api', createStorageRouter(db, synapseService, authService, depositService, uploadQueue, retrievalCache, quoteService, pricingService, shareService, creditService, quotaService, organizationService, {
+            incomingDir: UPLOAD_INCOMING_DIR,
+            maxFileBytes: MAX_UPLOAD_BYTES,
+            maxUserPendingBytes: MAX_USER_PENDING_BYTES,
+            maxBatchFiles: MAX_BATCH_FILES,
+        }));
+        app.use(createShareRouter(db, synapseService, retrievalCache, shareService));
 
         // Health check endpoint
         app.get('/health', (req, res) => {
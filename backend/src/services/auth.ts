@@ -0,0 +1,309 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { verifyMessage, getAddress } from 'ethers';
+import { ApiKey, Database } from '../db/database.js';
+
+/**
+ * What an API key may do: upload files, read files, balances and usage, and claim deposits
+ */
+export const API_KEY_SCOPES = ['upload', 'read', 'fund'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Keys one wallet may hold at once; revoked keys don't count
+const MAX_API_KEYS_PER_USER = 25;
+
+// last_used_at is only rewritten when it is older than this
+const API_KEY_TOUCH_INTERVAL_MS = 60 * 1000;
+
+export interface AuthServiceOptions {
+    // Expected `domain` in the signed message. When unset, the host the request was sent to is expected.
+    domain?: string;
+    nonceTtlMs?: number;
+    sessionTtlMs?: number;
+}
+
+export interface SiweMessageFields {
+    domain: string;
+    address: string;
+    uri?: string;
+    version?: string;
+    chainId?: number;
+    nonce?: string;
+    issuedAt?: string;
+    expirationTime?: string;
+    notBefore?: string;
+}
+
+export interface IssuedSession {
+    token: string;
+    address: string;
+    expiresAt: number;
+}
+
+export interface CreateApiKeyParams {
+    name: string;
+    scopes: ApiKeyScope[];
+    expiresInDays?: number;
+}
+
+export interface IssuedApiKey {
+    apiKey: ApiKey;
+    // Only returned when the key is created
+    key: string;
+}
+
+/**
+ * The wallet an API key acts for and what it may do
+ */
+export interface ApiKeyIdentity {
+    id: string;
+    userAddress: string;
+    scopes: ApiKeyScope[];
+}
+
+export class AuthError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+/**
+ * Carries the HTTP status the API key routes should answer with
+ */
+export class ApiKeyError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'ApiKeyError';
+    }
+}
+
+const SIWE_HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+/**
+ * Parse the fields we rely on out of an EIP-4361 (Sign-In with Ethereum) message
+ */
+export function parseSiweMessage(message: string): SiweMessageFields {
+    const lines = message.split('\n');
+
+    if (lines.length < 2 || !lines[0].endsWith(SIWE_HEADER_SUFFIX)) {
+        throw new AuthError('Malformed sign-in message: missing header');
+    }
+
+    const domain = lines[0].slice(0, -SIWE_HEADER_SUFFIX.length);
+    const address = lines[1].trim();
+
+    if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+        throw new AuthError('Malformed sign-in message: invalid address');
+    }
+
+    const fields: Record<string, string> = {};
+    for (const line of lines.slice(2)) {
+        const separator = line.indexOf(': ');
+        if (separator > 0) {
+            fields[line.slice(0, separator)] = line.slice(separator + 2).trim();
+        }
+    }
+
+    return {
+        domain,
+        address,
+        uri: fields['URI'],
+        version: fields['Version'],
+        chainId: fields['Chain ID'] ? parseInt(fields['Chain ID']) : undefined,
+        nonce: fields['Nonce'],
+        issuedAt: fields['Issued At'],
+        expirationTime: fields['Expiration Time'],
+        notBefore: fields['Not Before'],
+    };
+}
+
+export class AuthService {
+    private readonly domain?: string;
+    private readonly nonceTtlMs: number;
+    private readonly sessionTtlMs: number;
+
+    constructor(private db: Database, options: AuthServiceOptions = {}) {
+        this.domain = options.domain;
+        this.nonceTtlMs = options.nonceTtlMs ?? 10 * 60 * 1000; // 10 minutes
+        this.sessionTtlMs = options.sessionTtlMs ?? 24 * 60 * 60 * 1000; // 24 hours
+    }
+
+    /**
+     * Issue a single-use nonce to be embedded in the sign-in message
+     */
+    async createNonce(): Promise<{ nonce: string; expiresAt: number }> {
+        // EIP-4361 requires an alphanumeric nonce of at least 8 characters
+        const nonce = randomBytes(16).toString('hex');
+        const expiresAt = Date.now() + this.nonceTtlMs;
+
+        await this.db.createAuthNonce(nonce, expiresAt);
+
+        return { nonce, expiresAt };
+    }
+
+    /**
+     * Verify a signed sign-in message and open a session for the signer.
+     * requestDomain is the host the request was sent to, checked when no domain is configured.
+     */
+    async verify(message: string, signature: string, requestDomain?: string): Promise<IssuedSession> {
+        const fields = parseSiweMessage(message);
+
+        const domain = this.domain ?? requestDomain;
+        if (!domain) {
+            throw new AuthError('Sign-in message domain cannot be checked');
+        }
+        if (fields.domain !== domain) {
+            throw new AuthError(`Sign-in message domain ${fields.domain} does not match ${domain}`);
+        }
+
+        if (fields.version !== '1') {
+            throw new AuthError('Unsupported sign-in message version');
+        }
+
+        if (!fields.nonce) {
+            throw new AuthError('Sign-in message is missing a nonce');
+        }
+
+        const now = Date.now();
+        if (fields.expirationTime && Date.parse(fields.expirationTime) <= now) {
+            throw new AuthError('Sign-in message has expired');
+        }
+        if (fields.notBefore && Date.parse(fields.notBefore) > now) {
+            throw new AuthError('Sign-in message is not valid yet');
+        }
+
+        let recovered: string;
+        try {
+            recovered = verifyMessage(message, signature);
+        } catch {
+            throw new AuthError('Invalid signature');
+        }
+
+        if (getAddress(recovered) !== getAddress(fields.address)) {
+            throw new AuthError('Signature does not match the address in the sign-in message');
+        }
+
+        // Consume the nonce only after the signature checks out so a bad
+        // signature can't burn someone else's nonce
+        const consumed = await this.db.consumeAuthNonce(fields.nonce);
+        if (!consumed) {
+            throw new AuthError('Nonce is invalid, expired or already used');
+        }
+
+        const token = randomBytes(32).toString('hex');
+        const address = fields.address.toLowerCase();
+        const expiresAt = now + this.sessionTtlMs;
+
+        await this.db.createAuthSession({
+            token_hash: this.hashToken(token),
+            user_address: address,
+            expires_at: expiresAt,
+        });
+
+        console.log(`Opened session for ${address} (expires ${new Date(expiresAt).toISOString()})`);
+
+        return { token, address, expiresAt };
+    }
+
+    /**
+     * Resolve a bearer token to the session's wallet address
+     */
+    async getSessionAddress(token: string): Promise<string | null> {
+        const session = await this.db.getAuthSession(this.hashToken(token));
+        return session ? session.user_address : null;
+    }
+
+    async revokeSession(token: string): Promise<void> {
+        await this.db.deleteAuthSession(this.hashToken(token));
+    }
+
+    async pruneExpired(): Promise<void> {
+        await this.db.deleteExpiredAuthRecords();
+    }
+
+    /**
+     * Issue an API key acting for userAddress with the given scopes
+     */
+    async createApiKey(userAddress: string, params: CreateApiKeyParams): Promise<IssuedApiKey> {
+        const name = typeof params.name === 'string' ? params.name.trim() : '';
+        if (!name || name.length > 100) {
+            throw new ApiKeyError('name is required and must be at most 100 characters', 400);
+        }
+
+        const scopes = Array.isArray(params.scopes) ? [...new Set(params.scopes)] : [];
+        if (scopes.length === 0 || !scopes.every((scope) => API_KEY_SCOPES.includes(scope))) {
+            throw new ApiKeyError(`scopes must list one or more of: ${API_KEY_SCOPES.join(', ')}`, 400);
+        }
+
+        let expiresAt: number | null = null;
+        if (params.expiresInDays !== undefined) {
+            if (!Number.isInteger(params.expiresInDays) || params.expiresInDays <= 0) {
+                throw new ApiKeyError('expiresInDays must be a positive integer', 400);
+            }
+            expiresAt = Date.now() + params.expiresInDays * 24 * 60 * 60 * 1000;
+        }
+
+        const existing = await this.db.getApiKeysForUser(userAddress);
+        if (existing.filter((key) => !key.revoked_at).length >= MAX_API_KEYS_PER_USER) {
+            throw new ApiKeyError(`At most ${MAX_API_KEYS_PER_USER} API keys can be active; revoke one first`, 409);
+        }
+
+        const key = `fbk_${randomBytes(32).toString('base64url')}`;
+        const id = randomUUID();
+        await this.db.createApiKey({
+            id,
+            key_hash: this.hashToken(key),
+            key_prefix: key.slice(0, 12),
+            user_address: userAddress,
+            name,
+            scopes: JSON.stringify(scopes),
+            expires_at: expiresAt,
+        });
+
+        console.log(`Issued API key ${id} (${scopes.join(', ')}) for ${userAddress}`);
+        return { apiKey: (await this.db.getApiKey(id))!, key };
+    }
+
+    async listApiKeys(userAddress: string): Promise<ApiKey[]> {
+        return this.db.getApiKeysForUser(userAddress);
+    }
+
+    async revokeApiKey(userAddress: string, id: string): Promise<ApiKey> {
+        const apiKey = await this.db.getApiKey(id);
+        if (!apiKey || apiKey.user_address !== userAddress) {
+            throw new ApiKeyError('API key not found', 404);
+        }
+        if (!(await this.db.revokeApiKey(apiKey.id))) {
+            throw new ApiKeyError('API key has already been revoked', 409);
+        }
+
+        console.log(`Revoked API key ${apiKey.id} for ${userAddress}`);
+        return (await this.db.getApiKey(apiKey.id))!;
+    }
+
+    /**
+     * Resolve an API key to the wallet it acts for; null if it is unknown, revoked or expired
+     */
+    async getApiKeyIdentity(key: string): Promise<ApiKeyIdentity | null> {
+        const apiKey = await this.db.getApiKeyByHash(this.hashToken(key));
+        const now = Date.now();
+        if (!apiKey || apiKey.revoked_at || (apiKey.expires_at !== null && apiKey.expires_at <= now)) {
+            return null;
+        }
+
+        if (!apiKey.last_used_at || now - apiKey.last_used_at >= API_KEY_TOUCH_INTERVAL_MS) {
+            await this.db.touchApiKey(apiKey.id, now);
+        }
+
+        return {
+            id: apiKey.id,
+            userAddress: apiKey.user_address,
+            scopes: JSON.parse(apiKey.scopes) as ApiKeyScope[],
+        };
+    }
+
+    private hashToken(token: string): string {
+        return createHash('sha256').update(token).digest('hex');
+    }
+}
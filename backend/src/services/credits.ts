@@ -1,9 +1,47 @@
-import { Database } from '../db/database.js';
-import { calculateStorageCost } from '../constants.js';
+import { Database, CreditHold } from '../db/database.js';
 import { v4 as uuidv4 } from 'uuid';
+import { WebhookService } from './webhooks.js';
+import { UserEventHub } from './events.js';
+import { accountOrganizationId } from './organizations.js';
+
+/**
+ * One file's part of a batch hold
+ */
+export interface HoldPart {
+    share: bigint;
+    fileId: string;
+    description: string;
+}
+
+/**
+ * The member spending from an organization's pooled account
+ */
+export interface Spender {
+    memberAddress: string;
+    // Per UTC month; null for no limit
+    spendingLimit: bigint | null;
+}
+
+export interface SpendingLimitExceeded {
+    spendingLimit: bigint;
+    // Spent or held this month before the new charge
+    spent: bigint;
+}
+
+function startOfUtcMonth(time: number): number {
+    const date = new Date(time);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+/**
+ * What is still reserved of a hold after the parts settled so far
+ */
+function remainingHeld(hold: CreditHold): bigint {
+    return BigInt(hold.amount) - BigInt(hold.captured_amount) - BigInt(hold.released_amount);
+}
 
 export class CreditService {
-    constructor(private db: Database) {}
+    constructor(private db: Database, private webhooks?: WebhookService, private events?: UserEventHub) {}
 
     /**
      * Get user's current credit balance
@@ -14,87 +52,263 @@ export class CreditService {
     }
 
     /**
-     * Add credits to user account (from bridge deposit)
+     * Get the total amount currently reserved by in-flight uploads
+     */
+    async getHeldAmount(userAddress: string): Promise<bigint> {
+        const holds = await this.db.getActiveCreditHolds(userAddress);
+        return holds.reduce((sum, hold) => sum + remainingHeld(hold), 0n);
+    }
+
+    /**
+     * What a member has spent from an account this UTC month, counting what their
+     * in-flight uploads still hold
+     */
+    async getMonthlySpend(userAddress: string, memberAddress: string): Promise<bigint> {
+        const [deductions, holds] = await Promise.all([
+            this.db.getMemberDeductions(userAddress, memberAddress, startOfUtcMonth(Date.now())),
+            this.db.getActiveCreditHolds(userAddress),
+        ]);
+        const deducted = deductions.reduce((sum, amount) => sum + BigInt(amount), 0n);
+        return holds
+            .filter((hold) => hold.member_address === memberAddress)
+            .reduce((sum, hold) => sum + remainingHeld(hold), deducted);
+    }
+
+    /**
+     * Whether charging amount would take the spender over their monthly limit.
+     * Call inside the transaction that makes the charge.
+     */
+    async checkSpendingLimit(userAddress: string, spender: Spender | undefined, amount: bigint): Promise<SpendingLimitExceeded | null> {
+        if (!spender || spender.spendingLimit === null) {
+            return null;
+        }
+        const spent = await this.getMonthlySpend(userAddress, spender.memberAddress);
+        return spent + amount > spender.spendingLimit ? { spendingLimit: spender.spendingLimit, spent } : null;
+    }
+
+    /**
+     * Add credits to user account (from bridge deposit). memberAddress records who
+     * funded an organization's account.
      */
     async addCredits(
         userAddress: string,
         amount: bigint,
-        bridgeRequestId: string
+        bridgeRequestId: string,
+        memberAddress?: string
     ): Promise<void> {
-        const currentBalance = await this.getBalance(userAddress);
-        const newBalance = currentBalance + amount;
-
-        // Create or update user credit record
-        const existing = await this.db.getUserCredit(userAddress);
-        if (existing) {
-            await this.db.updateUserCreditBalance(userAddress, newBalance.toString());
-        } else {
-            await this.db.createUserCredit({
+        const newBalance = await this.db.transaction(async () => {
+            const existing = await this.db.getUserCredit(userAddress);
+            const newBalance = (existing ? BigInt(existing.balance) : 0n) + amount;
+
+            // Create or update user credit record
+            if (existing) {
+                await this.db.updateUserCreditBalance(userAddress, newBalance.toString());
+            } else {
+                await this.db.createUserCredit({
+                    user_address: userAddress,
+                    balance: newBalance.toString(),
+                });
+            }
+
+            // Log transaction
+            await this.db.createCreditTransaction({
+                id: uuidv4(),
                 user_address: userAddress,
-                balance: newBalance.toString(),
+                type: 'deposit',
+                amount: amount.toString(),
+                file_id: null,
+                bridge_request_id: bridgeRequestId,
+                description: `Deposited ${amount} USDFC wei via bridge ${bridgeRequestId}`,
+                member_address: memberAddress ?? null,
             });
-        }
 
-        // Log transaction
-        await this.db.createCreditTransaction({
-            id: uuidv4(),
-            user_address: userAddress,
-            type: 'deposit',
-            amount: amount.toString(),
-            file_id: null,
-            bridge_request_id: bridgeRequestId,
-            description: `Deposited ${amount} USDFC wei via bridge ${bridgeRequestId}`,
+            return newBalance;
         });
 
         console.log(`Added ${amount} credits to ${userAddress}. New balance: ${newBalance}`);
+        await this.reportBalanceChange(userAddress, newBalance - amount, newBalance);
+        await this.webhooks?.emit(userAddress, 'credits.deposited', {
+            amount: amount.toString(),
+            balance: newBalance.toString(),
+            bridgeRequestId,
+        });
+    }
+
+    /**
+     * Called after every balance change, including ones made outside this service,
+     * so open event streams see the new balance and low balances are reported
+     */
+    async reportBalanceChange(userAddress: string, previousBalance: bigint, newBalance: bigint): Promise<void> {
+        const data = {
+            balance: newBalance.toString(),
+            change: (newBalance - previousBalance).toString(),
+        };
+        // Nobody signs in as an organization's pool; its members' streams get its changes
+        const orgId = accountOrganizationId(userAddress);
+        if (orgId === null) {
+            this.events?.publish(userAddress, 'balance', data);
+        } else if (this.events) {
+            for (const member of await this.db.getOrganizationMembers(orgId)) {
+                this.events.publish(member.member_address, 'balance', { ...data, orgId });
+            }
+        }
+        await this.webhooks?.checkLowBalance(userAddress, previousBalance, newBalance);
     }
 
     /**
-     * Deduct credits for file upload
-     * Returns error if insufficient balance
+     * Reserve credits for a file upload, or for a batch of them (fileId null).
+     * The balance check and update run in one transaction, so concurrent
+     * uploads can't both spend the same balance. With a spender, the hold is
+     * also checked against the member's spending limit.
      */
-    async deductCredits(
+    async placeHold(
         userAddress: string,
-        cost: bigint,
-        fileId: string,
-        fileName: string,
-        durationDays: number
-    ): Promise<{ success: boolean; error?: string; currentBalance?: bigint; requiredAmount?: bigint }> {
-        const currentBalance = await this.getBalance(userAddress);
-
-        if (currentBalance < cost) {
-            return {
-                success: false,
-                error: 'Insufficient credits',
-                currentBalance,
-                requiredAmount: cost,
-            };
+        amount: bigint,
+        fileId: string | null,
+        description: string,
+        spender?: Spender
+    ): Promise<{ success: boolean; holdId?: string; error?: string; currentBalance?: bigint; requiredAmount?: bigint } & Partial<SpendingLimitExceeded>> {
+        // A negative hold would add to the balance
+        if (amount <= 0n) {
+            return { success: false, error: 'Hold amount must be positive', requiredAmount: amount };
+        }
+
+        const result = await this.db.transaction(async () => {
+            const currentBalance = await this.getBalance(userAddress);
+
+            if (currentBalance < amount) {
+                return {
+                    success: false,
+                    error: 'Insufficient credits',
+                    currentBalance,
+                    requiredAmount: amount,
+                };
+            }
+
+            const overLimit = await this.checkSpendingLimit(userAddress, spender, amount);
+            if (overLimit) {
+                return {
+                    success: false,
+                    error: 'Spending limit exceeded',
+                    requiredAmount: amount,
+                    ...overLimit,
+                };
+            }
+
+            const holdId = uuidv4();
+            await this.db.updateUserCreditBalance(userAddress, (currentBalance - amount).toString());
+            await this.db.createCreditHold({
+                id: holdId,
+                user_address: userAddress,
+                file_id: fileId,
+                amount: amount.toString(),
+                description,
+                member_address: spender?.memberAddress ?? null,
+            });
+
+            return { success: true, holdId, currentBalance };
+        });
+
+        if (result.success) {
+            console.log(`Placed hold ${result.holdId} of ${amount} credits for ${userAddress} (${fileId ? `file ${fileId}` : 'batch upload'})`);
+            await this.reportBalanceChange(userAddress, result.currentBalance!, result.currentBalance! - amount);
+            return { success: true, holdId: result.holdId };
         }
 
-        const newBalance = currentBalance - cost;
-        await this.db.updateUserCreditBalance(userAddress, newBalance.toString());
-
-        // Log transaction
-        await this.db.createCreditTransaction({
-            id: uuidv4(),
-            user_address: userAddress,
-            type: 'deduct',
-            amount: cost.toString(),
-            file_id: fileId,
-            bridge_request_id: null,
-            description: `Storage cost for ${fileName} (${durationDays} days)`,
+        return result;
+    }
+
+    /**
+     * Turn a hold into a permanent deduction once the upload has succeeded.
+     * Capturing less than the held amount returns the rest to the balance.
+     * With part, only that file's share of a batch hold is settled.
+     */
+    async captureHold(holdId: string, amount?: bigint, part?: HoldPart): Promise<void> {
+        const returned = await this.db.transaction(async () => {
+            const hold = await this.db.getCreditHold(holdId);
+            if (!hold) {
+                throw new Error(`Credit hold ${holdId} not found`);
+            }
+            if (hold.status !== 'held') {
+                throw new Error(`Credit hold ${holdId} is already ${hold.status}`);
+            }
+
+            const remaining = remainingHeld(hold);
+            const held = part?.share ?? remaining;
+            if (held > remaining) {
+                throw new Error(`Cannot settle ${held} of credit hold ${holdId}; only ${remaining} is still held`);
+            }
+            const capturedAmount = amount ?? held;
+            if (capturedAmount > held) {
+                throw new Error(`Cannot capture ${capturedAmount} from credit hold ${holdId} of ${held}`);
+            }
+            let returned: { userAddress: string; previousBalance: bigint; amount: bigint } | null = null;
+            if (capturedAmount < held) {
+                const currentBalance = await this.getBalance(hold.user_address);
+                await this.db.updateUserCreditBalance(hold.user_address, (currentBalance + held - capturedAmount).toString());
+                returned = { userAddress: hold.user_address, previousBalance: currentBalance, amount: held - capturedAmount };
+            }
+            await this.settle(hold, capturedAmount, held - capturedAmount);
+
+            // Log transaction
+            await this.db.createCreditTransaction({
+                id: uuidv4(),
+                user_address: hold.user_address,
+                type: 'deduct',
+                amount: capturedAmount.toString(),
+                file_id: part?.fileId ?? hold.file_id,
+                bridge_request_id: null,
+                description: part?.description ?? hold.description,
+                member_address: hold.member_address,
+            });
+
+            return returned;
         });
 
-        console.log(`Deducted ${cost} credits from ${userAddress} for file ${fileId}. New balance: ${newBalance}`);
+        console.log(`Captured credit hold ${holdId}${part ? ` for file ${part.fileId}` : ''}`);
+        if (returned) {
+            await this.reportBalanceChange(returned.userAddress, returned.previousBalance, returned.previousBalance + returned.amount);
+        }
+    }
+
+    /**
+     * Return held credits to the user's balance (e.g. after a failed upload), or only
+     * share of them for one file of a batch. Releasing a hold that is no longer held is a no-op.
+     */
+    async releaseHold(holdId: string, reason: string, share?: bigint): Promise<void> {
+        const released = await this.db.transaction(async () => {
+            const hold = await this.db.getCreditHold(holdId);
+            if (!hold || hold.status !== 'held') {
+                return null;
+            }
+
+            const remaining = remainingHeld(hold);
+            const amount = share !== undefined && share < remaining ? share : remaining;
+            const currentBalance = await this.getBalance(hold.user_address);
+            await this.db.updateUserCreditBalance(hold.user_address, (currentBalance + amount).toString());
+            await this.settle(hold, 0n, amount);
+            return { userAddress: hold.user_address, previousBalance: currentBalance, amount };
+        });
 
-        return { success: true };
+        if (released) {
+            console.log(`Released ${share !== undefined ? `${share} of ` : ''}credit hold ${holdId}: ${reason}`);
+            await this.reportBalanceChange(released.userAddress, released.previousBalance, released.previousBalance + released.amount);
+        }
     }
 
     /**
-     * Calculate storage cost for a file
+     * Add settled parts to a hold. It stays held until nothing is left, and then ends
+     * captured if any part was captured.
      */
-    calculateCost(fileSizeBytes: number, durationDays: number): bigint {
-        return calculateStorageCost(fileSizeBytes, durationDays);
+    private async settle(hold: CreditHold, captured: bigint, released: bigint): Promise<void> {
+        const capturedTotal = BigInt(hold.captured_amount) + captured;
+        const releasedTotal = BigInt(hold.released_amount) + released;
+        const status = capturedTotal + releasedTotal < BigInt(hold.amount)
+            ? 'held'
+            : capturedTotal > 0n ? 'captured' : 'released';
+
+        if (!(await this.db.settleCreditHold(hold.id, capturedTotal.toString(), releasedTotal.toString(), status))) {
+            throw new Error(`Credit hold ${hold.id} is no longer held`);
+        }
     }
 }
-
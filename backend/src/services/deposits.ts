@@ -0,0 +1,254 @@
+import { Contract, JsonRpcProvider, getAddress } from 'ethers';
+import { Database, BridgeDeposit } from '../db/database.js';
+import { CreditService } from './credits.js';
+import { UserEventHub } from './events.js';
+
+const ROUTER_ABI = [
+    'function getSwapRequestReceipt(bytes32 _requestId) view returns (bytes32 requestId, uint256 srcChainId, uint256 dstChainId, address tokenIn, address tokenOut, bool fulfilled, address solver, address recipient, uint256 amountOut, uint256 fulfilledAt)',
+];
+
+// The request as made on the source chain, which is where its sender is recorded
+const SOURCE_ROUTER_ABI = [
+    'function getSwapRequestParameters(bytes32 requestId) view returns ((address sender, address recipient, address tokenIn, address tokenOut, uint256 amountOut, uint256 srcChainId, uint256 dstChainId, uint256 verificationFee, uint256 solverFee, uint256 nonce, bool executed, uint256 requestedAt))',
+];
+
+export interface SourceChainConfig {
+    routerAddress: string;
+    rpcUrl: string;
+}
+
+export interface DepositServiceConfig {
+    backendAddress: string;
+    routerAddress: string;
+    rpcUrl: string;
+    chainId: number;
+    // USDFC on chainId; deposits of any other token are rejected
+    tokenAddress: string;
+    // Chains deposits may be bridged from, by chain id
+    sourceChains: Record<number, SourceChainConfig>;
+}
+
+export interface BridgeReceipt {
+    fulfilled: boolean;
+    srcChainId: number;
+    dstChainId: number;
+    tokenOut: string;
+    recipient: string;
+    amountOut: bigint;
+}
+
+export type ClaimDepositResult =
+    | { status: 'credited'; amount: bigint }
+    | { status: 'pending'; reason: string }
+    | { status: 'rejected'; reason: string }
+    | { status: 'duplicate'; reason: string }
+    | { status: 'forbidden'; reason: string };
+
+export class DepositService {
+    private readonly router: Contract;
+    private readonly sourceRouters = new Map<number, Contract>();
+    private readonly backendAddress: string;
+    private readonly tokenAddress: string;
+    private readonly chainId: number;
+
+    constructor(
+        private db: Database,
+        private creditService: CreditService,
+        private config: DepositServiceConfig,
+        private events?: UserEventHub
+    ) {
+        this.backendAddress = getAddress(config.backendAddress);
+        this.tokenAddress = getAddress(config.tokenAddress);
+        this.chainId = config.chainId;
+        this.router = new Contract(config.routerAddress, ROUTER_ABI, new JsonRpcProvider(config.rpcUrl));
+    }
+
+    /**
+     * Read the OnlySwaps fulfillment receipt for a bridge request on Filecoin
+     */
+    async fetchReceipt(bridgeRequestId: string): Promise<BridgeReceipt> {
+        const receipt = await this.router.getSwapRequestReceipt(bridgeRequestId);
+
+        return {
+            fulfilled: receipt.fulfilled,
+            srcChainId: Number(receipt.srcChainId),
+            dstChainId: Number(receipt.dstChainId),
+            tokenOut: receipt.tokenOut,
+            recipient: receipt.recipient,
+            amountOut: BigInt(receipt.amountOut),
+        };
+    }
+
+    /**
+     * Read who sent a bridge request from the router on its source chain, or null
+     * when that chain is not configured
+     */
+    async fetchSender(srcChainId: number, bridgeRequestId: string): Promise<string | null> {
+        let router = this.sourceRouters.get(srcChainId);
+        if (!router) {
+            const source = this.config.sourceChains[srcChainId];
+            if (!source) {
+                return null;
+            }
+            router = new Contract(source.routerAddress, SOURCE_ROUTER_ABI, new JsonRpcProvider(source.rpcUrl));
+            this.sourceRouters.set(srcChainId, router);
+        }
+
+        const request = await router.getSwapRequestParameters(bridgeRequestId);
+        return getAddress(request.sender);
+    }
+
+    /**
+     * Verify a bridge deposit on-chain and credit the verified amount exactly once.
+     *
+     * Only the address that sent the bridge request on its source chain can claim
+     * it. Each bridge request id moves through pending -> verified -> credited, the
+     * last two steps in one transaction. Deposits that are not fulfilled yet are not
+     * recorded and can be claimed again later. The amount credited is the bridged
+     * amountOut, whatever the client claimed. The outcome is published to the user's
+     * event streams. With account (an organization's pool), the deposit is still
+     * claimed by userAddress but credited there.
+     */
+    async claimDeposit(userAddress: string, bridgeRequestId: string, claimedAmount: bigint, account?: string): Promise<ClaimDepositResult> {
+        const result = await this.verifyAndCredit(userAddress, bridgeRequestId, claimedAmount, account);
+
+        // A duplicate claim says nothing new about the bridge
+        if (result.status !== 'duplicate') {
+            this.events?.publish(userAddress, 'bridge', {
+                bridgeRequestId,
+                status: result.status,
+                amount: result.status === 'credited' ? result.amount.toString() : null,
+                reason: result.status === 'credited' ? null : result.reason,
+            });
+        }
+        return result;
+    }
+
+    private async verifyAndCredit(userAddress: string, bridgeRequestId: string, claimedAmount: bigint, account?: string): Promise<ClaimDepositResult> {
+        const existing = await this.db.getBridgeDeposit(bridgeRequestId);
+        if (existing) {
+            const settled = this.checkExistingDeposit(existing, userAddress);
+            if (settled) {
+                return settled;
+            }
+        }
+
+        const receipt = await this.fetchReceipt(bridgeRequestId);
+
+        if (!receipt.fulfilled) {
+            return { status: 'pending', reason: 'Bridge request has not been fulfilled on Filecoin yet' };
+        }
+
+        // Checked before anything is recorded, so a claim by someone who saw the
+        // request id can't lock the depositor out
+        const sender = await this.fetchSender(receipt.srcChainId, bridgeRequestId);
+        if (!sender) {
+            return { status: 'rejected', reason: `Deposits bridged from chain ${receipt.srcChainId} are not accepted` };
+        }
+        if (sender !== getAddress(userAddress)) {
+            console.warn(`Refused claim of bridge deposit ${bridgeRequestId} by ${userAddress}; it was sent by ${sender}`);
+            return { status: 'forbidden', reason: 'Bridge request was sent by another address' };
+        }
+
+        const deposit = await this.getOrCreateDeposit(userAddress, bridgeRequestId, claimedAmount);
+        const settled = this.checkExistingDeposit(deposit, userAddress);
+        if (settled) {
+            return settled;
+        }
+
+        const rejection = this.validateReceipt(receipt);
+        if (rejection) {
+            await this.db.transitionBridgeDeposit(bridgeRequestId, 'pending', 'rejected', { failure_reason: rejection });
+            console.warn(`Rejected bridge deposit ${bridgeRequestId} for ${userAddress}: ${rejection}`);
+            return { status: 'rejected', reason: rejection };
+        }
+        // The delivered amount is what is credited; a wrong claim is kept on the deposit for review
+        const discrepancy = receipt.amountOut === claimedAmount
+            ? null
+            : `Claimed ${claimedAmount} but the bridge delivered ${receipt.amountOut}`;
+        if (discrepancy) {
+            console.warn(`Bridge deposit ${bridgeRequestId}: ${discrepancy}; crediting the delivered amount`);
+        }
+
+        const credited = await this.db.transaction(async () => {
+            // Only one concurrent claim can win the pending -> verified transition
+            const won = await this.db.transitionBridgeDeposit(bridgeRequestId, 'pending', 'verified', {
+                verified_amount: receipt.amountOut.toString(),
+                discrepancy,
+            });
+            if (!won) {
+                return false;
+            }
+
+            if (account) {
+                await this.creditService.addCredits(account, receipt.amountOut, bridgeRequestId, userAddress);
+            } else {
+                await this.creditService.addCredits(userAddress, receipt.amountOut, bridgeRequestId);
+            }
+            await this.db.transitionBridgeDeposit(bridgeRequestId, 'verified', 'credited');
+            return true;
+        });
+        if (!credited) {
+            return { status: 'duplicate', reason: 'Bridge request is already being credited' };
+        }
+
+        return { status: 'credited', amount: receipt.amountOut };
+    }
+
+    /**
+     * The answer for a deposit that was already claimed, credited or rejected, or
+     * null when it is still pending for userAddress
+     */
+    private checkExistingDeposit(deposit: BridgeDeposit, userAddress: string): ClaimDepositResult | null {
+        if (deposit.user_address !== userAddress) {
+            return { status: 'duplicate', reason: 'Bridge request has already been claimed by another account' };
+        }
+        if (deposit.status === 'credited' || deposit.status === 'verified') {
+            return { status: 'duplicate', reason: 'Bridge request has already been credited' };
+        }
+        if (deposit.status === 'rejected') {
+            return { status: 'rejected', reason: deposit.failure_reason || 'Bridge request was rejected' };
+        }
+        return null;
+    }
+
+    private async getOrCreateDeposit(userAddress: string, bridgeRequestId: string, claimedAmount: bigint): Promise<BridgeDeposit> {
+        const existing = await this.db.getBridgeDeposit(bridgeRequestId);
+        if (existing) {
+            return existing;
+        }
+
+        try {
+            await this.db.createBridgeDeposit({
+                bridge_request_id: bridgeRequestId,
+                user_address: userAddress,
+                claimed_amount: claimedAmount.toString(),
+            });
+        } catch (error) {
+            // Lost a race with a concurrent claim; fall through and read the winner's row
+            if (!(error instanceof Error && error.message.includes('UNIQUE'))) {
+                throw error;
+            }
+        }
+
+        const deposit = await this.db.getBridgeDeposit(bridgeRequestId);
+        if (!deposit) {
+            throw new Error(`Failed to record bridge deposit ${bridgeRequestId}`);
+        }
+        return deposit;
+    }
+
+    private validateReceipt(receipt: BridgeReceipt): string | null {
+        if (receipt.dstChainId !== this.chainId) {
+            return `Bridge destination chain ${receipt.dstChainId} does not match ${this.chainId}`;
+        }
+        if (getAddress(receipt.recipient) !== this.backendAddress) {
+            return `Bridge recipient ${receipt.recipient} is not the backend wallet`;
+        }
+        // Credits are USDFC wei; any other token would be credited 1:1 whatever it is worth
+        if (getAddress(receipt.tokenOut) !== this.tokenAddress) {
+            return `Bridged token ${receipt.tokenOut} is not USDFC (${this.tokenAddress})`;
+        }
+        return null;
+    }
+}
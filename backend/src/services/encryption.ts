@@ -0,0 +1,118 @@
+// Bytes of the GCM tag that ends every ciphertext segment
+const TAG_BYTES = 16;
+
+// Stored with the file record, so keep it small
+const MAX_ENVELOPE_BYTES = 4096;
+
+const MAX_SEGMENT_SIZE = 64 * 1024 * 1024;
+
+/**
+ * How a client encrypted a file before uploading it. The backend never sees the
+ * key: it stores the envelope and hands it back with downloads, so the uploader's
+ * wallet can unwrap the data key again.
+ */
+export interface EncryptionEnvelope {
+    version: 1;
+    // Segmented AES-256-GCM; each segment is segmentSize plaintext bytes plus a tag
+    algorithm: 'AES-256-GCM-SEGMENTED';
+    segmentSize: number;
+    plaintextSize: number;
+    // Base64; segment nonces are this prefix, a counter and a last-segment flag
+    noncePrefix: string;
+    keyWrap: {
+        // AES-KW with a key derived by HKDF-SHA256 from the signer's signature
+        algorithm: 'AES-KW-HKDF-SHA256';
+        signer: string;
+        salt: string;
+        wrappedKey: string;
+    };
+}
+
+/**
+ * An envelope the upload routes can't accept; answered with 400
+ */
+export class EncryptionEnvelopeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'EncryptionEnvelopeError';
+    }
+}
+
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+function isBase64(value: unknown): value is string {
+    return typeof value === 'string' && value.length % 4 === 0 && BASE64.test(value);
+}
+
+/**
+ * Ciphertext bytes for plaintextSize bytes; an empty file is still one (tag-only) segment
+ */
+export function encryptedSize(plaintextSize: number, segmentSize: number): number {
+    const segments = Math.max(1, Math.ceil(plaintextSize / segmentSize));
+    return plaintextSize + segments * TAG_BYTES;
+}
+
+/**
+ * Check an envelope sent with an upload and return it in canonical JSON form.
+ * Only the shape is checked, plus that it describes ciphertextSize bytes.
+ */
+export function parseEncryptionEnvelope(raw: string, ciphertextSize: number): string {
+    if (Buffer.byteLength(raw) > MAX_ENVELOPE_BYTES) {
+        throw new EncryptionEnvelopeError('encryption envelope is too large');
+    }
+
+    let envelope: Partial<EncryptionEnvelope>;
+    try {
+        envelope = JSON.parse(raw);
+    } catch {
+        throw new EncryptionEnvelopeError('encryption must be a JSON envelope');
+    }
+    if (!envelope || typeof envelope !== 'object') {
+        throw new EncryptionEnvelopeError('encryption must be a JSON envelope');
+    }
+
+    if (envelope.version !== 1 || envelope.algorithm !== 'AES-256-GCM-SEGMENTED') {
+        throw new EncryptionEnvelopeError('Unsupported encryption envelope version or algorithm');
+    }
+    const { segmentSize, plaintextSize, noncePrefix, keyWrap } = envelope;
+    if (!Number.isSafeInteger(segmentSize) || segmentSize! <= 0 || segmentSize! > MAX_SEGMENT_SIZE) {
+        throw new EncryptionEnvelopeError(`encryption.segmentSize must be between 1 and ${MAX_SEGMENT_SIZE}`);
+    }
+    if (!Number.isSafeInteger(plaintextSize) || plaintextSize! < 0) {
+        throw new EncryptionEnvelopeError('encryption.plaintextSize must be a non-negative integer');
+    }
+    if (!isBase64(noncePrefix)) {
+        throw new EncryptionEnvelopeError('encryption.noncePrefix must be base64');
+    }
+    if (
+        !keyWrap ||
+        keyWrap.algorithm !== 'AES-KW-HKDF-SHA256' ||
+        typeof keyWrap.signer !== 'string' ||
+        !/^0x[0-9a-fA-F]{40}$/.test(keyWrap.signer) ||
+        !isBase64(keyWrap.salt) ||
+        !isBase64(keyWrap.wrappedKey)
+    ) {
+        throw new EncryptionEnvelopeError('encryption.keyWrap is invalid');
+    }
+
+    if (encryptedSize(plaintextSize!, segmentSize!) !== ciphertextSize) {
+        throw new EncryptionEnvelopeError(
+            `Encryption envelope describes ${encryptedSize(plaintextSize!, segmentSize!)} bytes of ciphertext, but the file is ${ciphertextSize} bytes`
+        );
+    }
+
+    const canonical: EncryptionEnvelope = {
+        version: 1,
+        algorithm: 'AES-256-GCM-SEGMENTED',
+        segmentSize: segmentSize!,
+        plaintextSize: plaintextSize!,
+        noncePrefix: noncePrefix!,
+        keyWrap: {
+            algorithm: 'AES-KW-HKDF-SHA256',
+            signer: keyWrap.signer.toLowerCase(),
+            salt: keyWrap.salt,
+            wrappedKey: keyWrap.wrappedKey,
+        },
+    };
+    return JSON.stringify(canonical);
+}
@@ -0,0 +1,83 @@
+export type UserEventType = 'upload' | 'bridge' | 'balance';
+
+/**
+ * Where an upload is: received and queued, re-hashing the spooled bytes, sending
+ * them to the storage provider, waiting for the piece to be added on-chain, and
+ * stored, waiting to be retried or failed for good
+ */
+export type UploadStage = 'queued' | 'hashing' | 'uploading' | 'confirming' | 'stored' | 'retrying' | 'failed';
+
+export interface UserEvent {
+    // Increases across all users for the life of the process
+    id: number;
+    type: UserEventType;
+    data: Record<string, unknown>;
+}
+
+export type UserEventListener = (event: UserEvent) => void;
+
+// Open streams one user may hold, e.g. one per browser tab
+const MAX_LISTENERS_PER_USER = 5;
+
+export class TooManyListenersError extends Error {
+    constructor(public readonly limit: number) {
+        super(`At most ${limit} event streams can be open at once`);
+        this.name = 'TooManyListenersError';
+    }
+}
+
+/**
+ * In-process fan-out of live progress events to the streams a user has open.
+ * Nothing is stored: events published while no stream is open are dropped, and
+ * clients re-read the current state from the regular endpoints when they connect.
+ */
+export class UserEventHub {
+    private listeners = new Map<string, Set<UserEventListener>>();
+    private nextId = 1;
+
+    /**
+     * Register a listener for userAddress's events and return the function that removes it
+     */
+    subscribe(userAddress: string, listener: UserEventListener): () => void {
+        const listeners = this.listeners.get(userAddress) ?? new Set<UserEventListener>();
+        if (listeners.size >= MAX_LISTENERS_PER_USER) {
+            throw new TooManyListenersError(MAX_LISTENERS_PER_USER);
+        }
+        listeners.add(listener);
+        this.listeners.set(userAddress, listeners);
+
+        return () => {
+            listeners.delete(listener);
+            if (listeners.size === 0 && this.listeners.get(userAddress) === listeners) {
+                this.listeners.delete(userAddress);
+            }
+        };
+    }
+
+    /**
+     * Deliver an event to userAddress's open streams. Never throws: a broken stream
+     * must not fail the operation that reported the progress.
+     */
+    publish(userAddress: string, type: UserEventType, data: Record<string, unknown>): void {
+        const listeners = this.listeners.get(userAddress);
+        if (!listeners) {
+            return;
+        }
+
+        const event: UserEvent = { id: this.nextId++, type, data };
+        for (const listener of [...listeners]) {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error(`Failed to deliver ${type} event to ${userAddress}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Whether anyone is listening, so callers can skip building costly events
+     */
+    hasListeners(userAddress: string): boolean {
+        return this.listeners.has(userAddress);
+    }
+}
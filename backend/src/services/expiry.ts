@@ -0,0 +1,99 @@
+import { Database } from '../db/database.js';
+import { RetrievalCache } from './retrieval-cache.js';
+import { organizationAccount } from './organizations.js';
+import { WebhookService } from './webhooks.js';
+
+export interface StorageExpiryOptions {
+    // How often file states are re-evaluated
+    intervalMs: number;
+    // Files whose storage ends within this window are marked expiring_soon
+    expiringSoonMs: number;
+}
+
+export interface StorageExpiryResult {
+    expiringSoon: number;
+    expired: number;
+}
+
+/**
+ * Moves stored files through active -> expiring_soon -> expired as their paid
+ * storage period runs out. Expiring releases the file's reference to its stored
+ * object; pieces no file references any more are dropped from the retrieval cache.
+ */
+export class StorageExpiryScheduler {
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+
+    constructor(
+        private db: Database,
+        private retrievalCache: RetrievalCache,
+        private options: StorageExpiryOptions,
+        private webhooks?: WebhookService
+    ) { }
+
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+        this.timer = setInterval(() => this.tick(), this.options.intervalMs);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    async runOnce(now: number = Date.now()): Promise<StorageExpiryResult> {
+        const expiringSoon = await this.db.markFilesExpiringSoon(now, now + this.options.expiringSoonMs);
+        for (const file of expiringSoon) {
+            // Organization files concern every member, not just the one who uploaded them
+            const owner = file.org_id === null ? file.user_address : organizationAccount(file.org_id);
+            await this.webhooks?.emit(owner, 'file.expiring', {
+                fileId: file.id,
+                fileName: file.file_name,
+                commp: file.commp,
+                expiresAt: file.expires_at,
+            });
+        }
+
+        const expired = await this.db.getFilesPastExpiry(now);
+        for (const file of expired) {
+            const object = await this.db.transaction(async () => {
+                await this.db.updateUserFile(file.id, { status: 'expired' });
+                await this.db.releaseStoredObject(file.commp!);
+                return this.db.getStoredObject(file.commp!);
+            });
+
+            // Deduplicated copies may still be serving the piece
+            if (!object || object.ref_count === 0) {
+                await this.retrievalCache.evict(file.commp!);
+            }
+            console.log(`Storage for file ${file.id} (${file.file_name}) expired at ${new Date(file.expires_at!).toISOString()}`);
+        }
+
+        return { expiringSoon: expiringSoon.length, expired: expired.length };
+    }
+
+    private tick(): void {
+        // A slow pass must not overlap the next one
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+
+        this.runOnce()
+            .then(({ expiringSoon, expired }) => {
+                if (expiringSoon > 0 || expired > 0) {
+                    console.log(`[${new Date().toISOString()}] Storage expiry: ${expiringSoon} expiring soon, ${expired} expired`);
+                }
+            })
+            .catch((error) => {
+                console.error(`[${new Date().toISOString()}] Storage expiry check failed:`, error);
+            })
+            .finally(() => {
+                this.running = false;
+            });
+    }
+}
@@ -0,0 +1,342 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Database, FileReader, FileVisibility, UserFile } from '../db/database.js';
+import { CreditService } from './credits.js';
+import { SynapseService } from './synapse.js';
+import { RetrievalCache } from './retrieval-cache.js';
+import { PricingService } from './pricing.js';
+import { OrganizationAction, OrganizationService, organizationAccount, roleAllows } from './organizations.js';
+import { calculateExtensionCost, SYNAPSE_COSTS } from '../constants.js';
+
+const DAY_MS = SYNAPSE_COSTS.SECONDS_PER_DAY * 1000;
+
+const FILE_VISIBILITIES: readonly FileVisibility[] = ['private', 'public', 'unlisted'];
+
+export type ExtendStorageResult =
+    | { status: 'extended'; file: UserFile; cost: bigint; newBalance: bigint; account: string }
+    | { status: 'insufficient_credits'; currentBalance: bigint; requiredAmount: bigint }
+    | { status: 'spending_limit_exceeded'; spendingLimit: bigint; spent: bigint; requiredAmount: bigint };
+
+export interface DeleteFileResult {
+    refund: bigint;
+    newBalance: bigint;
+    // Null when other files still share the piece, so it was kept
+    transactionHash: string | null;
+}
+
+/**
+ * Carries the HTTP status the file routes should answer with
+ */
+export class FileOperationError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'FileOperationError';
+    }
+}
+
+/**
+ * Check a visibility sent by a client
+ */
+export function parseVisibility(value: unknown): FileVisibility {
+    if (typeof value !== 'string' || !FILE_VISIBILITIES.includes(value as FileVisibility)) {
+        throw new FileOperationError(`visibility must be one of: ${FILE_VISIBILITIES.join(', ')}`, 400);
+    }
+    return value as FileVisibility;
+}
+
+/**
+ * Changes to files that are already stored
+ */
+export class FileService {
+    constructor(
+        private db: Database,
+        private creditService: CreditService,
+        private synapse: SynapseService,
+        private retrievalCache: RetrievalCache,
+        private pricing: PricingService,
+        private organizations: OrganizationService
+    ) { }
+
+    /**
+     * Look up a file owned by userAddress, or by an organization whose role lets them
+     * take action on it. Files they can't see are reported as missing.
+     */
+    async get(id: string, userAddress: string, action: OrganizationAction = 'manage_files'): Promise<UserFile> {
+        const file = await this.db.getUserFile(id);
+        if (!file) {
+            throw new FileOperationError('File not found', 404);
+        }
+
+        if (file.org_id === null) {
+            if (file.user_address !== userAddress) {
+                throw new FileOperationError('File not found', 404);
+            }
+            return file;
+        }
+
+        const member = await this.organizations.getMembership(file.org_id, userAddress);
+        if (!member) {
+            throw new FileOperationError('File not found', 404);
+        }
+        if (!roleAllows(member.role, action)) {
+            throw new FileOperationError(`Your ${member.role} role in the organization can't manage its files`, 403);
+        }
+        return file;
+    }
+
+    /**
+     * The file in a piece that readerAddress may download. Several users' files can
+     * share a piece, so the reader's own file wins, then one of an organization they
+     * belong to, then one they were allowed to read, then a public or unlisted one.
+     * Files the reader can't see are reported as missing.
+     */
+    async getReadable(commp: string, readerAddress?: string): Promise<UserFile> {
+        const files = await this.db.getFilesByCommp(commp);
+
+        if (readerAddress) {
+            const own = files.find((f) => f.org_id === null && f.user_address === readerAddress);
+            if (own) {
+                return own;
+            }
+            for (const file of files) {
+                if (file.org_id !== null && (await this.organizations.getMembership(file.org_id, readerAddress))) {
+                    return file;
+                }
+            }
+            for (const file of files) {
+                if (file.visibility === 'private' && (await this.db.isFileReader(file.id, readerAddress))) {
+                    return file;
+                }
+            }
+        }
+
+        const open = files.find((f) => f.visibility !== 'private');
+        if (!open) {
+            throw new FileOperationError('File not found', 404);
+        }
+        return open;
+    }
+
+    async setVisibility(id: string, userAddress: string, visibility: FileVisibility): Promise<UserFile> {
+        const file = await this.get(id, userAddress);
+        if (!(await this.db.setUserFileVisibility(file.id, visibility))) {
+            throw new FileOperationError('File has been deleted', 409);
+        }
+
+        console.log(`File ${file.id} is now ${visibility}`);
+        return { ...file, visibility };
+    }
+
+    async listReaders(id: string, userAddress: string): Promise<FileReader[]> {
+        const file = await this.get(id, userAddress);
+        return this.db.getFileReaders(file.id);
+    }
+
+    /**
+     * Let another address download a file while it is private
+     */
+    async addReader(id: string, userAddress: string, readerAddress: string): Promise<FileReader[]> {
+        const file = await this.get(id, userAddress);
+        if (file.status === 'deleted') {
+            throw new FileOperationError('File has been deleted', 409);
+        }
+        if (!/^0x[0-9a-fA-F]{40}$/.test(readerAddress)) {
+            throw new FileOperationError('Reader must be a wallet address', 400);
+        }
+        const reader = readerAddress.toLowerCase();
+        if (reader === file.user_address) {
+            throw new FileOperationError('The owner can always read their files', 400);
+        }
+
+        if (await this.db.addFileReader(file.id, reader)) {
+            console.log(`Allowed ${reader} to read file ${file.id}`);
+        }
+        return this.db.getFileReaders(file.id);
+    }
+
+    async removeReader(id: string, userAddress: string, readerAddress: string): Promise<FileReader[]> {
+        const file = await this.get(id, userAddress);
+        if (!(await this.db.removeFileReader(file.id, readerAddress.toLowerCase()))) {
+            throw new FileOperationError('Reader not found', 404);
+        }
+
+        console.log(`Removed ${readerAddress.toLowerCase()} from readers of file ${file.id}`);
+        return this.db.getFileReaders(file.id);
+    }
+
+    /**
+     * Pay for additionalDays more storage. An expired file is renewed from now.
+     * The charge and the new expiry are written in one transaction. Organization
+     * files are paid from the organization's pool, within the member's spending limit.
+     */
+    async extendStorage(id: string, userAddress: string, additionalDays: number): Promise<ExtendStorageResult> {
+        const result = await this.db.transaction(async (): Promise<ExtendStorageResult> => {
+            const file = await this.get(id, userAddress);
+            if (file.status === 'deleted') {
+                throw new FileOperationError('File has been deleted', 409);
+            }
+            if (file.expires_at === null) {
+                throw new FileOperationError('File is not stored yet', 409);
+            }
+
+            const payer = await this.organizations.payer(userAddress, file.org_id);
+            const cost = calculateExtensionCost(file.file_size, additionalDays, this.pricing.prices);
+            const currentBalance = await this.creditService.getBalance(payer.account);
+            if (currentBalance < cost) {
+                return { status: 'insufficient_credits', currentBalance, requiredAmount: cost };
+            }
+            const overLimit = await this.creditService.checkSpendingLimit(payer.account, payer.spender, cost);
+            if (overLimit) {
+                return { status: 'spending_limit_exceeded', requiredAmount: cost, ...overLimit };
+            }
+
+            // Expired files gave up their reference to the piece; take it back
+            if (file.status === 'expired' && !(await this.db.retainStoredObject(file.commp!))) {
+                throw new FileOperationError('The stored piece for this file is no longer available', 409);
+            }
+
+            const newBalance = currentBalance - cost;
+            await this.db.updateUserCreditBalance(payer.account, newBalance.toString());
+            await this.db.createCreditTransaction({
+                id: uuidv4(),
+                user_address: payer.account,
+                type: 'deduct',
+                amount: cost.toString(),
+                file_id: file.id,
+                bridge_request_id: null,
+                description: `Storage extension for ${file.file_name} (${additionalDays} days)`,
+                member_address: payer.spender?.memberAddress ?? null,
+            });
+
+            // The expiry scheduler moves it to expiring_soon again if needed
+            await this.db.updateUserFile(file.id, {
+                storage_duration_days: file.storage_duration_days + additionalDays,
+                storage_cost: (BigInt(file.storage_cost) + cost).toString(),
+                expires_at: Math.max(file.expires_at, Date.now()) + additionalDays * DAY_MS,
+                status: 'active',
+            });
+
+            return { status: 'extended', file: (await this.db.getUserFile(file.id))!, cost, newBalance, account: payer.account };
+        });
+
+        if (result.status === 'extended') {
+            console.log(`Extended storage of file ${id} by ${additionalDays} days for ${result.cost} USDFC wei`);
+            await this.creditService.reportBalanceChange(result.account, result.newBalance + result.cost, result.newBalance);
+        }
+
+        return result;
+    }
+
+    /**
+     * Credits returned when a file is deleted now: the share of the rate it paid for
+     * storage epochs that have not elapsed yet, plus the lockup paid with the original
+     * upload. Refunds follow what the file paid, not the current prices.
+     */
+    calculateRefund(file: UserFile, now: number = Date.now()): bigint {
+        const remainingMs = Math.max(0, (file.expires_at ?? now) - now);
+        const remainingEpochs = BigInt(Math.floor(remainingMs / (SYNAPSE_COSTS.EPOCH_DURATION_SECONDS * 1000)));
+        const paidEpochs = BigInt(file.storage_duration_days) * SYNAPSE_COSTS.EPOCHS_PER_DAY;
+
+        const lockup = BigInt(file.lockup_cost);
+        const ratePaid = BigInt(file.storage_cost) - lockup;
+        const unusedRate = paidEpochs > 0n ? (ratePaid * remainingEpochs) / paidEpochs : 0n;
+        return (unusedRate < ratePaid ? unusedRate : ratePaid) + lockup;
+    }
+
+    /**
+     * End a stored file and refund the unused storage and the lockup to credits, or
+     * to the organization's pool for an organization file.
+     * Its piece is removed from the provider unless other files still share it.
+     */
+    async deleteFile(id: string, userAddress: string): Promise<DeleteFileResult> {
+        const file = await this.get(id, userAddress);
+        if (file.status === 'deleted') {
+            throw new FileOperationError('File has already been deleted', 409);
+        }
+        if (!file.commp) {
+            throw new FileOperationError('File is still being uploaded', 409);
+        }
+        const commp = file.commp;
+        const account = file.org_id === null ? userAddress : organizationAccount(file.org_id);
+
+        // Claim the file and drop its reference together with the last-reference check,
+        // so concurrent deletes of files sharing the piece see each other's release and a
+        // deduplicated upload can't retain the piece once it is being deleted
+        const lastReference = await this.db.transaction(async () => {
+            if (!(await this.db.markUserFileDeleted(file.id))) {
+                throw new FileOperationError('File has already been deleted', 409);
+            }
+            // Expired files released their reference when they expired
+            if (file.status !== 'expired') {
+                await this.db.releaseStoredObject(commp);
+            }
+
+            const object = await this.db.getStoredObject(commp);
+            if (!object || object.ref_count > 0) {
+                return false;
+            }
+            // Expired files hold no reference but can still be renewed, so they keep the piece too
+            if ((await this.db.countFilesSharingCommp(commp, file.id)) > 0) {
+                return false;
+            }
+            // Stops new uploads from being deduplicated onto the piece
+            return this.db.transitionStoredObject(commp, 'active', 'deleting');
+        });
+
+        let transactionHash: string | null = null;
+        if (lastReference) {
+            try {
+                transactionHash = await this.synapse.deletePiece(commp);
+            } catch (error) {
+                // Put the file and its reference back so the delete can be retried
+                await this.db.transaction(async () => {
+                    await this.db.transitionStoredObject(commp, 'deleting', 'active');
+                    if (file.status !== 'expired') {
+                        await this.db.retainStoredObject(commp);
+                    }
+                    await this.db.updateUserFile(file.id, { status: file.status });
+                });
+                console.error(`Failed to delete piece ${commp}:`, error);
+                throw new FileOperationError(
+                    `Failed to delete piece from storage provider: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                    502
+                );
+            }
+        }
+
+        const result = await this.db.transaction(async () => {
+            // A fresh upload of the same content re-activates the object while its old piece is deleted
+            const pieceDeleted = lastReference && (await this.db.transitionStoredObject(commp, 'deleting', 'deleted'));
+
+            const refund = this.calculateRefund(file);
+            const existing = await this.db.getUserCredit(account);
+            const newBalance = (existing ? BigInt(existing.balance) : 0n) + refund;
+            if (existing) {
+                await this.db.updateUserCreditBalance(account, newBalance.toString());
+            } else {
+                await this.db.createUserCredit({ user_address: account, balance: newBalance.toString() });
+            }
+
+            await this.db.createCreditTransaction({
+                id: uuidv4(),
+                user_address: account,
+                type: 'refund',
+                amount: refund.toString(),
+                file_id: file.id,
+                bridge_request_id: null,
+                description: `Refund for deleted file ${file.file_name} (unused storage and lockup)`,
+                member_address: file.org_id === null ? null : userAddress,
+            });
+
+            return { refund, newBalance, transactionHash, pieceDeleted };
+        });
+
+        // The cached bytes now belong to the re-uploaded piece if the object came back
+        if (result.pieceDeleted) {
+            await this.retrievalCache.evict(commp);
+        }
+
+        console.log(`Deleted file ${file.id} (${file.file_name}); refunded ${result.refund} USDFC wei`);
+        await this.creditService.reportBalanceChange(account, result.newBalance - result.refund, result.newBalance);
+        return { refund: result.refund, newBalance: result.newBalance, transactionHash: result.transactionHash };
+    }
+}
@@ -0,0 +1,284 @@
+import { randomUUID } from 'crypto';
+import {
+    CreditTransaction,
+    CreditTransactionQuery,
+    Database,
+    Organization,
+    OrganizationMember,
+    OrganizationRole,
+    Page,
+} from '../db/database.js';
+import { CreditService, Spender } from './credits.js';
+
+export const ORGANIZATION_ROLES: readonly OrganizationRole[] = ['owner', 'admin', 'uploader', 'viewer'];
+
+/**
+ * What members may do: see the organization's files, balance and members; add
+ * deposits to the pool; upload and pay from it; manage the organization's files;
+ * and manage members
+ */
+export type OrganizationAction = 'read' | 'fund' | 'spend' | 'manage_files' | 'manage_members';
+
+const ROLE_ACTIONS: Record<OrganizationRole, readonly OrganizationAction[]> = {
+    owner: ['read', 'fund', 'spend', 'manage_files', 'manage_members'],
+    admin: ['read', 'fund', 'spend', 'manage_files', 'manage_members'],
+    uploader: ['read', 'fund', 'spend'],
+    viewer: ['read', 'fund'],
+};
+
+const ACTION_DESCRIPTIONS: Record<OrganizationAction, string> = {
+    read: 'read its files',
+    fund: 'fund its credits',
+    spend: 'spend its credits',
+    manage_files: 'manage its files',
+    manage_members: 'manage its members',
+};
+
+// Admins manage uploaders and viewers; only owners grant or take away these roles
+const OWNER_MANAGED_ROLES: readonly OrganizationRole[] = ['owner', 'admin'];
+
+export function roleAllows(role: OrganizationRole, action: OrganizationAction): boolean {
+    return ROLE_ACTIONS[role].includes(action);
+}
+
+/**
+ * The credit account an organization's pool is kept under in user_credits
+ */
+export function organizationAccount(orgId: string): string {
+    return `org:${orgId}`;
+}
+
+/**
+ * The organization whose pool a credit account is, or null for a user's own account
+ */
+export function accountOrganizationId(account: string): string | null {
+    return account.startsWith('org:') ? account.slice('org:'.length) : null;
+}
+
+/**
+ * The account an upload or charge is paid from, and the member spending from it
+ * when that is an organization's pool
+ */
+export interface Payer {
+    account: string;
+    orgId: string | null;
+    spender?: Spender;
+}
+
+export interface MemberChanges {
+    role?: unknown;
+    // USDFC wei per UTC month as a decimal string; null removes the limit
+    spendingLimit?: unknown;
+}
+
+export interface OrganizationOverview {
+    organization: Organization;
+    member: OrganizationMember;
+    balance: bigint;
+    heldBalance: bigint;
+    // The caller's spending this UTC month
+    spentThisMonth: bigint;
+}
+
+/**
+ * Carries the HTTP status the organization routes should answer with
+ */
+export class OrganizationError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'OrganizationError';
+    }
+}
+
+function parseRole(value: unknown): OrganizationRole {
+    if (typeof value !== 'string' || !ORGANIZATION_ROLES.includes(value as OrganizationRole)) {
+        throw new OrganizationError(`role must be one of: ${ORGANIZATION_ROLES.join(', ')}`, 400);
+    }
+    return value as OrganizationRole;
+}
+
+function parseSpendingLimit(value: unknown): string | null {
+    if (value === null) {
+        return null;
+    }
+    if ((typeof value === 'string' && /^\d+$/.test(value)) || (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0)) {
+        return BigInt(value).toString();
+    }
+    throw new OrganizationError('spendingLimit must be a non-negative amount of USDFC wei, or null for no limit', 400);
+}
+
+/**
+ * Organizations: wallets sharing one credit pool and owning files together.
+ *
+ * The pool is an ordinary credit account named by organizationAccount, so holds,
+ * captures and refunds work as they do for a single wallet; each charge records the
+ * member behind it, which is what spending limits are counted from.
+ */
+export class OrganizationService {
+    constructor(private db: Database, private creditService: CreditService) { }
+
+    async create(creatorAddress: string, name: unknown): Promise<Organization> {
+        const trimmed = typeof name === 'string' ? name.trim() : '';
+        if (!trimmed || trimmed.length > 100) {
+            throw new OrganizationError('name is required and must be at most 100 characters', 400);
+        }
+
+        const id = randomUUID();
+        await this.db.transaction(async () => {
+            await this.db.createOrganization({ id, name: trimmed, created_by: creatorAddress });
+            await this.db.upsertOrganizationMember({ org_id: id, member_address: creatorAddress, role: 'owner', spending_limit: null });
+        });
+
+        console.log(`Created organization ${id} (${trimmed}) owned by ${creatorAddress}`);
+        return (await this.db.getOrganization(id))!;
+    }
+
+    async listForMember(memberAddress: string): Promise<(Organization & Pick<OrganizationMember, 'role' | 'spending_limit'>)[]> {
+        return this.db.getOrganizationsForMember(memberAddress);
+    }
+
+    /**
+     * The caller's membership, or null when they are not a member
+     */
+    async getMembership(orgId: string, memberAddress: string): Promise<OrganizationMember | null> {
+        return this.db.getOrganizationMember(orgId, memberAddress);
+    }
+
+    /**
+     * Check that memberAddress may take action in the organization. Organizations the
+     * caller doesn't belong to are reported as missing.
+     */
+    async authorize(orgId: string, memberAddress: string, action: OrganizationAction): Promise<OrganizationMember> {
+        const member = await this.db.getOrganizationMember(orgId, memberAddress);
+        if (!member) {
+            throw new OrganizationError('Organization not found', 404);
+        }
+        if (!roleAllows(member.role, action)) {
+            throw new OrganizationError(`Your ${member.role} role in this organization can't ${ACTION_DESCRIPTIONS[action]}`, 403);
+        }
+        return member;
+    }
+
+    /**
+     * Who pays for an upload: the organization's pool when orgId is given (the caller
+     * must be allowed to spend it), otherwise the caller's own credits
+     */
+    async payer(memberAddress: string, orgId?: string | null): Promise<Payer> {
+        if (!orgId) {
+            return { account: memberAddress, orgId: null };
+        }
+
+        const member = await this.authorize(orgId, memberAddress, 'spend');
+        return {
+            account: organizationAccount(orgId),
+            orgId,
+            spender: {
+                memberAddress,
+                spendingLimit: member.spending_limit === null ? null : BigInt(member.spending_limit),
+            },
+        };
+    }
+
+    async getOverview(orgId: string, memberAddress: string): Promise<OrganizationOverview> {
+        const member = await this.authorize(orgId, memberAddress, 'read');
+        const account = organizationAccount(orgId);
+        const [organization, balance, heldBalance, spentThisMonth] = await Promise.all([
+            this.db.getOrganization(orgId),
+            this.creditService.getBalance(account),
+            this.creditService.getHeldAmount(account),
+            this.creditService.getMonthlySpend(account, memberAddress),
+        ]);
+        return { organization: organization!, member, balance, heldBalance, spentThisMonth };
+    }
+
+    /**
+     * Members with what each has spent from the pool this UTC month
+     */
+    async listMembers(orgId: string, memberAddress: string): Promise<(OrganizationMember & { spentThisMonth: bigint })[]> {
+        await this.authorize(orgId, memberAddress, 'read');
+        const account = organizationAccount(orgId);
+        const members = await this.db.getOrganizationMembers(orgId);
+        return Promise.all(members.map(async (member) => ({
+            ...member,
+            spentThisMonth: await this.creditService.getMonthlySpend(account, member.member_address),
+        })));
+    }
+
+    /**
+     * Add a member or change their role or spending limit. A new member needs a role;
+     * an omitted field keeps its current value.
+     */
+    async setMember(orgId: string, callerAddress: string, address: string, changes: MemberChanges): Promise<OrganizationMember> {
+        const caller = await this.authorize(orgId, callerAddress, 'manage_members');
+        if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+            throw new OrganizationError('Member must be a wallet address', 400);
+        }
+        const memberAddress = address.toLowerCase();
+
+        await this.db.transaction(async () => {
+            const existing = await this.db.getOrganizationMember(orgId, memberAddress);
+            if (!existing && changes.role === undefined) {
+                throw new OrganizationError('role is required for a new member', 400);
+            }
+            const role = changes.role === undefined ? existing!.role : parseRole(changes.role);
+            const spendingLimit = changes.spendingLimit === undefined
+                ? existing?.spending_limit ?? null
+                : parseSpendingLimit(changes.spendingLimit);
+
+            this.checkCanManage(caller, role, existing);
+            if (existing?.role === 'owner' && role !== 'owner') {
+                await this.checkNotLastOwner(orgId);
+            }
+
+            await this.db.upsertOrganizationMember({ org_id: orgId, member_address: memberAddress, role, spending_limit: spendingLimit });
+        });
+
+        console.log(`Updated member ${memberAddress} of organization ${orgId}`);
+        return (await this.db.getOrganizationMember(orgId, memberAddress))!;
+    }
+
+    /**
+     * Remove a member; anyone may leave on their own, except the last owner
+     */
+    async removeMember(orgId: string, callerAddress: string, address: string): Promise<void> {
+        const memberAddress = address.toLowerCase();
+        const caller = await this.authorize(orgId, callerAddress, memberAddress === callerAddress ? 'read' : 'manage_members');
+
+        await this.db.transaction(async () => {
+            const existing = await this.db.getOrganizationMember(orgId, memberAddress);
+            if (!existing) {
+                throw new OrganizationError('Member not found', 404);
+            }
+            if (memberAddress !== callerAddress) {
+                this.checkCanManage(caller, existing.role, existing);
+            }
+            if (existing.role === 'owner') {
+                await this.checkNotLastOwner(orgId);
+            }
+            await this.db.deleteOrganizationMember(orgId, memberAddress);
+        });
+
+        console.log(`Removed member ${memberAddress} from organization ${orgId}`);
+    }
+
+    async getCreditHistory(orgId: string, memberAddress: string, query: CreditTransactionQuery): Promise<Page<CreditTransaction>> {
+        await this.authorize(orgId, memberAddress, 'read');
+        return this.db.getCreditTransactions(organizationAccount(orgId), query);
+    }
+
+    private checkCanManage(caller: OrganizationMember, role: OrganizationRole, existing: OrganizationMember | null): void {
+        if (caller.role === 'owner') {
+            return;
+        }
+        if (OWNER_MANAGED_ROLES.includes(role) || (existing && OWNER_MANAGED_ROLES.includes(existing.role))) {
+            throw new OrganizationError('Only owners can manage owners and admins', 403);
+        }
+    }
+
+    private async checkNotLastOwner(orgId: string): Promise<void> {
+        const members = await this.db.getOrganizationMembers(orgId);
+        if (members.filter((member) => member.role === 'owner').length <= 1) {
+            throw new OrganizationError('An organization needs at least one owner', 409);
+        }
+    }
+}
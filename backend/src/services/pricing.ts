@@ -0,0 +1,133 @@
+import { SynapseService } from './synapse.js';
+import {
+    PLACEHOLDER_STORAGE_PRICES,
+    StoragePrices,
+    SYNAPSE_COSTS,
+    calculateLockupCost,
+    calculateStorageCost,
+} from '../constants.js';
+
+export interface PricingOptions {
+    // How often prices are read from Synapse
+    refreshIntervalMs: number;
+    // Operator margin on the storage rate, in basis points (100 = 1%)
+    marginBps: number;
+}
+
+export interface PriceTable extends StoragePrices {
+    // Synapse storage rate without CDN, per TiB per epoch
+    synapseRatePerTiBPerEpoch: bigint;
+    // Extra Synapse rate for CDN-enabled storage, which uploads use
+    cdnSurchargePerTiBPerEpoch: bigint;
+    marginBps: number;
+    // 'placeholder' until the first successful read from Synapse
+    source: 'synapse' | 'placeholder';
+    updatedAt: number | null;
+}
+
+export interface StoragePrice {
+    rateCost: bigint;
+    lockupCost: bigint;
+    totalCost: bigint;
+}
+
+/**
+ * Storage prices read from the Synapse warm storage contract on a schedule.
+ * The last prices read stay in effect while Synapse can't be reached.
+ *
+ * Users are charged the CDN rate (uploads are stored with CDN) plus the operator
+ * margin. Lockup is the Synapse rate for LOCKUP_DAYS, without margin, since it is
+ * refunded when a file is deleted.
+ */
+export class PricingService {
+    private table: PriceTable;
+    private timer: NodeJS.Timeout | null = null;
+    private refreshing = false;
+
+    constructor(
+        private synapse: SynapseService,
+        private options: PricingOptions
+    ) {
+        this.table = {
+            ...PLACEHOLDER_STORAGE_PRICES,
+            ratePerTiBPerEpoch: this.withMargin(PLACEHOLDER_STORAGE_PRICES.ratePerTiBPerEpoch),
+            synapseRatePerTiBPerEpoch: PLACEHOLDER_STORAGE_PRICES.ratePerTiBPerEpoch,
+            cdnSurchargePerTiBPerEpoch: 0n,
+            marginBps: options.marginBps,
+            source: 'placeholder',
+            updatedAt: null,
+        };
+    }
+
+    get prices(): PriceTable {
+        return this.table;
+    }
+
+    /**
+     * What storing a file costs at the current prices
+     */
+    price(fileSizeBytes: number, durationDays: number): StoragePrice {
+        const totalCost = calculateStorageCost(fileSizeBytes, durationDays, this.table);
+        const lockupCost = calculateLockupCost(fileSizeBytes, this.table);
+        return { rateCost: totalCost - lockupCost, lockupCost, totalCost };
+    }
+
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+        this.timer = setInterval(() => this.tick(), this.options.refreshIntervalMs);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    async refresh(): Promise<PriceTable> {
+        const info = await this.synapse.getStorageInfo();
+        const synapseRate = info.pricing.noCDN.perTiBPerEpoch;
+        const cdnRate = info.pricing.withCDN.perTiBPerEpoch;
+        const lockupEpochs = SYNAPSE_COSTS.LOCKUP_DAYS * SYNAPSE_COSTS.EPOCHS_PER_DAY;
+
+        const previous = this.table;
+        this.table = {
+            ratePerTiBPerEpoch: this.withMargin(cdnRate),
+            lockupPerTiB: cdnRate * lockupEpochs,
+            synapseRatePerTiBPerEpoch: synapseRate,
+            cdnSurchargePerTiBPerEpoch: cdnRate > synapseRate ? cdnRate - synapseRate : 0n,
+            marginBps: this.options.marginBps,
+            source: 'synapse',
+            updatedAt: Date.now(),
+        };
+
+        if (previous.ratePerTiBPerEpoch !== this.table.ratePerTiBPerEpoch || previous.lockupPerTiB !== this.table.lockupPerTiB) {
+            console.log(
+                `Storage prices updated: ${this.table.ratePerTiBPerEpoch} USDFC wei/TiB/epoch, ` +
+                `${this.table.lockupPerTiB} USDFC wei/TiB lockup`
+            );
+        }
+        return this.table;
+    }
+
+    private withMargin(rate: bigint): bigint {
+        return (rate * BigInt(10000 + this.options.marginBps) + 9999n) / 10000n;
+    }
+
+    private tick(): void {
+        if (this.refreshing) {
+            return;
+        }
+        this.refreshing = true;
+
+        this.refresh()
+            .catch((error) => {
+                console.error(`[${new Date().toISOString()}] Failed to refresh storage prices, keeping the last ones:`, error);
+            })
+            .finally(() => {
+                this.refreshing = false;
+            });
+    }
+}
@@ -0,0 +1,250 @@
+import { Database } from '../db/database.js';
+
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+// Expired windows are swept once this many callers are tracked
+const MAX_TRACKED_WINDOWS = 10_000;
+
+// How long a client turned away for too many parallel uploads should wait
+const UPLOAD_SLOT_RETRY_SECONDS = 5;
+
+export interface QuotaOptions {
+    // API requests per caller per minute; 0 disables the limit
+    requestsPerMinute: number;
+    // Uploads one user may be sending at once; 0 disables the limit
+    maxConcurrentUploads: number;
+    // Bytes one user may queue for storage per UTC day; 0 disables the quota
+    dailyUploadBytes: number;
+    // Bytes one user may have stored at once; 0 disables the quota
+    maxStoredBytes: number;
+}
+
+/**
+ * Carries the HTTP status the routes should answer with, and when to try again
+ * if waiting helps
+ */
+export class QuotaExceededError extends Error {
+    constructor(message: string, public readonly status: number, public readonly retryAfterSeconds?: number) {
+        super(message);
+        this.name = 'QuotaExceededError';
+    }
+}
+
+export interface RateLimitState {
+    limit: number;
+    remaining: number;
+    // When the current window ends (ms)
+    resetAt: number;
+}
+
+/**
+ * Bytes set aside for an upload between the quota check and the queue
+ */
+export interface UploadReservation {
+    userAddress: string;
+    bytes: number;
+}
+
+export interface UsageReport {
+    // A null limit means unlimited
+    requests: { limit: number | null; remaining: number | null; resetAt: number | null };
+    concurrentUploads: { limit: number | null; active: number };
+    dailyUploadBytes: { limit: number | null; used: number; resetAt: number };
+    storedBytes: { limit: number | null; used: number };
+}
+
+function utcDay(time: number): string {
+    return new Date(time).toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(time: number): number {
+    const date = new Date(time);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+/**
+ * Per-user limits that keep one caller from saturating the shared storage provider
+ * connection: a fixed-window request rate, parallel uploads, bytes queued per UTC
+ * day and total bytes stored.
+ *
+ * Request windows and upload slots live in memory and start over on restart; daily
+ * usage is recorded in upload_usage once an upload is queued, and stored bytes are
+ * read from user_files.
+ */
+export class QuotaService {
+    private windows = new Map<string, { count: number; resetAt: number }>();
+    private activeUploads = new Map<string, number>();
+    // Bytes checked against the quotas but not queued yet, so parallel uploads can't both fit
+    private reservedBytes = new Map<string, number>();
+
+    constructor(private db: Database, private options: QuotaOptions) { }
+
+    /**
+     * Count a request against the caller's window; throws once the window is used up.
+     * Keys are `address:<session address>`, `apikey:<key id>` or `ip:<client ip>`.
+     */
+    consumeRequest(key: string, now = Date.now()): RateLimitState {
+        const limit = this.options.requestsPerMinute;
+        let window = this.windows.get(key);
+        if (!window || window.resetAt <= now) {
+            if (this.windows.size >= MAX_TRACKED_WINDOWS) {
+                this.sweepWindows(now);
+            }
+            window = { count: 0, resetAt: now + RATE_LIMIT_WINDOW_MS };
+            this.windows.set(key, window);
+        }
+
+        if (window.count >= limit) {
+            throw new QuotaExceededError(
+                `Rate limit of ${limit} requests per minute exceeded`,
+                429,
+                Math.ceil((window.resetAt - now) / 1000)
+            );
+        }
+        window.count++;
+        return { limit, remaining: limit - window.count, resetAt: window.resetAt };
+    }
+
+    get rateLimitEnabled(): boolean {
+        return this.options.requestsPerMinute > 0;
+    }
+
+    /**
+     * Take one of the user's parallel upload slots and return the function that frees it
+     */
+    acquireUploadSlot(userAddress: string): () => void {
+        const limit = this.options.maxConcurrentUploads;
+        const active = this.activeUploads.get(userAddress) ?? 0;
+        if (limit > 0 && active >= limit) {
+            throw new QuotaExceededError(`At most ${limit} uploads can be in progress at once`, 429, UPLOAD_SLOT_RETRY_SECONDS);
+        }
+        this.activeUploads.set(userAddress, active + 1);
+
+        let released = false;
+        return () => {
+            if (released) {
+                return;
+            }
+            released = true;
+            const remaining = (this.activeUploads.get(userAddress) ?? 1) - 1;
+            if (remaining > 0) {
+                this.activeUploads.set(userAddress, remaining);
+            } else {
+                this.activeUploads.delete(userAddress);
+            }
+        };
+    }
+
+    /**
+     * Throw if queueing `bytes` more, on top of what is already reserved, would
+     * exceed the user's daily or stored quota
+     */
+    async check(userAddress: string, bytes: number): Promise<void> {
+        const now = Date.now();
+        const [usedToday, stored] = await Promise.all([
+            this.options.dailyUploadBytes > 0 ? this.db.getUploadUsage(userAddress, utcDay(now)) : 0,
+            this.options.maxStoredBytes > 0 ? this.db.getStoredBytes(userAddress) : 0,
+        ]);
+        const reserved = this.reservedBytes.get(userAddress) ?? 0;
+
+        const daily = this.options.dailyUploadBytes;
+        if (daily > 0 && usedToday + reserved + bytes > daily) {
+            throw new QuotaExceededError(
+                `Upload exceeds your daily upload quota of ${daily} bytes (${usedToday} used today)`,
+                429,
+                Math.ceil((nextUtcMidnight(now) - now) / 1000)
+            );
+        }
+
+        const maxStored = this.options.maxStoredBytes;
+        if (maxStored > 0 && stored + reserved + bytes > maxStored) {
+            throw new QuotaExceededError(
+                `Upload exceeds your storage quota of ${maxStored} bytes (${stored} stored); delete files to free space`,
+                403
+            );
+        }
+    }
+
+    /**
+     * Check an upload against the quotas and set its bytes aside until it is
+     * committed or released
+     */
+    async reserve(userAddress: string, bytes: number): Promise<UploadReservation> {
+        // Set aside before the check reads usage, so uploads reserving in parallel see each other
+        const reservation = { userAddress, bytes };
+        this.reservedBytes.set(userAddress, (this.reservedBytes.get(userAddress) ?? 0) + bytes);
+        try {
+            await this.check(userAddress, 0);
+        } catch (error) {
+            this.release(reservation);
+            throw error;
+        }
+        return reservation;
+    }
+
+    /**
+     * Record queued bytes against today's quota. Call release afterwards either way.
+     */
+    async commit(reservation: UploadReservation, bytes = reservation.bytes): Promise<void> {
+        if (bytes > 0) {
+            await this.db.addUploadUsage(reservation.userAddress, utcDay(Date.now()), bytes);
+        }
+    }
+
+    release(reservation: UploadReservation): void {
+        const remaining = (this.reservedBytes.get(reservation.userAddress) ?? 0) - reservation.bytes;
+        if (remaining > 0) {
+            this.reservedBytes.set(reservation.userAddress, remaining);
+        } else {
+            this.reservedBytes.delete(reservation.userAddress);
+        }
+        // A second call frees nothing
+        reservation.bytes = 0;
+    }
+
+    async getUsage(userAddress: string, rateLimitKey = `address:${userAddress}`): Promise<UsageReport> {
+        const now = Date.now();
+        const [usedToday, stored] = await Promise.all([
+            this.db.getUploadUsage(userAddress, utcDay(now)),
+            this.db.getStoredBytes(userAddress),
+        ]);
+
+        const limit = this.options.requestsPerMinute;
+        const window = this.windows.get(rateLimitKey);
+        const current = window && window.resetAt > now ? window : null;
+
+        return {
+            requests: limit > 0
+                ? { limit, remaining: limit - (current?.count ?? 0), resetAt: current?.resetAt ?? null }
+                : { limit: null, remaining: null, resetAt: null },
+            concurrentUploads: {
+                limit: this.options.maxConcurrentUploads || null,
+                active: this.activeUploads.get(userAddress) ?? 0,
+            },
+            dailyUploadBytes: {
+                limit: this.options.dailyUploadBytes || null,
+                used: usedToday,
+                resetAt: nextUtcMidnight(now),
+            },
+            storedBytes: {
+                limit: this.options.maxStoredBytes || null,
+                used: stored,
+            },
+        };
+    }
+
+    /**
+     * Drop daily usage from before yesterday
+     */
+    async pruneUsage(): Promise<number> {
+        return this.db.deleteUploadUsageBefore(utcDay(Date.now() - 24 * 60 * 60 * 1000));
+    }
+
+    private sweepWindows(now: number): void {
+        for (const [key, window] of this.windows) {
+            if (window.resetAt <= now) {
+                this.windows.delete(key);
+            }
+        }
+    }
+}
@@ -0,0 +1,130 @@
+import { randomUUID } from 'crypto';
+import { Wallet, verifyMessage } from 'ethers';
+import { Database, StorageQuote } from '../db/database.js';
+import { PricingService } from './pricing.js';
+import { calculatePieceSize } from '../constants.js';
+
+export interface QuoteServiceOptions {
+    // How long a quote can be redeemed for
+    ttlMs: number;
+}
+
+export interface QuoteTerms {
+    fileSize: number;
+    storageDurationDays: number;
+}
+
+/**
+ * Carries the HTTP status the upload routes should answer with
+ */
+export class QuoteError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'QuoteError';
+    }
+}
+
+/**
+ * The text the backend wallet signs for a quote (EIP-191 personal_sign), so a quote
+ * shown to a user can be checked against the backend address
+ */
+export function formatQuoteMessage(quote: Omit<StorageQuote, 'signature' | 'file_id' | 'created_at'>): string {
+    return [
+        'FilBridge storage quote',
+        `ID: ${quote.id}`,
+        `Address: ${quote.user_address}`,
+        `File size: ${quote.file_size} bytes`,
+        `Piece size: ${quote.piece_size} bytes`,
+        `Storage duration: ${quote.storage_duration_days} days`,
+        `Rate cost: ${quote.rate_cost} USDFC wei`,
+        `Lockup cost: ${quote.lockup_cost} USDFC wei`,
+        `Total cost: ${quote.total_cost} USDFC wei`,
+        `Expires at: ${new Date(quote.expires_at).toISOString()}`,
+    ].join('\n');
+}
+
+/**
+ * Time-limited storage prices signed by the backend wallet. An upload that redeems
+ * a quote is charged the quoted total, whatever the prices are when it arrives.
+ */
+export class QuoteService {
+    private readonly wallet: Wallet;
+
+    constructor(
+        private db: Database,
+        private pricing: PricingService,
+        privateKey: string,
+        private options: QuoteServiceOptions
+    ) {
+        this.wallet = new Wallet(privateKey);
+    }
+
+    get signerAddress(): string {
+        return this.wallet.address;
+    }
+
+    async createQuote(userAddress: string, terms: QuoteTerms): Promise<StorageQuote> {
+        const { fileSize, storageDurationDays } = terms;
+        const { rateCost, lockupCost, totalCost } = this.pricing.price(fileSize, storageDurationDays);
+
+        const unsigned = {
+            id: randomUUID(),
+            user_address: userAddress,
+            file_size: fileSize,
+            storage_duration_days: storageDurationDays,
+            piece_size: calculatePieceSize(fileSize),
+            rate_cost: rateCost.toString(),
+            lockup_cost: lockupCost.toString(),
+            total_cost: totalCost.toString(),
+            expires_at: Date.now() + this.options.ttlMs,
+        };
+        const signature = await this.wallet.signMessage(formatQuoteMessage(unsigned));
+
+        await this.db.createStorageQuote({ ...unsigned, signature });
+        return (await this.db.getStorageQuote(unsigned.id))!;
+    }
+
+    /**
+     * Check a quote against the upload it is presented with and reserve it for fileId.
+     * Omitted terms are taken from the quote.
+     */
+    async redeem(quoteId: string, userAddress: string, fileId: string, terms: Partial<QuoteTerms>): Promise<StorageQuote> {
+        const quote = await this.db.getStorageQuote(quoteId);
+        // Don't reveal other users' quotes
+        if (!quote || quote.user_address !== userAddress) {
+            throw new QuoteError('Quote not found', 404);
+        }
+        if (terms.fileSize !== undefined && terms.fileSize !== quote.file_size) {
+            throw new QuoteError(`Quote is for ${quote.file_size} bytes, but the file is ${terms.fileSize} bytes`, 400);
+        }
+        if (terms.storageDurationDays !== undefined && terms.storageDurationDays !== quote.storage_duration_days) {
+            throw new QuoteError(`Quote is for ${quote.storage_duration_days} days of storage`, 400);
+        }
+        if (verifyMessage(formatQuoteMessage(quote), quote.signature) !== this.wallet.address) {
+            throw new QuoteError('Quote signature is invalid', 400);
+        }
+        if (quote.file_id !== null) {
+            throw new QuoteError('Quote has already been used', 409);
+        }
+        if (quote.expires_at <= Date.now()) {
+            throw new QuoteError('Quote has expired', 410);
+        }
+        if (!(await this.db.redeemStorageQuote(quote.id, fileId))) {
+            // Lost a race with another upload
+            throw new QuoteError('Quote has already been used', 409);
+        }
+
+        return { ...quote, file_id: fileId };
+    }
+
+    /**
+     * Undo redeem() for an upload that was not accepted
+     */
+    async release(quote: StorageQuote): Promise<void> {
+        await this.db.releaseStorageQuote(quote.id, quote.file_id!);
+    }
+
+    async pruneExpired(): Promise<number> {
+        return this.db.deleteExpiredStorageQuotes();
+    }
+}
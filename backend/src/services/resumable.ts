@@ -0,0 +1,365 @@
+import { randomUUID } from 'crypto';
+import { existsSync } from 'fs';
+import { open, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { Database, ResumableUpload } from '../db/database.js';
+import { CreditService } from './credits.js';
+import { UploadService } from './upload.js';
+import { UploadQueue } from './upload-queue.js';
+import { QuoteError, QuoteService } from './quotes.js';
+import { PricingService } from './pricing.js';
+import { QuotaService, UploadReservation } from './quotas.js';
+import { Payer } from './organizations.js';
+
+export interface ResumableUploadOptions {
+    dir: string;
+    maxFileBytes: number;
+    maxUserPendingBytes: number;
+    expiryMs?: number;
+    pruneIntervalMs?: number;
+}
+
+export interface CreateResumableUploadParams {
+    fileName: string;
+    uploadLength: number;
+    // Taken from the quote when one is given
+    storageDurationDays?: number;
+    quoteId?: string;
+    // Organization paying for the upload; checked again when it is finalized
+    orgId?: string;
+}
+
+export type FinalizeResumableResult =
+    | { status: 'queued'; storageCost: string }
+    | { status: 'insufficient_credits'; currentBalance: bigint; requiredAmount: bigint }
+    | { status: 'spending_limit_exceeded'; spendingLimit: bigint; spent: bigint; requiredAmount: bigint };
+
+/**
+ * Carries the HTTP status the tus routes should answer with
+ */
+export class ResumableUploadError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'ResumableUploadError';
+    }
+}
+
+/**
+ * Chunked uploads that survive dropped connections and restarts.
+ *
+ * Bytes are written straight into a file under `dir` at the offset the client sends,
+ * and the offset is persisted after every chunk. Once the last byte arrives the file
+ * is priced, a credit hold is placed and it is handed to the upload queue under the
+ * same id, so GET /api/uploads/:id works for it like any other upload.
+ */
+export class ResumableUploadService {
+    // Uploads currently receiving a chunk; tus allows one writer per upload
+    private locked = new Set<string>();
+    private timer: NodeJS.Timeout | null = null;
+
+    private readonly expiryMs: number;
+    private readonly pruneIntervalMs: number;
+
+    constructor(
+        private db: Database,
+        private uploadService: UploadService,
+        private creditService: CreditService,
+        private uploadQueue: UploadQueue,
+        private quoteService: QuoteService,
+        private pricing: PricingService,
+        private options: ResumableUploadOptions,
+        private quotaService?: QuotaService
+    ) {
+        this.expiryMs = options.expiryMs ?? 24 * 60 * 60 * 1000;
+        this.pruneIntervalMs = options.pruneIntervalMs ?? 60 * 60 * 1000;
+    }
+
+    get maxFileBytes(): number {
+        return this.options.maxFileBytes;
+    }
+
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+        this.timer = setInterval(() => {
+            this.pruneExpired().catch((error) => {
+                console.error(`[${new Date().toISOString()}] Failed to prune resumable uploads:`, error);
+            });
+        }, this.pruneIntervalMs);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    async create(userAddress: string, params: CreateResumableUploadParams): Promise<ResumableUpload> {
+        const { fileName, uploadLength, quoteId } = params;
+
+        if (uploadLength > this.options.maxFileBytes) {
+            throw new ResumableUploadError(`Uploads are limited to ${this.options.maxFileBytes} bytes`, 413);
+        }
+
+        const pendingBytes = await this.db.getPendingUploadBytes(userAddress);
+        if (pendingBytes + uploadLength > this.options.maxUserPendingBytes) {
+            throw new ResumableUploadError(
+                `Upload exceeds your pending upload allowance of ${this.options.maxUserPendingBytes} bytes`,
+                413
+            );
+        }
+
+        // Checked again when the upload is finalized
+        await this.quotaService?.check(userAddress, uploadLength);
+
+        const id = randomUUID();
+
+        // The quote is redeemed now, so it still holds if it expires mid-upload
+        let storageDurationDays = params.storageDurationDays;
+        if (quoteId) {
+            try {
+                const quote = await this.quoteService.redeem(quoteId, userAddress, id, { fileSize: uploadLength, storageDurationDays });
+                storageDurationDays = quote.storage_duration_days;
+            } catch (error) {
+                if (error instanceof QuoteError) {
+                    throw new ResumableUploadError(error.message, error.status);
+                }
+                throw error;
+            }
+        }
+        if (!storageDurationDays) {
+            throw new ResumableUploadError('storageDurationDays is required', 400);
+        }
+
+        const tempPath = join(this.options.dir, id);
+        try {
+            await writeFile(tempPath, '');
+
+            await this.db.createResumableUpload({
+                id,
+                user_address: userAddress,
+                file_name: fileName,
+                upload_length: uploadLength,
+                storage_duration_days: storageDurationDays,
+                quote_id: quoteId ?? null,
+                org_id: params.orgId ?? null,
+                temp_path: tempPath,
+                expires_at: Date.now() + this.expiryMs,
+            });
+        } catch (error) {
+            // Nothing refers to the quote yet; free it for another attempt
+            if (quoteId) {
+                await this.db.releaseStorageQuote(quoteId, id).catch(() => undefined);
+            }
+            throw error;
+        }
+
+        console.log(`Created resumable upload ${id} (${fileName}, ${uploadLength} bytes) for ${userAddress}`);
+
+        const upload = await this.db.getResumableUpload(id);
+        return upload!;
+    }
+
+    /**
+     * Look up an upload owned by userAddress; other users' uploads are reported as missing
+     */
+    async get(id: string, userAddress: string): Promise<ResumableUpload> {
+        const upload = await this.db.getResumableUpload(id);
+        if (!upload || upload.user_address !== userAddress) {
+            throw new ResumableUploadError('Upload not found', 404);
+        }
+        return upload;
+    }
+
+    /**
+     * Write a chunk at `offset` and return the new offset.
+     * Whatever arrived before a dropped connection is kept.
+     */
+    async appendChunk(upload: ResumableUpload, offset: number, body: AsyncIterable<Buffer>): Promise<number> {
+        if (upload.status !== 'receiving') {
+            throw new ResumableUploadError('Upload is already complete', 409);
+        }
+        if (offset !== upload.upload_offset) {
+            throw new ResumableUploadError(`Upload-Offset ${offset} does not match current offset ${upload.upload_offset}`, 409);
+        }
+        if (this.locked.has(upload.id)) {
+            throw new ResumableUploadError('Upload is already receiving data', 423);
+        }
+
+        this.locked.add(upload.id);
+        const handle = await open(upload.temp_path, 'r+');
+        let position = offset;
+
+        try {
+            for await (const chunk of body) {
+                if (position + chunk.length > upload.upload_length) {
+                    throw new ResumableUploadError('Chunk exceeds the declared Upload-Length', 413);
+                }
+                await handle.write(chunk, 0, chunk.length, position);
+                position += chunk.length;
+            }
+        } finally {
+            await handle.close();
+            await this.db.updateResumableUpload(upload.id, {
+                upload_offset: position,
+                expires_at: Date.now() + this.expiryMs,
+            });
+            this.locked.delete(upload.id);
+        }
+
+        return position;
+    }
+
+    /**
+     * Price the completed file (at the quoted price, if any), reserve credits from payer and queue it for Filecoin.
+     * On insufficient credits the upload stays complete and can be finalized again later.
+     */
+    async finalize(upload: ResumableUpload, payer: Payer): Promise<FinalizeResumableResult> {
+        if (upload.status === 'queued') {
+            return { status: 'queued', storageCost: upload.storage_cost! };
+        }
+
+        if (!(await this.db.transitionResumableUpload(upload.id, 'receiving', 'finalizing'))) {
+            throw new ResumableUploadError('Upload is already being finalized', 409);
+        }
+
+        let fileHash: string;
+        let cost: bigint;
+        let lockupCost: bigint;
+        let hold: Awaited<ReturnType<CreditService['placeHold']>>;
+        let reservation: UploadReservation | null = null;
+        try {
+            const quote = upload.quote_id ? await this.db.getStorageQuote(upload.quote_id) : null;
+            const price = quote
+                ? { totalCost: BigInt(quote.total_cost), lockupCost: BigInt(quote.lockup_cost) }
+                : this.pricing.price(upload.upload_length, upload.storage_duration_days);
+            cost = price.totalCost;
+            lockupCost = price.lockupCost;
+            fileHash = await this.uploadService.calculateFileHash(upload.temp_path);
+            reservation = (await this.quotaService?.reserve(upload.user_address, upload.upload_length)) ?? null;
+            hold = await this.creditService.placeHold(
+                payer.account,
+                cost,
+                upload.id,
+                `Storage cost for ${upload.file_name} (${upload.storage_duration_days} days)`,
+                payer.spender
+            );
+        } catch (error) {
+            this.releaseQuota(reservation);
+            await this.db.transitionResumableUpload(upload.id, 'finalizing', 'receiving');
+            throw error;
+        }
+
+        if (!hold.success) {
+            this.releaseQuota(reservation);
+            await this.db.transitionResumableUpload(upload.id, 'finalizing', 'receiving');
+            if (hold.spendingLimit !== undefined) {
+                return {
+                    status: 'spending_limit_exceeded',
+                    spendingLimit: hold.spendingLimit,
+                    spent: hold.spent!,
+                    requiredAmount: hold.requiredAmount!,
+                };
+            }
+            return {
+                status: 'insufficient_credits',
+                currentBalance: hold.currentBalance!,
+                requiredAmount: hold.requiredAmount!,
+            };
+        }
+
+        try {
+            await this.uploadQueue.enqueue({
+                tempPath: upload.temp_path,
+                fileSize: upload.upload_length,
+                fileHash,
+                fileName: upload.file_name,
+                userAddress: upload.user_address,
+                fileId: upload.id,
+                storageDurationDays: upload.storage_duration_days,
+                storageCost: cost.toString(),
+                lockupCost: lockupCost.toString(),
+                holdId: hold.holdId!,
+                orgId: payer.orgId,
+            });
+        } catch (error) {
+            this.releaseQuota(reservation);
+            // The assembled file may already be gone; the client has to start over
+            await this.remove(upload);
+            throw error;
+        }
+
+        try {
+            if (reservation) {
+                await this.quotaService!.commit(reservation);
+            }
+        } finally {
+            this.releaseQuota(reservation);
+        }
+
+        await this.db.updateResumableUpload(upload.id, { storage_cost: cost.toString() });
+        await this.db.transitionResumableUpload(upload.id, 'finalizing', 'queued');
+
+        console.log(`Resumable upload ${upload.id} complete and queued`);
+        return { status: 'queued', storageCost: cost.toString() };
+    }
+
+    private releaseQuota(reservation: UploadReservation | null): void {
+        if (reservation) {
+            this.quotaService!.release(reservation);
+        }
+    }
+
+    /**
+     * Abandon an upload that has not been queued yet
+     */
+    async terminate(upload: ResumableUpload): Promise<void> {
+        if (upload.status !== 'receiving' || this.locked.has(upload.id)) {
+            throw new ResumableUploadError('Upload can no longer be terminated', 409);
+        }
+        await this.remove(upload);
+        console.log(`Terminated resumable upload ${upload.id}`);
+    }
+
+    /**
+     * Return uploads interrupted mid-finalize to receiving so the client can finalize again.
+     * Their credit holds are released by UploadService.recoverInterruptedUploads.
+     */
+    async recoverInterrupted(): Promise<number> {
+        const interrupted = await this.db.getResumableUploadsByStatus('finalizing');
+        for (const upload of interrupted) {
+            if (existsSync(upload.temp_path)) {
+                await this.db.transitionResumableUpload(upload.id, 'finalizing', 'receiving');
+            } else {
+                await this.db.deleteResumableUpload(upload.id);
+            }
+        }
+        return interrupted.length;
+    }
+
+    /**
+     * Remove uploads nobody has touched within the expiry window
+     */
+    async pruneExpired(): Promise<number> {
+        const expired = await this.db.getExpiredResumableUploads(Date.now());
+        for (const upload of expired) {
+            if (!this.locked.has(upload.id)) {
+                await this.remove(upload);
+            }
+        }
+        return expired.length;
+    }
+
+    private async remove(upload: ResumableUpload): Promise<void> {
+        await this.db.deleteResumableUpload(upload.id);
+        // Queued uploads have already moved their bytes into the upload spool
+        if (upload.status !== 'queued') {
+            await rm(upload.temp_path, { force: true });
+            if (upload.quote_id) {
+                await this.db.releaseStorageQuote(upload.quote_id, upload.id);
+            }
+        }
+    }
+}
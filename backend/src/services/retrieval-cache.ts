@@ -0,0 +1,252 @@
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream, createWriteStream, existsSync } from 'fs';
+import { copyFile, mkdir, rename, rm, stat } from 'fs/promises';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { finished } from 'stream/promises';
+import { Database } from '../db/database.js';
+import { ByteRange } from './synapse.js';
+
+export interface RetrievalCacheOptions {
+    dir: string;
+    // Total bytes kept on disk; 0 disables the cache
+    maxBytes: number;
+}
+
+export interface RetrievalCacheStats {
+    enabled: boolean;
+    hits: number;
+    misses: number;
+    entries: number;
+    bytes: number;
+    capacityBytes: number;
+}
+
+/**
+ * Size-bounded on-disk copies of stored pieces, keyed by CommP, so repeat downloads
+ * don't go back to the storage provider. Entries are filled when an upload is stored
+ * and on the first retrieval of a piece, and only ever committed after their bytes
+ * hash to the file_hash recorded at upload. Least recently accessed entries are
+ * evicted once the cache is over capacity.
+ */
+export class RetrievalCache {
+    private hits = 0;
+    private misses = 0;
+    // CommPs currently being fetched into the cache
+    private pendingFills = new Set<string>();
+
+    private readonly tmpDir: string;
+
+    constructor(
+        private db: Database,
+        private options: RetrievalCacheOptions
+    ) {
+        this.tmpDir = join(options.dir, 'tmp');
+    }
+
+    get enabled(): boolean {
+        return this.options.maxBytes > 0;
+    }
+
+    /**
+     * Prepare the cache directory and forget entries whose files are gone
+     */
+    async initialize(): Promise<void> {
+        await mkdir(this.options.dir, { recursive: true });
+        await rm(this.tmpDir, { recursive: true, force: true });
+        await mkdir(this.tmpDir, { recursive: true });
+
+        for (const entry of await this.db.getRetrievalCacheEntries()) {
+            if (!existsSync(this.pathFor(entry.commp))) {
+                await this.db.deleteRetrievalCacheEntry(entry.commp);
+            }
+        }
+        await this.enforceCapacity();
+    }
+
+    /**
+     * Open a cached piece, or return null on a miss.
+     * Entries recorded against a different hash are dropped.
+     */
+    async open(commp: string, fileHash: string, range?: ByteRange): Promise<Readable | null> {
+        if (!this.enabled) {
+            return null;
+        }
+
+        const entry = await this.db.getRetrievalCacheEntry(commp);
+        if (!entry || entry.file_hash !== fileHash || !existsSync(this.pathFor(commp))) {
+            if (entry) {
+                await this.evict(commp);
+            }
+            this.misses++;
+            return null;
+        }
+
+        this.hits++;
+        await this.db.touchRetrievalCacheEntry(commp);
+        return createReadStream(this.pathFor(commp), range ? { start: range.start, end: range.end } : undefined);
+    }
+
+    /**
+     * Pass a full download through while copying it into the cache.
+     * The copy is committed only if the bytes hash to fileHash.
+     */
+    writeThrough(commp: string, fileHash: string) {
+        return async function* (this: RetrievalCache, source: AsyncIterable<Buffer>): AsyncGenerator<Buffer> {
+            if (!this.enabled || this.pendingFills.has(commp)) {
+                yield* source;
+                return;
+            }
+
+            this.pendingFills.add(commp);
+            const tmpPath = join(this.tmpDir, randomUUID());
+            const out = createWriteStream(tmpPath);
+            const hash = createHash('sha256');
+            let size = 0;
+            let complete = false;
+            let writeFailed = false;
+            out.on('error', (error) => {
+                // Keep serving the download; it just won't be cached
+                writeFailed = true;
+                console.error(`Failed to write retrieval cache entry for ${commp}:`, error);
+            });
+
+            try {
+                for await (const chunk of source) {
+                    hash.update(chunk);
+                    size += chunk.length;
+                    if (!writeFailed && !out.write(chunk)) {
+                        await new Promise<void>((resolve) => {
+                            out.once('drain', () => resolve());
+                            out.once('error', () => resolve());
+                        });
+                    }
+                    yield chunk;
+                }
+                complete = true;
+            } finally {
+                out.end();
+                await finished(out).catch(() => undefined);
+                this.pendingFills.delete(commp);
+
+                if (complete && !writeFailed && hash.digest('hex') === fileHash) {
+                    await this.commit(commp, fileHash, tmpPath, size).catch((error) => {
+                        console.error(`Failed to cache piece ${commp}:`, error);
+                    });
+                } else {
+                    await rm(tmpPath, { force: true });
+                }
+            }
+        }.bind(this);
+    }
+
+    /**
+     * Fetch a whole piece into the cache in the background, e.g. after serving a range
+     * of it. Does nothing if the piece is already cached or being fetched.
+     */
+    fillInBackground(commp: string, fileHash: string, openSource: () => Promise<Readable>): void {
+        if (!this.enabled || this.pendingFills.has(commp)) {
+            return;
+        }
+
+        (async () => {
+            const entry = await this.db.getRetrievalCacheEntry(commp);
+            if (entry?.file_hash === fileHash) {
+                return;
+            }
+            const source = await openSource();
+            for await (const _ of this.writeThrough(commp, fileHash)(source)) {
+                // Drain the source; writeThrough keeps the copy
+            }
+        })().catch((error) => {
+            console.error(`Failed to fill retrieval cache for ${commp}:`, error);
+        });
+    }
+
+    /**
+     * Take over a local copy of a piece, e.g. the spooled file of a finished upload.
+     * The file is moved into the cache, so callers must not use filePath afterwards.
+     */
+    async adopt(commp: string, filePath: string, fileHash: string): Promise<void> {
+        if (!this.enabled) {
+            await rm(filePath, { force: true });
+            return;
+        }
+
+        const { size } = await stat(filePath);
+        const tmpPath = join(this.tmpDir, randomUUID());
+        try {
+            await rename(filePath, tmpPath);
+        } catch (error) {
+            // Spool and cache may live on different filesystems
+            if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+                throw error;
+            }
+            await copyFile(filePath, tmpPath);
+            await rm(filePath, { force: true });
+        }
+
+        await this.commit(commp, fileHash, tmpPath, size);
+    }
+
+    async evict(commp: string): Promise<void> {
+        await this.db.deleteRetrievalCacheEntry(commp);
+        await rm(this.pathFor(commp), { force: true });
+    }
+
+    /**
+     * Remove every entry and return how many there were
+     */
+    async purge(): Promise<number> {
+        const entries = await this.db.getRetrievalCacheEntries();
+        for (const entry of entries) {
+            await this.evict(entry.commp);
+        }
+        console.log(`Purged ${entries.length} retrieval cache entries`);
+        return entries.length;
+    }
+
+    async getStats(): Promise<RetrievalCacheStats> {
+        const usage = await this.db.getRetrievalCacheUsage();
+        return {
+            enabled: this.enabled,
+            hits: this.hits,
+            misses: this.misses,
+            entries: usage.entries,
+            bytes: usage.bytes,
+            capacityBytes: this.options.maxBytes,
+        };
+    }
+
+    private async commit(commp: string, fileHash: string, tmpPath: string, size: number): Promise<void> {
+        // A piece that can never fit would only flush everything else
+        if (size > this.options.maxBytes) {
+            await rm(tmpPath, { force: true });
+            return;
+        }
+
+        await rename(tmpPath, this.pathFor(commp));
+        await this.db.upsertRetrievalCacheEntry({ commp, file_hash: fileHash, size });
+        await this.enforceCapacity();
+    }
+
+    private async enforceCapacity(): Promise<void> {
+        let { bytes } = await this.db.getRetrievalCacheUsage();
+        if (bytes <= this.options.maxBytes) {
+            return;
+        }
+
+        for (const entry of await this.db.getRetrievalCacheEntries()) {
+            if (bytes <= this.options.maxBytes) {
+                break;
+            }
+            await this.evict(entry.commp);
+            bytes -= entry.size;
+        }
+    }
+
+    private pathFor(commp: string): string {
+        // CommPs are CIDs, but never trust them as path segments
+        return join(this.options.dir, commp.replace(/[^A-Za-z0-9]/g, '_'));
+    }
+}
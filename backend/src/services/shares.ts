@@ -0,0 +1,140 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { Database, ShareLink, UserFile } from '../db/database.js';
+
+export interface ShareServiceOptions {
+    // Lifetime of a link created without one
+    defaultTtlMs: number;
+    // Longest lifetime a link may be given
+    maxTtlMs: number;
+    // Public origin links are issued under; defaults to the host the request came in on
+    baseUrl?: string;
+}
+
+export interface CreateShareLinkParams {
+    ttlMs?: number;
+    // Omit for unlimited downloads until the link expires
+    maxDownloads?: number;
+}
+
+export interface IssuedShareLink {
+    link: ShareLink;
+    // Only available here; the database keeps a hash
+    token: string;
+}
+
+/**
+ * Carries the HTTP status the share routes should answer with
+ */
+export class ShareLinkError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'ShareLinkError';
+    }
+}
+
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Time- and download-limited links to a single file. Anyone holding the token can
+ * download the file without signing in, until the owner revokes the link.
+ */
+export class ShareService {
+    constructor(private db: Database, private options: ShareServiceOptions) { }
+
+    async create(file: UserFile, params: CreateShareLinkParams = {}): Promise<IssuedShareLink> {
+        if (file.status === 'deleted') {
+            throw new ShareLinkError('File has been deleted', 409);
+        }
+        if (!file.commp) {
+            throw new ShareLinkError('File is still being uploaded', 409);
+        }
+
+        const ttlMs = params.ttlMs ?? this.options.defaultTtlMs;
+        if (ttlMs <= 0 || ttlMs > this.options.maxTtlMs) {
+            throw new ShareLinkError(`Share links can last at most ${this.options.maxTtlMs / 3600000} hours`, 400);
+        }
+        if (params.maxDownloads !== undefined && (!Number.isSafeInteger(params.maxDownloads) || params.maxDownloads < 1)) {
+            throw new ShareLinkError('maxDownloads must be a positive integer', 400);
+        }
+
+        const token = randomBytes(32).toString('base64url');
+        const id = randomUUID();
+        await this.db.createShareLink({
+            id,
+            token_hash: hashToken(token),
+            file_id: file.id,
+            user_address: file.user_address,
+            expires_at: Date.now() + ttlMs,
+            max_downloads: params.maxDownloads ?? null,
+        });
+
+        console.log(`Created share link ${id} for file ${file.id}`);
+        return { link: (await this.db.getShareLink(id))!, token };
+    }
+
+    /**
+     * The URL handed out for a token
+     */
+    url(token: string, requestOrigin: string): string {
+        return `${(this.options.baseUrl ?? requestOrigin).replace(/\/+$/, '')}/s/${token}`;
+    }
+
+    async list(file: UserFile): Promise<ShareLink[]> {
+        return this.db.getShareLinksForFile(file.id);
+    }
+
+    async revoke(file: UserFile, shareId: string): Promise<ShareLink> {
+        const link = await this.db.getShareLink(shareId);
+        if (!link || link.file_id !== file.id) {
+            throw new ShareLinkError('Share link not found', 404);
+        }
+        if (!(await this.db.revokeShareLink(link.id))) {
+            throw new ShareLinkError('Share link has already been revoked', 409);
+        }
+
+        console.log(`Revoked share link ${link.id} for file ${file.id}`);
+        return (await this.db.getShareLink(link.id))!;
+    }
+
+    /**
+     * The link and file a token gives access to. Checking a token does not use up
+     * a download; recordDownload does that once the file has been sent.
+     */
+    async redeem(token: string): Promise<{ link: ShareLink; file: UserFile }> {
+        const link = await this.db.getShareLinkByTokenHash(hashToken(token));
+        if (!link) {
+            throw new ShareLinkError('Share link not found', 404);
+        }
+        this.checkUsable(link);
+
+        const file = await this.db.getUserFile(link.file_id);
+        if (!file || file.status === 'deleted' || !file.commp) {
+            throw new ShareLinkError('Shared file is no longer available', 410);
+        }
+        return { link, file };
+    }
+
+    /**
+     * Use up one of the link's downloads after a complete download
+     */
+    async recordDownload(link: ShareLink): Promise<void> {
+        if (!(await this.db.claimShareLinkDownload(link.id))) {
+            // Concurrent downloads finished after the last one was used up
+            console.warn(`Share link ${link.id} served a download past its limit`);
+        }
+    }
+
+    private checkUsable(link: ShareLink): void {
+        if (link.revoked_at !== null) {
+            throw new ShareLinkError('Share link has been revoked', 410);
+        }
+        if (link.expires_at <= Date.now()) {
+            throw new ShareLinkError('Share link has expired', 410);
+        }
+        if (link.max_downloads !== null && link.download_count >= link.max_downloads) {
+            throw new ShareLinkError('Share link has reached its download limit', 410);
+        }
+    }
+}
@@ -1,10 +1,30 @@
+import { Readable } from 'stream';
+import { ReadableStream } from 'stream/web';
 import { Synapse, RPC_URLS } from '@filoz/synapse-sdk';
+import { asPieceCID } from '@filoz/synapse-sdk/piece';
 
 export interface SynapseUploadResult {
     commp: string;
     providerId: string;
 }
 
+/**
+ * Milestones of a Synapse upload; the SDK reports no byte-level progress
+ */
+export interface SynapseUploadCallbacks {
+    // All bytes reached the storage provider
+    onUploadComplete?: () => void;
+    // The piece was added to the data set on-chain and awaits confirmation
+    onPieceAdded?: (transactionHash?: string) => void;
+}
+
+export interface ByteRange {
+    start: number;
+    end: number;  // Inclusive
+}
+
+type SynapseStorage = Awaited<ReturnType<Synapse['createStorage']>>;
+
 export interface SynapseDiagnostics {
     isConnected: boolean;
     lastHeartbeat: number | null;
@@ -18,6 +38,8 @@ export class SynapseService {
     private connectPromise: Promise<Synapse> | null = null;
     private resetPromise: Promise<void> | null = null;
     private heartbeatTimer: NodeJS.Timeout | null = null;
+    // Resolving a storage context selects the provider and data set, so it is done once per connection
+    private storage: { synapse: Synapse; context: Promise<SynapseStorage> } | null = null;
 
     private readonly privateKey: string;
     private readonly backendAddress: string;
@@ -61,16 +83,19 @@ export class SynapseService {
     async uploadFile(
         fileBuffer: Buffer,
         userAddress: string,
-        fileName: string
+        fileName: string,
+        callbacks: SynapseUploadCallbacks = {}
     ): Promise<SynapseUploadResult> {
         return this.withConnection('uploadFile', async (synapse) => {
             console.log(`Uploading file ${fileName} for user ${userAddress}...`);
 
-            const storage = await synapse.createStorage({ withCDN: true });
+            const storage = await this.getStorage(synapse);
             const result = await storage.upload(fileBuffer, {
                 metadata: {
                     userAddress: userAddress
-                }
+                },
+                onUploadComplete: () => callbacks.onUploadComplete?.(),
+                onPieceAdded: (transaction) => callbacks.onPieceAdded?.(transaction),
             });
 
             console.log(`File uploaded successfully. PieceCID: ${result.pieceCid}`);
@@ -82,6 +107,20 @@ export class SynapseService {
         });
     }
 
+    /**
+     * Remove a piece from the data set it was uploaded to and return the transaction hash
+     */
+    async deletePiece(commp: string): Promise<string> {
+        return this.withConnection('deletePiece', async (synapse) => {
+            console.log(`Deleting piece ${commp}...`);
+            // The same provider and data set uploadFile used
+            const storage = await this.getStorage(synapse);
+            const txHash = await storage.deletePiece(commp);
+            console.log(`Piece ${commp} scheduled for deletion. Transaction: ${txHash}`);
+            return txHash;
+        });
+    }
+
     async downloadFile(commp: string): Promise<Buffer> {
         return this.withConnection('downloadFile', async (synapse) => {
             console.log(`Downloading file with CommP: ${commp}...`);
@@ -91,6 +130,49 @@ export class SynapseService {
         });
     }
 
+    /**
+     * Stream a piece from Filecoin without buffering it, optionally limited to a byte range.
+     * Unlike downloadFile the data is not checked against its CommP; callers verify it themselves.
+     *
+     * The piece is read from the retrieval endpoint of the provider holding the backend's
+     * data set, asking it for just the range. Pieces that provider doesn't have fall back
+     * to the SDK's buffered download.
+     */
+    async openDownloadStream(commp: string, range?: ByteRange): Promise<Readable> {
+        const pieceCid = asPieceCID(commp);
+        if (!pieceCid) {
+            throw new Error(`Invalid CommP: ${commp}`);
+        }
+
+        const response = await this.withConnection('openDownloadStream', async (synapse) => {
+            const storage = await this.getStorage(synapse);
+            const serviceURL = storage.provider.products.PDP?.data.serviceURL;
+            if (!serviceURL) {
+                return null;
+            }
+            const res = await fetch(`${serviceURL.replace(/\/$/, '')}/piece/${pieceCid}`, {
+                headers: range ? { Range: `bytes=${range.start}-${range.end}` } : {},
+            });
+            if (res.status === 404) {
+                return null;
+            }
+            if (!res.ok || !res.body) {
+                throw new Error(`Piece retrieval failed with status ${res.status}`);
+            }
+            return res;
+        });
+
+        if (!response) {
+            console.log(`Piece ${commp} is not on the data set's provider; downloading it through the SDK`);
+            const data = await this.downloadFile(commp);
+            return Readable.from([range ? data.subarray(range.start, range.end + 1) : data]);
+        }
+
+        const body = Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+        // Providers that ignore Range answer 200 with the whole piece
+        return range && response.status !== 206 ? Readable.from(sliceBytes(body, range)) : body;
+    }
+
     async getBalance(): Promise<bigint> {
         return this.withConnection('getBalance', async (synapse) => {
             const accountInfo = await synapse.payments.accountInfo();
@@ -118,6 +200,20 @@ export class SynapseService {
         return this.synapse;
     }
 
+    private getStorage(synapse: Synapse): Promise<SynapseStorage> {
+        if (this.storage?.synapse !== synapse) {
+            const context = synapse.createStorage({ withCDN: true });
+            this.storage = { synapse, context };
+            // Don't keep a failed lookup around
+            context.catch(() => {
+                if (this.storage?.context === context) {
+                    this.storage = null;
+                }
+            });
+        }
+        return this.storage.context;
+    }
+
     private async withConnection<T>(operation: string, fn: (synapse: Synapse) => Promise<T>): Promise<T> {
         const execute = async (attempt: number): Promise<T> => {
             await this.refreshConnectionIfNeeded();
@@ -247,6 +343,7 @@ export class SynapseService {
 
             const synapse = this.synapse;
             this.synapse = null;
+            this.storage = null;
             this.lastHeartbeat = null;
             this.lastReconnect = null;
 
@@ -303,3 +400,23 @@ export class SynapseService {
     }
 }
 
+
+/**
+ * Yield only the bytes of `range`, then stop reading so the rest of the piece isn't fetched
+ */
+async function* sliceBytes(source: AsyncIterable<Buffer>, range: ByteRange): AsyncGenerator<Buffer> {
+    let position = 0;
+    for await (const chunk of source) {
+        const chunkStart = position;
+        position += chunk.length;
+        if (position <= range.start) {
+            continue;
+        }
+
+        yield chunk.subarray(Math.max(range.start - chunkStart, 0), Math.min(range.end + 1 - chunkStart, chunk.length));
+
+        if (position > range.end) {
+            break;
+        }
+    }
+}
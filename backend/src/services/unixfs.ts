@@ -0,0 +1,320 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { open, FileHandle } from 'fs/promises';
+import { CID, varint } from 'multiformats';
+import * as raw from 'multiformats/codecs/raw';
+import { sha256 } from 'multiformats/hashes/sha2';
+import * as dagPB from '@ipld/dag-pb';
+import { UnixFS } from 'ipfs-unixfs';
+import * as CarBufferWriter from '@ipld/car/buffer-writer';
+import type { ByteRange } from './synapse.js';
+
+// File content is split into raw leaves of this size
+const CHUNK_SIZE = 1024 * 1024;
+
+// CIDv1 of a dag-pb node hashed with sha2-256, which every directory root is
+const ROOT_CID_BYTES = 36;
+
+export interface DirectoryFile {
+    // Relative path inside the directory, '/'-separated
+    path: string;
+    // Where the file's bytes are on disk
+    sourcePath: string;
+}
+
+export interface PackedEntry {
+    path: string;
+    // Path of the containing directory; null for the root
+    parent: string | null;
+    kind: 'file' | 'directory';
+    cid: string;
+    size: number;
+    fileHash: string | null;
+    // [offset, length] of each leaf's data in the CAR, in file order
+    ranges: [number, number][] | null;
+}
+
+export interface PackedDirectory {
+    rootCid: string;
+    carSize: number;
+    carHash: string;
+    entries: PackedEntry[];
+}
+
+/**
+ * Carries the HTTP status the upload routes should answer with
+ */
+export class DirectoryPackError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'DirectoryPackError';
+    }
+}
+
+interface FileNode {
+    kind: 'file';
+    sourcePath: string;
+}
+
+interface DirectoryNode {
+    kind: 'directory';
+    children: Map<string, FileNode | DirectoryNode>;
+}
+
+interface WrittenNode {
+    cid: CID;
+    // Bytes of content below the node
+    size: number;
+    // Bytes of all blocks in the node's DAG, for dag-pb link Tsize
+    dagSize: number;
+}
+
+/**
+ * Canonical form of a relative path: no leading slash, no empty, '.' or '..' segments
+ */
+export function normalizeDirectoryPath(path: string): string {
+    const segments = path.replace(/^\/+/, '').split('/');
+    for (const segment of segments) {
+        if (segment === '' || segment === '.' || segment === '..' || /[\\\x00-\x1f]/.test(segment)) {
+            throw new DirectoryPackError(`Invalid path in directory: ${JSON.stringify(path)}`, 400);
+        }
+    }
+    return segments.join('/');
+}
+
+function buildTree(files: DirectoryFile[]): DirectoryNode {
+    const root: DirectoryNode = { kind: 'directory', children: new Map() };
+
+    for (const file of files) {
+        const segments = normalizeDirectoryPath(file.path).split('/');
+        const name = segments.pop()!;
+
+        let dir = root;
+        for (const segment of segments) {
+            let child = dir.children.get(segment);
+            if (!child) {
+                child = { kind: 'directory', children: new Map() };
+                dir.children.set(segment, child);
+            }
+            if (child.kind !== 'directory') {
+                throw new DirectoryPackError(`${file.path} is inside ${segment}, which is a file`, 400);
+            }
+            dir = child;
+        }
+
+        if (dir.children.has(name)) {
+            throw new DirectoryPackError(`Duplicate path in directory: ${file.path}`, 400);
+        }
+        dir.children.set(name, { kind: 'file', sourcePath: file.sourcePath });
+    }
+
+    return root;
+}
+
+/**
+ * Writes CAR v1 blocks to a file, keeping track of where each block's data lands
+ */
+class CarFileWriter {
+    // Room for the header, which is written last once the root is known
+    private offset = CarBufferWriter.calculateHeaderLength([ROOT_CID_BYTES]);
+
+    constructor(private handle: FileHandle) { }
+
+    get size(): number {
+        return this.offset;
+    }
+
+    /**
+     * Append a block and return the offset of its data
+     */
+    async put(cid: CID, bytes: Uint8Array): Promise<number> {
+        const length = cid.bytes.length + bytes.length;
+        const prefix = new Uint8Array(varint.encodingLength(length));
+        varint.encodeTo(length, prefix);
+
+        const frame = Buffer.concat([prefix, cid.bytes, bytes]);
+        await this.handle.write(frame, 0, frame.length, this.offset);
+        this.offset += frame.length;
+        return this.offset - bytes.length;
+    }
+
+    async writeHeader(root: CID): Promise<void> {
+        const headerLength = CarBufferWriter.headerLength({ roots: [root] });
+        const writer = CarBufferWriter.createWriter(new ArrayBuffer(headerLength), { roots: [root] });
+        const header = CarBufferWriter.close(writer);
+        await this.handle.write(header, 0, header.length, 0);
+    }
+}
+
+/**
+ * Pack files into a UnixFS DAG written as a CAR at outPath. Files become balanced
+ * single-level trees of 1 MiB raw leaves; directories are plain (unsharded) dag-pb nodes.
+ * The same tree always packs to the same bytes, so identical directories deduplicate.
+ */
+export async function packDirectory(files: DirectoryFile[], outPath: string): Promise<PackedDirectory> {
+    if (files.length === 0) {
+        throw new DirectoryPackError('Directory is empty', 400);
+    }
+    const tree = buildTree(files);
+    const entries: PackedEntry[] = [];
+
+    const handle = await open(outPath, 'w');
+    let root: WrittenNode;
+    let carSize: number;
+    try {
+        const car = new CarFileWriter(handle);
+        root = await writeDirectory(car, tree, '', null, entries);
+        await car.writeHeader(root.cid);
+        carSize = car.size;
+    } finally {
+        await handle.close();
+    }
+
+    const hash = createHash('sha256');
+    for await (const chunk of createReadStream(outPath)) {
+        hash.update(chunk);
+    }
+
+    return { rootCid: root.cid.toString(), carSize, carHash: hash.digest('hex'), entries };
+}
+
+async function writeDirectory(
+    car: CarFileWriter,
+    node: DirectoryNode,
+    path: string,
+    parent: string | null,
+    entries: PackedEntry[]
+): Promise<WrittenNode> {
+    const links: dagPB.PBLink[] = [];
+    let size = 0;
+    let dagSize = 0;
+
+    const names = [...node.children.keys()].sort();
+    for (const name of names) {
+        const child = node.children.get(name)!;
+        const childPath = path ? `${path}/${name}` : name;
+        const written = child.kind === 'file'
+            ? await writeFile(car, child, childPath, path, entries)
+            : await writeDirectory(car, child, childPath, path, entries);
+
+        links.push(dagPB.createLink(name, written.dagSize, written.cid));
+        size += written.size;
+        dagSize += written.dagSize;
+    }
+
+    const bytes = dagPB.encode(dagPB.prepare({ Data: new UnixFS({ type: 'directory' }).marshal(), Links: links }));
+    const cid = CID.createV1(dagPB.code, await sha256.digest(bytes));
+    await car.put(cid, bytes);
+
+    entries.push({ path, parent, kind: 'directory', cid: cid.toString(), size, fileHash: null, ranges: null });
+    return { cid, size, dagSize: dagSize + bytes.length };
+}
+
+async function writeFile(
+    car: CarFileWriter,
+    node: FileNode,
+    path: string,
+    parent: string,
+    entries: PackedEntry[]
+): Promise<WrittenNode> {
+    const hash = createHash('sha256');
+    const leaves: { cid: CID; length: number }[] = [];
+    const ranges: [number, number][] = [];
+
+    const source = await open(node.sourcePath, 'r');
+    try {
+        for (;;) {
+            const buffer = Buffer.alloc(CHUNK_SIZE);
+            const { bytesRead } = await source.read(buffer, 0, CHUNK_SIZE, null);
+            // An empty file is still one (empty) leaf
+            if (bytesRead === 0 && leaves.length > 0) {
+                break;
+            }
+
+            const data = buffer.subarray(0, bytesRead);
+            hash.update(data);
+            const cid = CID.createV1(raw.code, await sha256.digest(data));
+            ranges.push([await car.put(cid, data), bytesRead]);
+            leaves.push({ cid, length: bytesRead });
+
+            if (bytesRead < CHUNK_SIZE) {
+                break;
+            }
+        }
+    } finally {
+        await source.close();
+    }
+
+    const size = leaves.reduce((sum, leaf) => sum + leaf.length, 0);
+    let written: WrittenNode;
+    if (leaves.length === 1) {
+        // A single chunk is the file itself
+        written = { cid: leaves[0].cid, size, dagSize: size };
+    } else {
+        const unixfs = new UnixFS({ type: 'file', blockSizes: leaves.map((leaf) => BigInt(leaf.length)) });
+        const bytes = dagPB.encode(dagPB.prepare({
+            Data: unixfs.marshal(),
+            Links: leaves.map((leaf) => dagPB.createLink('', leaf.length, leaf.cid)),
+        }));
+        const cid = CID.createV1(dagPB.code, await sha256.digest(bytes));
+        await car.put(cid, bytes);
+        written = { cid, size, dagSize: size + bytes.length };
+    }
+
+    entries.push({
+        path,
+        parent,
+        kind: 'file',
+        cid: written.cid.toString(),
+        size,
+        fileHash: hash.digest('hex'),
+        ranges,
+    });
+    return written;
+}
+
+/**
+ * The part of the CAR that holds a file's content, from its first leaf to its last
+ */
+export function contentSpan(ranges: [number, number][]): ByteRange | null {
+    const nonEmpty = ranges.filter(([, length]) => length > 0);
+    if (nonEmpty.length === 0) {
+        return null;
+    }
+    const [firstOffset] = nonEmpty[0];
+    const [lastOffset, lastLength] = nonEmpty[nonEmpty.length - 1];
+    return { start: firstOffset, end: lastOffset + lastLength - 1 };
+}
+
+/**
+ * Reassemble a file from a stream of its content span, dropping the block framing
+ * between leaves
+ */
+export function extractRanges(ranges: [number, number][], spanStart: number) {
+    return async function* (source: AsyncIterable<Buffer>): AsyncGenerator<Buffer> {
+        let position = spanStart;
+        let index = 0;
+
+        for await (const chunk of source) {
+            const chunkStart = position;
+            position += chunk.length;
+
+            while (index < ranges.length) {
+                const [offset, length] = ranges[index];
+                const end = offset + length;
+                if (offset >= position) {
+                    break;
+                }
+                const from = Math.max(offset, chunkStart) - chunkStart;
+                const to = Math.min(end, position) - chunkStart;
+                if (to > from) {
+                    yield chunk.subarray(from, to);
+                }
+                if (end > position) {
+                    break;
+                }
+                index++;
+            }
+        }
+    };
+}
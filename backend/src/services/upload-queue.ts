@@ -0,0 +1,145 @@
+import { Database, FileVisibility, UploadJob } from '../db/database.js';
+import { UploadService } from './upload.js';
+import { CreditService } from './credits.js';
+import { PackedDirectory } from './unixfs.js';
+
+export interface UploadQueueOptions {
+    concurrency?: number;
+    pollIntervalMs?: number;
+    maxAttempts?: number;
+    retryBaseDelayMs?: number;
+}
+
+export interface EnqueueUploadParams {
+    tempPath: string;
+    fileSize: number;
+    fileHash: string;
+    fileName: string;
+    userAddress: string;
+    fileId: string;
+    storageDurationDays: number;
+    storageCost: string;
+    // Part of storageCost paid as lockup
+    lockupCost: string;
+    holdId: string;
+    // This file's part of a batch hold; omitted when the hold is for this file alone
+    holdShare?: string;
+    // Set when the file is a directory packed as a CAR
+    directory?: Pick<PackedDirectory, 'rootCid' | 'entries'>;
+    // JSON envelope of a file the client encrypted
+    encryption?: string;
+    // Default: private
+    visibility?: FileVisibility;
+    // Organization that owns the file and paid for it; personal when omitted
+    orgId?: string | null;
+}
+
+/**
+ * Worker loop that drains the persistent upload_jobs table.
+ * Jobs survive restarts; anything mid-flight is requeued by UploadService.recoverInterruptedUploads.
+ */
+export class UploadQueue {
+    private timer: NodeJS.Timeout | null = null;
+    private active = 0;
+    private draining = false;
+
+    private readonly concurrency: number;
+    private readonly pollIntervalMs: number;
+    private readonly maxAttempts: number;
+    private readonly retryBaseDelayMs: number;
+
+    constructor(
+        private db: Database,
+        private uploadService: UploadService,
+        private creditService: CreditService,
+        options: UploadQueueOptions = {}
+    ) {
+        this.concurrency = options.concurrency ?? 1; // Single Synapse connection
+        this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+        this.maxAttempts = options.maxAttempts ?? 3;
+        this.retryBaseDelayMs = options.retryBaseDelayMs ?? 10000;
+    }
+
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+        this.timer = setInterval(() => this.wake(), this.pollIntervalMs);
+        this.wake();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Persist a new upload job and nudge the worker.
+     * Releases the credit hold (or the file's share of it) if the job could not be queued.
+     */
+    async enqueue(params: EnqueueUploadParams): Promise<void> {
+        try {
+            await this.uploadService.initiateUpload(params);
+        } catch (error) {
+            const share = params.holdShare === undefined ? undefined : BigInt(params.holdShare);
+            await this.creditService.releaseHold(params.holdId, 'Failed to queue upload', share);
+            throw error;
+        }
+        this.wake();
+    }
+
+    wake(): void {
+        void this.drain();
+    }
+
+    private async drain(): Promise<void> {
+        if (this.draining || !this.timer) {
+            return;
+        }
+        this.draining = true;
+
+        try {
+            while (this.active < this.concurrency) {
+                const job = await this.db.claimNextUploadJob();
+                if (!job) {
+                    break;
+                }
+
+                this.active += 1;
+                void this.run(job).finally(() => {
+                    this.active -= 1;
+                    this.wake();
+                });
+            }
+        } catch (error) {
+            console.error(`[${new Date().toISOString()}] Upload queue poll failed:`, error);
+        } finally {
+            this.draining = false;
+        }
+    }
+
+    private async run(job: UploadJob): Promise<void> {
+        console.log(`[${new Date().toISOString()}] Running upload job ${job.file_id} (attempt ${job.attempts})`);
+
+        try {
+            await this.uploadService.runJob(job);
+            console.log(`[${new Date().toISOString()}] Upload job ${job.file_id} stored`);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : 'Unknown error';
+
+            try {
+                if (job.attempts < this.maxAttempts) {
+                    const delayMs = this.retryBaseDelayMs * 2 ** (job.attempts - 1);
+                    console.warn(`[${new Date().toISOString()}] Upload job ${job.file_id} failed, retrying in ${delayMs}ms: ${reason}`);
+                    await this.uploadService.retryJob(job, reason, delayMs);
+                } else {
+                    await this.uploadService.failJob(job, reason);
+                }
+            } catch (cleanupError) {
+                console.error(`[${new Date().toISOString()}] Failed to record failure for upload job ${job.file_id}:`, cleanupError);
+            }
+        }
+    }
+}
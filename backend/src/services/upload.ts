@@ -1,28 +1,73 @@
 import { createHash } from 'crypto';
-import { Database } from '../db/database.js';
-import { SynapseService } from './synapse.js';
+import { createReadStream } from 'fs';
+import { readFile, rename, rm } from 'fs/promises';
+import { join } from 'path';
+import { Database, FileVisibility, StoredObject, UploadJob, UserFile } from '../db/database.js';
+import { SynapseService, SynapseUploadCallbacks } from './synapse.js';
+import { CreditService } from './credits.js';
+import { RetrievalCache } from './retrieval-cache.js';
+import { PricingService } from './pricing.js';
+import { PackedDirectory } from './unixfs.js';
+import { WebhookService } from './webhooks.js';
+import { UploadStage, UserEventHub } from './events.js';
+import { SYNAPSE_COSTS, DedupPricing, calculateDedupCost } from '../constants.js';
+
+const DAY_MS = SYNAPSE_COSTS.SECONDS_PER_DAY * 1000;
+
+// Least time between two byte-progress events of one upload
+const PROGRESS_INTERVAL_MS = 500;
 
 export interface ProcessUploadParams {
     fileId: string;
     fileBuffer: Buffer;
+    fileHash: string;
     userAddress: string;
     fileName: string;
     storageDurationDays: number;
     storageCost: string;
+    callbacks?: SynapseUploadCallbacks;
+}
+
+interface UploadProgressDetails {
+    bytesProcessed?: number;
+    attempt?: number;
+    error?: string;
+    nextAttemptAt?: number;
+    commp?: string;
 }
 
 export class UploadService {
     constructor(
         private db: Database,
-        private synapse: SynapseService
+        private synapse: SynapseService,
+        private credits: CreditService,
+        private retrievalCache: RetrievalCache,
+        private pricing: PricingService,
+        private uploadDir: string,
+        private dedupPricing: DedupPricing = 'rate_only',
+        private webhooks?: WebhookService,
+        private events?: UserEventHub
     ) { }
 
-    calculateFileHash(buffer: Buffer): string {
-        return createHash('sha256').update(buffer).digest('hex');
+    /**
+     * SHA-256 of a file on disk, read in chunks. onProgress gets the bytes hashed so far.
+     */
+    async calculateFileHash(filePath: string, onProgress?: (bytesHashed: number) => void): Promise<string> {
+        const hash = createHash('sha256');
+        let bytesHashed = 0;
+        for await (const chunk of createReadStream(filePath)) {
+            hash.update(chunk);
+            bytesHashed += chunk.length;
+            onProgress?.(bytesHashed);
+        }
+        return hash.digest('hex');
     }
 
-    async processUpload(params: ProcessUploadParams): Promise<void> {
-        const { fileId, fileBuffer, userAddress, fileName, storageDurationDays, storageCost } = params;
+    /**
+     * Store the file on Filecoin and record its CommP, which is returned
+     */
+    async processUpload(params: ProcessUploadParams): Promise<string> {
+        const { fileId, fileBuffer, fileHash, userAddress, fileName, storageDurationDays, storageCost } = params;
 
         console.log(`Processing upload for file ${fileId} (${fileName}) from user ${userAddress}`);
         console.log(`Storage: ${storageDurationDays} days, Cost: ${storageCost} USDFC wei`);
@@ -30,57 +75,319 @@ export class UploadService {
         // Upload to Filecoin via Synapse with metadata
         let uploadResult;
         try {
-            uploadResult = await this.synapse.uploadFile(fileBuffer, userAddress, fileName);
+            uploadResult = await this.synapse.uploadFile(fileBuffer, userAddress, fileName, params.callbacks);
         } catch (error) {
             console.error('Failed to upload to Synapse:', error);
             throw new Error(`Synapse upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
 
-        // Update user_files with CommP
-        await this.db.updateUserFile(fileId, {
-            commp: uploadResult.commp,
-            provider_id: uploadResult.providerId,
-            uploaded_at: Date.now(),
+        // Update user_files with CommP; the paid storage period starts now
+        const uploadedAt = Date.now();
+        await this.db.transaction(async () => {
+            await this.db.updateUserFile(fileId, {
+                commp: uploadResult.commp,
+                provider_id: uploadResult.providerId,
+                uploaded_at: uploadedAt,
+                expires_at: uploadedAt + storageDurationDays * DAY_MS,
+            });
+            await this.db.addStoredObjectReference({
+                commp: uploadResult.commp,
+                file_hash: fileHash,
+                file_size: fileBuffer.length,
+                provider_id: uploadResult.providerId,
+            });
         });
 
         console.log(`Upload processing complete for file ${fileId}. CommP: ${uploadResult.commp}`);
+        return uploadResult.commp;
     }
 
+    /**
+     * Move the received file into the spool and queue it for the upload worker.
+     * The hash was computed while the file streamed in; the worker re-checks it before uploading.
+     */
     async initiateUpload(params: {
-        fileBuffer: Buffer;
+        tempPath: string;
+        fileSize: number;
+        fileHash: string;
         fileName: string;
         userAddress: string;
         fileId: string;
         storageDurationDays: number;
         storageCost: string;
+        lockupCost: string;
+        holdId: string;
+        holdShare?: string;
+        directory?: Pick<PackedDirectory, 'rootCid' | 'entries'>;
+        encryption?: string;
+        visibility?: FileVisibility;
+        orgId?: string | null;
     }): Promise<void> {
-        const { fileBuffer, fileName, userAddress, fileId, storageDurationDays, storageCost } = params;
-
-        // Calculate file hash
-        const fileHash = this.calculateFileHash(fileBuffer);
-        const fileSize = fileBuffer.length;
-
-        // Create file record in database
-        await this.db.createUserFile({
-            id: fileId,
-            user_address: userAddress,
-            file_name: fileName,
-            file_size: fileSize,
-            file_hash: fileHash,
-            commp: null,
-            provider_id: null,
-            storage_duration_days: storageDurationDays,
-            storage_cost: storageCost,
+        const { tempPath, fileSize, fileHash, fileName, userAddress, fileId, storageDurationDays, storageCost, lockupCost, holdId, holdShare, directory, encryption, visibility, orgId } = params;
+
+        const spoolPath = join(this.uploadDir, fileId);
+        await rename(tempPath, spoolPath);
+
+        try {
+            await this.db.transaction(async () => {
+                await this.db.createUserFile({
+                    id: fileId,
+                    user_address: userAddress,
+                    org_id: orgId ?? null,
+                    file_name: fileName,
+                    file_size: fileSize,
+                    file_hash: fileHash,
+                    commp: null,
+                    provider_id: null,
+                    storage_duration_days: storageDurationDays,
+                    storage_cost: storageCost,
+                    lockup_cost: lockupCost,
+                    root_cid: directory?.rootCid ?? null,
+                    encryption: encryption ?? null,
+                    visibility: visibility ?? 'private',
+                });
+
+                for (const entry of directory?.entries ?? []) {
+                    await this.db.createDirectoryEntry({
+                        file_id: fileId,
+                        path: entry.path,
+                        parent: entry.parent,
+                        kind: entry.kind,
+                        cid: entry.cid,
+                        size: entry.size,
+                        file_hash: entry.fileHash,
+                        ranges: entry.ranges ? JSON.stringify(entry.ranges) : null,
+                    });
+                }
+
+                await this.db.createUploadJob({
+                    file_id: fileId,
+                    user_address: userAddress,
+                    hold_id: holdId,
+                    hold_share: holdShare ?? null,
+                    spool_path: spoolPath,
+                });
+            });
+        } catch (error) {
+            await rm(spoolPath, { force: true });
+            throw error;
+        }
+
+        console.log(`Queued upload job for file ${fileId} (${fileName})`);
+        this.reportProgress(userAddress, { id: fileId, file_name: fileName, file_size: fileSize }, 'queued');
+    }
+
+    /**
+     * Drive a claimed job through hashing and uploading to stored.
+     * Throws on failure so the worker can decide whether to retry.
+     */
+    async runJob(job: UploadJob): Promise<void> {
+        const file = await this.db.getUserFile(job.file_id);
+        if (!file) {
+            throw new Error(`File record ${job.file_id} not found`);
+        }
+
+        // Make sure the spooled bytes are still the ones the user sent
+        this.reportProgress(job.user_address, file, 'hashing', { attempt: job.attempts });
+        let lastReportAt = Date.now();
+        const spoolHash = await this.calculateFileHash(job.spool_path, (bytesHashed) => {
+            if (Date.now() - lastReportAt >= PROGRESS_INTERVAL_MS) {
+                lastReportAt = Date.now();
+                this.reportProgress(job.user_address, file, 'hashing', { bytesProcessed: bytesHashed, attempt: job.attempts });
+            }
+        });
+        if (spoolHash !== file.file_hash) {
+            throw new Error(`Spooled file for ${job.file_id} does not match its recorded hash`);
+        }
+
+        // Identical content that is already stored is linked instead of uploaded again
+        let commp = file.commp;
+        let cost: bigint | undefined;
+        if (!commp) {
+            const existing = await this.db.getActiveStoredObjectByHash(file.file_hash, file.file_size);
+            const linkedCost = existing ? await this.linkToStoredObject(file, existing) : null;
+            if (linkedCost !== null) {
+                cost = linkedCost;
+                commp = existing!.commp;
+            }
+        }
+
+        // A retry after a late failure must not store the piece twice
+        if (!commp) {
+            await this.db.updateUploadJob(job.file_id, { status: 'uploading' });
+            this.reportProgress(job.user_address, file, 'uploading', { attempt: job.attempts });
+
+            // Synapse takes the whole piece in memory
+            const fileBuffer = await readFile(job.spool_path);
+
+            commp = await this.processUpload({
+                fileId: job.file_id,
+                fileBuffer,
+                fileHash: file.file_hash,
+                userAddress: job.user_address,
+                fileName: file.file_name,
+                storageDurationDays: file.storage_duration_days,
+                storageCost: file.storage_cost,
+                callbacks: {
+                    onUploadComplete: () => this.reportProgress(job.user_address, file, 'confirming', {
+                        bytesProcessed: file.file_size,
+                        attempt: job.attempts,
+                    }),
+                },
+            });
+        }
+
+        // A file linked on an earlier attempt was already repriced
+        await this.credits.captureHold(
+            job.hold_id,
+            cost ?? BigInt(file.storage_cost),
+            job.hold_share === null ? undefined : {
+                share: BigInt(job.hold_share),
+                fileId: job.file_id,
+                description: `Storage cost for ${file.file_name} (${file.storage_duration_days} days)`,
+            }
+        );
+        await this.db.updateUploadJob(job.file_id, { status: 'stored', error: null });
+
+        const stored = (await this.db.getUserFile(job.file_id))!;
+        this.reportProgress(job.user_address, stored, 'stored', { bytesProcessed: stored.file_size, attempt: job.attempts, commp });
+        await this.webhooks?.emit(job.user_address, 'upload.stored', {
+            fileId: stored.id,
+            fileName: stored.file_name,
+            fileSize: stored.file_size,
+            commp: stored.commp,
+            storageCost: stored.storage_cost,
+            expiresAt: stored.expires_at,
+        });
+
+        // Keep the verified bytes around so the first downloads skip the provider
+        try {
+            await this.retrievalCache.adopt(commp, job.spool_path, file.file_hash);
+        } catch (error) {
+            console.error(`Failed to cache stored file ${job.file_id}:`, error);
+        }
+        await rm(job.spool_path, { force: true });
+    }
+
+    /**
+     * Point a file at an already stored piece and reprice it with the dedup policy.
+     * Returns the new cost, or null if the piece stopped being available meanwhile.
+     */
+    private async linkToStoredObject(file: UserFile, object: StoredObject): Promise<bigint | null> {
+        const dedup = calculateDedupCost(this.dedupPricing, file.file_size, file.storage_duration_days, this.pricing.prices);
+        // Never more than the hold, which may be at a quoted or older price
+        const held = BigInt(file.storage_cost);
+        const cost = dedup.cost < held ? dedup.cost : held;
+        const lockup = dedup.lockup < cost ? dedup.lockup : cost;
+        const uploadedAt = Date.now();
+
+        const linked = await this.db.transaction(async () => {
+            if (!(await this.db.retainStoredObject(object.commp))) {
+                return false;
+            }
+            await this.db.updateUserFile(file.id, {
+                commp: object.commp,
+                provider_id: object.provider_id,
+                uploaded_at: uploadedAt,
+                expires_at: uploadedAt + file.storage_duration_days * DAY_MS,
+                storage_cost: cost.toString(),
+                lockup_cost: lockup.toString(),
+            });
+            return true;
         });
 
-        // Process upload immediately
-        await this.processUpload({
-            fileId,
-            fileBuffer,
-            userAddress,
-            fileName,
-            storageDurationDays,
-            storageCost,
+        if (linked) {
+            console.log(`File ${file.id} deduplicated to existing piece ${object.commp} (${this.dedupPricing} pricing, ${cost} USDFC wei)`);
+        }
+        return linked ? cost : null;
+    }
+
+    /**
+     * Put a job back in the queue to be retried after delayMs
+     */
+    async retryJob(job: UploadJob, reason: string, delayMs: number): Promise<void> {
+        const nextAttemptAt = Date.now() + delayMs;
+        await this.db.updateUploadJob(job.file_id, {
+            status: 'queued',
+            error: reason,
+            next_attempt_at: nextAttemptAt,
         });
+
+        const file = await this.db.getUserFile(job.file_id);
+        if (file) {
+            this.reportProgress(job.user_address, file, 'retrying', { attempt: job.attempts, error: reason, nextAttemptAt });
+        }
+    }
+
+    /**
+     * Give up on a job: release the credit hold, drop the unfinished file record
+     * and the spooled bytes. The job row keeps the failure reason for status queries.
+     */
+    async failJob(job: UploadJob, reason: string): Promise<void> {
+        await this.credits.releaseHold(job.hold_id, reason, job.hold_share === null ? undefined : BigInt(job.hold_share));
+
+        const file = await this.db.getUserFile(job.file_id);
+        if (file && !file.commp) {
+            await this.db.deleteUserFile(job.file_id);
+            await this.db.deleteDirectoryEntries(job.file_id);
+        }
+
+        await this.db.updateUploadJob(job.file_id, { status: 'failed', error: reason });
+        await rm(job.spool_path, { force: true });
+
+        console.error(`Upload job ${job.file_id} failed: ${reason}`);
+        if (file) {
+            this.reportProgress(job.user_address, file, 'failed', { attempt: job.attempts, error: reason });
+        }
+        await this.webhooks?.emit(job.user_address, 'upload.failed', {
+            fileId: job.file_id,
+            fileName: file?.file_name ?? null,
+            reason,
+        });
+    }
+
+    /**
+     * Publish where an upload is to the owner's event streams
+     */
+    private reportProgress(
+        userAddress: string,
+        file: Pick<UserFile, 'id' | 'file_name' | 'file_size'>,
+        stage: UploadStage,
+        details: UploadProgressDetails = {}
+    ): void {
+        this.events?.publish(userAddress, 'upload', {
+            fileId: file.id,
+            fileName: file.file_name,
+            stage,
+            bytesProcessed: details.bytesProcessed ?? 0,
+            totalBytes: file.file_size,
+            attempt: details.attempt ?? null,
+            error: details.error ?? null,
+            nextAttemptAt: details.nextAttemptAt ?? null,
+            commp: details.commp ?? null,
+        });
+    }
+
+    /**
+     * Requeue jobs that were mid-flight when the server stopped, and release
+     * holds (or what is left of batch holds) that no longer belong to an active job
+     */
+    async recoverInterruptedUploads(): Promise<number> {
+        const interrupted = await this.db.getUploadJobsByStatus(['hashing', 'uploading']);
+        for (const job of interrupted) {
+            await this.db.updateUploadJob(job.file_id, { status: 'queued', next_attempt_at: Date.now() });
+        }
+
+        const activeJobs = await this.db.getUploadJobsByStatus(['queued']);
+        const activeHoldIds = new Set(activeJobs.map((job) => job.hold_id));
+
+        const holds = await this.db.getCreditHoldsByStatus('held');
+        for (const hold of holds) {
+            if (!activeHoldIds.has(hold.id)) {
+                await this.credits.releaseHold(hold.id, 'Upload no longer in progress');
+            }
+        }
+
+        return interrupted.length;
     }
 }
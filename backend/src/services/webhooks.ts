@@ -0,0 +1,402 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { lookup as dnsLookup } from 'dns';
+import { lookup } from 'dns/promises';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, LookupFunction, isIP } from 'net';
+import { Database, Page, PageCursor, SortOrder, WebhookDelivery, WebhookDeliveryStatus, WebhookSubscription } from '../db/database.js';
+import { accountOrganizationId } from './organizations.js';
+
+export const WEBHOOK_EVENTS = [
+    'upload.stored',
+    'upload.failed',
+    'credits.deposited',
+    'credits.low_balance',
+    'file.expiring',
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Limits how much fan-out one user can cause per event
+const MAX_SUBSCRIPTIONS_PER_USER = 10;
+
+// Deliveries sent per worker pass
+const DELIVERY_BATCH_SIZE = 20;
+
+// Addresses webhooks must not reach: this host, private networks, link-local
+// (including the 169.254.169.254 cloud metadata endpoint) and other non-public ranges
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 127], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isBlockedAddress(address: string): boolean {
+    const family = isIP(address);
+    return family === 0 || BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+export interface WebhookServiceOptions {
+    // Attempts before a delivery is marked failed
+    maxAttempts: number;
+    // Delay before the first retry; doubles with every further attempt
+    retryBaseDelayMs: number;
+    // How long an endpoint has to answer
+    timeoutMs: number;
+    // Spends that take a balance below this emit credits.low_balance; 0 disables it
+    lowBalanceThreshold: bigint;
+    // Hosts that may resolve to private addresses, e.g. receivers on the same network
+    allowedPrivateHosts?: string[];
+    pollIntervalMs?: number;
+}
+
+export interface CreateWebhookParams {
+    url: string;
+    events: WebhookEvent[];
+    description?: string;
+}
+
+export interface IssuedWebhook {
+    subscription: WebhookSubscription;
+    // Also kept by the backend, but only returned when the subscription is created
+    secret: string;
+}
+
+/**
+ * Carries the HTTP status the webhook routes should answer with
+ */
+export class WebhookError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'WebhookError';
+    }
+}
+
+/**
+ * The X-Webhook-Signature header for a body: the send time and an HMAC-SHA256 of
+ * `${timestamp}.${body}` keyed with the subscription secret
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Outbound event notifications. Emitting records one delivery per matching
+ * subscription in the delivery log; a background worker posts them, signed, and
+ * retries failures with exponential backoff until maxAttempts is reached.
+ */
+export class WebhookService {
+    private timer: NodeJS.Timeout | null = null;
+    private draining = false;
+
+    constructor(private db: Database, private options: WebhookServiceOptions) { }
+
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+        this.timer = setInterval(() => this.wake(), this.options.pollIntervalMs ?? 5000);
+        this.wake();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    async subscribe(userAddress: string, params: CreateWebhookParams): Promise<IssuedWebhook> {
+        let url: URL;
+        try {
+            url = new URL(params.url);
+        } catch {
+            throw new WebhookError('url must be an absolute http(s) URL', 400);
+        }
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+            throw new WebhookError('url must be an absolute http(s) URL', 400);
+        }
+        await this.checkDestination(url);
+
+        const events = Array.isArray(params.events) ? [...new Set(params.events)] : [];
+        if (events.length === 0 || !events.every((event) => WEBHOOK_EVENTS.includes(event))) {
+            throw new WebhookError(`events must list one or more of: ${WEBHOOK_EVENTS.join(', ')}`, 400);
+        }
+
+        const existing = await this.db.getWebhookSubscriptionsForUser(userAddress);
+        if (existing.length >= MAX_SUBSCRIPTIONS_PER_USER) {
+            throw new WebhookError(`At most ${MAX_SUBSCRIPTIONS_PER_USER} webhooks can be registered`, 409);
+        }
+
+        const secret = `whsec_${randomBytes(32).toString('base64url')}`;
+        const subscription: Omit<WebhookSubscription, 'created_at'> = {
+            id: randomUUID(),
+            user_address: userAddress,
+            url: url.toString(),
+            secret,
+            events: JSON.stringify(events),
+            description: params.description ? String(params.description).slice(0, 200) : null,
+        };
+        await this.db.createWebhookSubscription(subscription);
+
+        console.log(`Registered webhook ${subscription.id} for ${userAddress}: ${events.join(', ')} -> ${subscription.url}`);
+        return { subscription: (await this.db.getWebhookSubscription(subscription.id))!, secret };
+    }
+
+    async list(userAddress: string): Promise<WebhookSubscription[]> {
+        return this.db.getWebhookSubscriptionsForUser(userAddress);
+    }
+
+    /**
+     * Look up a subscription owned by userAddress; other users' are reported as missing
+     */
+    async get(userAddress: string, id: string): Promise<WebhookSubscription> {
+        const subscription = await this.db.getWebhookSubscription(id);
+        if (!subscription || subscription.user_address !== userAddress) {
+            throw new WebhookError('Webhook not found', 404);
+        }
+        return subscription;
+    }
+
+    async unsubscribe(userAddress: string, id: string): Promise<void> {
+        const subscription = await this.get(userAddress, id);
+        await this.db.deleteWebhookSubscription(subscription.id);
+        console.log(`Deleted webhook ${subscription.id} for ${userAddress}`);
+    }
+
+    async listDeliveries(
+        userAddress: string,
+        id: string,
+        query: { status?: WebhookDeliveryStatus; order: SortOrder; limit: number; after?: PageCursor }
+    ): Promise<Page<WebhookDelivery>> {
+        const subscription = await this.get(userAddress, id);
+        return this.db.getWebhookDeliveries(subscription.id, query);
+    }
+
+    /**
+     * Send a failed delivery again, with the same payload and a fresh set of attempts
+     */
+    async replay(userAddress: string, id: string, deliveryId: string): Promise<WebhookDelivery> {
+        const subscription = await this.get(userAddress, id);
+        const delivery = await this.db.getWebhookDelivery(deliveryId);
+        if (!delivery || delivery.subscription_id !== subscription.id) {
+            throw new WebhookError('Delivery not found', 404);
+        }
+        if (!(await this.db.requeueWebhookDelivery(delivery.id))) {
+            throw new WebhookError(`Only failed deliveries can be replayed; this one is ${delivery.status}`, 409);
+        }
+
+        console.log(`Replaying webhook delivery ${delivery.id} (${delivery.event})`);
+        this.wake();
+        return (await this.db.getWebhookDelivery(delivery.id))!;
+    }
+
+    /**
+     * Queue an event for every subscription of userAddress that wants it. Events
+     * for an organization's pool account go to each member's subscriptions, with
+     * the orgId added. Never throws: a notification problem must not fail the
+     * operation that caused it.
+     */
+    async emit(userAddress: string, event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+        try {
+            const orgId = accountOrganizationId(userAddress);
+            if (orgId !== null) {
+                for (const member of await this.db.getOrganizationMembers(orgId)) {
+                    await this.emit(member.member_address, event, { ...data, orgId });
+                }
+                return;
+            }
+
+            const subscriptions = (await this.db.getWebhookSubscriptionsForUser(userAddress))
+                .filter((subscription) => (JSON.parse(subscription.events) as string[]).includes(event));
+            if (subscriptions.length === 0) {
+                return;
+            }
+
+            const eventId = randomUUID();
+            const payload = JSON.stringify({ id: eventId, type: event, createdAt: Date.now(), data });
+            for (const subscription of subscriptions) {
+                await this.db.createWebhookDelivery({
+                    id: randomUUID(),
+                    subscription_id: subscription.id,
+                    user_address: userAddress,
+                    event_id: eventId,
+                    event,
+                    payload,
+                });
+            }
+            this.wake();
+        } catch (error) {
+            console.error(`Failed to queue ${event} webhook for ${userAddress}:`, error);
+        }
+    }
+
+    /**
+     * Emit credits.low_balance when a spend takes the balance from at or above the
+     * threshold to below it, so a draining balance is reported once
+     */
+    async checkLowBalance(userAddress: string, previousBalance: bigint, newBalance: bigint): Promise<void> {
+        const threshold = this.options.lowBalanceThreshold;
+        if (threshold > 0n && previousBalance >= threshold && newBalance < threshold) {
+            await this.emit(userAddress, 'credits.low_balance', {
+                balance: newBalance.toString(),
+                threshold: threshold.toString(),
+            });
+        }
+    }
+
+    /**
+     * Drop delivered and failed log entries created before the given time
+     */
+    async pruneDeliveries(before: number): Promise<number> {
+        return this.db.deleteWebhookDeliveriesBefore(before);
+    }
+
+    wake(): void {
+        void this.drain();
+    }
+
+    private async drain(): Promise<void> {
+        if (this.draining || !this.timer) {
+            return;
+        }
+        this.draining = true;
+
+        try {
+            for (;;) {
+                const due = await this.db.getDueWebhookDeliveries(Date.now(), DELIVERY_BATCH_SIZE);
+                if (due.length === 0) {
+                    break;
+                }
+                await Promise.all(due.map((delivery) => this.deliver(delivery)));
+            }
+        } catch (error) {
+            console.error(`[${new Date().toISOString()}] Webhook delivery poll failed:`, error);
+        } finally {
+            this.draining = false;
+        }
+    }
+
+    private async deliver(delivery: WebhookDelivery): Promise<void> {
+        const attempts = delivery.attempts + 1;
+        const subscription = await this.db.getWebhookSubscription(delivery.subscription_id);
+        if (!subscription) {
+            await this.db.updateWebhookDelivery(delivery.id, { status: 'failed', attempts, error: 'Subscription was deleted' });
+            return;
+        }
+
+        let responseStatus: number | null = null;
+        let error: string | null = null;
+        try {
+            responseStatus = await this.post(new URL(subscription.url), delivery.payload, {
+                'Content-Type': 'application/json',
+                'User-Agent': 'FilBridge-Webhooks/1.0',
+                'X-Webhook-Id': delivery.id,
+                'X-Webhook-Event': delivery.event,
+                'X-Webhook-Signature': signWebhookPayload(subscription.secret, delivery.payload, Math.floor(Date.now() / 1000)),
+            });
+            if (responseStatus < 200 || responseStatus >= 300) {
+                error = `Endpoint answered ${responseStatus}`;
+            }
+        } catch (err) {
+            error = err instanceof Error ? err.message : 'Unknown error';
+        }
+
+        if (!error) {
+            await this.db.updateWebhookDelivery(delivery.id, {
+                status: 'delivered',
+                attempts,
+                response_status: responseStatus,
+                error: null,
+                delivered_at: Date.now(),
+            });
+            return;
+        }
+
+        if (attempts >= this.options.maxAttempts) {
+            await this.db.updateWebhookDelivery(delivery.id, { status: 'failed', attempts, response_status: responseStatus, error });
+            console.warn(`Webhook delivery ${delivery.id} (${delivery.event}) to ${subscription.url} failed after ${attempts} attempts: ${error}`);
+            return;
+        }
+
+        await this.db.updateWebhookDelivery(delivery.id, {
+            attempts,
+            response_status: responseStatus,
+            error,
+            next_attempt_at: Date.now() + this.options.retryBaseDelayMs * 2 ** (attempts - 1),
+        });
+    }
+
+    /**
+     * Reject URLs whose host is, or resolves to, an address webhooks must not reach
+     */
+    private async checkDestination(url: URL): Promise<void> {
+        const host = url.hostname.replace(/^\[|\]$/g, '');
+        if (this.options.allowedPrivateHosts?.includes(host)) {
+            return;
+        }
+
+        let addresses: { address: string }[];
+        try {
+            addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true, verbatim: true });
+        } catch {
+            throw new WebhookError(`url host ${host} could not be resolved`, 400);
+        }
+        const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+        if (blocked) {
+            throw new WebhookError(`url host ${host} resolves to a non-public address (${blocked.address})`, 400);
+        }
+    }
+
+    /**
+     * POST a delivery and return the response status. The host is checked again
+     * here, and connections only go to the addresses that passed the check, so a
+     * DNS change after subscribing can't point deliveries at internal services.
+     * Redirects are not followed: one could send the signed payload somewhere else.
+     */
+    private async post(url: URL, body: string, headers: Record<string, string>): Promise<number> {
+        await this.checkDestination(url);
+
+        const host = url.hostname.replace(/^\[|\]$/g, '');
+        const allowPrivate = this.options.allowedPrivateHosts?.includes(host) ?? false;
+        const checkedLookup: LookupFunction = (hostname, options, callback) => {
+            dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+                if (err) {
+                    callback(err, '', 0);
+                    return;
+                }
+                const blocked = allowPrivate ? undefined : addresses.find(({ address }) => isBlockedAddress(address));
+                if (blocked || addresses.length === 0) {
+                    callback(new Error(`${hostname} resolves to a non-public address (${blocked?.address ?? 'none'})`), '', 0);
+                } else if (options.all) {
+                    callback(null, addresses);
+                } else {
+                    callback(null, addresses[0].address, addresses[0].family);
+                }
+            });
+        };
+
+        return new Promise((resolve, reject) => {
+            const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(url, {
+                method: 'POST',
+                headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+                lookup: checkedLookup,
+                signal: AbortSignal.timeout(this.options.timeoutMs),
+            }, (response) => {
+                // Only the status matters
+                response.destroy();
+                resolve(response.statusCode ?? 0);
+            });
+            request.on('error', reject);
+            request.end(body);
+        });
+    }
+}
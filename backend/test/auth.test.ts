@@ -0,0 +1,153 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import express from 'express';
+import { Signer, Wallet } from 'ethers';
+import { Database } from '../src/db/database.js';
+import { AuthError, AuthService } from '../src/services/auth.js';
+import { requireAddressMatch, requireAuth } from '../src/middleware/auth.js';
+
+async function signMessage(authService: AuthService, wallet: Signer & { address: string }, domain = 'example.com') {
+    const { nonce } = await authService.createNonce();
+    const message = [
+        `${domain} wants you to sign in with your Ethereum account:`,
+        wallet.address,
+        '',
+        `URI: https://${domain}`,
+        'Version: 1',
+        'Chain ID: 314',
+        `Nonce: ${nonce}`,
+        `Issued At: ${new Date().toISOString()}`,
+    ].join('\n');
+    return { message, signature: await wallet.signMessage(message) };
+}
+
+async function signIn(authService: AuthService, wallet: Signer & { address: string }): Promise<string> {
+    const { message, signature } = await signMessage(authService, wallet);
+    const { token } = await authService.verify(message, signature);
+    return token;
+}
+
+describe('AuthService.verify', () => {
+    let db: Database;
+    const wallet = Wallet.createRandom();
+
+    before(async () => {
+        db = new Database(':memory:');
+        await db.initialize();
+    });
+
+    after(async () => {
+        await db.close();
+    });
+
+    it('rejects a message signed for another domain', async () => {
+        const authService = new AuthService(db, { domain: 'example.com' });
+        const { message, signature } = await signMessage(authService, wallet, 'evil.example');
+        // The configured domain wins over the host the request came from
+        await assert.rejects(authService.verify(message, signature, 'evil.example'), /does not match example\.com/);
+    });
+
+    it('checks the request domain when none is configured', async () => {
+        const authService = new AuthService(db);
+        const signed = await signMessage(authService, wallet, 'evil.example');
+        await assert.rejects(authService.verify(signed.message, signed.signature, 'example.com'), AuthError);
+        await assert.rejects(authService.verify(signed.message, signed.signature), AuthError);
+
+        const { message, signature } = await signMessage(authService, wallet);
+        const session = await authService.verify(message, signature, 'example.com');
+        assert.equal(session.address, wallet.address.toLowerCase());
+    });
+});
+
+describe('requireAuth', () => {
+    let db: Database;
+    let authService: AuthService;
+    let server: Server;
+    let baseUrl: string;
+    const wallet = Wallet.createRandom();
+    const address = wallet.address.toLowerCase();
+    let session: string;
+
+    before(async () => {
+        db = new Database(':memory:');
+        await db.initialize();
+        authService = new AuthService(db, { domain: 'example.com' });
+        session = await signIn(authService, wallet);
+
+        const app = express();
+        const whoAmI = (req: express.Request, res: express.Response) => {
+            res.json({ address: req.userAddress, apiKey: req.apiKey?.id ?? null });
+        };
+        app.post('/upload', requireAuth(authService, 'upload'), whoAmI);
+        app.get('/read', requireAuth(authService, 'read'), whoAmI);
+        app.get('/session-only', requireAuth(authService), whoAmI);
+        app.get('/balance/:userAddress', requireAuth(authService, 'read'), requireAddressMatch((req) => req.params.userAddress), whoAmI);
+
+        server = app.listen(0, '127.0.0.1');
+        await new Promise((resolve) => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        await new Promise((resolve) => server.close(resolve));
+        await db.close();
+    });
+
+    async function call(path: string, headers: Record<string, string> = {}, method = 'GET') {
+        const response = await fetch(`${baseUrl}${path}`, { method, headers });
+        return { status: response.status, body: await response.json() as { address?: string; apiKey?: string | null; error?: string } };
+    }
+
+    it('rejects requests without credentials', async () => {
+        assert.equal((await call('/read')).status, 401);
+    });
+
+    it('accepts a session on every route', async () => {
+        const headers = { Authorization: `Bearer ${session}` };
+        for (const [path, method] of [['/upload', 'POST'], ['/read', 'GET'], ['/session-only', 'GET']]) {
+            const { status, body } = await call(path, headers, method);
+            assert.equal(status, 200, path);
+            assert.deepEqual(body, { address, apiKey: null });
+        }
+    });
+
+    it('rejects unknown sessions', async () => {
+        assert.equal((await call('/read', { Authorization: 'Bearer nope' })).status, 401);
+    });
+
+    it('accepts an API key only on routes naming one of its scopes', async () => {
+        const { apiKey, key } = await authService.createApiKey(address, { name: 'reader', scopes: ['read'] });
+        const headers = { 'X-API-Key': key };
+
+        assert.deepEqual((await call('/read', headers)).body, { address, apiKey: apiKey.id });
+
+        const upload = await call('/upload', headers, 'POST');
+        assert.equal(upload.status, 403);
+        assert.equal(upload.body.error, 'API key lacks the upload scope');
+
+        const sessionOnly = await call('/session-only', headers);
+        assert.equal(sessionOnly.status, 403);
+        assert.equal(sessionOnly.body.error, 'This route requires a signed-in session');
+    });
+
+    it('rejects revoked API keys', async () => {
+        const { apiKey, key } = await authService.createApiKey(address, { name: 'revoked', scopes: ['read', 'upload'] });
+        await authService.revokeApiKey(address, apiKey.id);
+        assert.equal((await call('/read', { 'X-API-Key': key })).status, 401);
+    });
+
+    it('rejects scopes that do not exist', async () => {
+        await assert.rejects(
+            authService.createApiKey(address, { name: 'admin', scopes: ['admin' as 'read'] }),
+            /scopes must list one or more of/
+        );
+    });
+
+    it('keeps API keys to their own address', async () => {
+        const { key } = await authService.createApiKey(address, { name: 'balance', scopes: ['read'] });
+        assert.equal((await call(`/balance/${address}`, { 'X-API-Key': key })).status, 200);
+        assert.equal((await call(`/balance/0x${'b'.repeat(40)}`, { 'X-API-Key': key })).status, 403);
+    });
+});
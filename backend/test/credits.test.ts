@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Database } from '../src/db/database.js';
+import { CreditService } from '../src/services/credits.js';
+
+const ALICE = '0x' + 'a'.repeat(40);
+
+describe('CreditService', () => {
+    let db: Database;
+    let credits: CreditService;
+
+    beforeEach(async () => {
+        db = new Database(':memory:');
+        await db.initialize();
+        credits = new CreditService(db);
+        await credits.addCredits(ALICE, 1000n, '0xdeposit');
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    async function transactions(type?: 'deposit' | 'deduct' | 'refund') {
+        const page = await db.getCreditTransactions(ALICE, { type, sort: 'created_at', order: 'asc', limit: 100 });
+        return page.rows;
+    }
+
+    it('records deposits in the balance and the ledger', async () => {
+        assert.equal(await credits.getBalance(ALICE), 1000n);
+        const [deposit] = await transactions('deposit');
+        assert.equal(deposit.amount, '1000');
+        assert.equal(deposit.bridge_request_id, '0xdeposit');
+    });
+
+    it('takes a hold out of the balance until it is settled', async () => {
+        const hold = await credits.placeHold(ALICE, 300n, 'file-1', 'Upload');
+        assert.equal(hold.success, true);
+        assert.equal(await credits.getBalance(ALICE), 700n);
+        assert.equal(await credits.getHeldAmount(ALICE), 300n);
+    });
+
+    it('refuses a hold larger than the balance', async () => {
+        const hold = await credits.placeHold(ALICE, 1001n, 'file-1', 'Upload');
+        assert.equal(hold.success, false);
+        assert.equal(hold.error, 'Insufficient credits');
+        assert.equal(hold.requiredAmount, 1001n);
+        assert.equal(await credits.getBalance(ALICE), 1000n);
+    });
+
+    it('refuses holds that are not positive', async () => {
+        for (const amount of [0n, -500n]) {
+            const hold = await credits.placeHold(ALICE, amount, 'file-1', 'Upload');
+            assert.equal(hold.success, false);
+        }
+        assert.equal(await credits.getBalance(ALICE), 1000n);
+        assert.equal(await credits.getHeldAmount(ALICE), 0n);
+    });
+
+    it('lets only one of two concurrent holds spend the same balance', async () => {
+        const results = await Promise.all([
+            credits.placeHold(ALICE, 600n, 'file-1', 'Upload'),
+            credits.placeHold(ALICE, 600n, 'file-2', 'Upload'),
+        ]);
+        assert.deepEqual(results.map((result) => result.success).sort(), [false, true]);
+        assert.equal(await credits.getBalance(ALICE), 400n);
+    });
+
+    it('captures a hold as a deduction and returns what was not captured', async () => {
+        const { holdId } = await credits.placeHold(ALICE, 300n, 'file-1', 'Upload');
+        await credits.captureHold(holdId!, 250n);
+
+        assert.equal(await credits.getBalance(ALICE), 750n);
+        assert.equal(await credits.getHeldAmount(ALICE), 0n);
+        assert.equal((await db.getCreditHold(holdId!))!.status, 'captured');
+        const [deduction] = await transactions('deduct');
+        assert.equal(deduction.amount, '250');
+        assert.equal(deduction.file_id, 'file-1');
+    });
+
+    it('refuses to capture a hold twice or for more than it holds', async () => {
+        const { holdId } = await credits.placeHold(ALICE, 300n, 'file-1', 'Upload');
+        await assert.rejects(credits.captureHold(holdId!, 301n), /Cannot capture 301/);
+        await credits.captureHold(holdId!);
+        await assert.rejects(credits.captureHold(holdId!), /already captured/);
+        assert.equal(await credits.getBalance(ALICE), 700n);
+    });
+
+    it('releases a hold back to the balance once', async () => {
+        const { holdId } = await credits.placeHold(ALICE, 300n, 'file-1', 'Upload');
+        await credits.releaseHold(holdId!, 'Upload failed');
+        await credits.releaseHold(holdId!, 'Upload failed');
+
+        assert.equal(await credits.getBalance(ALICE), 1000n);
+        assert.equal((await db.getCreditHold(holdId!))!.status, 'released');
+        assert.deepEqual(await transactions('deduct'), []);
+    });
+
+    it('settles a batch hold one share at a time', async () => {
+        const { holdId } = await credits.placeHold(ALICE, 600n, null, 'Batch upload');
+
+        await credits.captureHold(holdId!, undefined, { share: 200n, fileId: 'file-1', description: 'Upload 1' });
+        assert.equal((await db.getCreditHold(holdId!))!.status, 'held');
+        await credits.releaseHold(holdId!, 'Upload failed', 300n);
+        assert.equal(await credits.getHeldAmount(ALICE), 100n);
+        await assert.rejects(
+            credits.captureHold(holdId!, undefined, { share: 150n, fileId: 'file-3', description: 'Upload 3' }),
+            /only 100 is still held/
+        );
+        await credits.captureHold(holdId!, 80n, { share: 100n, fileId: 'file-3', description: 'Upload 3' });
+
+        const hold = (await db.getCreditHold(holdId!))!;
+        assert.equal(hold.status, 'captured');
+        assert.equal(hold.captured_amount, '280');
+        assert.equal(hold.released_amount, '320');
+        assert.equal(await credits.getBalance(ALICE), 720n);
+        assert.deepEqual((await transactions('deduct')).map((tx) => [tx.file_id, tx.amount]), [['file-1', '200'], ['file-3', '80']]);
+    });
+
+    it('never releases more of a batch hold than is left', async () => {
+        const { holdId } = await credits.placeHold(ALICE, 600n, null, 'Batch upload');
+        await credits.captureHold(holdId!, undefined, { share: 500n, fileId: 'file-1', description: 'Upload 1' });
+        await credits.releaseHold(holdId!, 'Batch upload interrupted', 400n);
+
+        assert.equal(await credits.getBalance(ALICE), 500n);
+        assert.equal((await db.getCreditHold(holdId!))!.status, 'captured');
+    });
+});
@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Database } from '../src/db/database.js';
+import { CreditService } from '../src/services/credits.js';
+import { StorageExpiryScheduler } from '../src/services/expiry.js';
+import { FileService } from '../src/services/files.js';
+import { OrganizationService } from '../src/services/organizations.js';
+import { PricingService } from '../src/services/pricing.js';
+import { RetrievalCache } from '../src/services/retrieval-cache.js';
+import { SynapseService } from '../src/services/synapse.js';
+import { UploadService } from '../src/services/upload.js';
+
+const OWNER = '0x' + 'a'.repeat(40);
+const COMMP = 'baga6ea4seaqdedup';
+const DAY_MS = 86_400_000;
+
+/**
+ * A storage provider that stores every piece under the same CommP and counts the calls
+ */
+class FakeSynapse {
+    uploads = 0;
+    deletes = 0;
+    // Set to hold deletePiece until the test lets it finish
+    deleteGate: Promise<void> | null = null;
+    onDelete: () => void = () => { };
+
+    async uploadFile() {
+        this.uploads++;
+        return { commp: COMMP, providerId: 'provider-1' };
+    }
+
+    async deletePiece(commp: string) {
+        this.deletes++;
+        this.onDelete();
+        await this.deleteGate;
+        return `0xdelete-${commp}`;
+    }
+}
+
+describe('Deduplicated storage', () => {
+    let db: Database;
+    let dir: string;
+    let synapse: FakeSynapse;
+    let evicted: string[];
+    let credits: CreditService;
+    let uploads: UploadService;
+    let files: FileService;
+    let expiry: StorageExpiryScheduler;
+
+    beforeEach(async () => {
+        db = new Database(':memory:');
+        await db.initialize();
+        dir = await mkdtemp(join(tmpdir(), 'dedup-test-'));
+        synapse = new FakeSynapse();
+        evicted = [];
+        const cache = {
+            adopt: async () => { },
+            evict: async (commp: string) => { evicted.push(commp); },
+        } as unknown as RetrievalCache;
+
+        credits = new CreditService(db);
+        await credits.addCredits(OWNER, 1_000_000n, 'bridge-1');
+        // Linked copies are free, so pricing is never read
+        const pricing = { prices: {} } as PricingService;
+        uploads = new UploadService(db, synapse as unknown as SynapseService, credits, cache, pricing, dir, 'free');
+        files = new FileService(db, credits, synapse as unknown as SynapseService, cache, pricing, new OrganizationService(db, credits));
+        expiry = new StorageExpiryScheduler(db, cache, { intervalMs: 60_000, expiringSoonMs: DAY_MS });
+    });
+
+    afterEach(async () => {
+        await db.close();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    // Queue an upload of content and run its job to completion
+    async function upload(fileId: string, content: string, storageDurationDays = 30) {
+        const tempPath = join(dir, `${fileId}.tmp`);
+        await writeFile(tempPath, content);
+        const hold = await credits.placeHold(OWNER, 1000n, fileId, `Upload ${fileId}`);
+        await uploads.initiateUpload({
+            tempPath,
+            fileSize: Buffer.byteLength(content),
+            fileHash: await uploads.calculateFileHash(tempPath),
+            fileName: `${fileId}.txt`,
+            userAddress: OWNER,
+            fileId,
+            storageDurationDays,
+            storageCost: '1000',
+            lockupCost: '100',
+            holdId: hold.holdId!,
+        });
+        await uploads.runJob((await db.getUploadJob(fileId))!);
+    }
+
+    it('links a duplicate upload to the stored piece', async () => {
+        await upload('first', 'same bytes');
+        await upload('second', 'same bytes');
+
+        assert.equal(synapse.uploads, 1);
+        assert.equal((await db.getUserFile('second'))!.commp, COMMP);
+        // Linked copies are repriced with the dedup policy
+        assert.equal((await db.getUserFile('second'))!.storage_cost, '0');
+        assert.equal((await db.getStoredObject(COMMP))!.ref_count, 2);
+    });
+
+    it('keeps the piece while another file points at it and deletes it with the last one', async () => {
+        await upload('first', 'same bytes');
+        await upload('second', 'same bytes');
+
+        const kept = await files.deleteFile('first', OWNER);
+        assert.equal(kept.transactionHash, null);
+        assert.equal(synapse.deletes, 0);
+        assert.deepEqual(evicted, []);
+        assert.equal((await db.getStoredObject(COMMP))!.ref_count, 1);
+
+        const deleted = await files.deleteFile('second', OWNER);
+        assert.equal(deleted.transactionHash, `0xdelete-${COMMP}`);
+        assert.equal(synapse.deletes, 1);
+        assert.deepEqual(evicted, [COMMP]);
+        const object = (await db.getStoredObject(COMMP))!;
+        assert.equal(object.status, 'deleted');
+        assert.equal(object.ref_count, 0);
+    });
+
+    it('releases the reference on expiry but keeps the piece for renewal', async () => {
+        await upload('short', 'same bytes', 1);
+        await upload('long', 'same bytes', 30);
+
+        await expiry.runOnce(Date.now() + 2 * DAY_MS);
+        assert.equal((await db.getUserFile('short'))!.status, 'expired');
+        assert.equal((await db.getStoredObject(COMMP))!.ref_count, 1);
+        assert.deepEqual(evicted, []);
+
+        // The expired file still points at the piece, so deleting the other one keeps it
+        await files.deleteFile('long', OWNER);
+        assert.equal(synapse.deletes, 0);
+        assert.equal((await db.getStoredObject(COMMP))!.ref_count, 0);
+        assert.deepEqual(evicted, []);
+
+        // Deleting the expired file doesn't release its reference a second time
+        await files.deleteFile('short', OWNER);
+        assert.equal(synapse.deletes, 1);
+        assert.equal((await db.getStoredObject(COMMP))!.status, 'deleted');
+    });
+
+    it('evicts the cache when the last reference expires', async () => {
+        await upload('only', 'unique bytes', 1);
+
+        await expiry.runOnce(Date.now() + 2 * DAY_MS);
+        assert.equal((await db.getStoredObject(COMMP))!.ref_count, 0);
+        assert.deepEqual(evicted, [COMMP]);
+    });
+
+    it('deletes a shared piece once when both files are deleted together', async () => {
+        await upload('first', 'same bytes');
+        await upload('second', 'same bytes');
+
+        await Promise.all([files.deleteFile('first', OWNER), files.deleteFile('second', OWNER)]);
+        assert.equal(synapse.deletes, 1);
+        assert.equal((await db.getStoredObject(COMMP))!.status, 'deleted');
+    });
+
+    it('does not link an upload to a piece that is being deleted', async () => {
+        await upload('first', 'same bytes');
+
+        let releaseDelete!: () => void;
+        synapse.deleteGate = new Promise((resolve) => { releaseDelete = resolve; });
+        const deleteStarted = new Promise<void>((resolve) => { synapse.onDelete = resolve; });
+        const deleting = files.deleteFile('first', OWNER);
+        await deleteStarted;
+
+        assert.equal((await db.getStoredObject(COMMP))!.status, 'deleting');
+        assert.equal(await db.retainStoredObject(COMMP), false);
+
+        // The duplicate is uploaded again instead of pointing at the piece going away
+        await upload('second', 'same bytes');
+        assert.equal(synapse.uploads, 2);
+
+        releaseDelete();
+        await deleting;
+
+        // The re-upload owns the object and the cache now
+        const object = (await db.getStoredObject(COMMP))!;
+        assert.equal(object.status, 'active');
+        assert.equal(object.ref_count, 1);
+        assert.deepEqual(evicted, []);
+    });
+
+    it('puts the file and its reference back when the provider refuses the delete', async () => {
+        await upload('first', 'same bytes');
+        synapse.deletePiece = async () => {
+            throw new Error('provider unavailable');
+        };
+
+        await assert.rejects(files.deleteFile('first', OWNER), /provider unavailable/);
+        assert.equal((await db.getUserFile('first'))!.status, 'active');
+        const object = (await db.getStoredObject(COMMP))!;
+        assert.equal(object.status, 'active');
+        assert.equal(object.ref_count, 1);
+    });
+});
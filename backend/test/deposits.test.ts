@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getAddress } from 'ethers';
+import { Database } from '../src/db/database.js';
+import { CreditService } from '../src/services/credits.js';
+import { BridgeReceipt, DepositService } from '../src/services/deposits.js';
+
+const ALICE = '0x' + 'a'.repeat(40);
+const MALLORY = '0x' + 'b'.repeat(40);
+const BACKEND = '0x' + 'c'.repeat(40);
+const USDFC = '0x' + 'f'.repeat(40);
+const REQUEST_ID = '0x' + '1'.repeat(64);
+const FILECOIN_CHAIN_ID = 314;
+const SOURCE_CHAIN_ID = 8453;
+
+describe('DepositService', () => {
+    let db: Database;
+    let credits: CreditService;
+    let deposits: DepositService;
+    let receipt: BridgeReceipt;
+    let sender: string;
+
+    beforeEach(async () => {
+        db = new Database(':memory:');
+        await db.initialize();
+        credits = new CreditService(db);
+        deposits = new DepositService(db, credits, {
+            backendAddress: BACKEND,
+            routerAddress: '0x' + 'd'.repeat(40),
+            rpcUrl: 'http://127.0.0.1:1',
+            chainId: FILECOIN_CHAIN_ID,
+            tokenAddress: USDFC,
+            sourceChains: {},
+        });
+
+        // The chains are stubbed; each test edits the receipt and sender it wants
+        receipt = {
+            fulfilled: true,
+            srcChainId: SOURCE_CHAIN_ID,
+            dstChainId: FILECOIN_CHAIN_ID,
+            tokenOut: USDFC,
+            recipient: BACKEND,
+            amountOut: 100n,
+        };
+        sender = getAddress(ALICE);
+        deposits.fetchReceipt = async () => receipt;
+        deposits.fetchSender = async (srcChainId) => (srcChainId === SOURCE_CHAIN_ID ? sender : null);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    it('credits the delivered amount once', async () => {
+        assert.deepEqual(await deposits.claimDeposit(ALICE, REQUEST_ID, 100n), { status: 'credited', amount: 100n });
+        assert.equal(await credits.getBalance(ALICE), 100n);
+
+        const again = await deposits.claimDeposit(ALICE, REQUEST_ID, 100n);
+        assert.equal(again.status, 'duplicate');
+        assert.equal(await credits.getBalance(ALICE), 100n);
+        assert.equal((await db.getBridgeDeposit(REQUEST_ID))!.status, 'credited');
+        assert.equal((await db.getBridgeDeposit(REQUEST_ID))!.discrepancy, null);
+    });
+
+    it('credits amountOut when the claimed amount differs', async () => {
+        assert.deepEqual(await deposits.claimDeposit(ALICE, REQUEST_ID, 90n), { status: 'credited', amount: 100n });
+        assert.equal(await credits.getBalance(ALICE), 100n);
+
+        const deposit = (await db.getBridgeDeposit(REQUEST_ID))!;
+        assert.equal(deposit.claimed_amount, '90');
+        assert.equal(deposit.verified_amount, '100');
+        assert.equal(deposit.discrepancy, 'Claimed 90 but the bridge delivered 100');
+    });
+
+    it('credits concurrent claims of one deposit once', async () => {
+        const results = await Promise.all([
+            deposits.claimDeposit(ALICE, REQUEST_ID, 100n),
+            deposits.claimDeposit(ALICE, REQUEST_ID, 100n),
+        ]);
+        assert.deepEqual(results.map((result) => result.status).sort(), ['credited', 'duplicate']);
+        assert.equal(await credits.getBalance(ALICE), 100n);
+    });
+
+    it('leaves unfulfilled requests unrecorded so they can be claimed later', async () => {
+        receipt.fulfilled = false;
+        assert.equal((await deposits.claimDeposit(ALICE, REQUEST_ID, 100n)).status, 'pending');
+        assert.equal(await db.getBridgeDeposit(REQUEST_ID), null);
+
+        receipt.fulfilled = true;
+        assert.equal((await deposits.claimDeposit(ALICE, REQUEST_ID, 100n)).status, 'credited');
+    });
+
+    it('refuses claims by anyone but the sender without recording them', async () => {
+        assert.equal((await deposits.claimDeposit(MALLORY, REQUEST_ID, 100n)).status, 'forbidden');
+        assert.equal(await db.getBridgeDeposit(REQUEST_ID), null);
+        assert.equal(await credits.getBalance(MALLORY), 0n);
+
+        assert.equal((await deposits.claimDeposit(ALICE, REQUEST_ID, 100n)).status, 'credited');
+    });
+
+    it('rejects deposits from chains that are not configured', async () => {
+        receipt.srcChainId = 1;
+        const result = await deposits.claimDeposit(ALICE, REQUEST_ID, 100n);
+        assert.equal(result.status, 'rejected');
+        assert.equal(await db.getBridgeDeposit(REQUEST_ID), null);
+    });
+
+    it('rejects deposits bridged to another recipient or chain for good', async () => {
+        receipt.recipient = MALLORY;
+        assert.equal((await deposits.claimDeposit(ALICE, REQUEST_ID, 100n)).status, 'rejected');
+        assert.equal((await db.getBridgeDeposit(REQUEST_ID))!.status, 'rejected');
+
+        receipt.recipient = BACKEND;
+        assert.equal((await deposits.claimDeposit(ALICE, REQUEST_ID, 100n)).status, 'rejected');
+        assert.equal(await credits.getBalance(ALICE), 0n);
+
+        receipt.dstChainId = 1;
+        const other = await deposits.claimDeposit(ALICE, '0x' + '2'.repeat(64), 100n);
+        assert.equal(other.status, 'rejected');
+    });
+
+    it('rejects deposits of any token but USDFC', async () => {
+        receipt.tokenOut = '0x' + '9'.repeat(40);
+        const result = await deposits.claimDeposit(ALICE, REQUEST_ID, 100n);
+        assert.equal(result.status, 'rejected');
+        assert.match((result as { reason: string }).reason, /is not USDFC/);
+        assert.equal((await db.getBridgeDeposit(REQUEST_ID))!.status, 'rejected');
+        assert.equal(await credits.getBalance(ALICE), 0n);
+    });
+
+    it('credits an organization pool on behalf of the sender', async () => {
+        const account = 'org:acme';
+        assert.equal((await deposits.claimDeposit(ALICE, REQUEST_ID, 100n, account)).status, 'credited');
+        assert.equal(await credits.getBalance(account), 100n);
+        assert.equal(await credits.getBalance(ALICE), 0n);
+
+        const [deposit] = (await db.getCreditTransactions(account, { sort: 'created_at', order: 'asc', limit: 10 })).rows;
+        assert.equal(deposit.member_address, ALICE);
+    });
+});
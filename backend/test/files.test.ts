@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Database, FileVisibility } from '../src/db/database.js';
+import { CreditService } from '../src/services/credits.js';
+import { FileOperationError, FileService } from '../src/services/files.js';
+import { OrganizationService } from '../src/services/organizations.js';
+import { PricingService } from '../src/services/pricing.js';
+import { RetrievalCache } from '../src/services/retrieval-cache.js';
+import { SynapseService } from '../src/services/synapse.js';
+
+const OWNER = '0x' + 'a'.repeat(40);
+const READER = '0x' + 'b'.repeat(40);
+const STRANGER = '0x' + 'c'.repeat(40);
+const VIEWER = '0x' + 'd'.repeat(40);
+const COMMP = 'baga6ea4seaqtest';
+
+function withStatus(status: number) {
+    return (error: unknown) => error instanceof FileOperationError && error.status === status;
+}
+
+describe('FileService access', () => {
+    let db: Database;
+    let organizations: OrganizationService;
+    let files: FileService;
+
+    beforeEach(async () => {
+        db = new Database(':memory:');
+        await db.initialize();
+        const credits = new CreditService(db);
+        organizations = new OrganizationService(db, credits);
+        // Access checks never reach the storage provider, the cache or pricing
+        files = new FileService(db, credits, {} as SynapseService, {} as RetrievalCache, {} as PricingService, organizations);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    async function createFile(id: string, userAddress: string, visibility: FileVisibility, orgId: string | null = null) {
+        await db.createUserFile({
+            id,
+            user_address: userAddress,
+            org_id: orgId,
+            file_name: `${id}.txt`,
+            file_size: 10,
+            file_hash: 'hash',
+            commp: COMMP,
+            provider_id: null,
+            storage_duration_days: 30,
+            storage_cost: '1',
+            lockup_cost: '0',
+            root_cid: null,
+            encryption: null,
+            visibility,
+        });
+    }
+
+    it('lets only the owner and allowed readers download a private file', async () => {
+        await createFile('private', OWNER, 'private');
+        await files.addReader('private', OWNER, READER.toUpperCase().replace('0X', '0x'));
+
+        assert.equal((await files.getReadable(COMMP, OWNER)).id, 'private');
+        assert.equal((await files.getReadable(COMMP, READER)).id, 'private');
+        await assert.rejects(files.getReadable(COMMP, STRANGER), withStatus(404));
+        await assert.rejects(files.getReadable(COMMP), withStatus(404));
+    });
+
+    it('stops a removed reader from downloading', async () => {
+        await createFile('private', OWNER, 'private');
+        await files.addReader('private', OWNER, READER);
+        await files.removeReader('private', OWNER, READER);
+
+        await assert.rejects(files.getReadable(COMMP, READER), withStatus(404));
+        await assert.rejects(files.removeReader('private', OWNER, READER), withStatus(404));
+    });
+
+    it('lets anyone download public and unlisted files', async () => {
+        await createFile('unlisted', OWNER, 'unlisted');
+        assert.equal((await files.getReadable(COMMP)).id, 'unlisted');
+        assert.equal((await files.getReadable(COMMP, STRANGER)).id, 'unlisted');
+    });
+
+    it('prefers the reader\'s own copy of a shared piece', async () => {
+        await createFile('theirs', OWNER, 'public');
+        await createFile('mine', READER, 'private');
+        assert.equal((await files.getReadable(COMMP, READER)).id, 'mine');
+        assert.equal((await files.getReadable(COMMP, STRANGER)).id, 'theirs');
+    });
+
+    it('keeps readers and visibility in the owner\'s hands', async () => {
+        await createFile('private', OWNER, 'private');
+        await files.addReader('private', OWNER, READER);
+
+        await assert.rejects(files.addReader('private', READER, STRANGER), withStatus(404));
+        await assert.rejects(files.listReaders('private', READER), withStatus(404));
+        await assert.rejects(files.setVisibility('private', READER, 'public'), withStatus(404));
+        await assert.rejects(files.addReader('private', OWNER, OWNER), withStatus(400));
+        await assert.rejects(files.addReader('private', OWNER, 'not-an-address'), withStatus(400));
+        assert.deepEqual((await files.listReaders('private', OWNER)).map((reader) => reader.reader_address), [READER]);
+    });
+
+    it('lets organization members read its files, but only managers change them', async () => {
+        const orgId = (await organizations.create(OWNER, 'Acme')).id;
+        await organizations.setMember(orgId, OWNER, VIEWER, { role: 'viewer' });
+        await createFile('org-file', OWNER, 'private', orgId);
+
+        assert.equal((await files.getReadable(COMMP, VIEWER)).id, 'org-file');
+        await assert.rejects(files.getReadable(COMMP, STRANGER), withStatus(404));
+        await assert.rejects(files.addReader('org-file', VIEWER, READER), withStatus(403));
+        await assert.rejects(files.addReader('org-file', STRANGER, READER), withStatus(404));
+        await files.addReader('org-file', OWNER, READER);
+        assert.equal((await files.getReadable(COMMP, READER)).id, 'org-file');
+    });
+});
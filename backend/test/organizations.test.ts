@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Database } from '../src/db/database.js';
+import { CreditService } from '../src/services/credits.js';
+import { OrganizationError, OrganizationService, organizationAccount } from '../src/services/organizations.js';
+
+const OWNER = '0x' + 'a'.repeat(40);
+const ADMIN = '0x' + 'b'.repeat(40);
+const UPLOADER = '0x' + 'c'.repeat(40);
+const VIEWER = '0x' + 'd'.repeat(40);
+const OUTSIDER = '0x' + 'e'.repeat(40);
+
+function withStatus(status: number) {
+    return (error: unknown) => error instanceof OrganizationError && error.status === status;
+}
+
+describe('OrganizationService', () => {
+    let db: Database;
+    let credits: CreditService;
+    let organizations: OrganizationService;
+    let orgId: string;
+    let account: string;
+
+    beforeEach(async () => {
+        db = new Database(':memory:');
+        await db.initialize();
+        credits = new CreditService(db);
+        organizations = new OrganizationService(db, credits);
+
+        orgId = (await organizations.create(OWNER, 'Acme')).id;
+        account = organizationAccount(orgId);
+        await organizations.setMember(orgId, OWNER, ADMIN, { role: 'admin' });
+        await organizations.setMember(orgId, ADMIN, UPLOADER, { role: 'uploader', spendingLimit: '500' });
+        await organizations.setMember(orgId, ADMIN, VIEWER, { role: 'viewer' });
+        await credits.addCredits(account, 1000n, '0xdeposit', OWNER);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    describe('roles', () => {
+        it('lets each role take only its own actions', async () => {
+            await organizations.authorize(orgId, UPLOADER, 'spend');
+            await organizations.authorize(orgId, VIEWER, 'fund');
+            await assert.rejects(organizations.authorize(orgId, VIEWER, 'spend'), withStatus(403));
+            await assert.rejects(organizations.authorize(orgId, UPLOADER, 'manage_files'), withStatus(403));
+            await assert.rejects(organizations.authorize(orgId, UPLOADER, 'manage_members'), withStatus(403));
+        });
+
+        it('reports the organization as missing to non-members', async () => {
+            await assert.rejects(organizations.authorize(orgId, OUTSIDER, 'read'), withStatus(404));
+            await assert.rejects(organizations.payer(OUTSIDER, orgId), withStatus(404));
+        });
+
+        it('only lets owners manage owners and admins', async () => {
+            await assert.rejects(organizations.setMember(orgId, ADMIN, OUTSIDER, { role: 'admin' }), withStatus(403));
+            await assert.rejects(organizations.setMember(orgId, ADMIN, OWNER, { role: 'viewer' }), withStatus(403));
+            await assert.rejects(organizations.removeMember(orgId, ADMIN, OWNER), withStatus(403));
+            await organizations.setMember(orgId, ADMIN, VIEWER, { role: 'uploader' });
+            assert.equal((await organizations.getMembership(orgId, VIEWER))!.role, 'uploader');
+        });
+
+        it('never leaves an organization without an owner', async () => {
+            await assert.rejects(organizations.removeMember(orgId, OWNER, OWNER), withStatus(409));
+            await assert.rejects(organizations.setMember(orgId, OWNER, OWNER, { role: 'admin' }), withStatus(409));
+
+            await organizations.setMember(orgId, OWNER, ADMIN, { role: 'owner' });
+            await organizations.removeMember(orgId, OWNER, OWNER);
+            assert.equal(await organizations.getMembership(orgId, OWNER), null);
+        });
+
+        it('lets any member leave on their own', async () => {
+            await organizations.removeMember(orgId, VIEWER, VIEWER);
+            assert.equal(await organizations.getMembership(orgId, VIEWER), null);
+        });
+    });
+
+    describe('spending limits', () => {
+        it('pays from the pool within the member\'s limit', async () => {
+            const payer = await organizations.payer(UPLOADER, orgId);
+            assert.equal(payer.account, account);
+            assert.deepEqual(payer.spender, { memberAddress: UPLOADER, spendingLimit: 500n });
+
+            const hold = await credits.placeHold(payer.account, 400n, 'file-1', 'Upload', payer.spender);
+            assert.equal(hold.success, true);
+            assert.equal((await db.getCreditHold(hold.holdId!))!.member_address, UPLOADER);
+        });
+
+        it('counts captured charges and open holds against the limit', async () => {
+            const payer = await organizations.payer(UPLOADER, orgId);
+            const first = await credits.placeHold(payer.account, 200n, 'file-1', 'Upload', payer.spender);
+            await credits.captureHold(first.holdId!);
+            await credits.placeHold(payer.account, 200n, 'file-2', 'Upload', payer.spender);
+
+            const over = await credits.placeHold(payer.account, 101n, 'file-3', 'Upload', payer.spender);
+            assert.equal(over.success, false);
+            assert.equal(over.error, 'Spending limit exceeded');
+            assert.equal(over.spent, 400n);
+            assert.equal(over.spendingLimit, 500n);
+
+            assert.equal((await credits.placeHold(payer.account, 100n, 'file-3', 'Upload', payer.spender)).success, true);
+            assert.equal(await credits.getMonthlySpend(account, UPLOADER), 500n);
+        });
+
+        it('no longer counts released holds', async () => {
+            const payer = await organizations.payer(UPLOADER, orgId);
+            const hold = await credits.placeHold(payer.account, 500n, 'file-1', 'Upload', payer.spender);
+            await credits.releaseHold(hold.holdId!, 'Upload failed');
+            assert.equal(await credits.getMonthlySpend(account, UPLOADER), 0n);
+            assert.equal((await credits.placeHold(payer.account, 500n, 'file-2', 'Upload', payer.spender)).success, true);
+        });
+
+        it('leaves members without a limit bound only by the pool', async () => {
+            const payer = await organizations.payer(ADMIN, orgId);
+            assert.equal((await credits.placeHold(payer.account, 1000n, 'file-1', 'Upload', payer.spender)).success, true);
+            assert.equal((await credits.placeHold(payer.account, 1n, 'file-2', 'Upload', payer.spender)).error, 'Insufficient credits');
+        });
+
+        it('keeps each member\'s spending separate', async () => {
+            await organizations.setMember(orgId, ADMIN, VIEWER, { role: 'uploader', spendingLimit: '300' });
+            const uploader = await organizations.payer(UPLOADER, orgId);
+            const other = await organizations.payer(VIEWER, orgId);
+            await credits.placeHold(uploader.account, 500n, 'file-1', 'Upload', uploader.spender);
+            assert.equal((await credits.placeHold(other.account, 300n, 'file-2', 'Upload', other.spender)).success, true);
+        });
+    });
+});
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Database } from '../src/db/database.js';
+import { QuotaExceededError, QuotaService } from '../src/services/quotas.js';
+
+const ALICE = '0x' + 'a'.repeat(40);
+
+describe('QuotaService', () => {
+    let db: Database;
+    let quotas: QuotaService;
+
+    beforeEach(async () => {
+        db = new Database(':memory:');
+        await db.initialize();
+        quotas = new QuotaService(db, { requestsPerMinute: 2, maxConcurrentUploads: 1, dailyUploadBytes: 100, maxStoredBytes: 0 });
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    it('lets only one of two parallel reservations fit the daily quota', async () => {
+        const results = await Promise.allSettled([quotas.reserve(ALICE, 60), quotas.reserve(ALICE, 60)]);
+        assert.deepEqual(results.map((result) => result.status).sort(), ['fulfilled', 'rejected']);
+        const rejected = results.find((result) => result.status === 'rejected') as PromiseRejectedResult;
+        assert.ok(rejected.reason instanceof QuotaExceededError);
+        assert.equal(rejected.reason.status, 429);
+
+        // The refused reservation gave its bytes back
+        await quotas.reserve(ALICE, 40);
+    });
+
+    it('counts committed bytes against the day once released', async () => {
+        const reservation = await quotas.reserve(ALICE, 70);
+        await quotas.commit(reservation);
+        quotas.release(reservation);
+
+        await assert.rejects(quotas.reserve(ALICE, 31), QuotaExceededError);
+        await quotas.reserve(ALICE, 30);
+    });
+
+    it('frees the bytes of a released reservation that was never committed', async () => {
+        const reservation = await quotas.reserve(ALICE, 100);
+        quotas.release(reservation);
+        quotas.release(reservation);
+        await quotas.reserve(ALICE, 100);
+    });
+
+    it('limits parallel uploads and requests per window', () => {
+        const release = quotas.acquireUploadSlot(ALICE);
+        assert.throws(() => quotas.acquireUploadSlot(ALICE), QuotaExceededError);
+        release();
+        quotas.acquireUploadSlot(ALICE)();
+
+        quotas.consumeRequest('address:alice', 0);
+        quotas.consumeRequest('address:alice', 0);
+        assert.throws(() => quotas.consumeRequest('address:alice', 0), QuotaExceededError);
+        assert.equal(quotas.consumeRequest('address:alice', 60_000).remaining, 1);
+    });
+});
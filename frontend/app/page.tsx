@@ -8,12 +8,15 @@ import { UploadPanel } from "../components/UploadPanel";
 import { FilesTable } from "../components/FilesTable";
 import { useState, useEffect } from "react";
 import { Skeleton } from "../components/ui/skeleton";
+import { SignInPrompt } from "../components/ConnectWallet";
+import { useSessionToken } from "../lib/session";
 
 // Dynamically import ConnectWallet to ensure Web3Modal is initialized client-side
 const ConnectWallet = dynamic(() => import("../components/ConnectWallet").then((mod) => ({ default: mod.ConnectWallet })), { ssr: false });
 
 export default function Home() {
-    const { isConnected } = useAccount();
+    const { isConnected, address } = useAccount();
+    const sessionToken = useSessionToken(address);
     const [mounted, setMounted] = useState(false);
     const [refreshKey, setRefreshKey] = useState(0);
     const onUploaded = () => setRefreshKey((k) => k + 1);
@@ -50,6 +53,20 @@ export default function Home() {
         );
     }
 
+    // Ask for a wallet signature before showing per-user data
+    if (!sessionToken) {
+        return (
+            <main className="min-h-screen gradient-bg">
+                <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-8">
+                    <header className="flex justify-end pb-6">
+                        <WalletButton />
+                    </header>
+                    <SignInPrompt />
+                </div>
+            </main>
+        );
+    }
+
     // Show main app when connected
     return (
         <main className="min-h-screen gradient-bg">
@@ -1,13 +1,15 @@
 "use client";
 
 import React, { useLayoutEffect, useEffect, useState } from "react";
-import { useAccount } from "wagmi";
+import { useAccount, useWalletClient } from "wagmi";
+import { SynapseStorageClient } from "@autofi/sdk/synapse";
 // Import web3modal module first to ensure initialization
 import "../lib/web3modal";
 import { useWeb3Modal, isWeb3ModalEnabled } from "../lib/web3modal";
 import { useConnect } from "wagmi";
 import { Button } from "./ui/button";
-import { Wallet, Database, ArrowLeftRight } from "lucide-react";
+import { Wallet, Database, ArrowLeftRight, KeyRound } from "lucide-react";
+import { storeSession } from "../lib/session";
 
 function ConnectWithModal() {
     const [mounted, setMounted] = useState(false);
@@ -143,6 +145,60 @@ function ConnectWithFallback() {
     );
 }
 
+/**
+ * Shown after the wallet connects but before the backend session exists.
+ * Signing the EIP-4361 message proves wallet ownership to the backend.
+ */
+export function SignInPrompt() {
+    const { address } = useAccount();
+    const { data: walletClient } = useWalletClient();
+    const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL;
+    const [isSigning, setIsSigning] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const handleSignIn = async () => {
+        if (!walletClient || !address) {
+            setMessage("Wallet not ready. Please wait a moment and try again.");
+            return;
+        }
+        try {
+            setIsSigning(true);
+            setMessage(null);
+            const client = new SynapseStorageClient({
+                backendUrl: backendUrl ?? "",
+                // @ts-expect-error - viem version mismatch
+                walletClient
+            });
+            const session = await client.login({ domain: window.location.host, uri: window.location.origin });
+            storeSession(session);
+        } catch (error: any) {
+            setMessage(error?.message ?? "Failed to sign in");
+        } finally {
+            setIsSigning(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col items-center justify-center min-h-[60vh] space-y-8 animate-fade-in">
+            <div className="text-center space-y-6 max-w-xl">
+                <div className="inline-flex items-center justify-center w-20 h-20 bg-[#FFE066] border-4 border-black">
+                    <KeyRound className="h-10 w-10 text-black" />
+                </div>
+                <h2 className="text-4xl font-black text-black">SIGN IN TO CONTINUE</h2>
+                <p className="text-base font-bold text-black">
+                    Sign a message with your wallet to prove you own {address?.slice(0, 6)}…{address?.slice(-4)}. This does not send a transaction or
+                    cost gas.
+                </p>
+            </div>
+            <Button onClick={handleSignIn} size="lg" disabled={isSigning || !walletClient} className="px-10 py-7 text-xl font-black h-auto bg-[#FF6B9D]">
+                <KeyRound className="h-6 w-6 mr-3" />
+                {isSigning ? "WAITING FOR SIGNATURE…" : "SIGN IN WITH ETHEREUM"}
+            </Button>
+            {message && <div className="p-5 bg-[#FF3333] border-4 border-black text-black text-base font-black max-w-md text-center">{message}</div>}
+        </div>
+    );
+}
+
 export function ConnectWallet() {
     return isWeb3ModalEnabled ? <ConnectWithModal /> : <ConnectWithFallback />;
 }
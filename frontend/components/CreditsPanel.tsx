@@ -4,8 +4,9 @@ import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { useAccount, usePublicClient, useWalletClient } from "wagmi";
 import { parseUnits, formatUnits } from "viem";
 import { baseSepolia } from "wagmi/chains";
-import { SynapseStorageClient } from "@autofi/sdk/synapse";
+import { SynapseStorageClient, type FundCreditsProgress } from "@autofi/sdk/synapse";
 import { getRouterAddress } from "@autofi/sdk/onlyswaps";
+import { useSessionToken } from "../lib/session";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
@@ -19,6 +20,7 @@ export function CreditsPanel() {
     const publicClient = usePublicClient();
     const { data: walletClient } = useWalletClient();
     const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL;
+    const sessionToken = useSessionToken(address);
     const [balanceWei, setBalanceWei] = useState<string>("0");
     const [history, setHistory] = useState<Array<{ id: string; type: string; amount: string; description: string; createdAt: number }>>([]);
     const [amount, setAmount] = useState<string>("1.0");
@@ -34,9 +36,10 @@ export function CreditsPanel() {
         return new SynapseStorageClient({
             publicClient,
             walletClient,
-            routerAddress: getRouterAddress(baseSepolia.id)
+            routerAddress: getRouterAddress(baseSepolia.id),
+            sessionToken
         });
-    }, [publicClient, walletClient, backendUrl]);
+    }, [publicClient, walletClient, backendUrl, sessionToken]);
 
     const fetchData = useCallback(async () => {
         if (!client || !address) {
@@ -83,6 +86,40 @@ export function CreditsPanel() {
         fetchData();
     }, [fetchData, prerequisites]);
 
+    // Live balance and bridge updates; the stream drops events while disconnected, so reconnects re-read everything
+    useEffect(() => {
+        if (!client || !sessionToken || prerequisites) return;
+        const subscription = client.subscribe(
+            (event) => {
+                if (event.type === "balance") {
+                    setBalanceWei(event.balance);
+                } else if (event.type === "bridge" && event.status === "pending") {
+                    setMsg(`Bridge ${event.bridgeRequestId.slice(0, 10)}… is not fulfilled on Filecoin yet`);
+                } else if (event.type === "bridge" && event.status === "credited") {
+                    fetchData();
+                }
+            },
+            {
+                onOpen: () => fetchData(),
+                onError: (e) => console.warn("[CreditsPanel] Event stream error:", e.message)
+            }
+        );
+        return () => subscription.close();
+    }, [client, sessionToken, prerequisites, fetchData]);
+
+    const describeProgress = (progress: FundCreditsProgress): string => {
+        switch (progress.stage) {
+            case "bridging":
+                return "Sending bridge transaction…";
+            case "waiting":
+                return `Waiting for the bridge (${Math.round(progress.elapsed / 1000)}s, ${
+                    progress.executed ? "verified" : "not verified yet"
+                })…`;
+            case "claiming":
+                return "Bridge complete, crediting your deposit…";
+        }
+    };
+
     const balance = useMemo(() => {
         try {
             return formatUnits(BigInt(balanceWei), 18);
@@ -104,7 +141,8 @@ export function CreditsPanel() {
                 amount: wei,
                 userAddress: address as `0x${string}`,
                 sourceChainId: baseSepolia.id,
-                sourceTokenSymbol: "RUSD"
+                sourceTokenSymbol: "RUSD",
+                onProgress: (progress) => setMsg(describeProgress(progress))
             });
             setMsg(`Funded: ${formatUnits(BigInt(result.amountFunded), 18)} USDFC (bridgeId: ${result.bridgeRequestId})`);
             await fetchData();
@@ -148,8 +186,8 @@ export function CreditsPanel() {
 
     const isCredit = (type: string) => {
         const lowerType = type.toLowerCase();
-        // Transaction types are 'deposit' (credit) or 'deduct' (debit)
-        return lowerType === "deposit" || lowerType.includes("credit") || lowerType.includes("fund");
+        // Transaction types are 'deposit' and 'refund' (credit) or 'deduct' (debit)
+        return lowerType === "deposit" || lowerType === "refund" || lowerType.includes("credit") || lowerType.includes("fund");
     };
 
     return (
@@ -3,15 +3,17 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { useAccount, usePublicClient, useWalletClient } from "wagmi";
 import { baseSepolia } from "wagmi/chains";
-import { SynapseStorageClient } from "@autofi/sdk/synapse";
+import { SynapseStorageClient, type ShareLink, type FileVisibility } from "@autofi/sdk/synapse";
 import { getRouterAddress } from "@autofi/sdk/onlyswaps";
+import { useSessionToken } from "../lib/session";
 import { downloadBytes } from "../lib/download";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
 import { Button } from "./ui/button";
 import { Badge } from "./ui/badge";
 import { Skeleton } from "./ui/skeleton";
+import { Input } from "./ui/input";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "./ui/tooltip";
-import { FileText, Download, Calendar, DollarSign, Clock, FolderOpen, Copy, Check } from "lucide-react";
+import { FileText, Download, Calendar, DollarSign, Clock, FolderOpen, Copy, Check, Hourglass, Trash2, Share2, Link2, Ban } from "lucide-react";
 import { formatUnits } from "viem";
 
 type UserFile = {
@@ -24,17 +26,136 @@ type UserFile = {
     storageDurationDays: number;
     storageCost: string;
     uploadedAt: number | null;
+    expiresAt: number | null;
+    status: "active" | "expiring_soon" | "expired" | "deleted";
+    visibility: FileVisibility;
 };
 
+function SharePanel({ client, file }: { client: SynapseStorageClient; file: UserFile }) {
+    const [links, setLinks] = useState<ShareLink[]>([]);
+    const [hours, setHours] = useState("168");
+    const [maxDownloads, setMaxDownloads] = useState("");
+    const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+    const [busy, setBusy] = useState(false);
+    const [msg, setMsg] = useState("");
+
+    useEffect(() => {
+        let mounted = true;
+        client.listShareLinks(file.id)
+            .then((l) => mounted && setLinks(l))
+            .catch((e: any) => mounted && setMsg(e?.message || "Failed to load share links"));
+        return () => {
+            mounted = false;
+        };
+    }, [client, file.id]);
+
+    async function create() {
+        setBusy(true);
+        try {
+            const link = await client.createShareLink(file.id, {
+                expiresInHours: Number(hours) || undefined,
+                maxDownloads: maxDownloads ? Number(maxDownloads) : undefined,
+            });
+            setCreatedUrl(link.url);
+            setCopied(false);
+            setLinks((current) => [link, ...current]);
+            setMsg("");
+        } catch (e: any) {
+            setMsg(e?.message || "Failed to create share link");
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    async function revoke(link: ShareLink) {
+        setBusy(true);
+        try {
+            const revoked = await client.revokeShareLink(file.id, link.id);
+            setLinks((current) => current.map((l) => (l.id === link.id ? revoked : l)));
+        } catch (e: any) {
+            setMsg(e?.message || "Failed to revoke share link");
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    async function copyUrl(url: string) {
+        try {
+            await navigator.clipboard.writeText(url);
+            setCopied(true);
+        } catch (error) {
+            console.error("Failed to copy share link:", error);
+        }
+    }
+
+    return (
+        <div className="mt-4 p-4 border-4 border-black bg-[#F5F5F5] space-y-3">
+            <div className="flex flex-wrap items-end gap-3">
+                <div className="space-y-1">
+                    <label className="text-xs font-black text-black">EXPIRES IN (HOURS)</label>
+                    <Input type="number" min={1} value={hours} onChange={(e) => setHours(e.target.value)} className="w-28" />
+                </div>
+                <div className="space-y-1">
+                    <label className="text-xs font-black text-black">MAX DOWNLOADS</label>
+                    <Input type="number" min={1} placeholder="Unlimited" value={maxDownloads} onChange={(e) => setMaxDownloads(e.target.value)} className="w-32" />
+                </div>
+                <Button variant="default" size="sm" onClick={create} disabled={busy} className="bg-[#FFE066]">
+                    <Link2 className="h-4 w-4 mr-2" />
+                    CREATE LINK
+                </Button>
+            </div>
+            {createdUrl && (
+                <div className="flex items-center gap-2">
+                    <Input readOnly value={createdUrl} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                    <Button variant="ghost" size="icon-sm" onClick={() => copyUrl(createdUrl)} title="Copy link">
+                        {copied ? <Check className="h-4 w-4 text-[#00FF88]" /> : <Copy className="h-4 w-4 text-black" />}
+                    </Button>
+                </div>
+            )}
+            {createdUrl && <p className="text-xs font-bold text-black">Copy the link now; it can't be shown again.</p>}
+            {links.length > 0 && (
+                <div className="space-y-2">
+                    {links.map((link) => (
+                        <div key={link.id} className="flex flex-wrap items-center justify-between gap-2 text-xs font-bold text-black">
+                            <div className="flex flex-wrap items-center gap-2">
+                                <Badge variant="outline" className="text-xs font-black bg-white">
+                                    {link.status.toUpperCase()}
+                                </Badge>
+                                <span>
+                                    {link.downloadCount}
+                                    {link.maxDownloads !== null ? ` / ${link.maxDownloads}` : ""} downloads
+                                </span>
+                                <span>Expires {new Date(link.expiresAt).toLocaleString()}</span>
+                            </div>
+                            {link.status === "active" && (
+                                <Button variant="destructive" size="sm" onClick={() => revoke(link)} disabled={busy}>
+                                    <Ban className="h-4 w-4 mr-2" />
+                                    REVOKE
+                                </Button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+            {msg && <p className="text-xs font-black text-black">{msg}</p>}
+        </div>
+    );
+}
+
 export function FilesTable({ refreshKey }: { refreshKey: number }) {
     const { address } = useAccount();
     const publicClient = usePublicClient();
     const { data: walletClient } = useWalletClient();
     const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL;
+    const sessionToken = useSessionToken(address);
     const [files, setFiles] = useState<UserFile[]>([]);
     const [loading, setLoading] = useState(false);
     const [msg, setMsg] = useState("");
     const [copiedCommP, setCopiedCommP] = useState<string | null>(null);
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+    const [sharingId, setSharingId] = useState<string | null>(null);
+    const [updatingVisibilityId, setUpdatingVisibilityId] = useState<string | null>(null);
 
     const prerequisites = useMemo(() => {
         if (!backendUrl) return "Set NEXT_PUBLIC_BACKEND_URL to load your files.";
@@ -46,9 +167,10 @@ export function FilesTable({ refreshKey }: { refreshKey: number }) {
         return new SynapseStorageClient({
             publicClient,
             walletClient,
-            routerAddress: getRouterAddress(baseSepolia.id)
+            routerAddress: getRouterAddress(baseSepolia.id),
+            sessionToken
         });
-    }, [publicClient, walletClient, backendUrl]);
+    }, [publicClient, walletClient, backendUrl, sessionToken]);
 
     useEffect(() => {
         let mounted = true;
@@ -96,6 +218,42 @@ export function FilesTable({ refreshKey }: { refreshKey: number }) {
         }
     }
 
+    async function remove(file: UserFile) {
+        if (!client) {
+            setMsg(prerequisites || "Connect your wallet first.");
+            return;
+        }
+        if (!window.confirm(`Delete ${file.fileName}? Unused storage and the lockup are refunded to your credits.`)) {
+            return;
+        }
+        setDeletingId(file.id);
+        try {
+            const result = await client.deleteFile(file.id);
+            setFiles((current) => current.filter((f) => f.id !== file.id));
+            setMsg(`Deleted ${file.fileName}. Refunded ${formatUnits(BigInt(result.refund), 18)} USDFC.`);
+        } catch (e: any) {
+            setMsg(e?.message || "Delete failed");
+        } finally {
+            setDeletingId(null);
+        }
+    }
+
+    async function changeVisibility(file: UserFile, visibility: FileVisibility) {
+        if (!client) {
+            setMsg(prerequisites || "Connect your wallet first.");
+            return;
+        }
+        setUpdatingVisibilityId(file.id);
+        try {
+            await client.setFileVisibility(file.id, visibility);
+            setFiles((current) => current.map((f) => (f.id === file.id ? { ...f, visibility } : f)));
+        } catch (e: any) {
+            setMsg(e?.message || "Failed to change visibility");
+        } finally {
+            setUpdatingVisibilityId(null);
+        }
+    }
+
     async function copyCommP(commp: string) {
         try {
             await navigator.clipboard.writeText(commp);
@@ -217,6 +375,12 @@ export function FilesTable({ refreshKey }: { refreshKey: number }) {
                                                             <span>{formatDate(f.uploadedAt)}</span>
                                                         </div>
                                                     )}
+                                                    {f.expiresAt && (
+                                                        <div className="flex items-center gap-1">
+                                                            <Hourglass className="h-4 w-4" />
+                                                            <span>{f.status === "expired" ? "Expired" : "Expires"} {formatDate(f.expiresAt)}</span>
+                                                        </div>
+                                                    )}
                                                 </div>
                                                 {f.commp && (
                                                     <div className="mt-3 flex items-center gap-2">
@@ -252,8 +416,28 @@ export function FilesTable({ refreshKey }: { refreshKey: number }) {
                                                 )}
                                             </div>
                                         </div>
-                                        <div className="shrink-0">
-                                            {f.commp ? (
+                                        <div className="shrink-0 flex flex-col items-end gap-2">
+                                            <select
+                                                value={f.visibility}
+                                                onChange={(e) => changeVisibility(f, e.target.value as FileVisibility)}
+                                                disabled={updatingVisibilityId === f.id}
+                                                title="Who can download this file by its CommP"
+                                                className="min-w-[120px] h-9 border-4 border-black bg-white px-2 text-xs font-black uppercase outline-none disabled:opacity-50"
+                                            >
+                                                <option value="private">PRIVATE</option>
+                                                <option value="unlisted">UNLISTED</option>
+                                                <option value="public">PUBLIC</option>
+                                            </select>
+                                            {f.status === "expiring_soon" && (
+                                                <Badge variant="secondary" className="text-xs font-black bg-[#FF8C42] text-black">
+                                                    EXPIRING SOON
+                                                </Badge>
+                                            )}
+                                            {f.status === "expired" ? (
+                                                <Badge variant="secondary" className="text-xs font-black bg-black text-white">
+                                                    EXPIRED
+                                                </Badge>
+                                            ) : f.commp ? (
                                                 <Button
                                                     variant="default"
                                                     size="sm"
@@ -267,8 +451,30 @@ export function FilesTable({ refreshKey }: { refreshKey: number }) {
                                                     PROCESSING
                                                 </Badge>
                                             )}
+                                            {f.commp && f.status !== "expired" && (
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    onClick={() => setSharingId(sharingId === f.id ? null : f.id)}
+                                                    className="min-w-[120px]">
+                                                    <Share2 className="h-4 w-4 mr-2" />
+                                                    SHARE
+                                                </Button>
+                                            )}
+                                            {f.commp && (
+                                                <Button
+                                                    variant="destructive"
+                                                    size="sm"
+                                                    onClick={() => remove(f)}
+                                                    disabled={deletingId === f.id}
+                                                    className="min-w-[120px]">
+                                                    <Trash2 className="h-4 w-4 mr-2" />
+                                                    {deletingId === f.id ? "DELETING…" : "DELETE"}
+                                                </Button>
+                                            )}
                                         </div>
                                     </div>
+                                    {sharingId === f.id && client && <SharePanel client={client} file={f} />}
                                 </div>
                             );
                         })}
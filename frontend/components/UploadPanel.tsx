@@ -1,11 +1,12 @@
 "use client";
 
-import React, { useMemo, useState, useCallback } from "react";
+import React, { useEffect, useMemo, useState, useCallback } from "react";
 import { useAccount, usePublicClient, useWalletClient } from "wagmi";
 import { formatUnits } from "viem";
 import { baseSepolia } from "wagmi/chains";
-import { SynapseStorageClient } from "@autofi/sdk/synapse";
+import { SynapseStorageClient, type StorageQuote, type FileVisibility, type UploadProgressEvent } from "@autofi/sdk/synapse";
 import { getRouterAddress } from "@autofi/sdk/onlyswaps";
+import { useSessionToken } from "../lib/session";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
@@ -17,13 +18,19 @@ export function UploadPanel({ onUploaded }: { onUploaded: () => void }) {
     const publicClient = usePublicClient();
     const { data: walletClient } = useWalletClient();
     const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL;
+    const sessionToken = useSessionToken(address);
     const backendFilecoin = process.env.NEXT_PUBLIC_BACKEND_FILECOIN_ADDRESS as `0x${string}` | undefined;
     const [file, setFile] = useState<File | null>(null);
     const [days, setDays] = useState<number>(30);
-    const [costWei, setCostWei] = useState<bigint | null>(null);
+    const [visibility, setVisibility] = useState<FileVisibility>("private");
+    const [quote, setQuote] = useState<StorageQuote | null>(null);
+    const [quoting, setQuoting] = useState(false);
     const [msg, setMsg] = useState<string>("");
     const [loading, setLoading] = useState(false);
     const [isDragging, setIsDragging] = useState(false);
+    // Live progress by file id, from the backend's event stream
+    const [progress, setProgress] = useState<Record<string, UploadProgressEvent>>({});
+    const [activeFileId, setActiveFileId] = useState<string | null>(null);
 
     const prerequisites = useMemo(() => {
         if (!backendUrl) return "Set NEXT_PUBLIC_BACKEND_URL to upload files.";
@@ -39,17 +46,33 @@ export function UploadPanel({ onUploaded }: { onUploaded: () => void }) {
             publicClient,
             // @ts-expect-error - viem version mismatch
             walletClient,
-            routerAddress: getRouterAddress(baseSepolia.id)
+            routerAddress: getRouterAddress(baseSepolia.id),
+            sessionToken
         });
-    }, [publicClient, walletClient, backendUrl, backendFilecoin]);
+    }, [publicClient, walletClient, backendUrl, backendFilecoin, sessionToken]);
+
+    useEffect(() => {
+        if (!client || !sessionToken) return;
+        const subscription = client.subscribe(
+            (event) => {
+                if (event.type === "upload") {
+                    setProgress((current) => ({ ...current, [event.fileId]: event }));
+                }
+            },
+            { onError: (e) => console.warn("[UploadPanel] Event stream error:", e.message) }
+        );
+        return () => subscription.close();
+    }, [client, sessionToken]);
+
+    const activeProgress = activeFileId ? progress[activeFileId] : undefined;
 
     const cost = useMemo(() => {
         try {
-            return costWei ? `${formatUnits(costWei, 18)} USDFC` : "-";
+            return quote ? `${formatUnits(BigInt(quote.totalCost), 18)} USDFC` : "-";
         } catch {
             return "-";
         }
-    }, [costWei]);
+    }, [quote]);
 
     function onSelectFile(e: React.ChangeEvent<HTMLInputElement>) {
         console.log("[UploadPanel] File selected", { files: e.target.files, fileCount: e.target.files?.length });
@@ -58,7 +81,7 @@ export function UploadPanel({ onUploaded }: { onUploaded: () => void }) {
             console.log("[UploadPanel] File details:", { name: f.name, size: f.size, type: f.type });
         }
         setFile(f || null);
-        setCostWei(null);
+        setQuote(null);
         setMsg("");
     }
 
@@ -78,7 +101,7 @@ export function UploadPanel({ onUploaded }: { onUploaded: () => void }) {
         const droppedFile = e.dataTransfer.files?.[0];
         if (droppedFile) {
             setFile(droppedFile);
-            setCostWei(null);
+            setQuote(null);
             setMsg("");
         }
     }, []);
@@ -91,7 +114,7 @@ export function UploadPanel({ onUploaded }: { onUploaded: () => void }) {
         return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + " " + sizes[i];
     };
 
-    function estimate() {
+    async function estimate() {
         console.log("[UploadPanel] estimate() called", { prerequisites, client: !!client, file: !!file, days });
 
         if (prerequisites) {
@@ -116,14 +139,17 @@ export function UploadPanel({ onUploaded }: { onUploaded: () => void }) {
         }
 
         try {
-            console.log("[UploadPanel] Calculating storage cost", { fileSize: file.size, days });
-            const c = client.calculateStorageCost(file.size, days);
-            console.log("[UploadPanel] Calculated cost:", c);
-            setCostWei(c);
+            setQuoting(true);
+            console.log("[UploadPanel] Requesting quote", { fileSize: file.size, days });
+            const q = await client.getQuote({ fileSize: file.size, storageDurationDays: days });
+            console.log("[UploadPanel] Received quote:", q);
+            setQuote(q);
             setMsg("");
         } catch (e: any) {
-            console.error("[UploadPanel] Error calculating cost:", e);
-            setMsg(e?.message || "Failed to estimate cost");
+            console.error("[UploadPanel] Error requesting quote:", e);
+            setMsg(e?.message || "Failed to get a quote");
+        } finally {
+            setQuoting(false);
         }
     }
 
@@ -155,25 +181,45 @@ export function UploadPanel({ onUploaded }: { onUploaded: () => void }) {
             setLoading(true);
             setMsg("");
             console.log("[UploadPanel] Starting upload", { fileName: file.name, fileSize: file.size, days });
-            await client.uploadFile({
+            // Pay the price that was shown; without a valid quote the SDK requests a fresh one
+            const quoteId = quote && quote.expiresAt > Date.now() ? quote.quoteId : undefined;
+            const queued = await client.uploadFile({
                 file,
                 fileName: file.name,
                 userAddress: address as `0x${string}`,
-                storageDurationDays: days
+                storageDurationDays: days,
+                quoteId,
+                visibility
+            });
+            setActiveFileId(queued.fileId);
+            setMsg("Upload queued…");
+            await client.waitForUpload(queued.fileId, {
+                onProgress: (status) => setMsg(`Upload ${status.status}…`)
             });
             console.log("[UploadPanel] Upload successful");
             setMsg("Upload successful");
             setFile(null);
-            setCostWei(null);
+            setQuote(null);
             onUploaded();
         } catch (e: any) {
             console.error("[UploadPanel] Upload error:", e);
             setMsg(e?.message || "Upload failed");
         } finally {
             setLoading(false);
+            setActiveFileId(null);
         }
     }
 
+    const stageLabels: Record<UploadProgressEvent["stage"], string> = {
+        queued: "Queued",
+        hashing: "Verifying file",
+        uploading: "Sending to storage provider",
+        confirming: "Confirming on-chain",
+        stored: "Stored",
+        retrying: "Retrying",
+        failed: "Failed"
+    };
+
     return (
         <Card className="bg-white">
             <CardHeader>
@@ -221,7 +267,7 @@ export function UploadPanel({ onUploaded }: { onUploaded: () => void }) {
                                     onClick={(e) => {
                                         e.stopPropagation();
                                         setFile(null);
-                                        setCostWei(null);
+                                        setQuote(null);
                                         setMsg("");
                                     }}
                                     className="mt-2 bg-white">
@@ -254,7 +300,10 @@ export function UploadPanel({ onUploaded }: { onUploaded: () => void }) {
                                 type="number"
                                 min={1}
                                 value={days}
-                                onChange={(e) => setDays(parseInt(e.target.value || "30"))}
+                                onChange={(e) => {
+                                    setDays(parseInt(e.target.value || "30"));
+                                    setQuote(null);
+                                }}
                                 disabled={!!prerequisites}
                                 className="w-24"
                             />
@@ -262,11 +311,24 @@ export function UploadPanel({ onUploaded }: { onUploaded: () => void }) {
                         </div>
                     </div>
                     <div className="space-y-2">
-                        <label className="text-sm font-medium">Estimated Cost</label>
+                        <label className="text-sm font-medium">Visibility</label>
+                        <select
+                            value={visibility}
+                            onChange={(e) => setVisibility(e.target.value as FileVisibility)}
+                            disabled={!!prerequisites}
+                            className="h-11 w-full border-4 border-black bg-white px-4 text-sm font-bold outline-none disabled:opacity-50"
+                        >
+                            <option value="private">Private: only you and readers you add</option>
+                            <option value="unlisted">Unlisted: anyone with the CommP</option>
+                            <option value="public">Public: listed on your public profile</option>
+                        </select>
+                    </div>
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium">Quoted Cost</label>
                         <div className="flex items-center gap-2">
-                            <Button variant="outline" onClick={estimate} disabled={!!prerequisites || !file || !client} className="flex-1">
-                                <Calculator className="h-4 w-4 mr-2" />
-                                Estimate
+                            <Button variant="outline" onClick={estimate} disabled={!!prerequisites || !file || !client || quoting} className="flex-1">
+                                {quoting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Calculator className="h-4 w-4 mr-2" />}
+                                Get Quote
                             </Button>
                             {cost !== "-" && (
                                 <Badge variant="secondary" className="text-sm px-3 py-1.5">
@@ -274,6 +336,14 @@ export function UploadPanel({ onUploaded }: { onUploaded: () => void }) {
                                 </Badge>
                             )}
                         </div>
+                        {quote && (
+                            <div className="text-xs font-bold text-black space-y-0.5">
+                                <p>Storage: {formatUnits(BigInt(quote.breakdown.rateCost), 18)} USDFC</p>
+                                <p>Lockup (refundable): {formatUnits(BigInt(quote.breakdown.lockupCost), 18)} USDFC</p>
+                                <p>Piece size: {formatFileSize(quote.breakdown.pieceSize)} (padding not charged)</p>
+                                <p>Valid until {new Date(quote.expiresAt).toLocaleTimeString()}</p>
+                            </div>
+                        )}
                     </div>
                 </div>
 
@@ -292,6 +362,30 @@ export function UploadPanel({ onUploaded }: { onUploaded: () => void }) {
                     )}
                 </Button>
 
+                {loading && activeProgress && (
+                    <div className="space-y-2">
+                        <div className="flex justify-between text-xs font-bold text-black">
+                            <span>
+                                {stageLabels[activeProgress.stage]}
+                                {activeProgress.stage === "retrying" && activeProgress.nextAttemptAt
+                                    ? ` at ${new Date(activeProgress.nextAttemptAt).toLocaleTimeString()}: ${activeProgress.error}`
+                                    : ""}
+                            </span>
+                            <span>
+                                {formatFileSize(activeProgress.bytesProcessed)} / {formatFileSize(activeProgress.totalBytes)}
+                            </span>
+                        </div>
+                        <div className="h-3 w-full border-4 border-black bg-white">
+                            <div
+                                className="h-full bg-[#00D9FF] transition-all"
+                                style={{
+                                    width: `${activeProgress.totalBytes > 0 ? Math.round((activeProgress.bytesProcessed / activeProgress.totalBytes) * 100) : 0}%`
+                                }}
+                            />
+                        </div>
+                    </div>
+                )}
+
                 {msg && (
                     <div
                         className={`p-4 border-4 border-black text-sm font-black ${
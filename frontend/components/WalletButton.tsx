@@ -5,6 +5,8 @@ import { useAccount, useDisconnect, useChainId, useChains } from "wagmi";
 import { Button } from "./ui/button";
 import { Badge } from "./ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "./ui/tooltip";
+import { SynapseStorageClient } from "@autofi/sdk/synapse";
+import { clearSession, useSessionToken } from "../lib/session";
 import { Wallet, LogOut, Copy, Check, Network } from "lucide-react";
 
 // Chain Logo Component with fallback
@@ -27,6 +29,8 @@ export function WalletButton() {
     const [mounted, setMounted] = useState(false);
     const [message, setMessage] = useState<string | null>(null);
     const [copied, setCopied] = useState(false);
+    const sessionToken = useSessionToken(address);
+    const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL;
 
     useEffect(() => {
         setMounted(true);
@@ -42,6 +46,11 @@ export function WalletButton() {
     const handleDisconnect = async () => {
         try {
             setMessage(null);
+            if (sessionToken) {
+                // Revoke the backend session before dropping the wallet connection
+                await new SynapseStorageClient({ backendUrl: backendUrl ?? "", sessionToken }).logout();
+                clearSession(address);
+            }
             await disconnectAsync();
         } catch (error: any) {
             setMessage(error?.message ?? "Failed to disconnect wallet");
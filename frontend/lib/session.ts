@@ -0,0 +1,57 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import type { AuthSession } from '@autofi/sdk/synapse'
+
+const STORAGE_PREFIX = 'filbridge:session:'
+const CHANGE_EVENT = 'filbridge:session-change'
+
+function storageKey(address: string) {
+  return `${STORAGE_PREFIX}${address.toLowerCase()}`
+}
+
+export function getStoredSession(address: string | undefined): AuthSession | null {
+  if (typeof window === 'undefined' || !address) return null
+  const raw = window.localStorage.getItem(storageKey(address))
+  if (!raw) return null
+  try {
+    const session = JSON.parse(raw) as AuthSession
+    if (session.expiresAt <= Date.now()) {
+      window.localStorage.removeItem(storageKey(address))
+      return null
+    }
+    return session
+  } catch {
+    return null
+  }
+}
+
+export function storeSession(session: AuthSession) {
+  window.localStorage.setItem(storageKey(session.address), JSON.stringify(session))
+  window.dispatchEvent(new Event(CHANGE_EVENT))
+}
+
+export function clearSession(address: string) {
+  window.localStorage.removeItem(storageKey(address))
+  window.dispatchEvent(new Event(CHANGE_EVENT))
+}
+
+function subscribe(onChange: () => void) {
+  window.addEventListener(CHANGE_EVENT, onChange)
+  window.addEventListener('storage', onChange)
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, onChange)
+    window.removeEventListener('storage', onChange)
+  }
+}
+
+/**
+ * Session token for the connected wallet, kept in sync across components and tabs
+ */
+export function useSessionToken(address: string | undefined): string | undefined {
+  return useSyncExternalStore(
+    subscribe,
+    () => getStoredSession(address)?.token,
+    () => undefined
+  )
+}
@@ -0,0 +1,40 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) helpers used to authenticate with the backend
+ */
+
+export interface SignInMessageParams {
+    domain: string;
+    address: `0x${string}`;
+    uri: string;
+    chainId: number;
+    nonce: string;
+    statement?: string;
+    issuedAt?: Date;
+    expirationTime?: Date;
+}
+
+export const DEFAULT_SIGN_IN_STATEMENT = 'Sign in to FilBridge storage.';
+
+/**
+ * Build an EIP-4361 message for the wallet to sign
+ */
+export function buildSignInMessage(params: SignInMessageParams): string {
+    const lines = [
+        `${params.domain} wants you to sign in with your Ethereum account:`,
+        params.address,
+        '',
+        params.statement ?? DEFAULT_SIGN_IN_STATEMENT,
+        '',
+        `URI: ${params.uri}`,
+        'Version: 1',
+        `Chain ID: ${params.chainId}`,
+        `Nonce: ${params.nonce}`,
+        `Issued At: ${(params.issuedAt ?? new Date()).toISOString()}`,
+    ];
+
+    if (params.expirationTime) {
+        lines.push(`Expiration Time: ${params.expirationTime.toISOString()}`);
+    }
+
+    return lines.join('\n');
+}
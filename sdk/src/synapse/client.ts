@@ -1,32 +1,105 @@
-import type { PublicClient } from 'viem';
+import type { PublicClient, WalletClient } from 'viem';
 import { OnlySwapsService } from '../onlyswaps/service.js';
 import {
     type SynapseStorageConfig,
     type UploadFileParams,
+    type UploadFilesParams,
+    type BatchFileResult,
+    type BatchUploadResult,
+    type UploadDirectoryParams,
+    type DirectoryUploadResult,
+    type GetQuoteParams,
+    type StoragePricing,
+    type StorageQuote,
+    type ResumableUploadParams,
     type UploadResult,
+    type UploadJobStatus,
+    type WaitForUploadOptions,
     type UserFile,
+    type ListFilesOptions,
+    type FilePage,
+    type DirectoryListing,
+    type ExtendStorageParams,
+    type ExtendStorageResult,
+    type DeleteFileResult,
+    type FileVisibility,
+    type FileReader,
+    type CreateShareLinkParams,
+    type ShareLink,
+    type CreatedShareLink,
+    type CreateApiKeyParams,
+    type ApiKey,
+    type CreatedApiKey,
+    type CreateWebhookParams,
+    type Webhook,
+    type CreatedWebhook,
+    type ListWebhookDeliveriesOptions,
+    type WebhookDeliveryPage,
+    type WebhookDelivery,
+    type DownloadFileOptions,
     type BackendStatus,
     type BridgeDepositResult,
     type FundCreditsParams,
     type FundCreditsResult,
+    type FundCreditsProgress,
+    type StorageEvent,
+    type SubscribeOptions,
+    type EventSubscription,
+    type Usage,
     type CreditBalance,
     type CreditTransaction,
+    type CreditHistoryOptions,
+    type CreditHistoryPage,
+    type EncryptionEnvelope,
+    type AuthSession,
+    type LoginParams,
+    type Organization,
+    type OrganizationDetails,
+    type OrganizationMember,
+    type SetOrganizationMemberParams,
+    type OrganizationCreditHistoryOptions,
 } from './types.js';
 import {
     DEFAULT_BACKEND_URL,
-    FILECOIN_CHAIN_ID,
+    BRIDGE_DESTINATION_CHAIN_ID,
     DEFAULT_BACKEND_FILECOIN_ADDRESS,
+    MAX_PAGE_LIMIT,
+    DEFAULT_UPLOAD_BATCH_SIZE,
+    DEFAULT_UPLOAD_CONCURRENCY,
+    DEFAULT_EVENT_RECONNECT_DELAY_MS,
     calculateStorageCost,
+    calculateExtensionCost,
+    type StoragePrices,
 } from './constants.js';
+import { buildSignInMessage } from './auth.js';
+import { buildEncryptionKeyMessage, encryptBlob, decryptStream, decodeEnvelopeHeader } from './encryption.js';
+import { readEventStream } from './events.js';
+import {
+    TUS_VERSION,
+    DEFAULT_RESUMABLE_CHUNK_SIZE,
+    defaultUploadStore,
+    encodeUploadMetadata,
+    hashUploadContent,
+} from './resumable.js';
 
 export class SynapseStorageClient {
     private backendUrl: string;
     private onlySwaps?: OnlySwapsService;
     private backendAddress?: `0x${string}`;
+    private bridgeChainId: number;
+    private walletClient?: WalletClient;
+    private sessionToken?: string;
+    private apiKey?: string;
+    // Encryption key signatures by address, so the wallet is asked once per client
+    private encryptionSignatures = new Map<string, `0x${string}`>();
 
     constructor(config: SynapseStorageConfig) {
         this.backendUrl = DEFAULT_BACKEND_URL;
         this.backendAddress = DEFAULT_BACKEND_FILECOIN_ADDRESS;
+        this.bridgeChainId = config.bridgeChainId ?? BRIDGE_DESTINATION_CHAIN_ID;
+        this.walletClient = config.walletClient;
+        this.sessionToken = config.sessionToken;
+        this.apiKey = config.apiKey;
 
         // Initialize OnlySwaps if wallet and public clients are provided
         if (config.walletClient && config.publicClient && config.routerAddress) {
@@ -39,38 +112,215 @@ export class SynapseStorageClient {
     }
 
     /**
-     * List all files uploaded by a user
+     * Sign in with the configured wallet (EIP-4361) and keep the session token
+     * for subsequent requests
+     */
+    async login(params: LoginParams = {}): Promise<AuthSession> {
+        const account = this.walletClient?.account;
+        if (!this.walletClient || !account) {
+            throw new Error('Wallet client with an account is required to sign in.');
+        }
+
+        const nonceResponse = await fetch(`${this.backendUrl}/api/auth/nonce`);
+        if (!nonceResponse.ok) {
+            throw new Error(`Failed to fetch sign-in nonce: ${nonceResponse.statusText}`);
+        }
+        const { nonce } = await nonceResponse.json() as { nonce: string };
+
+        const message = buildSignInMessage({
+            domain: params.domain ?? new URL(this.backendUrl).host,
+            address: account.address,
+            uri: params.uri ?? this.backendUrl,
+            chainId: this.walletClient.chain?.id ?? 1,
+            nonce,
+            statement: params.statement,
+        });
+
+        const signature = await this.walletClient.signMessage({ account, message });
+
+        const verifyResponse = await fetch(`${this.backendUrl}/api/auth/verify`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ message, signature }),
+        });
+
+        if (!verifyResponse.ok) {
+            const errorData = await verifyResponse.json().catch(() => ({})) as { message?: string };
+            throw new Error(`Sign-in failed: ${errorData.message || verifyResponse.statusText}`);
+        }
+
+        const session = await verifyResponse.json() as AuthSession;
+        this.sessionToken = session.token;
+        return session;
+    }
+
+    /**
+     * Revoke the current session on the backend and forget the token
+     */
+    async logout(): Promise<void> {
+        if (!this.sessionToken) {
+            return;
+        }
+
+        await fetch(`${this.backendUrl}/api/auth/logout`, {
+            method: 'POST',
+            headers: this.authHeaders(),
+        }).catch(() => undefined);
+
+        this.sessionToken = undefined;
+    }
+
+    /**
+     * Use a session token obtained earlier (e.g. restored from storage)
+     */
+    setSessionToken(token: string | undefined): void {
+        this.sessionToken = token;
+    }
+
+    getSessionToken(): string | undefined {
+        return this.sessionToken;
+    }
+
+    /**
+     * One page of a user's files. Pass the returned nextCursor back as `cursor` with
+     * the same sort and order for the following page.
+     */
+    async getFilesPage(userAddress: `0x${string}`, options: ListFilesOptions = {}): Promise<FilePage> {
+        const response = await fetch(`${this.backendUrl}/api/files/${userAddress}${this.listQuery(options)}`, {
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to fetch user files: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as FilePage;
+    }
+
+    /**
+     * Every file matching the options, fetching pages as the loop asks for them
+     */
+    async *iterateFiles(userAddress: `0x${string}`, options: Omit<ListFilesOptions, 'cursor'> = {}): AsyncGenerator<UserFile> {
+        let cursor: string | undefined;
+        do {
+            const page = await this.getFilesPage(userAddress, { ...options, cursor });
+            yield* page.files;
+            cursor = page.nextCursor ?? undefined;
+        } while (cursor);
+    }
+
+    /**
+     * List all files uploaded by a user (newest first unless options say otherwise)
+     */
+    async listFiles(userAddress: `0x${string}`, options: Omit<ListFilesOptions, 'cursor'> = {}): Promise<UserFile[]> {
+        const files: UserFile[] = [];
+        for await (const file of this.iterateFiles(userAddress, options)) {
+            files.push(file);
+        }
+        return files;
+    }
+
+    /**
+     * One page of an address's public files; needs no session
+     */
+    async getPublicFilesPage(
+        userAddress: `0x${string}`,
+        options: Pick<ListFilesOptions, 'namePrefix' | 'sort' | 'order' | 'limit' | 'cursor'> = {}
+    ): Promise<FilePage> {
+        const response = await fetch(`${this.backendUrl}/api/public/files/${userAddress}${this.listQuery(options)}`, {
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to fetch public files: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as FilePage;
+    }
+
+    /**
+     * List a directory inside a directory upload (default: its root)
      */
-    async listFiles(userAddress: `0x${string}`): Promise<UserFile[]> {
-        const response = await fetch(`${this.backendUrl}/api/files/${userAddress}`);
+    async listDirectory(fileId: string, path?: string): Promise<DirectoryListing> {
+        const response = await fetch(`${this.backendUrl}/api/files/${fileId}/entries${this.listQuery({ path })}`, {
+            headers: this.authHeaders(),
+        });
 
         if (!response.ok) {
-            throw new Error(`Failed to fetch user files: ${response.statusText}`);
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to list directory: ${errorData.error || response.statusText}`);
         }
 
-        const data = await response.json() as { files: UserFile[] };
-        return data.files;
+        return await response.json() as DirectoryListing;
     }
 
     /**
-     * Download a file by its CommP
+     * Download a file by its CommP, or only a byte range of it with `options.range`.
+     * For directory uploads, `options.path` downloads one file out of the directory.
+     * Private files need a session of their owner or of an address added with addFileReader().
      */
-    async downloadFile(commp: string): Promise<Uint8Array> {
-        const response = await fetch(`${this.backendUrl}/api/download/${commp}`);
+    async downloadFile(commp: string, options: DownloadFileOptions = {}): Promise<Uint8Array> {
+        const { path, range } = options;
+        if (path !== undefined && range) {
+            throw new Error('Failed to download file: range is not supported for paths inside a directory');
+        }
+        const headers: Record<string, string> = range ? { ...this.authHeaders(), Range: `bytes=${range.start}-${range.end ?? ''}` } : this.authHeaders();
+
+        const response = await fetch(this.getDownloadUrl(commp, path), { headers });
+        const envelopeHeader = response.ok ? response.headers.get('X-Encryption-Envelope') : null;
 
+        if (response.status === 416) {
+            throw new Error(`Failed to download file: range ${range?.start}-${range?.end ?? ''} is outside the file`);
+        }
+        if (response.status === 410) {
+            const error = await response.json() as { message?: string };
+            throw new Error(`Failed to download file: storage has expired${error.message ? ` (${error.message})` : ''}`);
+        }
         if (!response.ok) {
-            throw new Error(`Failed to download file: ${response.statusText}`);
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to download file: ${errorData.error || response.statusText}`);
         }
 
-        const arrayBuffer = await response.arrayBuffer();
-        return new Uint8Array(arrayBuffer);
+        if (envelopeHeader) {
+            const envelope = decodeEnvelopeHeader(envelopeHeader);
+            if (range) {
+                await response.body?.cancel();
+                throw new Error('Failed to download file: range is not supported for encrypted files');
+            }
+            const signature = await this.getEncryptionSignature(envelope.keyWrap.signer);
+            return await decryptStream(response.body!, envelope, signature);
+        }
+
+        const data = new Uint8Array(await response.arrayBuffer());
+
+        // A server that ignores Range sends the whole file
+        if (range && response.status !== 206) {
+            return data.subarray(range.start, range.end === undefined ? undefined : range.end + 1);
+        }
+        return data;
+    }
+
+    /**
+     * Direct URL for a file, e.g. for a <video> element. Supports HTTP Range requests,
+     * except for a path inside a directory upload. Only works for public and unlisted
+     * files, since the URL carries no session; use createShareLink() for private ones.
+     */
+    getDownloadUrl(commp: string, path?: string): string {
+        return `${this.backendUrl}/api/download/${commp}${this.listQuery({ path })}`;
     }
 
     /**
      * Check backend status and health
      */
     async getBackendStatus(): Promise<BackendStatus> {
-        const response = await fetch(`${this.backendUrl}/api/status`);
+        const response = await fetch(`${this.backendUrl}/api/status`, {
+            headers: this.authHeaders(),
+        });
 
         if (!response.ok) {
             throw new Error(`Failed to fetch backend status: ${response.statusText}`);
@@ -83,13 +333,13 @@ export class SynapseStorageClient {
      * Bridge USDFC to backend wallet (internal method)
      * Used by fundCredits to transfer tokens
      */
-    // @ts-ignore
     private async bridgePayment(params: {
         userAddress: `0x${string}`;
         sourceChainId: number;
         sourceTokenSymbol: 'USDT' | 'RUSD';
         amount: bigint;
         destPublicClient?: PublicClient;
+        onProgress?: (progress: FundCreditsProgress) => void;
     }): Promise<BridgeDepositResult> {
         if (!this.onlySwaps) {
             throw new Error('OnlySwaps not initialized. Please provide walletClient, publicClient, and routerAddress in config.');
@@ -113,7 +363,7 @@ export class SynapseStorageClient {
         const fees = await this.onlySwaps.fetchRecommendedFeesBySymbol({
             env: env as 'mainnet' | 'testnet',
             srcChainId: params.sourceChainId,
-            dstChainId: FILECOIN_CHAIN_ID,
+            dstChainId: this.bridgeChainId,
             tokenSymbol: params.sourceTokenSymbol,
             amount: params.amount,
         });
@@ -125,10 +375,11 @@ export class SynapseStorageClient {
         });
 
         // Execute swap
+        params.onProgress?.({ stage: 'bridging' });
         const swapResult = await this.onlySwaps.swapBySymbol({
             env: env as 'mainnet' | 'testnet',
             srcChainId: params.sourceChainId,
-            dstChainId: FILECOIN_CHAIN_ID,
+            dstChainId: this.bridgeChainId,
             tokenSymbol: params.sourceTokenSymbol,
             amount: fees.approvalAmount,
             recipient: backendAddress,
@@ -139,20 +390,22 @@ export class SynapseStorageClient {
 
         // Wait for bridge completion
         console.log('Waiting for bridge completion...');
-        await this.onlySwaps.waitForExecution(swapResult.requestId, {
+        const { params: request, fulfillment } = await this.onlySwaps.waitForExecution(swapResult.requestId, {
             timeoutMs: 300000, // 5 minutes
             intervalMs: 5000,  // Check every 5 seconds
             onProgress: (status) => {
                 console.log(`Bridge status: executed=${status.executed}, fulfilled=${status.fulfilled}, elapsed=${status.elapsed}ms`);
+                params.onProgress?.({ stage: 'waiting', bridgeRequestId: swapResult.requestId, ...status });
             },
             destPublicClient: params.destPublicClient,
-            dstChainId: FILECOIN_CHAIN_ID,
+            dstChainId: this.bridgeChainId,
         });
 
         console.log('Bridge completed successfully!');
 
         return {
             bridgeRequestId: swapResult.requestId,
+            amountOut: fulfillment.fulfilled && fulfillment.amountOut !== undefined ? fulfillment.amountOut : request.amountOut,
         };
     }
 
@@ -164,52 +417,84 @@ export class SynapseStorageClient {
             throw new Error('OnlySwaps not initialized. Please provide walletClient, publicClient, and routerAddress in config.');
         }
 
-        console.log(`Funding credits: ${params.amount} wei for ${params.userAddress}`);
+        console.log(`Funding credits: ${params.amount} wei for ${params.orgId ? `organization ${params.orgId}` : params.userAddress}`);
 
         // Bridge USDFC to backend
-        console.log('SKIPPING BRIDGING FOR NOW!!!! ENABLE LATER!!!!')
-        const bridgeResult = {
-            bridgeRequestId: '0x1234567890' as `0x${string}`,
-        }
-        // const bridgeResult = await this.bridgePayment({
-        //     userAddress: params.userAddress,
-        //     sourceChainId: params.sourceChainId,
-        //     sourceTokenSymbol: params.sourceTokenSymbol,
-        //     amount: params.amount,
-        // });
-
-        // Notify backend to credit user account
-        const response = await fetch(`${this.backendUrl}/api/fund-credits`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                userAddress: params.userAddress,
-                amount: params.amount.toString(),
-                bridgeRequestId: bridgeResult.bridgeRequestId,
-            }),
+        const bridgeResult = await this.bridgePayment({
+            userAddress: params.userAddress,
+            sourceChainId: params.sourceChainId,
+            sourceTokenSymbol: params.sourceTokenSymbol,
+            amount: params.amount,
+            onProgress: params.onProgress,
         });
 
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({})) as { message?: string };
-            throw new Error(`Failed to fund credits: ${errorData.message || response.statusText}`);
-        }
-
-        const result = await response.json() as { success: boolean; newBalance: string; amountAdded: string };
+        // The backend verifies the deposit on-chain and credits the amount actually received
+        params.onProgress?.({ stage: 'claiming', bridgeRequestId: bridgeResult.bridgeRequestId });
+        const result = await this.claimBridgeDeposit(params.userAddress, bridgeResult.bridgeRequestId, bridgeResult.amountOut, params.orgId);
 
         return {
             bridgeRequestId: bridgeResult.bridgeRequestId,
-            amountFunded: params.amount.toString(),
+            amountFunded: result.amountAdded,
             newBalance: result.newBalance,
         };
     }
 
+    /**
+     * Ask the backend to credit a bridge deposit, retrying while the backend
+     * reports the bridge as not yet fulfilled on Filecoin
+     */
+    private async claimBridgeDeposit(
+        userAddress: `0x${string}`,
+        bridgeRequestId: `0x${string}`,
+        amount: bigint,
+        orgId?: string,
+        options: { timeoutMs?: number; intervalMs?: number } = {}
+    ): Promise<{ newBalance: string; amountAdded: string }> {
+        const { timeoutMs = 300000, intervalMs = 10000 } = options; // 5min timeout, 10s interval
+        const startTime = Date.now();
+
+        while (true) {
+            const response = await fetch(`${this.backendUrl}/api/fund-credits`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+                body: JSON.stringify({
+                    userAddress,
+                    amount: amount.toString(),
+                    bridgeRequestId,
+                    orgId,
+                }),
+            });
+
+            this.throwIfUnauthorized(response);
+
+            if (response.status === 202) {
+                if (Date.now() - startTime > timeoutMs) {
+                    throw new Error(`Bridge deposit ${bridgeRequestId} was not verified after ${timeoutMs}ms. Retry funding later with the same bridge request.`);
+                }
+                console.log('Bridge deposit not fulfilled on Filecoin yet, retrying...');
+                await new Promise((resolve) => setTimeout(resolve, intervalMs));
+                continue;
+            }
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({})) as { message?: string };
+                throw new Error(`Failed to fund credits: ${errorData.message || response.statusText}`);
+            }
+
+            return await response.json() as { newBalance: string; amountAdded: string };
+        }
+    }
+
     /**
      * Get user's credit balance
      */
     async getCreditBalance(userAddress: `0x${string}`): Promise<CreditBalance> {
-        const response = await fetch(`${this.backendUrl}/api/credits/${userAddress}`);
+        const response = await fetch(`${this.backendUrl}/api/credits/${userAddress}`, {
+            headers: this.authHeaders(),
+        });
 
         if (!response.ok) {
+            this.throwIfUnauthorized(response);
             throw new Error(`Failed to fetch credit balance: ${response.statusText}`);
         }
 
@@ -217,82 +502,1177 @@ export class SynapseStorageClient {
     }
 
     /**
-     * Get user's credit transaction history
+     * One page of a user's credit transactions. Pass the returned nextCursor back as
+     * `cursor` with the same sort and order for the following page.
+     */
+    async getCreditHistoryPage(userAddress: `0x${string}`, options: CreditHistoryOptions = {}): Promise<CreditHistoryPage> {
+        const response = await fetch(`${this.backendUrl}/api/credits/history/${userAddress}${this.listQuery(options)}`, {
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to fetch credit history: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as CreditHistoryPage;
+    }
+
+    /**
+     * Every credit transaction matching the options, fetching pages as the loop asks for them
+     */
+    async *iterateCreditHistory(
+        userAddress: `0x${string}`,
+        options: Omit<CreditHistoryOptions, 'cursor'> = {}
+    ): AsyncGenerator<CreditTransaction> {
+        let cursor: string | undefined;
+        do {
+            const page = await this.getCreditHistoryPage(userAddress, { ...options, cursor });
+            yield* page.transactions;
+            cursor = page.nextCursor ?? undefined;
+        } while (cursor);
+    }
+
+    /**
+     * Get user's credit transaction history, newest first; the latest `limit` if given
      */
     async getCreditHistory(userAddress: `0x${string}`, limit?: number): Promise<CreditTransaction[]> {
-        const url = limit
-            ? `${this.backendUrl}/api/credits/history/${userAddress}?limit=${limit}`
-            : `${this.backendUrl}/api/credits/history/${userAddress}`;
+        const transactions: CreditTransaction[] = [];
+        if (limit !== undefined && limit <= 0) {
+            return transactions;
+        }
+
+        const pageLimit = limit !== undefined ? Math.min(limit, MAX_PAGE_LIMIT) : MAX_PAGE_LIMIT;
+        for await (const transaction of this.iterateCreditHistory(userAddress, { limit: pageLimit })) {
+            transactions.push(transaction);
+            if (transactions.length === limit) {
+                break;
+            }
+        }
+        return transactions;
+    }
+
+    /**
+     * Create an organization with a pooled credit balance; the session's address
+     * becomes its owner
+     */
+    async createOrganization(name: string): Promise<Organization> {
+        const response = await fetch(`${this.backendUrl}/api/orgs`, {
+            method: 'POST',
+            headers: { ...this.authHeaders(), 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name }),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to create organization: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as Organization;
+    }
+
+    /**
+     * Organizations the session's address belongs to, with its role in each
+     */
+    async listOrganizations(): Promise<Organization[]> {
+        const response = await fetch(`${this.backendUrl}/api/orgs`, {
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to list organizations: ${errorData.error || response.statusText}`);
+        }
+
+        const data = await response.json() as { organizations: Organization[] };
+        return data.organizations;
+    }
+
+    /**
+     * An organization's pooled balance, and the caller's role and spending this month
+     */
+    async getOrganization(orgId: string): Promise<OrganizationDetails> {
+        const response = await fetch(`${this.backendUrl}/api/orgs/${orgId}`, {
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to fetch organization: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as OrganizationDetails;
+    }
+
+    async listOrganizationMembers(orgId: string): Promise<OrganizationMember[]> {
+        const response = await fetch(`${this.backendUrl}/api/orgs/${orgId}/members`, {
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to list organization members: ${errorData.error || response.statusText}`);
+        }
+
+        const data = await response.json() as { members: OrganizationMember[] };
+        return data.members;
+    }
+
+    /**
+     * Add a member or change their role or spending limit. Needs a session with the
+     * owner or admin role; only owners can manage owners and admins.
+     */
+    async setOrganizationMember(
+        orgId: string,
+        memberAddress: `0x${string}`,
+        params: SetOrganizationMemberParams
+    ): Promise<OrganizationMember> {
+        const response = await fetch(`${this.backendUrl}/api/orgs/${orgId}/members/${memberAddress}`, {
+            method: 'PUT',
+            headers: { ...this.authHeaders(), 'Content-Type': 'application/json' },
+            body: JSON.stringify(params),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to update organization member: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as OrganizationMember;
+    }
+
+    /**
+     * Remove a member; pass your own address to leave the organization
+     */
+    async removeOrganizationMember(orgId: string, memberAddress: `0x${string}`): Promise<void> {
+        const response = await fetch(`${this.backendUrl}/api/orgs/${orgId}/members/${memberAddress}`, {
+            method: 'DELETE',
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to remove organization member: ${errorData.error || response.statusText}`);
+        }
+    }
+
+    /**
+     * One page of an organization's files, whoever uploaded them
+     */
+    async getOrganizationFilesPage(orgId: string, options: ListFilesOptions = {}): Promise<FilePage> {
+        const response = await fetch(`${this.backendUrl}/api/files${this.listQuery({ orgId, ...options })}`, {
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to fetch organization files: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as FilePage;
+    }
+
+    async listOrganizationFiles(orgId: string, options: Omit<ListFilesOptions, 'cursor'> = {}): Promise<UserFile[]> {
+        const files: UserFile[] = [];
+        let cursor: string | undefined;
+        do {
+            const page = await this.getOrganizationFilesPage(orgId, { ...options, cursor });
+            files.push(...page.files);
+            cursor = page.nextCursor ?? undefined;
+        } while (cursor);
+        return files;
+    }
+
+    /**
+     * One page of an organization's credit transactions; each records the member
+     * who made it
+     */
+    async getOrganizationCreditHistoryPage(
+        orgId: string,
+        options: OrganizationCreditHistoryOptions = {}
+    ): Promise<CreditHistoryPage> {
+        const response = await fetch(`${this.backendUrl}/api/orgs/${orgId}/credits/history${this.listQuery(options)}`, {
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to fetch organization credit history: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as CreditHistoryPage;
+    }
+
+    /**
+     * The session's rate limit, upload and storage quotas and how much of each is used
+     */
+    async getUsage(): Promise<Usage> {
+        const response = await fetch(`${this.backendUrl}/api/usage`, {
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to fetch usage: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as Usage;
+    }
+
+    /**
+     * Prices the backend currently charges. Pass them to calculateStorageCost()
+     * for estimates; use getQuote() for a price that is guaranteed.
+     */
+    async getPricing(): Promise<StoragePricing> {
+        const response = await fetch(`${this.backendUrl}/api/pricing`, {
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch pricing: ${response.statusText}`);
+        }
+
+        // Wei amounts arrive as strings
+        const data = await response.json() as { [K in keyof StoragePricing]: StoragePricing[K] extends bigint ? string : StoragePricing[K] };
+        return {
+            ...data,
+            ratePerTiBPerEpoch: BigInt(data.ratePerTiBPerEpoch),
+            lockupPerTiB: BigInt(data.lockupPerTiB),
+            synapseRatePerTiBPerEpoch: BigInt(data.synapseRatePerTiBPerEpoch),
+            cdnSurchargePerTiBPerEpoch: BigInt(data.cdnSurchargePerTiBPerEpoch),
+        };
+    }
 
-        const response = await fetch(url);
+    /**
+     * Get a signed price for storing a file. Uploads that pass the quoteId before the
+     * quote expires are charged exactly its totalCost.
+     */
+    async getQuote(params: GetQuoteParams): Promise<StorageQuote> {
+        const response = await fetch(`${this.backendUrl}/api/quote`, {
+            method: 'POST',
+            headers: { ...this.authHeaders(), 'Content-Type': 'application/json' },
+            body: JSON.stringify(params),
+        });
 
         if (!response.ok) {
-            throw new Error(`Failed to fetch credit history: ${response.statusText}`);
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to get quote: ${errorData.error || response.statusText}`);
         }
 
-        const data = await response.json() as { transactions: CreditTransaction[] };
-        return data.transactions;
+        return await response.json() as StorageQuote;
+    }
+
+    /**
+     * Estimate storage cost for a file. Without prices from getPricing() this uses
+     * placeholder prices; use getQuote() for the price an upload is charged.
+     */
+    calculateStorageCost(fileSizeBytes: number, durationDays: number, prices?: StoragePrices): bigint {
+        return calculateStorageCost(fileSizeBytes, durationDays, prices);
     }
 
     /**
-     * Calculate storage cost for a file
+     * Calculate the cost of adding days to a stored file (no lockup), at prices from getPricing()
      */
-    calculateStorageCost(fileSizeBytes: number, durationDays: number): bigint {
-        return calculateStorageCost(fileSizeBytes, durationDays);
+    calculateExtensionCost(fileSizeBytes: number, additionalDays: number, prices?: StoragePrices): bigint {
+        return calculateExtensionCost(fileSizeBytes, additionalDays, prices);
     }
 
     /**
      * Upload a file to Filecoin storage
      * Uses credits from user's account (fund credits first using fundCredits)
+     * Charged at the price of params.quoteId, or of a quote requested for this upload
+     * With params.encrypt the file is encrypted before it leaves the client; the quote is then for the ciphertext size
+     * Returns once the backend has queued the upload; use waitForUpload() to wait until it is stored
      */
     async uploadFile(params: UploadFileParams): Promise<UploadResult> {
         const { file, fileName, userAddress, storageDurationDays } = params;
 
-        console.log(`Uploading ${fileName} for ${storageDurationDays} days`);
+        let fileData = this.toBlob(file);
 
-        // Convert file to blob for upload
-        let fileData: Blob;
-        if (file instanceof Uint8Array || Buffer.isBuffer(file)) {
-            fileData = new Blob([file]);
-        } else if (file instanceof File) {
-            fileData = file;
-        } else {
-            throw new Error('Invalid file type. Expected File, Uint8Array, or Buffer.');
+        // The backend only ever sees, hashes and stores the ciphertext
+        let envelope: EncryptionEnvelope | undefined;
+        if (params.encrypt) {
+            const signer = this.walletClient?.account?.address;
+            if (!signer) {
+                throw new Error('Wallet client with an account is required to encrypt files.');
+            }
+            ({ ciphertext: fileData, envelope } = await encryptBlob(fileData, signer, await this.getEncryptionSignature(signer)));
         }
 
+        const quoteId = params.quoteId ?? (await this.getQuote({ fileSize: fileData.size, storageDurationDays })).quoteId;
+
+        console.log(`Uploading ${fileName} for ${storageDurationDays} days (quote ${quoteId})`);
+
         // Create FormData for multipart upload
         const formData = new FormData();
         formData.append('file', fileData, fileName);
         formData.append('userAddress', userAddress);
         formData.append('storageDurationDays', storageDurationDays.toString());
+        formData.append('quoteId', quoteId);
+        if (envelope) {
+            formData.append('encryption', JSON.stringify(envelope));
+        }
+        if (params.visibility) {
+            formData.append('visibility', params.visibility);
+        }
+        if (params.orgId) {
+            formData.append('orgId', params.orgId);
+        }
 
         // Upload to backend
         const uploadResponse = await fetch(`${this.backendUrl}/api/initiate-storage`, {
             method: 'POST',
+            headers: this.authHeaders(),
             body: formData,
         });
 
+        this.throwIfUnauthorized(uploadResponse);
+
         if (uploadResponse.status === 402) {
-            // Insufficient credits
-            const errorData = await uploadResponse.json() as {
-                error: string;
-                currentBalance: string;
-                requiredAmount: string;
-                message: string;
-            };
-            throw new Error(
-                `Insufficient credits. Balance: ${errorData.currentBalance} wei, Required: ${errorData.requiredAmount} wei. Please fund your account using fundCredits().`
-            );
+            await this.throwInsufficientCredits(uploadResponse);
         }
 
         if (!uploadResponse.ok) {
-            const errorData = await uploadResponse.json().catch(() => ({})) as { message?: string };
-            throw new Error(`Upload failed: ${errorData.message || uploadResponse.statusText}`);
+            const errorData = await uploadResponse.json().catch(() => ({})) as { error?: string; message?: string };
+            throw new Error(`Upload failed: ${errorData.message || errorData.error || uploadResponse.statusText}`);
         }
 
         const result = await uploadResponse.json() as UploadResult;
-        console.log('Upload complete:', result);
+        console.log('Upload queued:', result);
+
+        return result;
+    }
+
+    /**
+     * Upload many files, sent in batches of `batchSize` with `concurrency` requests
+     * in flight. Each batch is priced together and reserved with one credit hold.
+     * Failures are reported per file instead of thrown: a batch that is rejected
+     * (e.g. for insufficient credits) marks all of its files failed.
+     */
+    async uploadFiles(params: UploadFilesParams): Promise<BatchUploadResult> {
+        const { files, userAddress, storageDurationDays, visibility, orgId } = params;
+        const batchSize = Math.max(1, params.batchSize ?? DEFAULT_UPLOAD_BATCH_SIZE);
+        const concurrency = Math.max(1, params.concurrency ?? DEFAULT_UPLOAD_CONCURRENCY);
+
+        const batches: number[] = [];
+        for (let start = 0; start < files.length; start += batchSize) {
+            batches.push(start);
+        }
+
+        const results: BatchFileResult[] = new Array(files.length);
+        let next = 0;
+        const worker = async () => {
+            while (next < batches.length) {
+                const start = batches[next++];
+                const batch = files.slice(start, start + batchSize);
+                try {
+                    const result = await this.uploadBatch(batch, userAddress, storageDurationDays, visibility, orgId);
+                    result.files.forEach((file, i) => { results[start + i] = file; });
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : 'Unknown error';
+                    batch.forEach(({ fileName }, i) => {
+                        results[start + i] = { fileName, fileId: null, status: 'failed', error: message };
+                    });
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, worker));
+
+        let storageCost = 0n;
+        let queued = 0;
+        for (const result of results) {
+            if (result.status === 'queued') {
+                queued += 1;
+                storageCost += BigInt(result.storageCost);
+            }
+        }
+
+        console.log(`Batch upload queued ${queued} of ${files.length} files`);
+        return { queued, failed: files.length - queued, storageCost: storageCost.toString(), files: results };
+    }
+
+    /**
+     * Upload a directory tree. The backend packs it into a UnixFS DAG inside a CAR and
+     * stores that as one piece; individual files can then be listed with listDirectory()
+     * and downloaded with downloadFile(commp, { path }).
+     */
+    async uploadDirectory(params: UploadDirectoryParams): Promise<DirectoryUploadResult> {
+        const { files, directoryName, userAddress, storageDurationDays, visibility, orgId } = params;
+
+        const formData = new FormData();
+        formData.append('userAddress', userAddress);
+        formData.append('storageDurationDays', storageDurationDays.toString());
+        if (directoryName) {
+            formData.append('directoryName', directoryName);
+        }
+        if (visibility) {
+            formData.append('visibility', visibility);
+        }
+        if (orgId) {
+            formData.append('orgId', orgId);
+        }
+        formData.append('paths', JSON.stringify(files.map(({ path }) => path)));
+        for (const { path, file } of files) {
+            formData.append('files', this.toBlob(file), path.split('/').pop());
+        }
+
+        console.log(`Uploading directory ${directoryName ?? ''} (${files.length} files) for ${storageDurationDays} days`);
+
+        const response = await fetch(`${this.backendUrl}/api/initiate-storage/directory`, {
+            method: 'POST',
+            headers: this.authHeaders(),
+            body: formData,
+        });
+
+        this.throwIfUnauthorized(response);
+
+        if (response.status === 402) {
+            await this.throwInsufficientCredits(response);
+        }
+
+        if (!response.ok) {
+            const errorData = await response.json().catch(() => ({})) as { error?: string; message?: string };
+            throw new Error(`Upload failed: ${errorData.message || errorData.error || response.statusText}`);
+        }
+
+        const result = await response.json() as DirectoryUploadResult;
+        console.log('Directory upload queued:', result);
 
         return result;
     }
+
+    /**
+     * Upload a file in chunks using the tus protocol, resuming where a previous
+     * attempt stopped. The upload URL is kept in `params.store` under a fingerprint of
+     * the file, so calling this again with the same file after a crash or restart
+     * continues the same upload. The fingerprint covers the file's content, which is
+     * read once to hash it before uploading. Returns once the backend has queued the file.
+     */
+    async uploadFileResumable(params: ResumableUploadParams): Promise<UploadResult> {
+        const {
+            file,
+            fileName,
+            userAddress,
+            storageDurationDays,
+            chunkSize = DEFAULT_RESUMABLE_CHUNK_SIZE,
+            store = defaultUploadStore(),
+            maxRetries = 5,
+            onProgress,
+        } = params;
+
+        let blob: Blob;
+        if (file instanceof Uint8Array) {
+            blob = new Blob([file]);
+        } else if (file instanceof File) {
+            blob = file;
+        } else {
+            throw new Error('Invalid file type. Expected File, Uint8Array, or Buffer.');
+        }
+
+        const fingerprint = params.fingerprint ?? [
+            userAddress.toLowerCase(),
+            fileName,
+            blob.size,
+            await hashUploadContent(blob),
+            storageDurationDays,
+            params.orgId ?? '',
+        ].join(':');
+
+        let uploadUrl = await store.get(fingerprint);
+        let offset = uploadUrl ? await this.getResumableOffset(uploadUrl) : null;
+
+        if (uploadUrl && offset === null) {
+            // Expired or removed on the backend; start over
+            await store.remove(fingerprint);
+            uploadUrl = null;
+        }
+
+        if (!uploadUrl || offset === null) {
+            const quoteId = params.quoteId ?? (await this.getQuote({ fileSize: blob.size, storageDurationDays })).quoteId;
+            uploadUrl = await this.createResumableUpload(blob.size, fileName, storageDurationDays, quoteId, params.orgId);
+            await store.set(fingerprint, uploadUrl);
+            offset = 0;
+            console.log(`Created resumable upload for ${fileName}: ${uploadUrl}`);
+        } else {
+            console.log(`Resuming upload of ${fileName} at byte ${offset} of ${blob.size}`);
+        }
+
+        let failures = 0;
+        while (true) {
+            let response: Response | null = null;
+            try {
+                response = await fetch(uploadUrl, {
+                    method: 'PATCH',
+                    headers: {
+                        ...this.authHeaders(),
+                        'Tus-Resumable': TUS_VERSION,
+                        'Upload-Offset': offset.toString(),
+                        'Content-Type': 'application/offset+octet-stream',
+                    },
+                    body: blob.slice(offset, Math.min(offset + chunkSize, blob.size)),
+                });
+            } catch (error) {
+                console.warn(`Chunk at byte ${offset} failed:`, error);
+            }
+
+            if (response?.ok) {
+                failures = 0;
+                offset = Number(response.headers.get('Upload-Offset'));
+                onProgress?.(offset, blob.size);
+
+                if (offset >= blob.size) {
+                    await store.remove(fingerprint);
+                    return {
+                        fileId: uploadUrl.slice(uploadUrl.lastIndexOf('/') + 1),
+                        status: 'queued',
+                        message: 'File queued for upload',
+                        storageCost: response.headers.get('Upload-Storage-Cost') ?? '0',
+                    };
+                }
+                continue;
+            }
+
+            if (response) {
+                this.throwIfUnauthorized(response);
+                if (response.status === 402) {
+                    // Keep the stored URL so the upload can be finalized after funding
+                    await this.throwInsufficientCredits(response);
+                }
+                // Offset conflicts and server errors are retried; anything else is final
+                if (response.status !== 409 && response.status < 500) {
+                    const errorData = await response.json().catch(() => ({})) as { error?: string; message?: string };
+                    throw new Error(`Upload failed: ${errorData.message || errorData.error || response.statusText}`);
+                }
+            }
+
+            failures += 1;
+            if (failures > maxRetries) {
+                throw new Error(`Upload failed after ${maxRetries} retries at byte ${offset}. Call uploadFileResumable() again to resume.`);
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, Math.min(1000 * 2 ** (failures - 1), 30000)));
+
+            // Find out how much of the failed chunk the backend kept
+            const serverOffset = await this.getResumableOffset(uploadUrl).catch(() => null);
+            if (serverOffset !== null) {
+                offset = serverOffset;
+            }
+        }
+    }
+
+    /**
+     * Get the current status of a queued upload
+     */
+    async getUploadStatus(fileId: string): Promise<UploadJobStatus> {
+        const response = await fetch(`${this.backendUrl}/api/uploads/${fileId}`, {
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            throw new Error(`Failed to fetch upload status: ${response.statusText}`);
+        }
+
+        return await response.json() as UploadJobStatus;
+    }
+
+    /**
+     * Poll an upload with exponential backoff until it is stored on Filecoin.
+     * Throws if the upload fails or the timeout elapses.
+     */
+    async waitForUpload(fileId: string, options: WaitForUploadOptions = {}): Promise<UploadJobStatus> {
+        const { timeoutMs = 1800000, initialIntervalMs = 2000, maxIntervalMs = 30000, onProgress } = options; // 30min timeout
+        const startTime = Date.now();
+        let intervalMs = initialIntervalMs;
+
+        while (true) {
+            const status = await this.getUploadStatus(fileId);
+            onProgress?.(status);
+
+            if (status.status === 'stored') {
+                return status;
+            }
+            if (status.status === 'failed') {
+                throw new Error(`Upload failed: ${status.error || 'Unknown error'}`);
+            }
+
+            const elapsed = Date.now() - startTime;
+            if (elapsed + intervalMs > timeoutMs) {
+                throw new Error(`Upload ${fileId} still ${status.status} after ${elapsed}ms`);
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, intervalMs));
+            intervalMs = Math.min(intervalMs * 2, maxIntervalMs);
+        }
+    }
+
+    /**
+     * Stream live upload, bridge and balance events for the signed-in address.
+     * Reconnects when the connection drops until close() is called; events sent
+     * while disconnected are not replayed, so re-read state in onOpen.
+     * Stops, reporting to onError, once the session is no longer valid.
+     */
+    subscribe(onEvent: (event: StorageEvent) => void, options: SubscribeOptions = {}): EventSubscription {
+        if (!this.sessionToken && !this.apiKey) {
+            throw new Error('Not signed in or session expired. Call login() first.');
+        }
+
+        const controller = new AbortController();
+        let reconnectDelayMs = options.reconnectDelayMs ?? DEFAULT_EVENT_RECONNECT_DELAY_MS;
+        const reportError = (error: unknown) => {
+            options.onError?.(error instanceof Error ? error : new Error(String(error)));
+        };
+
+        const run = async () => {
+            while (!controller.signal.aborted) {
+                try {
+                    const response = await fetch(`${this.backendUrl}/api/events`, {
+                        headers: { ...this.authHeaders(), Accept: 'text/event-stream' },
+                        signal: controller.signal,
+                    });
+
+                    if (response.status === 401) {
+                        reportError(new Error('Not signed in or session expired. Call login() first.'));
+                        return;
+                    }
+                    if (!response.ok || !response.body) {
+                        const errorData = await response.json().catch(() => ({})) as { error?: string };
+                        throw new Error(`Failed to open event stream: ${errorData.error || response.statusText}`);
+                    }
+
+                    const events = readEventStream(response.body, (delayMs) => {
+                        if (options.reconnectDelayMs === undefined) {
+                            reconnectDelayMs = delayMs;
+                        }
+                    });
+                    for await (const message of events) {
+                        if (message.event === 'ready') {
+                            options.onOpen?.();
+                        } else if (message.event === 'session_expired') {
+                            reportError(new Error('Not signed in or session expired. Call login() first.'));
+                            return;
+                        } else if (message.event === 'upload' || message.event === 'bridge' || message.event === 'balance') {
+                            try {
+                                onEvent({ ...JSON.parse(message.data), type: message.event } as StorageEvent);
+                            } catch (error) {
+                                reportError(error);
+                            }
+                        }
+                    }
+                } catch (error) {
+                    if (controller.signal.aborted) {
+                        return;
+                    }
+                    reportError(error);
+                }
+
+                await new Promise<void>((resolve) => {
+                    const timer = setTimeout(resolve, reconnectDelayMs);
+                    controller.signal.addEventListener('abort', () => {
+                        clearTimeout(timer);
+                        resolve();
+                    }, { once: true });
+                });
+            }
+        };
+        void run();
+
+        return { close: () => controller.abort() };
+    }
+
+    /**
+     * Pay for more storage days on a stored file, charged from credits.
+     * Expired files are renewed starting now.
+     */
+    async extendStorage(params: ExtendStorageParams): Promise<ExtendStorageResult> {
+        const { fileId, additionalDays } = params;
+
+        const response = await fetch(`${this.backendUrl}/api/files/${fileId}/extend`, {
+            method: 'POST',
+            headers: { ...this.authHeaders(), 'Content-Type': 'application/json' },
+            body: JSON.stringify({ additionalDays }),
+        });
+
+        this.throwIfUnauthorized(response);
+
+        if (response.status === 402) {
+            await this.throwInsufficientCredits(response);
+        }
+
+        if (!response.ok) {
+            const errorData = await response.json().catch(() => ({})) as { error?: string; message?: string };
+            throw new Error(`Failed to extend storage: ${errorData.message || errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as ExtendStorageResult;
+    }
+
+    /**
+     * Delete a stored file. Its piece is removed from the storage provider and the
+     * unused storage days plus the lockup are refunded to credits.
+     */
+    async deleteFile(fileId: string): Promise<DeleteFileResult> {
+        const response = await fetch(`${this.backendUrl}/api/files/${fileId}`, {
+            method: 'DELETE',
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to delete file: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as DeleteFileResult;
+    }
+
+    /**
+     * Create a link that lets anyone download the file without signing in, until it
+     * expires, runs out of downloads or is revoked. The URL can't be retrieved later.
+     */
+    async createShareLink(fileId: string, params: CreateShareLinkParams = {}): Promise<CreatedShareLink> {
+        const response = await fetch(`${this.backendUrl}/api/files/${fileId}/shares`, {
+            method: 'POST',
+            headers: { ...this.authHeaders(), 'Content-Type': 'application/json' },
+            body: JSON.stringify(params),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to create share link: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as CreatedShareLink;
+    }
+
+    /**
+     * A file's share links, newest first
+     */
+    async listShareLinks(fileId: string): Promise<ShareLink[]> {
+        const response = await fetch(`${this.backendUrl}/api/files/${fileId}/shares`, {
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to list share links: ${errorData.error || response.statusText}`);
+        }
+
+        const data = await response.json() as { shares: ShareLink[] };
+        return data.shares;
+    }
+
+    async revokeShareLink(fileId: string, shareId: string): Promise<ShareLink> {
+        const response = await fetch(`${this.backendUrl}/api/files/${fileId}/shares/${shareId}`, {
+            method: 'DELETE',
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to revoke share link: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as ShareLink;
+    }
+
+    /**
+     * Make a file private, unlisted or public
+     */
+    async setFileVisibility(fileId: string, visibility: FileVisibility): Promise<UserFile> {
+        const response = await fetch(`${this.backendUrl}/api/files/${fileId}/visibility`, {
+            method: 'PUT',
+            headers: { ...this.authHeaders(), 'Content-Type': 'application/json' },
+            body: JSON.stringify({ visibility }),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to change file visibility: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as UserFile;
+    }
+
+    /**
+     * Addresses besides the owner that may download a private file
+     */
+    async listFileReaders(fileId: string): Promise<FileReader[]> {
+        const response = await fetch(`${this.backendUrl}/api/files/${fileId}/readers`, {
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to list file readers: ${errorData.error || response.statusText}`);
+        }
+
+        const data = await response.json() as { readers: FileReader[] };
+        return data.readers;
+    }
+
+    /**
+     * Let another address download a private file with its own session
+     */
+    async addFileReader(fileId: string, readerAddress: `0x${string}`): Promise<FileReader[]> {
+        const response = await fetch(`${this.backendUrl}/api/files/${fileId}/readers/${readerAddress}`, {
+            method: 'PUT',
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to add file reader: ${errorData.error || response.statusText}`);
+        }
+
+        const data = await response.json() as { readers: FileReader[] };
+        return data.readers;
+    }
+
+    async removeFileReader(fileId: string, readerAddress: `0x${string}`): Promise<FileReader[]> {
+        const response = await fetch(`${this.backendUrl}/api/files/${fileId}/readers/${readerAddress}`, {
+            method: 'DELETE',
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to remove file reader: ${errorData.error || response.statusText}`);
+        }
+
+        const data = await response.json() as { readers: FileReader[] };
+        return data.readers;
+    }
+
+    /**
+     * Issue an API key for server-to-server use, such as CI uploads. Needs a session.
+     * The returned `key` is not shown again.
+     */
+    async createApiKey(params: CreateApiKeyParams): Promise<CreatedApiKey> {
+        const response = await fetch(`${this.backendUrl}/api/api-keys`, {
+            method: 'POST',
+            headers: { ...this.authHeaders(), 'Content-Type': 'application/json' },
+            body: JSON.stringify(params),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to create API key: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as CreatedApiKey;
+    }
+
+    async listApiKeys(): Promise<ApiKey[]> {
+        const response = await fetch(`${this.backendUrl}/api/api-keys`, {
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to list API keys: ${errorData.error || response.statusText}`);
+        }
+
+        const data = await response.json() as { apiKeys: ApiKey[] };
+        return data.apiKeys;
+    }
+
+    async revokeApiKey(apiKeyId: string): Promise<ApiKey> {
+        const response = await fetch(`${this.backendUrl}/api/api-keys/${apiKeyId}`, {
+            method: 'DELETE',
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to revoke API key: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as ApiKey;
+    }
+
+    /**
+     * Register an endpoint for event notifications. Keep the returned secret to
+     * verify deliveries with verifyWebhookSignature(); it can't be fetched again.
+     */
+    async createWebhook(params: CreateWebhookParams): Promise<CreatedWebhook> {
+        const response = await fetch(`${this.backendUrl}/api/webhooks`, {
+            method: 'POST',
+            headers: { ...this.authHeaders(), 'Content-Type': 'application/json' },
+            body: JSON.stringify(params),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to create webhook: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as CreatedWebhook;
+    }
+
+    async listWebhooks(): Promise<Webhook[]> {
+        const response = await fetch(`${this.backendUrl}/api/webhooks`, {
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to list webhooks: ${errorData.error || response.statusText}`);
+        }
+
+        const data = await response.json() as { webhooks: Webhook[] };
+        return data.webhooks;
+    }
+
+    async deleteWebhook(webhookId: string): Promise<void> {
+        const response = await fetch(`${this.backendUrl}/api/webhooks/${webhookId}`, {
+            method: 'DELETE',
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to delete webhook: ${errorData.error || response.statusText}`);
+        }
+    }
+
+    /**
+     * One page of a webhook's delivery log, newest first by default
+     */
+    async listWebhookDeliveries(webhookId: string, options: ListWebhookDeliveriesOptions = {}): Promise<WebhookDeliveryPage> {
+        const response = await fetch(`${this.backendUrl}/api/webhooks/${webhookId}/deliveries${this.listQuery(options)}`, {
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to list webhook deliveries: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as WebhookDeliveryPage;
+    }
+
+    /**
+     * Send a failed delivery again with the same payload and a fresh set of retries
+     */
+    async replayWebhookDelivery(webhookId: string, deliveryId: string): Promise<WebhookDelivery> {
+        const response = await fetch(`${this.backendUrl}/api/webhooks/${webhookId}/deliveries/${deliveryId}/replay`, {
+            method: 'POST',
+            headers: this.authHeaders(),
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to replay webhook delivery: ${errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as WebhookDelivery;
+    }
+
+    private async createResumableUpload(
+        size: number,
+        fileName: string,
+        storageDurationDays: number,
+        quoteId: string,
+        orgId?: string
+    ): Promise<string> {
+        const response = await fetch(`${this.backendUrl}/api/tus`, {
+            method: 'POST',
+            headers: {
+                ...this.authHeaders(),
+                'Tus-Resumable': TUS_VERSION,
+                'Upload-Length': size.toString(),
+                'Upload-Metadata': encodeUploadMetadata({
+                    filename: fileName,
+                    storageDurationDays: storageDurationDays.toString(),
+                    quoteId,
+                    ...(orgId ? { orgId } : {}),
+                }),
+            },
+        });
+
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            const errorData = await response.json().catch(() => ({})) as { error?: string };
+            throw new Error(`Failed to create upload: ${errorData.error || response.statusText}`);
+        }
+
+        const location = response.headers.get('Location');
+        if (!location) {
+            throw new Error('Backend did not return an upload URL');
+        }
+        return new URL(location, this.backendUrl).toString();
+    }
+
+    /**
+     * Bytes the backend has received for an upload, or null if it no longer exists
+     */
+    private async getResumableOffset(uploadUrl: string): Promise<number | null> {
+        const response = await fetch(uploadUrl, {
+            method: 'HEAD',
+            headers: { ...this.authHeaders(), 'Tus-Resumable': TUS_VERSION },
+        });
+
+        if (response.status === 404 || response.status === 410) {
+            return null;
+        }
+        if (!response.ok) {
+            this.throwIfUnauthorized(response);
+            throw new Error(`Failed to fetch upload offset: ${response.statusText}`);
+        }
+
+        return Number(response.headers.get('Upload-Offset'));
+    }
+
+    private async throwInsufficientCredits(response: Response): Promise<never> {
+        const errorData = await response.json() as {
+            error: string;
+            currentBalance: string;
+            requiredAmount: string;
+            message: string;
+        };
+        throw new Error(
+            `Insufficient credits. Balance: ${errorData.currentBalance} wei, Required: ${errorData.requiredAmount} wei. Please fund your account using fundCredits().`
+        );
+    }
+
+    private async uploadBatch(
+        files: UploadFilesParams['files'],
+        userAddress: `0x${string}`,
+        storageDurationDays: number,
+        visibility?: FileVisibility,
+        orgId?: string
+    ): Promise<BatchUploadResult> {
+        const formData = new FormData();
+        formData.append('userAddress', userAddress);
+        formData.append('storageDurationDays', storageDurationDays.toString());
+        if (visibility) {
+            formData.append('visibility', visibility);
+        }
+        if (orgId) {
+            formData.append('orgId', orgId);
+        }
+        for (const { file, fileName } of files) {
+            formData.append('files', this.toBlob(file), fileName);
+        }
+
+        const response = await fetch(`${this.backendUrl}/api/initiate-storage/batch`, {
+            method: 'POST',
+            headers: this.authHeaders(),
+            body: formData,
+        });
+
+        this.throwIfUnauthorized(response);
+
+        if (response.status === 402) {
+            await this.throwInsufficientCredits(response);
+        }
+
+        if (!response.ok) {
+            const errorData = await response.json().catch(() => ({})) as { error?: string; message?: string };
+            throw new Error(`Upload failed: ${errorData.message || errorData.error || response.statusText}`);
+        }
+
+        return await response.json() as BatchUploadResult;
+    }
+
+    /**
+     * The wallet's signature over the encryption key message for address, which
+     * derives the key that wraps its files' data keys
+     */
+    private async getEncryptionSignature(address: `0x${string}`): Promise<`0x${string}`> {
+        const cached = this.encryptionSignatures.get(address.toLowerCase());
+        if (cached) {
+            return cached;
+        }
+
+        const account = this.walletClient?.account;
+        if (!this.walletClient || !account) {
+            throw new Error('Wallet client with an account is required to encrypt or decrypt files.');
+        }
+        if (account.address.toLowerCase() !== address.toLowerCase()) {
+            throw new Error(`File is encrypted for ${address}, but the wallet account is ${account.address}.`);
+        }
+
+        const signature = await this.walletClient.signMessage({ account, message: buildEncryptionKeyMessage(address) });
+        this.encryptionSignatures.set(address.toLowerCase(), signature);
+        return signature;
+    }
+
+    private toBlob(file: File | Uint8Array | Buffer): Blob {
+        if (file instanceof Uint8Array || Buffer.isBuffer(file)) {
+            return new Blob([file]);
+        }
+        if (file instanceof File) {
+            return file;
+        }
+        throw new Error('Invalid file type. Expected File, Uint8Array, or Buffer.');
+    }
+
+    /**
+     * Query string for the list endpoints; undefined options are left out
+     */
+    private listQuery(options: object): string {
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(options)) {
+            if (value !== undefined) {
+                params.set(key, String(value));
+            }
+        }
+        const query = params.toString();
+        return query ? `?${query}` : '';
+    }
+
+    private authHeaders(): Record<string, string> {
+        const headers: Record<string, string> = {};
+        if (this.sessionToken) {
+            headers.Authorization = `Bearer ${this.sessionToken}`;
+        }
+        // The backend uses the session when both are sent and it is still valid
+        if (this.apiKey) {
+            headers['X-API-Key'] = this.apiKey;
+        }
+        return headers;
+    }
+
+    private throwIfUnauthorized(response: Response): void {
+        // Without a session, the API key is what the backend turned down
+        const usingApiKey = !!this.apiKey && !this.sessionToken;
+        if (response.status === 401) {
+            throw new Error(usingApiKey
+                ? 'API key is invalid, revoked or expired.'
+                : 'Not signed in or session expired. Call login() first.');
+        }
+        if (response.status === 403) {
+            throw new Error(usingApiKey
+                ? 'API key is not allowed to do this; check its scopes, or sign in for routes that need a session.'
+                : 'Session is not authorized for this address.');
+        }
+    }
 }
@@ -6,6 +6,22 @@ export const DEFAULT_BACKEND_URL = 'http://localhost:3001';
 
 export const DEFAULT_BACKEND_FILECOIN_ADDRESS = '0xd490fb9eee2578444cfa56d74b4afaf215efc269';
 
+/**
+ * Files sent per request by uploadFiles(), and requests it keeps in flight
+ */
+export const DEFAULT_UPLOAD_BATCH_SIZE = 100;
+export const DEFAULT_UPLOAD_CONCURRENCY = 2;
+
+/**
+ * Wait before subscribe() reconnects, until the backend suggests its own
+ */
+export const DEFAULT_EVENT_RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Most files or transactions the backend returns per page
+ */
+export const MAX_PAGE_LIMIT = 200;
+
 /**
  * Filecoin chain ID (Calibration testnet)
  * Mainnet: 314
@@ -13,13 +29,20 @@ export const DEFAULT_BACKEND_FILECOIN_ADDRESS = '0xd490fb9eee2578444cfa56d74b4af
  */
 export const FILECOIN_CHAIN_ID = 314159;
 
+/**
+ * Filecoin chain bridge payments are sent to: OnlySwaps and USDFC are on mainnet,
+ * even while storage runs on Calibration. Must match the backend's BRIDGE_CHAIN_ID,
+ * which deposits are verified on.
+ */
+export const BRIDGE_DESTINATION_CHAIN_ID = 314;
+
 /**
  * Synapse SDK cost parameters (Filecoin Calibration testnet)
  * Source: https://synapse-sdk-docs.netlify.app/developer-guides/storage/storage-costs/
  */
 export const SYNAPSE_COSTS = {
     // Rate: ongoing cost per byte per epoch
-    // Placeholder values - should be updated with actual testnet values from Synapse contracts
+    // Placeholder values - the backend charges live prices, see SynapseStorageClient.getPricing()
     BYTES_RATE: 100n,
 
     // Lockup: upfront deposit per byte (returned when storage ends)
@@ -27,34 +50,89 @@ export const SYNAPSE_COSTS = {
 
     // Time constants
     EPOCHS_PER_DAY: 2880n,
+
+    TIB: 1n << 40n,
+};
+
+/**
+ * Per-TiB prices, as returned by SynapseStorageClient.getPricing()
+ */
+export interface StoragePrices {
+    ratePerTiBPerEpoch: bigint;  // USDFC wei per TiB per epoch
+    lockupPerTiB: bigint;  // USDFC wei per TiB, paid once upfront
+}
+
+/**
+ * The placeholder SYNAPSE_COSTS as per-TiB prices
+ */
+export const PLACEHOLDER_STORAGE_PRICES: StoragePrices = {
+    ratePerTiBPerEpoch: SYNAPSE_COSTS.BYTES_RATE * SYNAPSE_COSTS.TIB,
+    lockupPerTiB: SYNAPSE_COSTS.BYTES_LOCKUP * SYNAPSE_COSTS.TIB,
 };
 
+function perTiB(fileSizeBytes: number, amountPerTiB: bigint): bigint {
+    return (BigInt(fileSizeBytes) * amountPerTiB + SYNAPSE_COSTS.TIB - 1n) / SYNAPSE_COSTS.TIB;
+}
+
 /**
- * Calculate storage cost using Synapse formula
- * 
+ * Calculate storage cost using Synapse formula, the same way the backend does
+ *
  * Formula from Synapse SDK:
- * totalCost = (fileSize × bytesRate × durationEpochs) + (fileSize × bytesLockup)
- * 
+ * totalCost = (fileSize × ratePerTiB × durationEpochs) / TiB + (fileSize × lockupPerTiB) / TiB
+ *
  * Where:
  * - fileSize: size of the file in bytes
- * - bytesRate: ongoing cost per byte per epoch
+ * - ratePerTiB: ongoing cost per TiB per epoch
  * - durationEpochs: storage duration in epochs (durationDays × EPOCHS_PER_DAY)
- * - bytesLockup: upfront deposit per byte
- * 
+ * - lockupPerTiB: upfront deposit per TiB
+ *
+ * Each term is rounded up to whole wei.
+ *
  * @param fileSizeBytes File size in bytes
  * @param durationDays Storage duration in days
+ * @param prices Prices from getPricing() (default: placeholder prices)
  * @returns Total cost in USDFC wei
  */
-export function calculateStorageCost(fileSizeBytes: number, durationDays: number): bigint {
+export function calculateStorageCost(
+    fileSizeBytes: number,
+    durationDays: number,
+    prices: StoragePrices = PLACEHOLDER_STORAGE_PRICES
+): bigint {
     const durationEpochs = BigInt(durationDays) * SYNAPSE_COSTS.EPOCHS_PER_DAY;
-    const fileSize = BigInt(fileSizeBytes);
 
     // Rate cost: ongoing cost over the storage period
-    const rateCost = fileSize * SYNAPSE_COSTS.BYTES_RATE * durationEpochs;
+    const rateCost = perTiB(fileSizeBytes, prices.ratePerTiBPerEpoch * durationEpochs);
 
     // Lockup cost: upfront deposit (returned when storage ends)
-    const lockupCost = fileSize * SYNAPSE_COSTS.BYTES_LOCKUP;
+    const lockupCost = calculateLockupCost(fileSizeBytes, prices);
 
     return rateCost + lockupCost;
 }
 
+/**
+ * Upfront deposit for a file, paid once when it is first stored
+ *
+ * @param fileSizeBytes File size in bytes
+ * @param prices Prices from getPricing() (default: placeholder prices)
+ * @returns Lockup in USDFC wei
+ */
+export function calculateLockupCost(fileSizeBytes: number, prices: StoragePrices = PLACEHOLDER_STORAGE_PRICES): bigint {
+    return perTiB(fileSizeBytes, prices.lockupPerTiB);
+}
+
+/**
+ * Cost of adding days to a file that is already stored.
+ * The lockup was paid with the original upload, so only the rate is charged.
+ *
+ * @param fileSizeBytes File size in bytes
+ * @param additionalDays Days added to the storage period
+ * @param prices Prices from getPricing() (default: placeholder prices)
+ * @returns Cost in USDFC wei
+ */
+export function calculateExtensionCost(
+    fileSizeBytes: number,
+    additionalDays: number,
+    prices: StoragePrices = PLACEHOLDER_STORAGE_PRICES
+): bigint {
+    return calculateStorageCost(fileSizeBytes, additionalDays, prices) - calculateLockupCost(fileSizeBytes, prices);
+}
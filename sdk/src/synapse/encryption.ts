@@ -0,0 +1,191 @@
+/**
+ * Client-side file encryption, see UploadFileParams.encrypt
+ *
+ * Files are encrypted with a random AES-256-GCM data key in fixed-size segments, each
+ * sealed on its own, so large files are never passed to the cipher in one piece. The
+ * data key is wrapped with AES-KW under a key derived (HKDF-SHA256) from the wallet's
+ * signature over buildEncryptionKeyMessage(); signing again on download recovers it.
+ */
+
+import { hexToBytes } from 'viem';
+import type { EncryptionEnvelope } from './types.js';
+
+/**
+ * Default plaintext bytes per encrypted segment (1 MiB)
+ */
+export const DEFAULT_ENCRYPTION_SEGMENT_SIZE = 1024 * 1024;
+
+const TAG_BYTES = 16;
+const NONCE_PREFIX_BYTES = 7;
+const SALT_BYTES = 32;
+const WRAP_INFO = new TextEncoder().encode('filbridge-file-key-wrap-v1');
+
+/**
+ * The message a wallet signs to derive its encryption key. Wallets must sign
+ * deterministically (RFC 6979, as EOAs do), or files can't be decrypted later.
+ */
+export function buildEncryptionKeyMessage(address: `0x${string}`): string {
+    return [
+        'FilBridge file encryption key',
+        '',
+        'Signing this message unlocks the files you encrypt with FilBridge. Only sign it in apps you trust.',
+        '',
+        `Address: ${address.toLowerCase()}`,
+        'Version: 1',
+    ].join('\n');
+}
+
+/**
+ * Ciphertext bytes for plaintextSize bytes; an empty file is still one (tag-only) segment
+ */
+export function encryptedSize(plaintextSize: number, segmentSize: number = DEFAULT_ENCRYPTION_SEGMENT_SIZE): number {
+    const segments = Math.max(1, Math.ceil(plaintextSize / segmentSize));
+    return plaintextSize + segments * TAG_BYTES;
+}
+
+/**
+ * Encrypt a file for upload. The returned envelope is stored with the file record.
+ */
+export async function encryptBlob(
+    data: Blob,
+    signer: `0x${string}`,
+    signature: `0x${string}`,
+    segmentSize: number = DEFAULT_ENCRYPTION_SEGMENT_SIZE
+): Promise<{ ciphertext: Blob; envelope: EncryptionEnvelope }> {
+    const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const noncePrefix = crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_BYTES));
+
+    const wrappingKey = await deriveWrappingKey(signature, salt);
+    const wrappedKey = new Uint8Array(await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, 'AES-KW'));
+
+    const segments = Math.max(1, Math.ceil(data.size / segmentSize));
+    const parts: Uint8Array[] = [];
+    for (let index = 0; index < segments; index++) {
+        const plaintext = await data.slice(index * segmentSize, (index + 1) * segmentSize).arrayBuffer();
+        const iv = segmentNonce(noncePrefix, index, index === segments - 1);
+        parts.push(new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, dataKey, plaintext)));
+    }
+
+    return {
+        ciphertext: new Blob(parts),
+        envelope: {
+            version: 1,
+            algorithm: 'AES-256-GCM-SEGMENTED',
+            segmentSize,
+            plaintextSize: data.size,
+            noncePrefix: toBase64(noncePrefix),
+            keyWrap: {
+                algorithm: 'AES-KW-HKDF-SHA256',
+                signer: signer.toLowerCase() as `0x${string}`,
+                salt: toBase64(salt),
+                wrappedKey: toBase64(wrappedKey),
+            },
+        },
+    };
+}
+
+/**
+ * Decrypt a downloaded file as it arrives. Fails if any segment was altered,
+ * reordered or cut off, or if signature is not the one the file was encrypted with.
+ */
+export async function decryptStream(
+    source: ReadableStream<Uint8Array>,
+    envelope: EncryptionEnvelope,
+    signature: `0x${string}`
+): Promise<Uint8Array> {
+    const wrappingKey = await deriveWrappingKey(signature, fromBase64(envelope.keyWrap.salt));
+    const dataKey = await crypto.subtle
+        .unwrapKey('raw', fromBase64(envelope.keyWrap.wrappedKey), wrappingKey, 'AES-KW', 'AES-GCM', false, ['decrypt'])
+        .catch(() => {
+            throw new Error(`Failed to decrypt file: the key can only be unwrapped by ${envelope.keyWrap.signer}`);
+        });
+
+    const noncePrefix = fromBase64(envelope.noncePrefix);
+    const segmentBytes = envelope.segmentSize + TAG_BYTES;
+    const output = new Uint8Array(envelope.plaintextSize);
+    let written = 0;
+    let index = 0;
+
+    const decryptSegment = async (ciphertext: Uint8Array, last: boolean) => {
+        let plaintext: Uint8Array;
+        try {
+            const iv = segmentNonce(noncePrefix, index, last);
+            plaintext = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, dataKey, ciphertext));
+        } catch {
+            throw new Error(`Failed to decrypt file: segment ${index} is corrupt or the file was truncated`);
+        }
+        if (written + plaintext.length > output.length) {
+            throw new Error('Failed to decrypt file: more data than the envelope describes');
+        }
+        output.set(plaintext, written);
+        written += plaintext.length;
+        index++;
+    };
+
+    // Always hold back at least one byte past a full segment, so only the real last
+    // segment is opened with the last-segment nonce
+    let buffered = new Uint8Array(0);
+    const reader = source.getReader();
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        const joined = new Uint8Array(buffered.length + value.length);
+        joined.set(buffered);
+        joined.set(value, buffered.length);
+
+        let offset = 0;
+        while (joined.length - offset > segmentBytes) {
+            await decryptSegment(joined.subarray(offset, offset + segmentBytes), false);
+            offset += segmentBytes;
+        }
+        buffered = joined.slice(offset);
+    }
+    await decryptSegment(buffered, true);
+
+    if (written !== output.length) {
+        throw new Error('Failed to decrypt file: less data than the envelope describes');
+    }
+    return output;
+}
+
+/**
+ * Read the envelope the backend sends with an encrypted download (X-Encryption-Envelope)
+ */
+export function decodeEnvelopeHeader(header: string): EncryptionEnvelope {
+    const base64 = header.replace(/-/g, '+').replace(/_/g, '/');
+    const json = new TextDecoder().decode(fromBase64(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')));
+    return JSON.parse(json) as EncryptionEnvelope;
+}
+
+async function deriveWrappingKey(signature: `0x${string}`, salt: Uint8Array) {
+    const material = await crypto.subtle.importKey('raw', hexToBytes(signature), 'HKDF', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt, info: WRAP_INFO },
+        material,
+        { name: 'AES-KW', length: 256 },
+        false,
+        ['wrapKey', 'unwrapKey']
+    );
+}
+
+/**
+ * 96-bit GCM nonce: random prefix, big-endian segment counter, last-segment flag
+ */
+function segmentNonce(prefix: Uint8Array, index: number, last: boolean): Uint8Array {
+    const nonce = new Uint8Array(NONCE_PREFIX_BYTES + 5);
+    nonce.set(prefix);
+    new DataView(nonce.buffer).setUint32(NONCE_PREFIX_BYTES, index);
+    nonce[nonce.length - 1] = last ? 1 : 0;
+    return nonce;
+}
+
+function toBase64(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+    return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
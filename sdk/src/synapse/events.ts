@@ -0,0 +1,74 @@
+/**
+ * Reading the backend's Server-Sent Events stream, see SynapseStorageClient.subscribe
+ *
+ * EventSource can't send an Authorization header, so the stream is read with fetch
+ * and parsed here. Only the fields the backend sends are handled: id, event, data
+ * and retry.
+ */
+
+export interface ServerSentEvent {
+    id: string | null;
+    event: string;
+    data: string;
+}
+
+/**
+ * Split a text/event-stream body into events. A reconnection delay sent by the
+ * server is passed to onRetry.
+ */
+export async function* readEventStream(
+    body: ReadableStream<Uint8Array>,
+    onRetry?: (delayMs: number) => void
+): AsyncGenerator<ServerSentEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let id: string | null = null;
+    let event = '';
+    let data: string[] = [];
+
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) {
+                return;
+            }
+            buffer += decoder.decode(value, { stream: true });
+
+            let lineEnd: number;
+            while ((lineEnd = buffer.search(/\r\n|\r|\n/)) >= 0) {
+                const line = buffer.slice(0, lineEnd);
+                buffer = buffer.slice(lineEnd + (buffer.startsWith('\r\n', lineEnd) ? 2 : 1));
+
+                // A blank line ends the event
+                if (line === '') {
+                    if (data.length > 0) {
+                        yield { id, event: event || 'message', data: data.join('\n') };
+                    }
+                    event = '';
+                    data = [];
+                    continue;
+                }
+                // Comment, used for keep-alives
+                if (line.startsWith(':')) {
+                    continue;
+                }
+
+                const colon = line.indexOf(':');
+                const field = colon < 0 ? line : line.slice(0, colon);
+                const value = colon < 0 ? '' : line.slice(colon + 1).replace(/^ /, '');
+                if (field === 'id') {
+                    id = value;
+                } else if (field === 'event') {
+                    event = value;
+                } else if (field === 'data') {
+                    data.push(value);
+                } else if (field === 'retry' && /^\d+$/.test(value)) {
+                    onRetry?.(parseInt(value, 10));
+                }
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
@@ -1,4 +1,9 @@
 export * from './client.js';
 export * from './types.js';
 export * from './constants.js';
+export * from './auth.js';
+export * from './resumable.js';
+export * from './encryption.js';
+export * from './webhooks.js';
+export * from './events.js';
 
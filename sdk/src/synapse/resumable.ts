@@ -0,0 +1,75 @@
+/**
+ * Helpers for resumable (tus 1.0.0) uploads, see SynapseStorageClient.uploadFileResumable
+ */
+
+import type { ResumableUploadStore } from './types.js';
+
+export const TUS_VERSION = '1.0.0';
+
+/**
+ * Default bytes sent per PATCH request (5 MiB)
+ */
+export const DEFAULT_RESUMABLE_CHUNK_SIZE = 5 * 1024 * 1024;
+
+interface KeyValueStorage {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+/**
+ * Keeps upload URLs for the lifetime of the process only
+ */
+export function createMemoryUploadStore(): ResumableUploadStore {
+    const urls = new Map<string, string>();
+    return {
+        get: (key) => urls.get(key) ?? null,
+        set: (key, uploadUrl) => { urls.set(key, uploadUrl); },
+        remove: (key) => { urls.delete(key); },
+    };
+}
+
+/**
+ * Keeps upload URLs in a Web Storage object (localStorage by default), so uploads
+ * can be resumed after a page reload
+ */
+export function createWebStorageUploadStore(storage: KeyValueStorage, prefix = 'filbridge:upload:'): ResumableUploadStore {
+    return {
+        get: (key) => storage.getItem(prefix + key),
+        set: (key, uploadUrl) => storage.setItem(prefix + key, uploadUrl),
+        remove: (key) => storage.removeItem(prefix + key),
+    };
+}
+
+/**
+ * localStorage when running in a browser, otherwise an in-memory store.
+ * Pass your own store to resume across Node.js process restarts.
+ */
+export function defaultUploadStore(): ResumableUploadStore {
+    const storage = (globalThis as { localStorage?: KeyValueStorage }).localStorage;
+    return storage ? createWebStorageUploadStore(storage) : createMemoryUploadStore();
+}
+
+/**
+ * SHA-256 over the SHA-256 of each 5 MiB segment of the file, read one segment at a
+ * time. Part of the default resume fingerprint, so a file changed in place starts a
+ * new upload instead of continuing one made of the old bytes.
+ */
+export async function hashUploadContent(blob: Blob): Promise<string> {
+    const segmentHashes = new Uint8Array(Math.max(1, Math.ceil(blob.size / DEFAULT_RESUMABLE_CHUNK_SIZE)) * 32);
+    for (let offset = 0, i = 0; offset < blob.size || i === 0; offset += DEFAULT_RESUMABLE_CHUNK_SIZE, i++) {
+        const segment = await blob.slice(offset, offset + DEFAULT_RESUMABLE_CHUNK_SIZE).arrayBuffer();
+        segmentHashes.set(new Uint8Array(await crypto.subtle.digest('SHA-256', segment)), i * 32);
+    }
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', segmentHashes));
+    return Array.from(digest, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Encode a tus Upload-Metadata header
+ */
+export function encodeUploadMetadata(metadata: Record<string, string>): string {
+    return Object.entries(metadata)
+        .map(([key, value]) => `${key} ${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}`)
+        .join(',');
+}
@@ -1,11 +1,27 @@
 import type { PublicClient, WalletClient } from 'viem';
+import type { StoragePrices } from './constants.js';
 
 export interface SynapseStorageConfig {
     backendUrl: string;
     backendFilecoinAddress?: `0x${string}`;  // Backend wallet address for bridge payments
+    bridgeChainId?: number;  // Filecoin chain bridge payments go to; must match the backend's BRIDGE_CHAIN_ID (default: 314)
     walletClient?: WalletClient;
     publicClient?: PublicClient;
     routerAddress?: `0x${string}`;
+    sessionToken?: string;  // Previously issued session token (see SynapseStorageClient.login)
+    apiKey?: string;  // API key sent with every request, for use without a wallet (see createApiKey)
+}
+
+export interface AuthSession {
+    token: string;
+    address: string;
+    expiresAt: number;
+}
+
+export interface LoginParams {
+    domain?: string;  // Defaults to the backend host
+    uri?: string;  // Defaults to the backend URL
+    statement?: string;
 }
 
 export interface UploadFileParams {
@@ -13,15 +29,182 @@ export interface UploadFileParams {
     fileName: string;
     userAddress: `0x${string}`;
     storageDurationDays: number;  // Storage duration in days
+    quoteId?: string;  // Quote to pay with, see getQuote() (default: a fresh quote is requested)
+    encrypt?: boolean;  // Encrypt in the client with a key from a wallet signature; needs walletClient (default: false)
+    visibility?: FileVisibility;  // Default: private
+    orgId?: string;  // Organization that pays from its pool and owns the file; needs the uploader role or above
+}
+
+/**
+ * How an encrypted file was encrypted, stored with the file record. Holds the data
+ * key only in wrapped form; see buildEncryptionKeyMessage().
+ */
+export interface EncryptionEnvelope {
+    version: 1;
+    algorithm: 'AES-256-GCM-SEGMENTED';
+    segmentSize: number;  // Plaintext bytes per segment; each ciphertext segment adds a 16-byte tag
+    plaintextSize: number;
+    noncePrefix: string;  // Base64
+    keyWrap: {
+        algorithm: 'AES-KW-HKDF-SHA256';
+        signer: `0x${string}`;  // Wallet whose signature derives the wrapping key
+        salt: string;  // Base64 HKDF salt
+        wrappedKey: string;  // Base64 AES-KW wrapped data key
+    };
+}
+
+export interface BatchUploadFile {
+    file: File | Uint8Array | Buffer;
+    fileName: string;
+}
+
+export interface UploadFilesParams {
+    files: BatchUploadFile[];
+    userAddress: `0x${string}`;
+    storageDurationDays: number;  // Storage duration in days, for every file
+    batchSize?: number;  // Files per request (default: 100, the backend allows up to MAX_BATCH_FILES)
+    concurrency?: number;  // Requests in flight at once (default: 2)
+    visibility?: FileVisibility;  // For every file (default: private)
+    orgId?: string;  // Organization that pays for and owns every file
+}
+
+export type BatchFileResult =
+    | { fileName: string; fileId: string; status: 'queued'; storageCost: string }
+    | { fileName: string; fileId: null; status: 'failed'; error: string };
+
+export interface BatchUploadResult {
+    queued: number;
+    failed: number;
+    storageCost: string;  // Total for the queued files, in USDFC wei
+    files: BatchFileResult[];  // In the order the files were given
+}
+
+export interface DirectoryUploadFile {
+    path: string;  // Relative path inside the directory, '/'-separated (e.g. 'assets/logo.png')
+    file: File | Uint8Array | Buffer;
+}
+
+export interface UploadDirectoryParams {
+    files: DirectoryUploadFile[];
+    directoryName?: string;  // Name shown in file lists (default: 'directory')
+    userAddress: `0x${string}`;
+    storageDurationDays: number;
+    visibility?: FileVisibility;  // Default: private
+    orgId?: string;  // Organization that pays for and owns the directory
+}
+
+export interface DirectoryUploadResult extends UploadResult {
+    rootCid: string;  // UnixFS root CID of the directory
+    carSize: number;  // Bytes of the packed CAR, which is what is stored and charged for
+    fileCount: number;
+}
+
+/**
+ * Where uploadFileResumable remembers upload URLs between attempts.
+ * Use a persistent store to resume after a process restart.
+ */
+export interface ResumableUploadStore {
+    get(key: string): Promise<string | null> | string | null;
+    set(key: string, uploadUrl: string): Promise<void> | void;
+    remove(key: string): Promise<void> | void;
 }
 
+// Resumable uploads are stored private; change it afterwards with setFileVisibility()
+export interface ResumableUploadParams extends Omit<UploadFileParams, 'encrypt' | 'visibility'> {
+    chunkSize?: number;  // Bytes per request (default: 5 MiB)
+    store?: ResumableUploadStore;  // Default: localStorage in browsers, in-memory elsewhere
+    fingerprint?: string;  // Store key for this file (default: derived from address, name, size, a hash of the content and duration)
+    maxRetries?: number;  // Consecutive failed chunks before giving up (default: 5)
+    onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+}
+
+/**
+ * Prices the backend currently charges, see SynapseStorageClient.getPricing()
+ */
+export interface StoragePricing extends StoragePrices {
+    synapseRatePerTiBPerEpoch: bigint;  // Synapse storage rate without CDN
+    cdnSurchargePerTiBPerEpoch: bigint;  // Extra Synapse rate for CDN-enabled storage
+    marginBps: number;  // Operator margin on the rate, in basis points
+    epochsPerDay: number;
+    epochDurationSeconds: number;
+    source: 'synapse' | 'placeholder';  // placeholder until the backend has read live prices
+    updatedAt: number | null;
+}
+
+export interface GetQuoteParams {
+    fileSize: number;  // Bytes
+    storageDurationDays: number;
+}
+
+/**
+ * A price for storing a file, signed by the backend wallet. Passing quoteId to
+ * uploadFile() before expiresAt charges exactly totalCost.
+ */
+export interface StorageQuote {
+    quoteId: string;
+    fileSize: number;
+    storageDurationDays: number;
+    breakdown: {
+        rateCost: string;  // USDFC wei for the storage period
+        lockupCost: string;  // USDFC wei paid upfront, refunded when the file is deleted
+        pieceSize: number;  // Bytes the file occupies as a Filecoin piece
+        paddingBytes: number;  // pieceSize - fileSize; not charged
+    };
+    totalCost: string;  // USDFC wei
+    expiresAt: number;  // ms timestamp
+    signature: `0x${string}`;  // EIP-191 signature over the quote terms
+    signer: `0x${string}`;  // Backend wallet that signed the quote
+}
+
+export type UploadStatus = 'queued' | 'hashing' | 'uploading' | 'stored' | 'failed';
+
 export interface UploadResult {
     fileId: string;
-    status: 'completed';
+    status: UploadStatus;
     message: string;
     storageCost: string;  // Cost in USDFC wei
 }
 
+export interface UploadJobStatus {
+    fileId: string;
+    status: UploadStatus;
+    fileName: string | null;
+    fileSize: number | null;
+    commp: string | null;
+    attempts: number;
+    error: string | null;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface WaitForUploadOptions {
+    timeoutMs?: number;  // Give up after this long (default: 30 minutes)
+    initialIntervalMs?: number;  // First poll delay (default: 2s)
+    maxIntervalMs?: number;  // Backoff cap (default: 30s)
+    onProgress?: (status: UploadJobStatus) => void;
+}
+
+export interface DownloadFileOptions {
+    path?: string;  // A file inside a directory upload; range is not supported with it
+    // Encrypted files are decrypted with a walletClient signature; range is not supported for them
+    range?: {
+        start: number;  // First byte, zero-based
+        end?: number;  // Last byte, inclusive (default: end of file)
+    };
+}
+
+/**
+ * Where a stored file is in its paid storage period
+ */
+export type FileStatus = 'active' | 'expiring_soon' | 'expired' | 'deleted';
+
+/**
+ * Who can download a file by its CommP: private files only the owner and addresses
+ * added with addFileReader(), unlisted files anyone, and public files anyone, also
+ * appearing in listPublicFiles()
+ */
+export type FileVisibility = 'private' | 'public' | 'unlisted';
+
 export interface UserFile {
     id: string;
     fileName: string;
@@ -32,6 +215,238 @@ export interface UserFile {
     storageDurationDays: number;
     storageCost: string;
     uploadedAt: number | null;
+    expiresAt: number | null;  // End of the paid storage period (ms), null until stored
+    status: FileStatus;
+    visibility: FileVisibility;
+    rootCid: string | null;  // UnixFS root for directory uploads, whose piece is the CAR
+    encryption: EncryptionEnvelope | null;  // Set when the file was encrypted by the client; fileSize and fileHash are of the ciphertext
+    orgId: string | null;  // Organization that owns the file, null for personal files
+    uploadedBy: string;  // Address that uploaded it
+}
+
+export interface DirectoryEntry {
+    name: string;
+    path: string;  // From the directory root
+    kind: 'file' | 'directory';
+    cid: string;
+    size: number;  // Content bytes; for directories, of everything below
+}
+
+export interface DirectoryListing {
+    fileId: string;
+    rootCid: string;
+    path: string;  // '' for the root
+    cid: string;
+    entries: DirectoryEntry[];
+}
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListFilesOptions {
+    namePrefix?: string;       // Case-insensitive file name prefix
+    minSize?: number;          // Bytes, inclusive
+    maxSize?: number;          // Bytes, inclusive
+    uploadedAfter?: number;    // ms timestamp, inclusive
+    uploadedBefore?: number;   // ms timestamp, exclusive
+    visibility?: FileVisibility;
+    sort?: 'uploadedAt' | 'fileName' | 'fileSize' | 'expiresAt';  // Default uploadedAt
+    order?: SortOrder;         // Default desc
+    limit?: number;            // Files per page, 1-200 (default 50)
+    cursor?: string;           // nextCursor of the previous page
+}
+
+export interface FilePage {
+    files: UserFile[];
+    nextCursor: string | null;  // Null on the last page
+}
+
+export interface ExtendStorageParams {
+    fileId: string;
+    additionalDays: number;
+}
+
+export interface ExtendStorageResult {
+    fileId: string;
+    additionalDays: number;
+    cost: string;  // USDFC wei charged, without lockup
+    storageDurationDays: number;  // Total paid duration after the extension
+    expiresAt: number;
+    newBalance: string;
+}
+
+export interface DeleteFileResult {
+    fileId: string;
+    status: 'deleted';
+    refund: string;  // USDFC wei returned to credits: unused storage days plus the lockup
+    newBalance: string;
+    transactionHash: string | null;  // Piece removal transaction; null if other files still share the piece
+}
+
+export interface FileReader {
+    address: `0x${string}`;
+    addedAt: number;
+}
+
+export interface CreateShareLinkParams {
+    expiresInHours?: number;  // Default and maximum are set by the backend (7 and 30 days by default)
+    maxDownloads?: number;  // Default: unlimited until the link expires
+}
+
+export interface ShareLink {
+    id: string;
+    fileId: string;
+    status: 'active' | 'revoked' | 'expired' | 'exhausted';
+    expiresAt: number;
+    maxDownloads: number | null;
+    downloadCount: number;  // Every GET of the link counts, including range requests
+    revokedAt: number | null;
+    createdAt: number;
+}
+
+export interface CreatedShareLink extends ShareLink {
+    token: string;  // Only returned when the link is created
+    url: string;  // Anyone with this URL can download the file without signing in
+}
+
+/**
+ * Where an upload is: received and queued, re-hashing the spooled bytes, sending
+ * them to the storage provider, waiting for the piece to be added on-chain, and
+ * stored, waiting to be retried or failed for good
+ */
+export type UploadStage = 'queued' | 'hashing' | 'uploading' | 'confirming' | 'stored' | 'retrying' | 'failed';
+
+export interface UploadProgressEvent {
+    type: 'upload';
+    fileId: string;
+    fileName: string;
+    stage: UploadStage;
+    bytesProcessed: number;  // Hashed while hashing; the provider reports no progress, so 0 while uploading and all bytes from confirming on
+    totalBytes: number;
+    attempt: number | null;  // Null while queued
+    error: string | null;  // Why the attempt failed, when retrying or failed
+    nextAttemptAt: number | null;  // When retrying
+    commp: string | null;  // When stored
+}
+
+export interface BridgeStatusEvent {
+    type: 'bridge';
+    bridgeRequestId: `0x${string}`;
+    status: 'pending' | 'credited' | 'rejected';  // Outcome of a fundCredits() claim
+    amount: string | null;  // USDFC wei credited
+    reason: string | null;  // Why the deposit is pending or was rejected
+}
+
+export interface BalanceChangeEvent {
+    type: 'balance';
+    balance: string;  // New balance in USDFC wei
+    change: string;  // Signed difference to the previous balance
+    orgId?: string;  // Set when the change is to an organization's pool
+}
+
+/**
+ * Events delivered by subscribe()
+ */
+export type StorageEvent = UploadProgressEvent | BridgeStatusEvent | BalanceChangeEvent;
+
+export interface SubscribeOptions {
+    onOpen?: () => void;  // Called on every (re)connect; re-read state that may have changed while disconnected
+    onError?: (error: Error) => void;  // Connection problems; the subscription keeps reconnecting unless the session is gone
+    reconnectDelayMs?: number;  // Default: what the backend asks for (5 seconds)
+}
+
+export interface EventSubscription {
+    close(): void;
+}
+
+/**
+ * Events a webhook can subscribe to
+ */
+export type WebhookEvent =
+    | 'upload.stored'
+    | 'upload.failed'
+    | 'credits.deposited'
+    | 'credits.low_balance'
+    | 'file.expiring';
+
+export interface CreateWebhookParams {
+    url: string;  // http(s) endpoint the signed events are POSTed to
+    events: WebhookEvent[];
+    description?: string;
+}
+
+/**
+ * What an API key may do: upload files, read files, balances and usage, and claim
+ * bridge deposits. Everything else, including managing keys, needs a session.
+ */
+export type ApiKeyScope = 'upload' | 'read' | 'fund';
+
+export interface CreateApiKeyParams {
+    name: string;
+    scopes: ApiKeyScope[];
+    expiresInDays?: number;  // Never expires when omitted
+}
+
+export interface ApiKey {
+    id: string;
+    name: string;
+    prefix: string;  // Start of the key, to tell keys apart
+    scopes: ApiKeyScope[];
+    createdAt: number;
+    expiresAt: number | null;
+    lastUsedAt: number | null;
+    revokedAt: number | null;
+}
+
+export interface CreatedApiKey extends ApiKey {
+    key: string;  // Pass as SynapseStorageConfig.apiKey; only returned when the key is created
+}
+
+export interface Webhook {
+    id: string;
+    url: string;
+    events: WebhookEvent[];
+    description: string | null;
+    createdAt: number;
+}
+
+export interface CreatedWebhook extends Webhook {
+    secret: string;  // Signing secret for verifyWebhookSignature(); only returned when the webhook is created
+}
+
+/**
+ * The JSON body of a webhook request
+ */
+export interface WebhookPayload<T = Record<string, unknown>> {
+    id: string;  // Event id, the same for every webhook the event went to
+    type: WebhookEvent;
+    createdAt: number;
+    data: T;
+}
+
+export interface WebhookDelivery {
+    id: string;  // Sent as the X-Webhook-Id header; stays the same across retries
+    eventId: string;
+    event: WebhookEvent;
+    status: 'pending' | 'delivered' | 'failed';
+    attempts: number;
+    nextAttemptAt: number | null;  // Next retry while pending
+    responseStatus: number | null;  // HTTP status of the last attempt
+    error: string | null;  // Why the last attempt failed
+    payload: WebhookPayload;
+    createdAt: number;
+    deliveredAt: number | null;
+}
+
+export interface ListWebhookDeliveriesOptions {
+    status?: WebhookDelivery['status'];
+    order?: SortOrder;         // Default desc
+    limit?: number;            // Deliveries per page, 1-200 (default 50)
+    cursor?: string;           // nextCursor of the previous page
+}
+
+export interface WebhookDeliveryPage {
+    deliveries: WebhookDelivery[];
+    nextCursor: string | null;  // Null on the last page
 }
 
 export interface BackendStatus {
@@ -45,34 +460,114 @@ export interface BackendStatus {
 
 export interface BridgeDepositResult {
     bridgeRequestId: `0x${string}`;
+    amountOut: bigint;  // USDFC wei delivered to the backend wallet, from the fulfillment receipt or else the bridge request
+}
+
+/**
+ * Limits the backend applies to the session and how much of each is used.
+ * A null limit means unlimited. Exceeding one fails requests with 429 (wait until
+ * the reset) or, for storedBytes, 403 until files are deleted.
+ */
+export interface Usage {
+    requests: { limit: number | null; remaining: number | null; resetAt: number | null };  // Per minute
+    concurrentUploads: { limit: number | null; active: number };
+    dailyUploadBytes: { limit: number | null; used: number; resetAt: number };  // Resets at UTC midnight
+    storedBytes: { limit: number | null; used: number };
 }
 
 // Credit-related types
 export interface CreditBalance {
     address: string;
-    balance: string;  // USDFC wei as string
+    balance: string;  // USDFC wei as string (available to spend)
+    heldBalance?: string;  // USDFC wei reserved by uploads still in progress
 }
 
 export interface CreditTransaction {
     id: string;
-    type: 'deposit' | 'deduct';
+    type: 'deposit' | 'deduct' | 'refund';
     amount: string;
     fileId: string | null;
     bridgeRequestId: string | null;
     description: string;
+    memberAddress: string | null;  // For organization credits, the member who spent or deposited
     createdAt: number;
 }
 
+export interface CreditHistoryOptions {
+    type?: CreditTransaction['type'];
+    createdAfter?: number;     // ms timestamp, inclusive
+    createdBefore?: number;    // ms timestamp, exclusive
+    sort?: 'createdAt' | 'amount';  // Default createdAt
+    order?: SortOrder;         // Default desc
+    limit?: number;            // Transactions per page, 1-200 (default 50)
+    cursor?: string;           // nextCursor of the previous page
+}
+
+export interface CreditHistoryPage {
+    transactions: CreditTransaction[];
+    nextCursor: string | null;  // Null on the last page
+}
+
 export interface FundCreditsParams {
     amount: bigint;  // USDFC wei to deposit
     userAddress: `0x${string}`;
+    orgId?: string;  // Credit an organization's pool instead of userAddress
     sourceChainId: number;
     sourceTokenSymbol: 'USDT' | 'RUSD';
+    onProgress?: (progress: FundCreditsProgress) => void;
 }
 
+/**
+ * Where fundCredits() is: sending the swap on the source chain, waiting for the
+ * bridge to deliver on Filecoin, and having the backend verify and credit it
+ */
+export type FundCreditsProgress =
+    | { stage: 'bridging' }
+    | { stage: 'waiting'; bridgeRequestId: `0x${string}`; elapsed: number; executed: boolean; fulfilled: boolean }
+    | { stage: 'claiming'; bridgeRequestId: `0x${string}` };
+
 export interface FundCreditsResult {
     bridgeRequestId: `0x${string}`;
     amountFunded: string;
     newBalance: string;
 }
 
+// Organization types
+
+/**
+ * Owners and admins manage members and the organization's files; uploaders also
+ * spend from the pool; viewers only read. Every member may fund the pool.
+ */
+export type OrganizationRole = 'owner' | 'admin' | 'uploader' | 'viewer';
+
+export interface Organization {
+    id: string;
+    name: string;
+    createdBy: string;
+    createdAt: number;
+    role: OrganizationRole;  // The caller's role
+    spendingLimit: string | null;  // The caller's limit in USDFC wei per UTC month, null for none
+}
+
+export interface OrganizationDetails extends Organization {
+    balance: string;  // Pooled USDFC wei available to spend
+    heldBalance: string;  // USDFC wei reserved by uploads still in progress
+    spentThisMonth: string;  // By the caller, this UTC month
+}
+
+export interface OrganizationMember {
+    address: string;
+    role: OrganizationRole;
+    spendingLimit: string | null;  // USDFC wei per UTC month, null for none
+    spentThisMonth?: string;  // Only in member lists
+    addedAt: number;
+}
+
+export interface SetOrganizationMemberParams {
+    role?: OrganizationRole;  // Required when adding a member
+    spendingLimit?: string | null;  // USDFC wei per UTC month; null removes the limit
+}
+
+export interface OrganizationCreditHistoryOptions extends CreditHistoryOptions {
+    member?: `0x${string}`;  // Only transactions made by this member
+}
@@ -0,0 +1,67 @@
+/**
+ * Verifying webhook requests from the backend
+ *
+ * Every delivery carries an X-Webhook-Signature header of the form
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256>`, where the HMAC is keyed with the
+ * webhook's secret and computed over `${t}.${rawBody}`.
+ */
+
+import type { WebhookPayload } from './types.js';
+
+/**
+ * Default age after which a signed request is rejected, to limit replays (5 minutes)
+ */
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export interface VerifyWebhookOptions {
+    toleranceSeconds?: number;
+    now?: number;  // ms timestamp to check the signature time against (default: Date.now())
+}
+
+function toHex(bytes: ArrayBuffer): string {
+    return Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Check a webhook request against the secret returned by createWebhook() and parse
+ * its body. rawBody must be the exact bytes received, before any JSON parsing.
+ * Throws if the signature is missing, wrong or too old.
+ */
+export async function verifyWebhookSignature<T = Record<string, unknown>>(
+    secret: string,
+    rawBody: string,
+    signatureHeader: string | null | undefined,
+    options: VerifyWebhookOptions = {}
+): Promise<WebhookPayload<T>> {
+    const parts = new Map(
+        (signatureHeader ?? '').split(',').map((part) => {
+            const index = part.indexOf('=');
+            return [part.slice(0, index).trim(), part.slice(index + 1).trim()] as const;
+        })
+    );
+    const timestamp = Number(parts.get('t'));
+    const signature = parts.get('v1');
+    if (!Number.isSafeInteger(timestamp) || !signature) {
+        throw new Error('Malformed webhook signature header');
+    }
+
+    const toleranceSeconds = options.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+    if (Math.abs((options.now ?? Date.now()) / 1000 - timestamp) > toleranceSeconds) {
+        throw new Error('Webhook signature has expired');
+    }
+
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const expected = toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${rawBody}`)));
+
+    // Compare in full so timing doesn't reveal how much of the signature matched
+    let difference = expected.length ^ signature.length;
+    for (let i = 0; i < expected.length; i++) {
+        difference |= expected.charCodeAt(i) ^ (signature.charCodeAt(i) || 0);
+    }
+    if (difference !== 0) {
+        throw new Error('Invalid webhook signature');
+    }
+
+    return JSON.parse(rawBody) as WebhookPayload<T>;
+}
@@ -5,9 +5,12 @@
  * Usage: tsx check-credits.ts [user_address]
  * 
  * If no address is provided, uses USER_ADDRESS env variable or BASE_SEPOLIA_PRIVATE_KEY to derive address.
+ * BASE_SEPOLIA_PRIVATE_KEY is required to sign in, and must belong to the address being checked.
  */
 
+import { createWalletClient, http } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
+import { baseSepolia } from 'viem/chains';
 import { SynapseStorageClient } from '../sdk/dist/synapse/index.js';
 import dotenv from 'dotenv';
 
@@ -44,10 +47,29 @@ async function main() {
     console.log(`👤 User: ${userAddress}`);
     console.log(`🔗 Backend: ${BACKEND_URL}\n`);
 
+    if (!process.env.BASE_SEPOLIA_PRIVATE_KEY) {
+        console.error('❌ Error: BASE_SEPOLIA_PRIVATE_KEY is required to sign in');
+        process.exit(1);
+    }
+
+    const walletClient = createWalletClient({
+        account: privateKeyToAccount(process.env.BASE_SEPOLIA_PRIVATE_KEY as `0x${string}`),
+        chain: baseSepolia,
+        transport: http(),
+    });
+
     const storage = new SynapseStorageClient({
         backendUrl: BACKEND_URL,
+        walletClient,
     });
 
+    try {
+        await storage.login();
+    } catch (error) {
+        console.error(`❌ Sign-in failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        process.exit(1);
+    }
+
     // Get balance
     console.log('⏳ Fetching credit balance...');
     try {
@@ -83,6 +83,16 @@ async function main() {
         routerAddress,
     });
 
+    // Sign in so the backend credits this wallet
+    console.log('⏳ Signing in...');
+    try {
+        await storage.login();
+        console.log('✓ Signed in\n');
+    } catch (error) {
+        console.error(`❌ Sign-in failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        process.exit(1);
+    }
+
     // Convert to wei (18 decimals)
     const amountWei = parseUnits(amountUSDFC.toString(), 18);
     console.log(`📊 Amount in wei: ${amountWei.toString()}\n`);
@@ -100,7 +110,7 @@ async function main() {
     console.log('⏳ Funding credits (this will take ~30-60 seconds)...');
     console.log('   1. Bridging tokens from Base to Filecoin');
     console.log('   2. Waiting for bridge completion');
-    console.log('   3. Crediting your account\n');
+    console.log('   3. Backend verifies the deposit on Filecoin and credits your account\n');
 
     try {
         const result = await storage.fundCredits({
@@ -1,4 +1,7 @@
 import dotenv from 'dotenv';
+import { createWalletClient, http } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { baseSepolia } from 'viem/chains';
 import { SynapseStorageClient } from '../sdk/dist/synapse/index.js';
 
 dotenv.config();
@@ -8,6 +11,8 @@ dotenv.config();
 // ============================================================================
 const CONFIG = {
     BACKEND_URL: process.env.BACKEND_URL || 'http://localhost:3001',
+    // Needed to sign in; must belong to the address being listed
+    PRIVATE_KEY: process.env.BASE_SEPOLIA_PRIVATE_KEY as `0x${string}` | undefined,
 };
 
 // Usage: tsx list-files.ts <userAddress>
@@ -24,11 +29,24 @@ async function main() {
     console.log('Listing files for user:', userAddress);
     console.log('Backend:', CONFIG.BACKEND_URL);
 
+    if (!CONFIG.PRIVATE_KEY) {
+        console.error('BASE_SEPOLIA_PRIVATE_KEY is required to sign in');
+        process.exit(1);
+    }
+
+    const walletClient = createWalletClient({
+        account: privateKeyToAccount(CONFIG.PRIVATE_KEY),
+        chain: baseSepolia,
+        transport: http(),
+    });
+
     const storage = new SynapseStorageClient({
         backendUrl: CONFIG.BACKEND_URL,
+        walletClient,
     });
 
     try {
+        await storage.login();
         const files = await storage.listFiles(userAddress);
         console.log(`Found ${files.length} file(s).\n`);
 
@@ -2,17 +2,21 @@
  * Upload File Script
  * 
  * Uploads a file to Filecoin using credits from your account.
- * Usage: tsx upload-file.ts <filePath> [storage_duration_days]
+ * Usage: tsx upload-file.ts <filePath> [storage_duration_days] [--resumable]
  * Example: tsx upload-file.ts ./test-upload.json 30
  * 
  * Default storage duration: 30 days
+ * With --resumable the file is sent in chunks; if the script is interrupted,
+ * running it again with the same file continues where it stopped.
  */
 
 import dotenv from 'dotenv';
-import { readFileSync } from 'node:fs';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
 import path from 'node:path';
+import { createWalletClient, http } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
-import { SynapseStorageClient } from '../sdk/dist/synapse/index.js';
+import { baseSepolia } from 'viem/chains';
+import { SynapseStorageClient, type ResumableUploadStore } from '../sdk/dist/synapse/index.js';
 
 dotenv.config();
 
@@ -20,15 +24,35 @@ dotenv.config();
 const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:3001';
 const PRIVATE_KEY = process.env.BASE_SEPOLIA_PRIVATE_KEY as `0x${string}` | undefined;
 const DEFAULT_STORAGE_DAYS = 30;
+const RESUMABLE_STATE_FILE = '.resumable-uploads.json';
+
+// Keeps resumable upload URLs on disk so a restarted script can pick them up
+const fileStore: ResumableUploadStore = {
+  get(key) {
+    if (!existsSync(RESUMABLE_STATE_FILE)) return null;
+    return JSON.parse(readFileSync(RESUMABLE_STATE_FILE, 'utf8'))[key] ?? null;
+  },
+  set(key, uploadUrl) {
+    const state = existsSync(RESUMABLE_STATE_FILE) ? JSON.parse(readFileSync(RESUMABLE_STATE_FILE, 'utf8')) : {};
+    writeFileSync(RESUMABLE_STATE_FILE, JSON.stringify({ ...state, [key]: uploadUrl }, null, 2));
+  },
+  remove(key) {
+    if (!existsSync(RESUMABLE_STATE_FILE)) return;
+    const state = JSON.parse(readFileSync(RESUMABLE_STATE_FILE, 'utf8'));
+    delete state[key];
+    writeFileSync(RESUMABLE_STATE_FILE, JSON.stringify(state, null, 2));
+  },
+};
 
 async function main() {
-  const args = process.argv.slice(2);
+  const resumable = process.argv.includes('--resumable');
+  const args = process.argv.slice(2).filter((arg) => arg !== '--resumable');
   const filePath = args[0];
   const storageDurationDays = args[1] ? parseInt(args[1]) : DEFAULT_STORAGE_DAYS;
 
   if (!filePath) {
     console.error('❌ Error: File path required');
-    console.log('\nUsage: tsx upload-file.ts <filePath> [storage_duration_days]');
+    console.log('\nUsage: tsx upload-file.ts <filePath> [storage_duration_days] [--resumable]');
     console.log('Example: tsx upload-file.ts ./test-upload.json 30');
     console.log('\nDefault storage duration: 30 days');
     process.exit(1);
@@ -61,10 +85,27 @@ async function main() {
   console.log(`⏱️  Storage: ${storageDurationDays} days`);
   console.log(`🔗 Backend: ${BACKEND_URL}\n`);
 
+  const walletClient = createWalletClient({
+    account,
+    chain: baseSepolia,
+    transport: http(),
+  });
+
   const storage = new SynapseStorageClient({
     backendUrl: BACKEND_URL,
+    walletClient,
   });
 
+  // Sign in so the backend can bind requests to this wallet
+  console.log('⏳ Signing in...');
+  try {
+    await storage.login();
+    console.log('✓ Signed in\n');
+  } catch (error) {
+    console.error(`❌ Sign-in failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+
   // Calculate and display estimated cost
   const estimatedCost = storage.calculateStorageCost(fileSize, storageDurationDays);
   const costUSDFC = Number(estimatedCost / BigInt(10 ** 16)) / 100;
@@ -95,20 +136,33 @@ async function main() {
   }
 
   // Upload file
-  console.log('\n⏳ Uploading file...');
+  console.log(`\n⏳ Uploading file${resumable ? ' (resumable)' : ''}...`);
   try {
-    const result = await storage.uploadFile({
+    const params = {
       file: fileData,
       fileName,
       userAddress: account.address,
       storageDurationDays,
+    };
+    const result = resumable
+      ? await storage.uploadFileResumable({
+        ...params,
+        store: fileStore,
+        onProgress: (uploaded, total) => console.log(`   Sent ${uploaded} / ${total} bytes`),
+      })
+      : await storage.uploadFile(params);
+
+    console.log(`✓ Upload queued (file ID: ${result.fileId})`);
+    console.log('⏳ Waiting for upload to be stored on Filecoin...');
+
+    const stored = await storage.waitForUpload(result.fileId, {
+      onProgress: (status) => console.log(`   Status: ${status.status}`),
     });
 
     console.log('\n✅ Upload successful!');
     console.log(`   File ID: ${result.fileId}`);
-    console.log(`   Status: ${result.status}`);
+    console.log(`   CommP: ${stored.commp}`);
     console.log(`   Cost: ${result.storageCost} wei`);
-    console.log(`   Message: ${result.message}`);
 
     // Show remaining balance
     const newBalance = await storage.getCreditBalance(account.address);